@@ -0,0 +1,71 @@
+-- CreateTable
+CREATE TABLE "lead_forms" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "token" TEXT NOT NULL,
+    "field_mapping" JSONB,
+    "allowed_origins" TEXT,
+    "redirect_url" TEXT,
+    "honeypot_field" TEXT NOT NULL DEFAULT 'website_url',
+    "rate_limit_per_hour" INTEGER NOT NULL DEFAULT 5,
+    "default_assignee_id" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "lead_forms_default_assignee_id_fkey" FOREIGN KEY ("default_assignee_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "lead_forms_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "lead_form_submissions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "form_id" TEXT NOT NULL,
+    "lead_id" TEXT,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'ACCEPTED',
+    "payload" JSONB,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "lead_form_submissions_form_id_fkey" FOREIGN KEY ("form_id") REFERENCES "lead_forms" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_leads" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "company" TEXT,
+    "phone" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'WEBSITE',
+    "score" TEXT NOT NULL DEFAULT 'COLD',
+    "status" TEXT NOT NULL DEFAULT 'NEW',
+    "assigned_to" TEXT,
+    "notes" TEXT,
+    "converted_to_client_id" TEXT,
+    "form_id" TEXT,
+    "utm_source" TEXT,
+    "utm_medium" TEXT,
+    "utm_campaign" TEXT,
+    "utm_term" TEXT,
+    "utm_content" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "leads_assigned_to_fkey" FOREIGN KEY ("assigned_to") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "leads_form_id_fkey" FOREIGN KEY ("form_id") REFERENCES "lead_forms" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_leads" ("assigned_to", "company", "converted_to_client_id", "created_at", "email", "id", "name", "notes", "phone", "score", "source", "status", "updated_at") SELECT "assigned_to", "company", "converted_to_client_id", "created_at", "email", "id", "name", "notes", "phone", "score", "source", "status", "updated_at" FROM "leads";
+DROP TABLE "leads";
+ALTER TABLE "new_leads" RENAME TO "leads";
+CREATE UNIQUE INDEX "leads_converted_to_client_id_key" ON "leads"("converted_to_client_id");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lead_forms_token_key" ON "lead_forms"("token");
+
+-- CreateIndex
+CREATE INDEX "lead_form_submissions_ip_address_created_at_idx" ON "lead_form_submissions"("ip_address", "created_at");
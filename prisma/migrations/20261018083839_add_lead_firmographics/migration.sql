@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "leads" ADD COLUMN "company_size" INTEGER;
+ALTER TABLE "leads" ADD COLUMN "industry" TEXT;
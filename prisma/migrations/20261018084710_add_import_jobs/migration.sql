@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "import_jobs" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "entity_type" TEXT NOT NULL,
+    "file_name" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'COMPLETED',
+    "duplicate_policy" TEXT NOT NULL,
+    "mapping" JSONB NOT NULL,
+    "total_rows" INTEGER NOT NULL DEFAULT 0,
+    "created_count" INTEGER NOT NULL DEFAULT 0,
+    "updated_count" INTEGER NOT NULL DEFAULT 0,
+    "skipped_count" INTEGER NOT NULL DEFAULT 0,
+    "error_count" INTEGER NOT NULL DEFAULT 0,
+    "errors" JSONB,
+    "created_by" TEXT NOT NULL,
+    "undone_at" DATETIME,
+    "undone_by" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "import_jobs_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "import_job_records" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "job_id" TEXT NOT NULL,
+    "row_number" INTEGER NOT NULL,
+    "entity_id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "previous_data" JSONB,
+    CONSTRAINT "import_job_records_job_id_fkey" FOREIGN KEY ("job_id") REFERENCES "import_jobs" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "saved_reports" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "report_type" TEXT NOT NULL,
+    "definition" JSONB NOT NULL,
+    "format" TEXT NOT NULL DEFAULT 'json',
+    "is_public" BOOLEAN NOT NULL DEFAULT false,
+    "created_by" TEXT NOT NULL,
+    "last_run_at" DATETIME,
+    "run_count" INTEGER NOT NULL DEFAULT 0,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "saved_reports_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "saved_report_runs" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "report_id" TEXT NOT NULL,
+    "run_by" TEXT,
+    "format" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "row_count" INTEGER,
+    "duration_ms" INTEGER NOT NULL,
+    "error" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "saved_report_runs_report_id_fkey" FOREIGN KEY ("report_id") REFERENCES "saved_reports" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "saved_report_runs_run_by_fkey" FOREIGN KEY ("run_by") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "saved_reports" ADD COLUMN "next_run_at" DATETIME;
+
+-- CreateTable
+CREATE TABLE "report_deliveries" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "report_id" TEXT NOT NULL,
+    "run_id" TEXT,
+    "scheduled_for" DATETIME NOT NULL,
+    "recipients" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "file_name" TEXT,
+    "status" TEXT NOT NULL,
+    "message_id" TEXT,
+    "error" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "report_deliveries_report_id_fkey" FOREIGN KEY ("report_id") REFERENCES "saved_reports" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "report_deliveries_run_id_fkey" FOREIGN KEY ("run_id") REFERENCES "saved_report_runs" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "saved_reports_next_run_at_idx" ON "saved_reports"("next_run_at");
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "clients" ADD COLUMN "health_band" TEXT;
+ALTER TABLE "clients" ADD COLUMN "health_updated_at" DATETIME;
+
+-- CreateTable
+CREATE TABLE "client_health_snapshots" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "client_id" TEXT NOT NULL,
+    "date" DATETIME NOT NULL,
+    "score" INTEGER NOT NULL,
+    "band" TEXT NOT NULL,
+    "factors" JSONB NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "client_health_snapshots_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "client_health_snapshots_client_id_date_key" ON "client_health_snapshots"("client_id", "date");
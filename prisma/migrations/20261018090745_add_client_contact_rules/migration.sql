@@ -0,0 +1,70 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_client_contacts" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "client_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT,
+    "phone" TEXT,
+    "position" TEXT,
+    "is_primary" BOOLEAN NOT NULL DEFAULT false,
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "client_contacts_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_client_contacts" ("client_id", "created_at", "email", "id", "is_primary", "name", "phone", "position") SELECT "client_id", "created_at", "email", "id", "is_primary", "name", "phone", "position" FROM "client_contacts";
+DROP TABLE "client_contacts";
+ALTER TABLE "new_client_contacts" RENAME TO "client_contacts";
+CREATE TABLE "new_proposals" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "client_id" TEXT NOT NULL,
+    "project_id" TEXT,
+    "title" TEXT NOT NULL,
+    "content" TEXT,
+    "total_amount" REAL NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "valid_until" DATETIME,
+    "recipient_contact_id" TEXT,
+    "created_by" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "proposals_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "proposals_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "proposals_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "proposals_recipient_contact_id_fkey" FOREIGN KEY ("recipient_contact_id") REFERENCES "client_contacts" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_proposals" ("client_id", "content", "created_at", "created_by", "id", "project_id", "status", "title", "total_amount", "updated_at", "valid_until") SELECT "client_id", "content", "created_at", "created_by", "id", "project_id", "status", "title", "total_amount", "updated_at", "valid_until" FROM "proposals";
+DROP TABLE "proposals";
+ALTER TABLE "new_proposals" RENAME TO "proposals";
+CREATE TABLE "new_invoices" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "invoice_number" TEXT NOT NULL,
+    "client_id" TEXT NOT NULL,
+    "project_id" TEXT,
+    "proposal_id" TEXT,
+    "amount" REAL NOT NULL,
+    "tax_amount" REAL NOT NULL DEFAULT 0,
+    "total_amount" REAL NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "issue_date" DATETIME NOT NULL,
+    "due_date" DATETIME NOT NULL,
+    "paid_date" DATETIME,
+    "notes" TEXT,
+    "recipient_contact_id" TEXT,
+    "created_by" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "invoices_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "invoices_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "invoices_proposal_id_fkey" FOREIGN KEY ("proposal_id") REFERENCES "proposals" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "invoices_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "invoices_recipient_contact_id_fkey" FOREIGN KEY ("recipient_contact_id") REFERENCES "client_contacts" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_invoices" ("amount", "client_id", "created_at", "created_by", "due_date", "id", "invoice_number", "issue_date", "notes", "paid_date", "project_id", "proposal_id", "status", "tax_amount", "total_amount", "updated_at") SELECT "amount", "client_id", "created_at", "created_by", "due_date", "id", "invoice_number", "issue_date", "notes", "paid_date", "project_id", "proposal_id", "status", "tax_amount", "total_amount", "updated_at" FROM "invoices";
+DROP TABLE "invoices";
+ALTER TABLE "new_invoices" RENAME TO "invoices";
+CREATE UNIQUE INDEX "invoices_invoice_number_key" ON "invoices"("invoice_number");
+CREATE UNIQUE INDEX "invoices_proposal_id_key" ON "invoices"("proposal_id");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
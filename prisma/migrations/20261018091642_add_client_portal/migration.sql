@@ -0,0 +1,65 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_users" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "email" TEXT NOT NULL,
+    "password_hash" TEXT,
+    "name" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'MEMBER',
+    "department" TEXT,
+    "phone" TEXT,
+    "avatar_url" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "last_login" DATETIME,
+    "client_id" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "users_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_users" ("avatar_url", "created_at", "department", "email", "id", "is_active", "last_login", "name", "password_hash", "phone", "role", "updated_at") SELECT "avatar_url", "created_at", "department", "email", "id", "is_active", "last_login", "name", "password_hash", "phone", "role", "updated_at" FROM "users";
+DROP TABLE "users";
+ALTER TABLE "new_users" RENAME TO "users";
+CREATE UNIQUE INDEX "users_email_key" ON "users"("email");
+CREATE TABLE "new_project_resources" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "project_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "url" TEXT,
+    "file_path" TEXT,
+    "description" TEXT,
+    "shared_with_client" BOOLEAN NOT NULL DEFAULT false,
+    "created_by" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "project_resources_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "project_resources_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_project_resources" ("created_at", "created_by", "description", "file_path", "id", "name", "project_id", "type", "url") SELECT "created_at", "created_by", "description", "file_path", "id", "name", "project_id", "type", "url" FROM "project_resources";
+DROP TABLE "project_resources";
+ALTER TABLE "new_project_resources" RENAME TO "project_resources";
+CREATE TABLE "new_tasks" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "project_id" TEXT NOT NULL,
+    "assignee_id" TEXT,
+    "created_by" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'TODO',
+    "priority" TEXT NOT NULL DEFAULT 'MEDIUM',
+    "due_date" DATETIME,
+    "estimated_hours" REAL,
+    "actual_hours" REAL DEFAULT 0,
+    "completion_percentage" INTEGER NOT NULL DEFAULT 0,
+    "client_visible" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "tasks_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "tasks_assignee_id_fkey" FOREIGN KEY ("assignee_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "tasks_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_tasks" ("actual_hours", "assignee_id", "completion_percentage", "created_at", "created_by", "description", "due_date", "estimated_hours", "id", "priority", "project_id", "status", "title", "updated_at") SELECT "actual_hours", "assignee_id", "completion_percentage", "created_at", "created_by", "description", "due_date", "estimated_hours", "id", "priority", "project_id", "status", "title", "updated_at" FROM "tasks";
+DROP TABLE "tasks";
+ALTER TABLE "new_tasks" RENAME TO "tasks";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "proposal_views" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "proposal_id" TEXT NOT NULL,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "viewed_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "proposal_views_proposal_id_fkey" FOREIGN KEY ("proposal_id") REFERENCES "proposals" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_proposals" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "client_id" TEXT NOT NULL,
+    "project_id" TEXT,
+    "title" TEXT NOT NULL,
+    "content" TEXT,
+    "subtotal" REAL NOT NULL DEFAULT 0,
+    "tax_rate" REAL NOT NULL DEFAULT 0,
+    "tax_amount" REAL NOT NULL DEFAULT 0,
+    "discount_rate" REAL NOT NULL DEFAULT 0,
+    "discount_amount" REAL NOT NULL DEFAULT 0,
+    "total_amount" REAL NOT NULL,
+    "notes" TEXT,
+    "terms" TEXT,
+    "current_version" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "valid_until" DATETIME,
+    "share_token" TEXT,
+    "sent_at" DATETIME,
+    "first_viewed_at" DATETIME,
+    "last_viewed_at" DATETIME,
+    "view_count" INTEGER NOT NULL DEFAULT 0,
+    "responded_at" DATETIME,
+    "signature_name" TEXT,
+    "signature_ip" TEXT,
+    "rejection_reason" TEXT,
+    "recipient_contact_id" TEXT,
+    "created_by" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "proposals_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "proposals_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "proposals_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "proposals_recipient_contact_id_fkey" FOREIGN KEY ("recipient_contact_id") REFERENCES "client_contacts" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_proposals" ("client_id", "content", "created_at", "created_by", "current_version", "discount_amount", "discount_rate", "id", "notes", "project_id", "recipient_contact_id", "status", "subtotal", "tax_amount", "tax_rate", "terms", "title", "total_amount", "updated_at", "valid_until") SELECT "client_id", "content", "created_at", "created_by", "current_version", "discount_amount", "discount_rate", "id", "notes", "project_id", "recipient_contact_id", "status", "subtotal", "tax_amount", "tax_rate", "terms", "title", "total_amount", "updated_at", "valid_until" FROM "proposals";
+DROP TABLE "proposals";
+ALTER TABLE "new_proposals" RENAME TO "proposals";
+CREATE UNIQUE INDEX "proposals_share_token_key" ON "proposals"("share_token");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "proposal_views_proposal_id_viewed_at_idx" ON "proposal_views"("proposal_id", "viewed_at");
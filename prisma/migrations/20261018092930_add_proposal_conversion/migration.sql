@@ -0,0 +1,48 @@
+-- DropIndex
+DROP INDEX "invoices_proposal_id_key";
+
+-- AlterTable
+ALTER TABLE "proposals" ADD COLUMN "converted_at" DATETIME;
+
+-- CreateTable
+CREATE TABLE "project_templates" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "duration_days" INTEGER NOT NULL DEFAULT 30,
+    "priority" TEXT NOT NULL DEFAULT 'MEDIUM',
+    "tasks" JSONB NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "project_templates_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_projects" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "client_id" TEXT NOT NULL,
+    "manager_id" TEXT NOT NULL,
+    "budget" REAL,
+    "status" TEXT NOT NULL DEFAULT 'PLANNING',
+    "priority" TEXT NOT NULL DEFAULT 'MEDIUM',
+    "start_date" DATETIME,
+    "end_date" DATETIME,
+    "completion_percentage" INTEGER NOT NULL DEFAULT 0,
+    "template_id" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "projects_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "projects_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "project_templates" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "projects_manager_id_fkey" FOREIGN KEY ("manager_id") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_projects" ("budget", "client_id", "completion_percentage", "created_at", "description", "end_date", "id", "manager_id", "name", "priority", "start_date", "status", "updated_at") SELECT "budget", "client_id", "completion_percentage", "created_at", "description", "end_date", "id", "manager_id", "name", "priority", "start_date", "status", "updated_at" FROM "projects";
+DROP TABLE "projects";
+ALTER TABLE "new_projects" RENAME TO "projects";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,127 @@
+-- CreateTable
+CREATE TABLE "proposal_sections" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'OTHER',
+    "body" TEXT NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "proposal_sections_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "proposal_templates" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "title" TEXT NOT NULL,
+    "tax_rate" REAL NOT NULL DEFAULT 0,
+    "discount_rate" REAL NOT NULL DEFAULT 0,
+    "valid_days" INTEGER NOT NULL DEFAULT 30,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "proposal_templates_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "proposal_template_sections" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "template_id" TEXT NOT NULL,
+    "section_id" TEXT NOT NULL,
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+    CONSTRAINT "proposal_template_sections_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "proposal_templates" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "proposal_template_sections_section_id_fkey" FOREIGN KEY ("section_id") REFERENCES "proposal_sections" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "proposal_template_items" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "template_id" TEXT NOT NULL,
+    "price_list_item_id" TEXT,
+    "description" TEXT NOT NULL,
+    "quantity" REAL NOT NULL DEFAULT 1,
+    "unit_price" REAL,
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+    CONSTRAINT "proposal_template_items_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "proposal_templates" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "proposal_template_items_price_list_item_id_fkey" FOREIGN KEY ("price_list_item_id") REFERENCES "price_list_items" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "price_lists" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "price_lists_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "price_list_items" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "price_list_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "unit" TEXT,
+    "unit_price" REAL NOT NULL,
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "price_list_items_price_list_id_fkey" FOREIGN KEY ("price_list_id") REFERENCES "price_lists" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_proposals" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "client_id" TEXT NOT NULL,
+    "project_id" TEXT,
+    "title" TEXT NOT NULL,
+    "content" TEXT,
+    "subtotal" REAL NOT NULL DEFAULT 0,
+    "tax_rate" REAL NOT NULL DEFAULT 0,
+    "tax_amount" REAL NOT NULL DEFAULT 0,
+    "discount_rate" REAL NOT NULL DEFAULT 0,
+    "discount_amount" REAL NOT NULL DEFAULT 0,
+    "total_amount" REAL NOT NULL,
+    "notes" TEXT,
+    "terms" TEXT,
+    "current_version" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "valid_until" DATETIME,
+    "share_token" TEXT,
+    "sent_at" DATETIME,
+    "first_viewed_at" DATETIME,
+    "last_viewed_at" DATETIME,
+    "view_count" INTEGER NOT NULL DEFAULT 0,
+    "responded_at" DATETIME,
+    "signature_name" TEXT,
+    "signature_ip" TEXT,
+    "rejection_reason" TEXT,
+    "converted_at" DATETIME,
+    "template_id" TEXT,
+    "recipient_contact_id" TEXT,
+    "created_by" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "proposals_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "proposals_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "proposals_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "proposals_recipient_contact_id_fkey" FOREIGN KEY ("recipient_contact_id") REFERENCES "client_contacts" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "proposals_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "proposal_templates" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_proposals" ("client_id", "content", "converted_at", "created_at", "created_by", "current_version", "discount_amount", "discount_rate", "first_viewed_at", "id", "last_viewed_at", "notes", "project_id", "recipient_contact_id", "rejection_reason", "responded_at", "sent_at", "share_token", "signature_ip", "signature_name", "status", "subtotal", "tax_amount", "tax_rate", "terms", "title", "total_amount", "updated_at", "valid_until", "view_count") SELECT "client_id", "content", "converted_at", "created_at", "created_by", "current_version", "discount_amount", "discount_rate", "first_viewed_at", "id", "last_viewed_at", "notes", "project_id", "recipient_contact_id", "rejection_reason", "responded_at", "sent_at", "share_token", "signature_ip", "signature_name", "status", "subtotal", "tax_amount", "tax_rate", "terms", "title", "total_amount", "updated_at", "valid_until", "view_count" FROM "proposals";
+DROP TABLE "proposals";
+ALTER TABLE "new_proposals" RENAME TO "proposals";
+CREATE UNIQUE INDEX "proposals_share_token_key" ON "proposals"("share_token");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "proposal_template_sections_template_id_section_id_key" ON "proposal_template_sections"("template_id", "section_id");
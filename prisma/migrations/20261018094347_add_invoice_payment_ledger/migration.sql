@@ -0,0 +1,51 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_payments" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "invoice_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'PAYMENT',
+    "refunded_payment_id" TEXT,
+    "amount" REAL NOT NULL,
+    "payment_method" TEXT,
+    "transaction_id" TEXT,
+    "payment_date" DATETIME NOT NULL,
+    "notes" TEXT,
+    "recorded_by" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "payments_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "payments_refunded_payment_id_fkey" FOREIGN KEY ("refunded_payment_id") REFERENCES "payments" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "payments_recorded_by_fkey" FOREIGN KEY ("recorded_by") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_payments" ("amount", "created_at", "id", "invoice_id", "notes", "payment_date", "payment_method", "transaction_id") SELECT "amount", "created_at", "id", "invoice_id", "notes", "payment_date", "payment_method", "transaction_id" FROM "payments";
+DROP TABLE "payments";
+ALTER TABLE "new_payments" RENAME TO "payments";
+CREATE TABLE "new_revenues" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "amount" REAL NOT NULL,
+    "tax_amount" REAL NOT NULL DEFAULT 0,
+    "category" TEXT NOT NULL,
+    "date" DATETIME NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "project_id" TEXT,
+    "client_id" TEXT,
+    "invoice_id" TEXT,
+    "payment_id" TEXT,
+    "notes" TEXT,
+    "user_id" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "revenues_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "revenues_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "revenues_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "revenues_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "payments" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "revenues_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_revenues" ("amount", "category", "client_id", "created_at", "date", "description", "id", "invoice_id", "notes", "project_id", "status", "tax_amount", "title", "updated_at", "user_id") SELECT "amount", "category", "client_id", "created_at", "date", "description", "id", "invoice_id", "notes", "project_id", "status", "tax_amount", "title", "updated_at", "user_id" FROM "revenues";
+DROP TABLE "revenues";
+ALTER TABLE "new_revenues" RENAME TO "revenues";
+CREATE UNIQUE INDEX "revenues_payment_id_key" ON "revenues"("payment_id");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
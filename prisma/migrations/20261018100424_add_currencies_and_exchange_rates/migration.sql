@@ -0,0 +1,236 @@
+-- AlterTable
+ALTER TABLE "clients" ADD COLUMN "currency" TEXT;
+
+-- CreateTable
+CREATE TABLE "exchange_rates" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "base_currency" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "rate" REAL NOT NULL,
+    "date" DATETIME NOT NULL,
+    "source" TEXT,
+    "imported_by" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_projects" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "client_id" TEXT NOT NULL,
+    "manager_id" TEXT NOT NULL,
+    "budget" REAL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "status" TEXT NOT NULL DEFAULT 'PLANNING',
+    "priority" TEXT NOT NULL DEFAULT 'MEDIUM',
+    "start_date" DATETIME,
+    "end_date" DATETIME,
+    "completion_percentage" INTEGER NOT NULL DEFAULT 0,
+    "template_id" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "projects_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "projects_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "project_templates" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "projects_manager_id_fkey" FOREIGN KEY ("manager_id") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_projects" ("budget", "client_id", "completion_percentage", "created_at", "description", "end_date", "id", "manager_id", "name", "priority", "start_date", "status", "template_id", "updated_at") SELECT "budget", "client_id", "completion_percentage", "created_at", "description", "end_date", "id", "manager_id", "name", "priority", "start_date", "status", "template_id", "updated_at" FROM "projects";
+DROP TABLE "projects";
+ALTER TABLE "new_projects" RENAME TO "projects";
+CREATE TABLE "new_proposals" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "client_id" TEXT NOT NULL,
+    "project_id" TEXT,
+    "title" TEXT NOT NULL,
+    "content" TEXT,
+    "subtotal" REAL NOT NULL DEFAULT 0,
+    "tax_rate" REAL NOT NULL DEFAULT 0,
+    "tax_amount" REAL NOT NULL DEFAULT 0,
+    "discount_rate" REAL NOT NULL DEFAULT 0,
+    "discount_amount" REAL NOT NULL DEFAULT 0,
+    "total_amount" REAL NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "notes" TEXT,
+    "terms" TEXT,
+    "current_version" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "valid_until" DATETIME,
+    "share_token" TEXT,
+    "sent_at" DATETIME,
+    "first_viewed_at" DATETIME,
+    "last_viewed_at" DATETIME,
+    "view_count" INTEGER NOT NULL DEFAULT 0,
+    "responded_at" DATETIME,
+    "signature_name" TEXT,
+    "signature_ip" TEXT,
+    "rejection_reason" TEXT,
+    "converted_at" DATETIME,
+    "template_id" TEXT,
+    "recipient_contact_id" TEXT,
+    "created_by" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "proposals_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "proposals_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "proposals_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "proposals_recipient_contact_id_fkey" FOREIGN KEY ("recipient_contact_id") REFERENCES "client_contacts" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "proposals_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "proposal_templates" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_proposals" ("client_id", "content", "converted_at", "created_at", "created_by", "current_version", "discount_amount", "discount_rate", "first_viewed_at", "id", "last_viewed_at", "notes", "project_id", "recipient_contact_id", "rejection_reason", "responded_at", "sent_at", "share_token", "signature_ip", "signature_name", "status", "subtotal", "tax_amount", "tax_rate", "template_id", "terms", "title", "total_amount", "updated_at", "valid_until", "view_count") SELECT "client_id", "content", "converted_at", "created_at", "created_by", "current_version", "discount_amount", "discount_rate", "first_viewed_at", "id", "last_viewed_at", "notes", "project_id", "recipient_contact_id", "rejection_reason", "responded_at", "sent_at", "share_token", "signature_ip", "signature_name", "status", "subtotal", "tax_amount", "tax_rate", "template_id", "terms", "title", "total_amount", "updated_at", "valid_until", "view_count" FROM "proposals";
+DROP TABLE "proposals";
+ALTER TABLE "new_proposals" RENAME TO "proposals";
+CREATE UNIQUE INDEX "proposals_share_token_key" ON "proposals"("share_token");
+CREATE TABLE "new_invoices" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "invoice_number" TEXT,
+    "type" TEXT NOT NULL DEFAULT 'INVOICE',
+    "client_id" TEXT NOT NULL,
+    "project_id" TEXT,
+    "proposal_id" TEXT,
+    "credited_invoice_id" TEXT,
+    "recurring_invoice_id" TEXT,
+    "amount" REAL NOT NULL,
+    "tax_amount" REAL NOT NULL DEFAULT 0,
+    "total_amount" REAL NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "issue_date" DATETIME NOT NULL,
+    "due_date" DATETIME NOT NULL,
+    "paid_date" DATETIME,
+    "notes" TEXT,
+    "recipient_contact_id" TEXT,
+    "created_by" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "invoices_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "invoices_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "invoices_proposal_id_fkey" FOREIGN KEY ("proposal_id") REFERENCES "proposals" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "invoices_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "invoices_recipient_contact_id_fkey" FOREIGN KEY ("recipient_contact_id") REFERENCES "client_contacts" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "invoices_credited_invoice_id_fkey" FOREIGN KEY ("credited_invoice_id") REFERENCES "invoices" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "invoices_recurring_invoice_id_fkey" FOREIGN KEY ("recurring_invoice_id") REFERENCES "recurring_invoices" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_invoices" ("amount", "client_id", "created_at", "created_by", "credited_invoice_id", "due_date", "id", "invoice_number", "issue_date", "notes", "paid_date", "project_id", "proposal_id", "recipient_contact_id", "recurring_invoice_id", "status", "tax_amount", "total_amount", "type", "updated_at") SELECT "amount", "client_id", "created_at", "created_by", "credited_invoice_id", "due_date", "id", "invoice_number", "issue_date", "notes", "paid_date", "project_id", "proposal_id", "recipient_contact_id", "recurring_invoice_id", "status", "tax_amount", "total_amount", "type", "updated_at" FROM "invoices";
+DROP TABLE "invoices";
+ALTER TABLE "new_invoices" RENAME TO "invoices";
+CREATE UNIQUE INDEX "invoices_invoice_number_key" ON "invoices"("invoice_number");
+CREATE TABLE "new_recurring_invoices" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "client_id" TEXT NOT NULL,
+    "project_id" TEXT,
+    "recipient_contact_id" TEXT,
+    "frequency" TEXT NOT NULL DEFAULT 'MONTHLY',
+    "start_date" DATETIME NOT NULL,
+    "end_date" DATETIME,
+    "next_issue_date" DATETIME,
+    "issued_count" INTEGER NOT NULL DEFAULT 0,
+    "last_issued_at" DATETIME,
+    "due_in_days" INTEGER NOT NULL DEFAULT 30,
+    "tax_rate" REAL NOT NULL DEFAULT 0,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "auto_send" BOOLEAN NOT NULL DEFAULT false,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "notes" TEXT,
+    "created_by" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "recurring_invoices_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "recurring_invoices_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "recurring_invoices_recipient_contact_id_fkey" FOREIGN KEY ("recipient_contact_id") REFERENCES "client_contacts" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "recurring_invoices_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_recurring_invoices" ("auto_send", "client_id", "created_at", "created_by", "due_in_days", "end_date", "frequency", "id", "is_active", "issued_count", "last_issued_at", "name", "next_issue_date", "notes", "project_id", "recipient_contact_id", "start_date", "tax_rate", "updated_at") SELECT "auto_send", "client_id", "created_at", "created_by", "due_in_days", "end_date", "frequency", "id", "is_active", "issued_count", "last_issued_at", "name", "next_issue_date", "notes", "project_id", "recipient_contact_id", "start_date", "tax_rate", "updated_at" FROM "recurring_invoices";
+DROP TABLE "recurring_invoices";
+ALTER TABLE "new_recurring_invoices" RENAME TO "recurring_invoices";
+CREATE INDEX "recurring_invoices_next_issue_date_idx" ON "recurring_invoices"("next_issue_date");
+CREATE TABLE "new_budgets" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "total_amount" REAL NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "period" TEXT NOT NULL DEFAULT 'MONTHLY',
+    "start_date" DATETIME NOT NULL,
+    "end_date" DATETIME NOT NULL,
+    "project_id" TEXT,
+    "client_id" TEXT,
+    "categories" JSONB,
+    "alert_threshold" REAL NOT NULL DEFAULT 80,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "notes" TEXT,
+    "created_by" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "budgets_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "budgets_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "budgets_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_budgets" ("alert_threshold", "categories", "client_id", "created_at", "created_by", "description", "end_date", "id", "is_active", "name", "notes", "period", "project_id", "start_date", "total_amount", "updated_at") SELECT "alert_threshold", "categories", "client_id", "created_at", "created_by", "description", "end_date", "id", "is_active", "name", "notes", "period", "project_id", "start_date", "total_amount", "updated_at" FROM "budgets";
+DROP TABLE "budgets";
+ALTER TABLE "new_budgets" RENAME TO "budgets";
+CREATE TABLE "new_expenses" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "amount" REAL NOT NULL,
+    "tax_amount" REAL NOT NULL DEFAULT 0,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "category" TEXT NOT NULL,
+    "date" DATETIME NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "project_id" TEXT,
+    "client_id" TEXT,
+    "budget_id" TEXT,
+    "receipt_url" TEXT,
+    "notes" TEXT,
+    "user_id" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "expenses_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "expenses_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "expenses_budget_id_fkey" FOREIGN KEY ("budget_id") REFERENCES "budgets" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "expenses_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_expenses" ("amount", "budget_id", "category", "client_id", "created_at", "date", "description", "id", "notes", "project_id", "receipt_url", "status", "tax_amount", "title", "updated_at", "user_id") SELECT "amount", "budget_id", "category", "client_id", "created_at", "date", "description", "id", "notes", "project_id", "receipt_url", "status", "tax_amount", "title", "updated_at", "user_id" FROM "expenses";
+DROP TABLE "expenses";
+ALTER TABLE "new_expenses" RENAME TO "expenses";
+CREATE TABLE "new_revenues" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "amount" REAL NOT NULL,
+    "tax_amount" REAL NOT NULL DEFAULT 0,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "category" TEXT NOT NULL,
+    "date" DATETIME NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "project_id" TEXT,
+    "client_id" TEXT,
+    "invoice_id" TEXT,
+    "payment_id" TEXT,
+    "notes" TEXT,
+    "user_id" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "revenues_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "revenues_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "revenues_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "revenues_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "payments" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "revenues_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_revenues" ("amount", "category", "client_id", "created_at", "date", "description", "id", "invoice_id", "notes", "payment_id", "project_id", "status", "tax_amount", "title", "updated_at", "user_id") SELECT "amount", "category", "client_id", "created_at", "date", "description", "id", "invoice_id", "notes", "payment_id", "project_id", "status", "tax_amount", "title", "updated_at", "user_id" FROM "revenues";
+DROP TABLE "revenues";
+ALTER TABLE "new_revenues" RENAME TO "revenues";
+CREATE UNIQUE INDEX "revenues_payment_id_key" ON "revenues"("payment_id");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "exchange_rates_currency_date_idx" ON "exchange_rates"("currency", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_base_currency_currency_date_key" ON "exchange_rates"("base_currency", "currency", "date");
@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "tax_rates" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "rate" REAL NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'STANDARD',
+    "description" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_proposal_items" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "proposal_id" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" REAL NOT NULL,
+    "unit_price" REAL NOT NULL,
+    "total_price" REAL NOT NULL,
+    "tax_rate_id" TEXT,
+    "tax_rate" REAL,
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "proposal_items_proposal_id_fkey" FOREIGN KEY ("proposal_id") REFERENCES "proposals" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "proposal_items_tax_rate_id_fkey" FOREIGN KEY ("tax_rate_id") REFERENCES "tax_rates" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_proposal_items" ("created_at", "description", "id", "proposal_id", "quantity", "sort_order", "total_price", "unit_price") SELECT "created_at", "description", "id", "proposal_id", "quantity", "sort_order", "total_price", "unit_price" FROM "proposal_items";
+DROP TABLE "proposal_items";
+ALTER TABLE "new_proposal_items" RENAME TO "proposal_items";
+CREATE TABLE "new_invoice_items" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "invoice_id" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" REAL NOT NULL,
+    "unit_price" REAL NOT NULL,
+    "total_price" REAL NOT NULL,
+    "tax_rate_id" TEXT,
+    "tax_rate" REAL NOT NULL DEFAULT 0,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "invoice_items_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "invoice_items_tax_rate_id_fkey" FOREIGN KEY ("tax_rate_id") REFERENCES "tax_rates" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_invoice_items" ("created_at", "description", "id", "invoice_id", "quantity", "total_price", "unit_price") SELECT "created_at", "description", "id", "invoice_id", "quantity", "total_price", "unit_price" FROM "invoice_items";
+DROP TABLE "invoice_items";
+ALTER TABLE "new_invoice_items" RENAME TO "invoice_items";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tax_rates_name_key" ON "tax_rates"("name");
@@ -0,0 +1,54 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_recurring_invoice_items" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "recurring_invoice_id" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" REAL NOT NULL DEFAULT 1,
+    "unit_price" REAL NOT NULL,
+    "tax_rate_id" TEXT,
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+    CONSTRAINT "recurring_invoice_items_recurring_invoice_id_fkey" FOREIGN KEY ("recurring_invoice_id") REFERENCES "recurring_invoices" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "recurring_invoice_items_tax_rate_id_fkey" FOREIGN KEY ("tax_rate_id") REFERENCES "tax_rates" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+-- Lines take over their profile's tax rate when an active named rate has the same percentage
+INSERT INTO "new_recurring_invoice_items" ("description", "id", "quantity", "recurring_invoice_id", "sort_order", "unit_price", "tax_rate_id") SELECT "description", "id", "quantity", "recurring_invoice_id", "sort_order", "unit_price", (
+    SELECT "tax_rates"."id" FROM "recurring_invoices"
+    JOIN "tax_rates" ON "tax_rates"."rate" = "recurring_invoices"."tax_rate" AND "tax_rates"."is_active" = true
+    WHERE "recurring_invoices"."id" = "recurring_invoice_items"."recurring_invoice_id" AND "recurring_invoices"."tax_rate" > 0
+    ORDER BY "tax_rates"."created_at" LIMIT 1
+) FROM "recurring_invoice_items";
+DROP TABLE "recurring_invoice_items";
+ALTER TABLE "new_recurring_invoice_items" RENAME TO "recurring_invoice_items";
+CREATE TABLE "new_recurring_invoices" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "client_id" TEXT NOT NULL,
+    "project_id" TEXT,
+    "recipient_contact_id" TEXT,
+    "frequency" TEXT NOT NULL DEFAULT 'MONTHLY',
+    "start_date" DATETIME NOT NULL,
+    "end_date" DATETIME,
+    "next_issue_date" DATETIME,
+    "issued_count" INTEGER NOT NULL DEFAULT 0,
+    "last_issued_at" DATETIME,
+    "due_in_days" INTEGER NOT NULL DEFAULT 30,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "auto_send" BOOLEAN NOT NULL DEFAULT false,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "notes" TEXT,
+    "created_by" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "recurring_invoices_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "recurring_invoices_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "recurring_invoices_recipient_contact_id_fkey" FOREIGN KEY ("recipient_contact_id") REFERENCES "client_contacts" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "recurring_invoices_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_recurring_invoices" ("auto_send", "client_id", "created_at", "created_by", "currency", "due_in_days", "end_date", "frequency", "id", "is_active", "issued_count", "last_issued_at", "name", "next_issue_date", "notes", "project_id", "recipient_contact_id", "start_date", "updated_at") SELECT "auto_send", "client_id", "created_at", "created_by", "currency", "due_in_days", "end_date", "frequency", "id", "is_active", "issued_count", "last_issued_at", "name", "next_issue_date", "notes", "project_id", "recipient_contact_id", "start_date", "updated_at" FROM "recurring_invoices";
+DROP TABLE "recurring_invoices";
+ALTER TABLE "new_recurring_invoices" RENAME TO "recurring_invoices";
+CREATE INDEX "recurring_invoices_next_issue_date_idx" ON "recurring_invoices"("next_issue_date");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
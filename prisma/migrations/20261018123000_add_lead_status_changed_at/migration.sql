@@ -0,0 +1,36 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_leads" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "company" TEXT,
+    "phone" TEXT,
+    "industry" TEXT,
+    "company_size" INTEGER,
+    "source" TEXT NOT NULL DEFAULT 'WEBSITE',
+    "score" TEXT NOT NULL DEFAULT 'COLD',
+    "status" TEXT NOT NULL DEFAULT 'NEW',
+    "status_changed_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "assigned_to" TEXT,
+    "notes" TEXT,
+    "converted_to_client_id" TEXT,
+    "form_id" TEXT,
+    "utm_source" TEXT,
+    "utm_medium" TEXT,
+    "utm_campaign" TEXT,
+    "utm_term" TEXT,
+    "utm_content" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "leads_assigned_to_fkey" FOREIGN KEY ("assigned_to") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "leads_form_id_fkey" FOREIGN KEY ("form_id") REFERENCES "lead_forms" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+-- Existing leads have been in their status since at least their last update
+INSERT INTO "new_leads" ("assigned_to", "company", "company_size", "converted_to_client_id", "created_at", "email", "form_id", "id", "industry", "name", "notes", "phone", "score", "source", "status", "updated_at", "utm_campaign", "utm_content", "utm_medium", "utm_source", "utm_term", "status_changed_at") SELECT "assigned_to", "company", "company_size", "converted_to_client_id", "created_at", "email", "form_id", "id", "industry", "name", "notes", "phone", "score", "source", "status", "updated_at", "utm_campaign", "utm_content", "utm_medium", "utm_source", "utm_term", "updated_at" FROM "leads";
+DROP TABLE "leads";
+ALTER TABLE "new_leads" RENAME TO "leads";
+CREATE UNIQUE INDEX "leads_converted_to_client_id_key" ON "leads"("converted_to_client_id");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -304,6 +304,18 @@ async function main() {
 
   console.log('✅ Invoice items created')
 
+  // Create tax rates
+  await prisma.taxRate.createMany({
+    data: [
+      { name: 'VAT 20%', rate: 0.2, type: 'STANDARD', description: 'Standard rate' },
+      { name: 'VAT 5%', rate: 0.05, type: 'REDUCED', description: 'Reduced rate' },
+      { name: 'Zero-rated', rate: 0, type: 'ZERO_RATED', description: 'Taxable at 0%' },
+      { name: 'Reverse charge', rate: 0, type: 'REVERSE_CHARGE', description: 'Customer accounts for the tax' },
+    ],
+  })
+
+  console.log('✅ Tax rates created')
+
   // Create notifications
   await prisma.notification.create({
     data: {
@@ -396,6 +408,38 @@ async function main() {
     },
   })
 
+  await prisma.systemSetting.create({
+    data: {
+      key: 'lead_scoring',
+      value: JSON.stringify({ thresholds: { hot: 70, warm: 40 } }),
+      description: 'Lead scoring rules and HOT/WARM/COLD thresholds',
+    },
+  })
+
+  await prisma.systemSetting.create({
+    data: {
+      key: 'lead_assignment',
+      value: JSON.stringify({ enabled: true, strategy: 'ROUND_ROBIN', weights: {}, maxOpenLeads: null, excludedUserIds: [], rules: [] }),
+      description: 'Automatic lead assignment strategy and rules',
+    },
+  })
+
+  await prisma.systemSetting.create({
+    data: {
+      key: 'client_health',
+      value: JSON.stringify({ thresholds: { healthy: 70, watch: 40 } }),
+      description: 'Client health scoring rules and HEALTHY/WATCH/AT_RISK thresholds',
+    },
+  })
+
+  await prisma.systemSetting.create({
+    data: {
+      key: 'timezone',
+      value: 'UTC',
+      description: 'Agency timezone (IANA name) used for scheduled jobs',
+    },
+  })
+
   console.log('✅ System settings created')
 
   console.log('🎉 Database seeding completed successfully!')
@@ -408,10 +452,11 @@ async function main() {
 - 2 Tasks created with comments and time entries
 - 2 Proposals created
 - 1 Invoice created with items
+- 4 Tax rates created
 - 2 Notifications created
 - 2 Lead interactions created
 - 2 Project resources created
-- 2 System settings created
+- 6 System settings created
   `)
 }
 
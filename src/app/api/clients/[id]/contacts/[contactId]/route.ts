@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { clientContactSchema } from '@/lib/schemas'
+import { ensurePrimaryContact } from '@/lib/client-contacts'
+
+const prisma = new PrismaClient()
+
+const updateContactSchema = clientContactSchema.partial()
+
+async function findContact(clientId: string, contactId: string) {
+  return prisma.clientContact.findFirst({
+    where: { id: contactId, clientId },
+  })
+}
+
+// GET /api/clients/[id]/contacts/[contactId] - Get a specific contact
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; contactId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, contactId } = await params
+    const contact = await findContact(id, contactId)
+
+    if (!contact) {
+      return NextResponse.json(
+        { error: 'Contact not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(contact)
+  } catch (error) {
+    console.error('Error fetching client contact:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/clients/[id]/contacts/[contactId] - Update a contact or make it the primary contact
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; contactId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, contactId } = await params
+    const body = await request.json()
+    const { isPrimary, ...validatedData } = updateContactSchema.parse(body)
+
+    const existingContact = await findContact(id, contactId)
+
+    if (!existingContact) {
+      return NextResponse.json(
+        { error: 'Contact not found' },
+        { status: 404 }
+      )
+    }
+
+    // Primary status moves by promoting another contact, never by unsetting it
+    if (isPrimary === false && existingContact.isPrimary) {
+      return NextResponse.json(
+        { error: 'A client must have a primary contact; make another contact primary instead' },
+        { status: 409 }
+      )
+    }
+
+    const contact = await prisma.$transaction(async (tx) => {
+      await tx.clientContact.update({
+        where: { id: contactId },
+        data: validatedData,
+      })
+
+      if (isPrimary) {
+        await ensurePrimaryContact(id, tx, contactId)
+      }
+
+      return tx.clientContact.findUniqueOrThrow({ where: { id: contactId } })
+    })
+
+    return NextResponse.json(contact)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating client contact:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/clients/[id]/contacts/[contactId] - Remove a contact
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; contactId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, contactId } = await params
+    const existingContact = await findContact(id, contactId)
+
+    if (!existingContact) {
+      return NextResponse.json(
+        { error: 'Contact not found' },
+        { status: 404 }
+      )
+    }
+
+    // Proposals and invoices addressed to this contact fall back to the primary contact;
+    // removing the primary promotes the next contact in line
+    const primaryContactId = await prisma.$transaction(async (tx) => {
+      await tx.clientContact.delete({ where: { id: contactId } })
+      return ensurePrimaryContact(id, tx)
+    })
+
+    return NextResponse.json({
+      message: 'Contact deleted successfully',
+      primaryContactId,
+    })
+  } catch (error) {
+    console.error('Error deleting client contact:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
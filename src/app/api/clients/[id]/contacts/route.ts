@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { clientContactSchema } from '@/lib/schemas'
+import { contactOrderBy, ensurePrimaryContact, nextContactSortOrder } from '@/lib/client-contacts'
+
+const prisma = new PrismaClient()
+
+// Validation schema for reordering contacts
+const reorderContactsSchema = z.object({
+  contactIds: z.array(z.string()).min(1, 'At least one contact is required'),
+})
+
+// GET /api/clients/[id]/contacts - Get a client's contacts in display order
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const client = await prisma.client.findUnique({
+      where: { id },
+      select: { id: true },
+    })
+
+    if (!client) {
+      return NextResponse.json(
+        { error: 'Client not found' },
+        { status: 404 }
+      )
+    }
+
+    const contacts = await prisma.clientContact.findMany({
+      where: { clientId: id },
+      orderBy: contactOrderBy,
+    })
+
+    return NextResponse.json({ contacts })
+  } catch (error) {
+    console.error('Error fetching client contacts:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/clients/[id]/contacts - Add a contact to a client
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = clientContactSchema.parse(body)
+
+    const client = await prisma.client.findUnique({
+      where: { id },
+      select: { id: true },
+    })
+
+    if (!client) {
+      return NextResponse.json(
+        { error: 'Client not found' },
+        { status: 404 }
+      )
+    }
+
+    // The first contact always becomes primary; a new primary demotes the previous one
+    const contact = await prisma.$transaction(async (tx) => {
+      const created = await tx.clientContact.create({
+        data: {
+          ...validatedData,
+          isPrimary: false,
+          clientId: id,
+          sortOrder: await nextContactSortOrder(id, tx),
+        },
+      })
+
+      await ensurePrimaryContact(id, tx, validatedData.isPrimary ? created.id : undefined)
+
+      return tx.clientContact.findUniqueOrThrow({ where: { id: created.id } })
+    })
+
+    return NextResponse.json(contact, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating client contact:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/clients/[id]/contacts - Reorder a client's contacts
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { contactIds } = reorderContactsSchema.parse(body)
+
+    const existing = await prisma.clientContact.findMany({
+      where: { clientId: id },
+      select: { id: true },
+    })
+
+    // The new order must list every contact of the client exactly once
+    const existingIds = new Set(existing.map((contact) => contact.id))
+    if (
+      contactIds.length !== existingIds.size ||
+      new Set(contactIds).size !== contactIds.length ||
+      contactIds.some((contactId) => !existingIds.has(contactId))
+    ) {
+      return NextResponse.json(
+        { error: 'Contact IDs must list every contact of this client exactly once' },
+        { status: 400 }
+      )
+    }
+
+    const contacts = await prisma.$transaction(async (tx) => {
+      for (let index = 0; index < contactIds.length; index++) {
+        await tx.clientContact.update({
+          where: { id: contactIds[index] },
+          data: { sortOrder: index },
+        })
+      }
+
+      return tx.clientContact.findMany({
+        where: { clientId: id },
+        orderBy: contactOrderBy,
+      })
+    })
+
+    return NextResponse.json({ contacts })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error reordering client contacts:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
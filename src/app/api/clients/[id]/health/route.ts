@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { getClientHealthConfig, recomputeClientHealth } from '@/lib/client-health'
+
+const prisma = new PrismaClient()
+
+// GET /api/clients/[id]/health - Current health score, latest breakdown and dated history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const days = Math.min(parseInt(searchParams.get('days') || '90'), 730)
+
+    const client = await prisma.client.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        healthScore: true,
+        healthBand: true,
+        healthUpdatedAt: true,
+      },
+    })
+
+    if (!client) {
+      return NextResponse.json(
+        { error: 'Client not found' },
+        { status: 404 }
+      )
+    }
+
+    const [history, config] = await Promise.all([
+      prisma.clientHealthSnapshot.findMany({
+        where: {
+          clientId: id,
+          date: { gte: new Date(Date.now() - days * 24 * 60 * 60 * 1000) },
+        },
+        orderBy: { date: 'asc' },
+      }),
+      getClientHealthConfig(prisma),
+    ])
+
+    const latest = history[history.length - 1]
+    const previous = history[history.length - 2]
+
+    return NextResponse.json({
+      clientId: client.id,
+      score: client.healthScore,
+      band: client.healthBand,
+      updatedAt: client.healthUpdatedAt,
+      breakdown: latest?.factors ?? [],
+      trend: latest && previous ? latest.score - previous.score : null,
+      thresholds: config.thresholds,
+      history: history.map((snapshot) => ({
+        date: snapshot.date,
+        score: snapshot.score,
+        band: snapshot.band,
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching client health:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/clients/[id]/health - Recompute the health score now
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const result = await recomputeClientHealth(id, prisma)
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Client not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error recomputing client health:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { canManagePortalUsers } from '@/lib/client-portal'
+
+const prisma = new PrismaClient()
+
+// DELETE /api/clients/[id]/portal-users/[userId] - Revoke a user's portal access
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, userId } = await params
+
+    const client = await prisma.client.findUnique({
+      where: { id },
+      select: { id: true, accountManagerId: true },
+    })
+
+    if (!client) {
+      return NextResponse.json(
+        { error: 'Client not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!(await canManagePortalUsers(client, session.user.id, prisma))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const portalUser = await prisma.user.findFirst({
+      where: { id: userId, clientId: id, role: 'CLIENT' },
+      select: { id: true },
+    })
+
+    if (!portalUser) {
+      return NextResponse.json(
+        { error: 'Portal user not found' },
+        { status: 404 }
+      )
+    }
+
+    // The account is deactivated rather than deleted so their comments and activity stay attributed
+    await prisma.user.update({
+      where: { id: userId },
+      data: { isActive: false },
+    })
+
+    return NextResponse.json({ message: 'Portal access revoked successfully' })
+  } catch (error) {
+    console.error('Error revoking portal access:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import bcrypt from 'bcryptjs'
+import { canManagePortalUsers } from '@/lib/client-portal'
+
+const prisma = new PrismaClient()
+
+// Validation schema for granting portal access
+const createPortalUserSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  email: z.string().email('Invalid email format'),
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+})
+
+const portalUserSelect = {
+  id: true,
+  name: true,
+  email: true,
+  isActive: true,
+  lastLogin: true,
+  createdAt: true,
+}
+
+// GET /api/clients/[id]/portal-users - Users with access to the client's portal
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const client = await prisma.client.findUnique({
+      where: { id },
+      select: { id: true },
+    })
+
+    if (!client) {
+      return NextResponse.json(
+        { error: 'Client not found' },
+        { status: 404 }
+      )
+    }
+
+    const users = await prisma.user.findMany({
+      where: { clientId: id, role: 'CLIENT' },
+      select: portalUserSelect,
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return NextResponse.json({ users })
+  } catch (error) {
+    console.error('Error fetching portal users:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/clients/[id]/portal-users - Give someone at the client access to the portal
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = createPortalUserSchema.parse(body)
+
+    const client = await prisma.client.findUnique({
+      where: { id },
+      select: { id: true, accountManagerId: true },
+    })
+
+    if (!client) {
+      return NextResponse.json(
+        { error: 'Client not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!(await canManagePortalUsers(client, session.user.id, prisma))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email: validatedData.email },
+    })
+
+    if (existingUser) {
+      return NextResponse.json(
+        { error: 'User with this email already exists' },
+        { status: 409 }
+      )
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        name: validatedData.name,
+        email: validatedData.email,
+        passwordHash: await bcrypt.hash(validatedData.password, 12),
+        role: 'CLIENT',
+        clientId: id,
+      },
+      select: portalUserSelect,
+    })
+
+    return NextResponse.json(user, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating portal user:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,6 +3,9 @@ import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 import { z } from 'zod'
+import { DOCUMENT_LANGUAGES } from '@/lib/document-labels'
+import { currencyCodeSchema } from '@/lib/currency'
+import { contactOrderBy } from '@/lib/client-contacts'
 
 const prisma = new PrismaClient()
 
@@ -18,6 +21,8 @@ const updateClientSchema = z.object({
   endDate: z.string().transform((str) => new Date(str)).optional(),
   notes: z.string().optional(),
   assignedToId: z.string().optional(),
+  language: z.enum(DOCUMENT_LANGUAGES).nullable().optional(),
+  currency: currencyCodeSchema.nullable().optional(),
 })
 
 // GET /api/clients/[id] - Get a specific client
@@ -68,6 +73,9 @@ export async function GET(
             },
           },
         },
+        contacts: {
+          orderBy: contactOrderBy,
+        },
         _count: {
           select: {
             projects: true,
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import {
+  findDuplicateGroups,
+  loadClientCandidates,
+  loadLeadCandidates,
+} from '@/lib/duplicates'
+
+const prisma = new PrismaClient()
+
+// GET /api/clients/duplicates - Find clients that look like other clients or open leads
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const clientId = searchParams.get('clientId')
+    const includeLeads = searchParams.get('includeLeads') !== 'false'
+    const minScore = parseFloat(searchParams.get('minScore') || '0')
+
+    const [clients, leads] = await Promise.all([
+      loadClientCandidates(prisma),
+      includeLeads ? loadLeadCandidates(prisma) : Promise.resolve([]),
+    ])
+
+    let groups = findDuplicateGroups(clients, { against: leads, minScore })
+
+    if (clientId) {
+      groups = groups.filter((group) =>
+        group.records.some((record) => record.kind === 'CLIENT' && record.id === clientId)
+      )
+    }
+
+    return NextResponse.json({
+      groups,
+      total: groups.length,
+    })
+  } catch (error) {
+    console.error('Error finding duplicate clients:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
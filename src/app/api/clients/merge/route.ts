@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { mergeClients } from '@/lib/duplicates'
+
+const prisma = new PrismaClient()
+
+// Validation schema for merging clients
+const mergeClientsSchema = z.object({
+  survivorId: z.string().min(1, 'Survivor client is required'),
+  duplicateIds: z.array(z.string()).default([]),
+  leadIds: z.array(z.string()).default([]),
+}).refine(
+  (data) => data.duplicateIds.length + data.leadIds.length > 0,
+  'At least one duplicate client or lead is required'
+)
+
+// POST /api/clients/merge - Merge duplicate clients (and matching leads) into a surviving client
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN' && currentUser?.role !== 'MANAGER') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = mergeClientsSchema.parse(body)
+    const duplicateIds = Array.from(new Set(validatedData.duplicateIds))
+    const leadIds = Array.from(new Set(validatedData.leadIds))
+
+    if (duplicateIds.includes(validatedData.survivorId)) {
+      return NextResponse.json(
+        { error: 'A client cannot be merged into itself' },
+        { status: 400 }
+      )
+    }
+
+    const [clientsFound, leadsFound] = await Promise.all([
+      prisma.client.count({
+        where: { id: { in: [validatedData.survivorId, ...duplicateIds] } },
+      }),
+      prisma.lead.count({
+        where: { id: { in: leadIds } },
+      }),
+    ])
+
+    if (clientsFound !== duplicateIds.length + 1) {
+      return NextResponse.json(
+        { error: 'Client not found' },
+        { status: 404 }
+      )
+    }
+
+    if (leadsFound !== leadIds.length) {
+      return NextResponse.json(
+        { error: 'Lead not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await prisma.$transaction((tx) =>
+      mergeClients(validatedData.survivorId, duplicateIds, leadIds, session.user.id, tx)
+    )
+
+    return NextResponse.json({
+      ...result,
+      message: `Merged ${result.merged} record(s)`,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error merging clients:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
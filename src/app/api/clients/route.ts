@@ -3,23 +3,10 @@ import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 import { z } from 'zod'
+import { clientSchema } from '@/lib/schemas'
 
 const prisma = new PrismaClient()
 
-// Validation schema for client data
-const clientSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  email: z.string().email('Invalid email format'),
-  phone: z.string().optional(),
-  company: z.string().optional(),
-  status: z.enum(['ACTIVE', 'INACTIVE', 'PENDING', 'SUSPENDED']).default('ACTIVE'),
-  contractValue: z.number().min(0).optional(),
-  startDate: z.string().transform((str) => new Date(str)).optional(),
-  endDate: z.string().transform((str) => new Date(str)).optional(),
-  notes: z.string().optional(),
-  assignedToId: z.string().optional(),
-})
-
 const updateClientSchema = clientSchema.partial()
 
 // GET /api/clients - Get all clients
@@ -34,6 +21,7 @@ export async function GET(request: NextRequest) {
     const status = searchParams.get('status')
     const assignedTo = searchParams.get('assignedTo')
     const search = searchParams.get('search')
+    const health = searchParams.get('health')
     const page = parseInt(searchParams.get('page') || '1')
     const limit = parseInt(searchParams.get('limit') || '10')
     const skip = (page - 1) * limit
@@ -43,6 +31,7 @@ export async function GET(request: NextRequest) {
     
     if (status) where.status = status
     if (assignedTo) where.assignedToId = assignedTo
+    if (health) where.healthBand = health.toUpperCase().replace('-', '_')
     
     if (search) {
       where.OR = [
@@ -71,6 +60,15 @@ export async function GET(request: NextRequest) {
               budget: true,
             },
           },
+          healthSnapshots: {
+            select: {
+              date: true,
+              score: true,
+              band: true,
+            },
+            orderBy: { date: 'desc' },
+            take: 2,
+          },
           _count: {
             select: {
               projects: true,
@@ -84,8 +82,15 @@ export async function GET(request: NextRequest) {
       prisma.client.count({ where }),
     ])
 
+    // Trend is the change since the previous daily health snapshot
+    const clientsWithTrend = clients.map(({ healthSnapshots, ...client }) => ({
+      ...client,
+      healthTrend: healthSnapshots.length === 2 ? healthSnapshots[0].score - healthSnapshots[1].score : null,
+      atRisk: client.healthBand === 'AT_RISK',
+    }))
+
     return NextResponse.json({
-      clients,
+      clients: clientsWithTrend,
       pagination: {
         page,
         limit,
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 import { z } from 'zod'
+import { currencyCodeSchema } from '@/lib/currency'
 
 const prisma = new PrismaClient()
 
@@ -11,6 +12,7 @@ const updateBudgetSchema = z.object({
   name: z.string().min(1, 'Budget name is required').optional(),
   description: z.string().optional(),
   totalAmount: z.number().min(0, 'Total amount must be positive').optional(),
+  currency: currencyCodeSchema.optional(),
   period: z.enum(['MONTHLY', 'QUARTERLY', 'YEARLY', 'CUSTOM']).optional(),
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 import { z } from 'zod'
+import { currencyCodeSchema, resolveRecordCurrency } from '@/lib/currency'
 
 const prisma = new PrismaClient()
 
@@ -11,6 +12,8 @@ const createBudgetSchema = z.object({
   name: z.string().min(1, 'Budget name is required'),
   description: z.string().optional(),
   totalAmount: z.number().min(0, 'Total amount must be positive'),
+  // Defaults to the client's billing currency
+  currency: currencyCodeSchema.optional(),
   period: z.enum(['MONTHLY', 'QUARTERLY', 'YEARLY', 'CUSTOM']),
   startDate: z.string().datetime(),
   endDate: z.string().datetime(),
@@ -37,6 +40,7 @@ const updateBudgetSchema = z.object({
   name: z.string().min(1, 'Budget name is required').optional(),
   description: z.string().optional(),
   totalAmount: z.number().min(0, 'Total amount must be positive').optional(),
+  currency: currencyCodeSchema.optional(),
   period: z.enum(['MONTHLY', 'QUARTERLY', 'YEARLY', 'CUSTOM']).optional(),
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
@@ -230,19 +234,9 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Calculate summary statistics
-    const summary = await prisma.budget.aggregate({
-      where,
-      _sum: {
-        totalAmount: true,
-      },
-      _count: {
-        _all: true,
-      },
-    })
-
+    // Calculate summary statistics; amounts in different currencies are totalled separately
     const statusCounts = await prisma.budget.groupBy({
-      by: ['isActive'],
+      by: ['currency', 'isActive'],
       where,
       _count: {
         _all: true,
@@ -252,6 +246,25 @@ export async function GET(request: NextRequest) {
       },
     })
 
+    const byCurrency: Record<string, {
+      totalBudgetAmount: number
+      totalCount: number
+      statusBreakdown: Record<string, { count: number; amount: number }>
+    }> = {}
+    for (const item of statusCounts) {
+      const totals = byCurrency[item.currency] ?? (byCurrency[item.currency] = {
+        totalBudgetAmount: 0,
+        totalCount: 0,
+        statusBreakdown: {},
+      })
+      totals.totalBudgetAmount += item._sum.totalAmount || 0
+      totals.totalCount += item._count._all
+      totals.statusBreakdown[item.isActive ? 'active' : 'inactive'] = {
+        count: item._count._all,
+        amount: item._sum.totalAmount || 0,
+      }
+    }
+
     const totalPages = Math.ceil(total / limit)
 
     return NextResponse.json({
@@ -265,16 +278,8 @@ export async function GET(request: NextRequest) {
         hasPrev: page > 1,
       },
       summary: {
-        totalBudgetAmount: summary._sum.totalAmount || 0,
-        totalCount: summary._count._all,
-        statusBreakdown: statusCounts.reduce((acc, item) => {
-          const status = item.isActive ? 'active' : 'inactive'
-          acc[status] = {
-            count: item._count._all,
-            amount: item._sum.totalAmount || 0,
-          }
-          return acc
-        }, {} as Record<string, { count: number; amount: number }>),
+        totalCount: total,
+        byCurrency,
       },
     })
   } catch (error) {
@@ -353,6 +358,7 @@ export async function POST(request: NextRequest) {
     const budget = await prisma.budget.create({
       data: {
         ...validatedData,
+        currency: await resolveRecordCurrency(validatedData, prisma),
         startDate: new Date(validatedData.startDate),
         endDate: new Date(validatedData.endDate),
         categories: validatedData.categories || [],
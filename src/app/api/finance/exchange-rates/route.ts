@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { MAX_IMPORT_BYTES } from '@/lib/import'
+import {
+  getCurrencyConfig,
+  importExchangeRates,
+  parseExchangeRateCsv,
+} from '@/lib/currency'
+
+const prisma = new PrismaClient()
+
+const importRatesSchema = z.object({
+  csv: z.string().min(1, 'CSV content is required'),
+  fileName: z.string().optional(),
+  dryRun: z.boolean().default(false),
+  skipInvalidRows: z.boolean().default(false),
+})
+
+// GET /api/finance/exchange-rates - List exchange rates, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const currency = searchParams.get('currency')
+    const baseCurrency = searchParams.get('baseCurrency')
+    const dateFrom = searchParams.get('dateFrom')
+    const dateTo = searchParams.get('dateTo')
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '50')
+    const skip = (page - 1) * limit
+
+    const where: any = {}
+    if (currency) where.currency = currency.toUpperCase()
+    if (baseCurrency) where.baseCurrency = baseCurrency.toUpperCase()
+    if (dateFrom || dateTo) {
+      where.date = {}
+      if (dateFrom) where.date.gte = new Date(dateFrom)
+      if (dateTo) where.date.lte = new Date(dateTo)
+    }
+
+    const [rates, total, config] = await Promise.all([
+      prisma.exchangeRate.findMany({
+        where,
+        orderBy: [{ date: 'desc' }, { currency: 'asc' }],
+        skip,
+        take: limit,
+      }),
+      prisma.exchangeRate.count({ where }),
+      getCurrencyConfig(prisma),
+    ])
+
+    return NextResponse.json({
+      baseCurrency: config.baseCurrency,
+      rates,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/finance/exchange-rates - Import exchange rates from a CSV file (admin only).
+// Columns: date (YYYY-MM-DD), currency, rate and optionally base_currency. Accepts a
+// multipart upload or a JSON body with the CSV text; dryRun validates without saving.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Only administrators can import exchange rates' },
+        { status: 403 }
+      )
+    }
+
+    let input
+    if ((request.headers.get('content-type') || '').includes('multipart/form-data')) {
+      const form = await request.formData()
+      const file = form.get('file')
+      if (file instanceof File && file.size > MAX_IMPORT_BYTES) {
+        throw new z.ZodError([{ code: 'custom', path: ['file'], message: 'File is larger than 5 MB' }])
+      }
+      input = importRatesSchema.parse({
+        csv: file instanceof File ? await file.text() : form.get('csv'),
+        fileName: file instanceof File ? file.name : form.get('fileName') || undefined,
+        dryRun: form.get('dryRun') === 'true',
+        skipInvalidRows: form.get('skipInvalidRows') === 'true',
+      })
+    } else {
+      input = importRatesSchema.parse(await request.json())
+    }
+
+    const { baseCurrency } = await getCurrencyConfig(prisma)
+    const { rows, errors } = parseExchangeRateCsv(input.csv, baseCurrency)
+    const summary = { total: rows.length + errors.length, valid: rows.length, errors: errors.length }
+
+    if (errors.length > 0 && !input.skipInvalidRows) {
+      return NextResponse.json(
+        { error: 'Some rows failed validation', summary, errors },
+        { status: 400 }
+      )
+    }
+
+    if (input.dryRun) {
+      return NextResponse.json({ dryRun: true, summary, errors })
+    }
+
+    const result = await importExchangeRates(rows, session.user.id, input.fileName ?? 'CSV import', prisma)
+
+    await prisma.activity.create({
+      data: {
+        userId: session.user.id,
+        type: 'EXCHANGE_RATES_IMPORTED',
+        description: `Imported ${rows.length} exchange rate${rows.length === 1 ? '' : 's'}${input.fileName ? ` from ${input.fileName}` : ''}`,
+        entityType: 'EXCHANGE_RATE',
+        metadata: { ...result, skipped: errors.length },
+      },
+    })
+
+    return NextResponse.json({ summary, ...result, errors })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error importing exchange rates:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 import { z } from 'zod'
+import { currencyCodeSchema } from '@/lib/currency'
 
 const prisma = new PrismaClient()
 
@@ -19,6 +20,7 @@ const updateExpenseSchema = z.object({
   status: z.enum(['PENDING', 'APPROVED', 'REJECTED', 'REIMBURSED']).optional(),
   isReimbursable: z.boolean().optional(),
   taxAmount: z.number().min(0, 'Tax amount must be positive').optional(),
+  currency: currencyCodeSchema.optional(),
   notes: z.string().optional(),
 })
 
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 import { z } from 'zod'
+import { currencyCodeSchema, resolveRecordCurrency } from '@/lib/currency'
 
 const prisma = new PrismaClient()
 
@@ -19,6 +20,8 @@ const createExpenseSchema = z.object({
   status: z.enum(['PENDING', 'APPROVED', 'REJECTED', 'REIMBURSED']).default('PENDING'),
   isReimbursable: z.boolean().default(true),
   taxAmount: z.number().min(0, 'Tax amount must be positive').default(0),
+  // Defaults to the agency's base currency
+  currency: currencyCodeSchema.optional(),
   notes: z.string().optional(),
 })
 
@@ -35,6 +38,7 @@ const updateExpenseSchema = z.object({
   status: z.enum(['PENDING', 'APPROVED', 'REJECTED', 'REIMBURSED']).optional(),
   isReimbursable: z.boolean().optional(),
   taxAmount: z.number().min(0, 'Tax amount must be positive').optional(),
+  currency: currencyCodeSchema.optional(),
   notes: z.string().optional(),
 })
 
@@ -147,29 +151,41 @@ export async function GET(request: NextRequest) {
       prisma.expense.count({ where }),
     ])
 
-    // Calculate summary statistics
-    const summary = await prisma.expense.aggregate({
-      where,
-      _sum: {
-        amount: true,
-        taxAmount: true,
-      },
-      _count: {
-        _all: true,
-      },
-    })
-
+    // Calculate summary statistics; amounts in different currencies are totalled separately
     const statusCounts = await prisma.expense.groupBy({
-      by: ['status'],
+      by: ['currency', 'status'],
       where,
       _count: {
         _all: true,
       },
       _sum: {
         amount: true,
+        taxAmount: true,
       },
     })
 
+    const byCurrency: Record<string, {
+      totalAmount: number
+      totalTax: number
+      totalCount: number
+      statusBreakdown: Record<string, { count: number; amount: number }>
+    }> = {}
+    for (const item of statusCounts) {
+      const totals = byCurrency[item.currency] ?? (byCurrency[item.currency] = {
+        totalAmount: 0,
+        totalTax: 0,
+        totalCount: 0,
+        statusBreakdown: {},
+      })
+      totals.totalAmount += item._sum.amount || 0
+      totals.totalTax += item._sum.taxAmount || 0
+      totals.totalCount += item._count._all
+      totals.statusBreakdown[item.status] = {
+        count: item._count._all,
+        amount: item._sum.amount || 0,
+      }
+    }
+
     const totalPages = Math.ceil(total / limit)
 
     return NextResponse.json({
@@ -183,16 +199,8 @@ export async function GET(request: NextRequest) {
         hasPrev: page > 1,
       },
       summary: {
-        totalAmount: summary._sum.amount || 0,
-        totalTax: summary._sum.taxAmount || 0,
-        totalCount: summary._count._all,
-        statusBreakdown: statusCounts.reduce((acc, item) => {
-          acc[item.status] = {
-            count: item._count._all,
-            amount: item._sum.amount || 0,
-          }
-          return acc
-        }, {} as Record<string, { count: number; amount: number }>),
+        totalCount: total,
+        byCurrency,
       },
     })
   } catch (error) {
@@ -252,6 +260,7 @@ export async function POST(request: NextRequest) {
     const expense = await prisma.expense.create({
       data: {
         ...validatedData,
+        currency: await resolveRecordCurrency({ currency: validatedData.currency }, prisma),
         date: new Date(validatedData.date),
         userId: session.user.id,
       },
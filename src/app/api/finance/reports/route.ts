@@ -3,12 +3,22 @@ import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 import { z } from 'zod'
+import {
+  CurrencyConverter,
+  currencyCodeSchema,
+  ExchangeRateError,
+  getCurrencyConfig,
+  loadCurrencyConverter,
+} from '@/lib/currency'
+import { getProfitLossReport, getTaxReport } from '@/lib/finance-reports'
 
 const prisma = new PrismaClient()
 
 // Validation schema for report parameters
 const reportParamsSchema = z.object({
   reportType: z.enum([
+    'profit_loss',
+    'tax_summary',
     'expense_summary',
     'budget_utilization',
     'client_spending',
@@ -28,7 +38,8 @@ const reportParamsSchema = z.object({
   categories: z.array(z.string()).optional(),
   includeProjections: z.boolean().default(false),
   groupBy: z.enum(['day', 'week', 'month', 'quarter', 'year']).default('month'),
-  currency: z.string().default('USD'),
+  // Report currency; amounts are converted at the rate on each record's date
+  currency: currencyCodeSchema.optional(),
 }).refine(
   (data) => new Date(data.dateTo) > new Date(data.dateFrom),
   {
@@ -55,7 +66,7 @@ export async function GET(request: NextRequest) {
     const categories = searchParams.get('categories')?.split(',').filter(Boolean)
     const includeProjections = searchParams.get('includeProjections') === 'true'
     const groupBy = searchParams.get('groupBy') || 'month'
-    const currency = searchParams.get('currency') || 'USD'
+    const currency = searchParams.get('currency') || undefined
 
     if (!dateFrom || !dateTo) {
       return NextResponse.json(
@@ -79,6 +90,9 @@ export async function GET(request: NextRequest) {
 
     const startDate = new Date(validatedParams.dateFrom)
     const endDate = new Date(validatedParams.dateTo)
+    // Reports are in the agency's base currency unless another one is asked for
+    validatedParams.currency = validatedParams.currency ?? (await getCurrencyConfig(prisma)).baseCurrency
+    const converter = await loadCurrencyConverter(validatedParams.currency, prisma)
 
     // Build base where clause for expenses
     const baseWhere: any = {
@@ -107,23 +121,37 @@ export async function GET(request: NextRequest) {
     let reportData: any = {}
 
     switch (validatedParams.reportType) {
+      case 'profit_loss':
+        reportData = await getProfitLossReport(startDate, endDate, {
+          currency: validatedParams.currency,
+          clientId: validatedParams.clientId,
+          projectId: validatedParams.projectId,
+        }, prisma)
+        break
+      case 'tax_summary':
+        // Tax returns are filed by month, quarter or year
+        reportData = await getTaxReport(startDate, endDate, {
+          currency: validatedParams.currency,
+          period: validatedParams.groupBy === 'quarter' || validatedParams.groupBy === 'year' ? validatedParams.groupBy : 'month',
+        }, prisma)
+        break
       case 'expense_summary':
-        reportData = await generateExpenseSummaryReport(baseWhere, validatedParams)
+        reportData = await generateExpenseSummaryReport(baseWhere, validatedParams, converter)
         break
       case 'budget_utilization':
-        reportData = await generateBudgetUtilizationReport(baseWhere, validatedParams)
+        reportData = await generateBudgetUtilizationReport(baseWhere, validatedParams, converter)
         break
       case 'client_spending':
-        reportData = await generateClientSpendingReport(baseWhere, validatedParams)
+        reportData = await generateClientSpendingReport(baseWhere, validatedParams, converter)
         break
       case 'project_costs':
-        reportData = await generateProjectCostsReport(baseWhere, validatedParams)
+        reportData = await generateProjectCostsReport(baseWhere, validatedParams, converter)
         break
       case 'category_breakdown':
-        reportData = await generateCategoryBreakdownReport(baseWhere, validatedParams)
+        reportData = await generateCategoryBreakdownReport(baseWhere, validatedParams, converter)
         break
       case 'monthly_trends':
-        reportData = await generateMonthlyTrendsReport(baseWhere, validatedParams)
+        reportData = await generateMonthlyTrendsReport(baseWhere, validatedParams, converter)
         break
       case 'quarterly_analysis':
         reportData = await generateQuarterlyAnalysisReport(baseWhere, validatedParams)
@@ -158,6 +186,13 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    if (error instanceof ExchangeRateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
     console.error('Error generating financial report:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -166,9 +201,21 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// Restate expenses in the report currency at the rate on each expense's date
+function inReportCurrency<T extends { amount: number; taxAmount: number; currency: string; date: Date }>(
+  expenses: T[],
+  converter: CurrencyConverter
+): T[] {
+  return expenses.map((expense) => ({
+    ...expense,
+    amount: converter.convert(expense.amount, expense.currency, expense.date),
+    taxAmount: converter.convert(expense.taxAmount, expense.currency, expense.date),
+  }))
+}
+
 // Helper function to generate expense summary report
-async function generateExpenseSummaryReport(baseWhere: any, params: any) {
-  const expenses = await prisma.expense.findMany({
+async function generateExpenseSummaryReport(baseWhere: any, params: any, converter: CurrencyConverter) {
+  const expenses = inReportCurrency(await prisma.expense.findMany({
     where: baseWhere,
     include: {
       user: { select: { id: true, name: true, email: true } },
@@ -176,7 +223,7 @@ async function generateExpenseSummaryReport(baseWhere: any, params: any) {
       client: { select: { id: true, name: true, company: true } },
     },
     orderBy: { date: 'desc' },
-  })
+  }), converter)
 
   const totalAmount = expenses.reduce((sum, exp) => sum + exp.amount + exp.taxAmount, 0)
   const totalExpenses = expenses.length
@@ -222,8 +269,8 @@ async function generateExpenseSummaryReport(baseWhere: any, params: any) {
 }
 
 // Helper function to generate budget utilization report
-async function generateBudgetUtilizationReport(baseWhere: any, params: any) {
-  const budgets = await prisma.budget.findMany({
+async function generateBudgetUtilizationReport(baseWhere: any, params: any, converter: CurrencyConverter) {
+  const budgets = (await prisma.budget.findMany({
     where: {
       OR: [
         {
@@ -238,7 +285,10 @@ async function generateBudgetUtilizationReport(baseWhere: any, params: any) {
       project: { select: { id: true, name: true } },
       client: { select: { id: true, name: true, company: true } },
     },
-  })
+  })).map((budget) => ({
+    ...budget,
+    totalAmount: converter.convert(budget.totalAmount, budget.currency, budget.startDate),
+  }))
 
   const budgetUtilization = await Promise.all(
     budgets.map(async (budget) => {
@@ -258,10 +308,10 @@ async function generateBudgetUtilizationReport(baseWhere: any, params: any) {
         expenseWhere.clientId = budget.clientId
       }
 
-      const expenses = await prisma.expense.findMany({
+      const expenses = inReportCurrency(await prisma.expense.findMany({
         where: expenseWhere,
-        select: { amount: true, taxAmount: true, category: true },
-      })
+        select: { amount: true, taxAmount: true, currency: true, category: true, date: true },
+      }), converter)
 
       const totalSpent = expenses.reduce(
         (sum, exp) => sum + exp.amount + exp.taxAmount,
@@ -302,14 +352,14 @@ async function generateBudgetUtilizationReport(baseWhere: any, params: any) {
 }
 
 // Helper function to generate client spending report
-async function generateClientSpendingReport(baseWhere: any, params: any) {
-  const expenses = await prisma.expense.findMany({
+async function generateClientSpendingReport(baseWhere: any, params: any, converter: CurrencyConverter) {
+  const expenses = inReportCurrency(await prisma.expense.findMany({
     where: baseWhere,
     include: {
       client: { select: { id: true, name: true, company: true } },
       project: { select: { id: true, name: true } },
     },
-  })
+  }), converter)
 
   const clientSpending = expenses.reduce((acc, exp) => {
     if (!exp.client) return acc
@@ -356,8 +406,8 @@ async function generateClientSpendingReport(baseWhere: any, params: any) {
 }
 
 // Helper function to generate project costs report
-async function generateProjectCostsReport(baseWhere: any, params: any) {
-  const expenses = await prisma.expense.findMany({
+async function generateProjectCostsReport(baseWhere: any, params: any, converter: CurrencyConverter) {
+  const expenses = inReportCurrency(await prisma.expense.findMany({
     where: baseWhere,
     include: {
       project: {
@@ -366,19 +416,27 @@ async function generateProjectCostsReport(baseWhere: any, params: any) {
           name: true,
           status: true,
           budget: true,
+          currency: true,
+          startDate: true,
+          createdAt: true,
           client: { select: { id: true, name: true, company: true } },
         },
       },
     },
-  })
+  }), converter)
 
   const projectCosts = expenses.reduce((acc, exp) => {
     if (!exp.project) return acc
     
     const projectId = exp.project.id
     if (!acc[projectId]) {
+      const { currency, startDate, createdAt, ...project } = exp.project
       acc[projectId] = {
-        project: exp.project,
+        project: {
+          ...project,
+          // Project budgets have no transaction date; use the rate when the project started
+          budget: project.budget === null ? null : converter.convert(project.budget, currency, startDate ?? createdAt),
+        },
         totalCost: 0,
         expenseCount: 0,
         categories: {},
@@ -414,11 +472,11 @@ async function generateProjectCostsReport(baseWhere: any, params: any) {
 }
 
 // Helper function to generate category breakdown report
-async function generateCategoryBreakdownReport(baseWhere: any, params: any) {
-  const expenses = await prisma.expense.findMany({
+async function generateCategoryBreakdownReport(baseWhere: any, params: any, converter: CurrencyConverter) {
+  const expenses = inReportCurrency(await prisma.expense.findMany({
     where: baseWhere,
-    select: { amount: true, taxAmount: true, category: true, date: true },
-  })
+    select: { amount: true, taxAmount: true, currency: true, category: true, date: true },
+  }), converter)
 
   const categoryBreakdown = expenses.reduce((acc, exp) => {
     const category = exp.category
@@ -463,12 +521,12 @@ async function generateCategoryBreakdownReport(baseWhere: any, params: any) {
 }
 
 // Helper function to generate monthly trends report
-async function generateMonthlyTrendsReport(baseWhere: any, params: any) {
-  const expenses = await prisma.expense.findMany({
+async function generateMonthlyTrendsReport(baseWhere: any, params: any, converter: CurrencyConverter) {
+  const expenses = inReportCurrency(await prisma.expense.findMany({
     where: baseWhere,
-    select: { amount: true, taxAmount: true, date: true, category: true },
+    select: { amount: true, taxAmount: true, currency: true, date: true, category: true },
     orderBy: { date: 'asc' },
-  })
+  }), converter)
 
   const monthlyData = expenses.reduce((acc, exp) => {
     const monthKey = exp.date.toISOString().substring(0, 7) // YYYY-MM
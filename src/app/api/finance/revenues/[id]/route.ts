@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 import { z } from 'zod'
+import { currencyCodeSchema } from '@/lib/currency'
 
 const prisma = new PrismaClient()
 
@@ -38,8 +39,7 @@ const updateRevenueSchema = z.object({
   projectId: z.string().optional(),
 
   taxAmount: z.number().min(0).optional(),
-  currency: z.string().length(3).optional(),
-  exchangeRate: z.number().positive().optional(),
+  currency: currencyCodeSchema.optional(),
   notes: z.string().max(1000).optional(),
   tags: z.array(z.string()).optional(),
 })
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 import { z } from 'zod'
+import { currencyCodeSchema, resolveRecordCurrency } from '@/lib/currency'
 
 const prisma = new PrismaClient()
 
@@ -38,8 +39,8 @@ const createRevenueSchema = z.object({
   projectId: z.string().optional(),
 
   taxAmount: z.number().min(0).default(0),
-  currency: z.string().length(3).default('USD'),
-  exchangeRate: z.number().positive().default(1),
+  // Defaults to the client's billing currency; converted with the exchange rate table
+  currency: currencyCodeSchema.optional(),
   notes: z.string().max(1000).optional(),
   tags: z.array(z.string()).default([]),
 })
@@ -154,30 +155,41 @@ export async function GET(request: NextRequest) {
 
     let stats = null
     if (includeStats) {
-      const [totalRevenue, pendingRevenue, receivedRevenue] = await Promise.all([
-        prisma.revenue.aggregate({
-          where,
-          _sum: { amount: true, taxAmount: true },
-        }),
-        prisma.revenue.aggregate({
-          where: { ...where, status: 'PENDING' },
-          _sum: { amount: true, taxAmount: true },
-          _count: true,
-        }),
-        prisma.revenue.aggregate({
-          where: { ...where, status: 'RECEIVED' },
-          _sum: { amount: true, taxAmount: true },
-          _count: true,
-        }),
-      ])
-
-      stats = {
-        totalRevenue: (totalRevenue._sum.amount || 0) + (totalRevenue._sum.taxAmount || 0),
-        pendingRevenue: (pendingRevenue._sum.amount || 0) + (pendingRevenue._sum.taxAmount || 0),
-        receivedRevenue: (receivedRevenue._sum.amount || 0) + (receivedRevenue._sum.taxAmount || 0),
-        pendingCount: pendingRevenue._count,
-        receivedCount: receivedRevenue._count,
+      const groups = await prisma.revenue.groupBy({
+        by: ['currency', 'status'],
+        where,
+        _sum: { amount: true, taxAmount: true },
+        _count: { _all: true },
+      })
+
+      // Amounts in different currencies are totalled separately, never added together
+      const byCurrency: Record<string, {
+        totalRevenue: number
+        pendingRevenue: number
+        receivedRevenue: number
+        pendingCount: number
+        receivedCount: number
+      }> = {}
+      for (const group of groups) {
+        const totals = byCurrency[group.currency] ?? (byCurrency[group.currency] = {
+          totalRevenue: 0,
+          pendingRevenue: 0,
+          receivedRevenue: 0,
+          pendingCount: 0,
+          receivedCount: 0,
+        })
+        const amount = (group._sum.amount || 0) + (group._sum.taxAmount || 0)
+        totals.totalRevenue += amount
+        if (group.status === 'PENDING') {
+          totals.pendingRevenue += amount
+          totals.pendingCount += group._count._all
+        } else if (group.status === 'RECEIVED') {
+          totals.receivedRevenue += amount
+          totals.receivedCount += group._count._all
+        }
       }
+
+      stats = { byCurrency }
     }
 
     return NextResponse.json({
@@ -255,6 +267,7 @@ export async function POST(request: NextRequest) {
     const revenue = await prisma.revenue.create({
       data: {
         ...validatedData,
+        currency: await resolveRecordCurrency(validatedData, prisma),
         date: new Date(validatedData.date),
 
         userId: session.user.id,
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { updateTaxRateSchema } from '@/lib/tax-rates'
+
+const prisma = new PrismaClient()
+
+async function isAdmin(userId: string) {
+  const currentUser = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  })
+
+  return currentUser?.role === 'ADMIN'
+}
+
+// PUT /api/finance/tax-rates/[id] - Update a tax rate (admin only). Invoices and
+// proposals already saved keep the percentage they were created with; recurring
+// invoices use the new one from their next billing period.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await isAdmin(session.user.id))) {
+      return NextResponse.json(
+        { error: 'Only administrators can manage tax rates' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = updateTaxRateSchema.parse(body)
+
+    const existingTaxRate = await prisma.taxRate.findUnique({
+      where: { id },
+      include: {
+        _count: { select: { recurringInvoiceItems: true } },
+      },
+    })
+
+    if (!existingTaxRate) {
+      return NextResponse.json(
+        { error: 'Tax rate not found' },
+        { status: 404 }
+      )
+    }
+
+    // Recurring invoices charge the rate every period, so they have to move off it first
+    if (validatedData.isActive === false && existingTaxRate._count.recurringInvoiceItems > 0) {
+      return NextResponse.json(
+        { error: 'Tax rate is used by recurring invoices; change their line items first' },
+        { status: 400 }
+      )
+    }
+
+    // The type and rate rules also apply when only one of them changes
+    updateTaxRateSchema.parse({
+      rate: validatedData.rate ?? existingTaxRate.rate,
+      type: validatedData.type ?? existingTaxRate.type,
+    })
+
+    if (validatedData.name && validatedData.name !== existingTaxRate.name) {
+      const duplicate = await prisma.taxRate.findUnique({
+        where: { name: validatedData.name },
+      })
+
+      if (duplicate) {
+        return NextResponse.json(
+          { error: 'A tax rate with this name already exists' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const taxRate = await prisma.taxRate.update({
+      where: { id },
+      data: validatedData,
+    })
+
+    return NextResponse.json(taxRate)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating tax rate:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/finance/tax-rates/[id] - Delete a tax rate that has never been used (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await isAdmin(session.user.id))) {
+      return NextResponse.json(
+        { error: 'Only administrators can manage tax rates' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const existingTaxRate = await prisma.taxRate.findUnique({
+      where: { id },
+      include: {
+        _count: { select: { invoiceItems: true, proposalItems: true, recurringInvoiceItems: true } },
+      },
+    })
+
+    if (!existingTaxRate) {
+      return NextResponse.json(
+        { error: 'Tax rate not found' },
+        { status: 404 }
+      )
+    }
+
+    // Used rates are needed by the tax report, so they can only be deactivated
+    if (
+      existingTaxRate._count.invoiceItems > 0 ||
+      existingTaxRate._count.proposalItems > 0 ||
+      existingTaxRate._count.recurringInvoiceItems > 0
+    ) {
+      return NextResponse.json(
+        { error: 'Tax rate is in use; deactivate it instead' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.taxRate.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({
+      message: 'Tax rate deleted successfully',
+      id,
+    })
+  } catch (error) {
+    console.error('Error deleting tax rate:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { taxRateSchema } from '@/lib/tax-rates'
+
+const prisma = new PrismaClient()
+
+// GET /api/finance/tax-rates - Get tax rates (active only unless includeInactive=true)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const includeInactive = searchParams.get('includeInactive') === 'true'
+
+    const taxRates = await prisma.taxRate.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      orderBy: [{ rate: 'desc' }, { name: 'asc' }],
+    })
+
+    return NextResponse.json({
+      taxRates,
+      total: taxRates.length,
+    })
+  } catch (error) {
+    console.error('Error fetching tax rates:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/finance/tax-rates - Create a tax rate (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Only administrators can manage tax rates' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = taxRateSchema.parse(body)
+
+    const existing = await prisma.taxRate.findUnique({
+      where: { name: validatedData.name },
+    })
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A tax rate with this name already exists' },
+        { status: 400 }
+      )
+    }
+
+    const taxRate = await prisma.taxRate.create({
+      data: validatedData,
+    })
+
+    return NextResponse.json(taxRate, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating tax rate:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+// GET /api/imports/[id] - Get an import job with the records it touched
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const job = await prisma.importJob.findUnique({
+      where: { id },
+      include: {
+        creator: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        records: {
+          orderBy: { rowNumber: 'asc' },
+        },
+      },
+    })
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Import job not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(job)
+  } catch (error) {
+    console.error('Error fetching import job:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { undoImport } from '@/lib/import'
+
+const prisma = new PrismaClient()
+
+// POST /api/imports/[id]/undo - Delete the records an import created and restore the ones it updated
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const job = await prisma.importJob.findUnique({
+      where: { id },
+    })
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Import job not found' },
+        { status: 404 }
+      )
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (job.createdBy !== session.user.id && currentUser?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    if (job.status === 'UNDONE') {
+      return NextResponse.json(
+        { error: 'Import has already been undone' },
+        { status: 409 }
+      )
+    }
+
+    const result = await prisma.$transaction(
+      (tx) => undoImport(id, session.user.id, tx),
+      { timeout: 120000 }
+    )
+
+    return NextResponse.json({
+      ...result,
+      message: `Removed ${result.removed} and restored ${result.restored} record(s)`,
+    })
+  } catch (error) {
+    console.error('Error undoing import:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
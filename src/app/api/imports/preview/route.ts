@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { z } from 'zod'
+import {
+  IMPORT_FIELDS,
+  parseImportCsv,
+  readImportRequest,
+  suggestMapping,
+  suggestValueMapping,
+} from '@/lib/import'
+
+// POST /api/imports/preview - Read an uploaded CSV and suggest column and enum mappings
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const importRequest = await readImportRequest(request)
+    const parsed = parseImportCsv(importRequest.csv)
+    const mapping = importRequest.mapping || suggestMapping(parsed.headers, importRequest.entityType)
+
+    return NextResponse.json({
+      entityType: importRequest.entityType,
+      fileName: importRequest.fileName,
+      headers: parsed.headers,
+      totalRows: parsed.rows.length,
+      sampleRows: parsed.rows.slice(0, 5),
+      fields: IMPORT_FIELDS[importRequest.entityType],
+      mapping,
+      valueMapping: suggestValueMapping(parsed, mapping, importRequest.entityType),
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error previewing import:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
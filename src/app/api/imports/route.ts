@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import {
+  parseImportCsv,
+  readImportRequest,
+  runImport,
+  suggestMapping,
+  validateImport,
+} from '@/lib/import'
+import { rescoreLeads } from '@/lib/lead-scoring'
+
+const prisma = new PrismaClient()
+
+// GET /api/imports - Get import job history
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const entityType = searchParams.get('entityType')
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '20')
+    const skip = (page - 1) * limit
+
+    const where: any = {}
+    if (entityType) where.entityType = entityType
+
+    const [jobs, total] = await Promise.all([
+      prisma.importJob.findMany({
+        where,
+        include: {
+          creator: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.importJob.count({ where }),
+    ])
+
+    return NextResponse.json({
+      jobs,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching import jobs:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/imports - Validate (dryRun) or run a CSV import of leads, clients or contacts
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const importRequest = await readImportRequest(request)
+    const parsed = parseImportCsv(importRequest.csv)
+    const options = {
+      entityType: importRequest.entityType,
+      mapping: importRequest.mapping || suggestMapping(parsed.headers, importRequest.entityType),
+      valueMapping: importRequest.valueMapping,
+      duplicatePolicy: importRequest.duplicatePolicy,
+      fileName: importRequest.fileName,
+    }
+
+    const validation = await validateImport(parsed, options, prisma)
+
+    if (importRequest.dryRun) {
+      return NextResponse.json({
+        dryRun: true,
+        mapping: options.mapping,
+        ...validation,
+      })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN' && currentUser?.role !== 'MANAGER') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    if (validation.summary.errors > 0 && !importRequest.skipInvalidRows) {
+      return NextResponse.json(
+        {
+          error: 'Some rows failed validation',
+          summary: validation.summary,
+          rows: validation.rows.filter((row) => row.action === 'ERROR'),
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await prisma.$transaction(
+      (tx) => runImport(parsed, options, session.user.id, tx),
+      { timeout: 120000 }
+    )
+
+    if (result.touchedLeadIds.length > 0) {
+      await rescoreLeads(result.touchedLeadIds, prisma)
+    }
+
+    return NextResponse.json(
+      {
+        job: result.job,
+        summary: result.validation.summary,
+        errors: result.validation.rows.filter((row) => row.action === 'ERROR'),
+        message: `Imported ${result.job.createdCount} new and ${result.job.updatedCount} updated record(s)`,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error importing CSV:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { createCreditNote, CreditNoteError, creditNoteSchema } from '@/lib/credit-notes'
+
+const prisma = new PrismaClient()
+
+// GET /api/invoices/[id]/credit-notes - Get the credit notes issued against an invoice
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { id },
+      select: { id: true, totalAmount: true },
+    })
+
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'Invoice not found' },
+        { status: 404 }
+      )
+    }
+
+    const creditNotes = await prisma.invoice.findMany({
+      where: { creditedInvoiceId: id },
+      include: { items: true },
+      orderBy: { issueDate: 'asc' },
+    })
+
+    const totalCredited = creditNotes.reduce((sum, note) => sum + note.totalAmount, 0)
+
+    return NextResponse.json({
+      creditNotes,
+      totalCredited,
+      remainingCreditable: invoice.totalAmount - totalCredited,
+    })
+  } catch (error) {
+    console.error('Error fetching credit notes:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/invoices/[id]/credit-notes - Issue a credit note against an invoice
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN' && currentUser?.role !== 'MANAGER') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = creditNoteSchema.parse(body)
+
+    const creditNote = await createCreditNote(id, validatedData, session.user.id, prisma)
+
+    if (!creditNote) {
+      return NextResponse.json(
+        { error: 'Invoice not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(creditNote, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof CreditNoteError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating credit note:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { getClientScope, PortalAccessError, portalInvoiceWhere } from '@/lib/client-portal'
+import {
+  InvoicePaymentError,
+  paymentSchema,
+  recordInvoicePayment,
+  summarizeInvoiceBalance,
+} from '@/lib/invoice-payments'
+
+const prisma = new PrismaClient()
+
+// GET /api/invoices/[id]/payments - Get an invoice's payments and refunds with its balance
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    // CLIENT users only see the payment history of their own client's issued invoices
+    const portalUser = await getClientScope(session.user.id, prisma)
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id, ...(portalUser && portalInvoiceWhere(portalUser.clientId)) },
+      include: {
+        payments: {
+          include: {
+            recorder: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+          orderBy: { paymentDate: 'asc' },
+        },
+        creditNotes: {
+          select: {
+            id: true,
+            invoiceNumber: true,
+            totalAmount: true,
+            issueDate: true,
+          },
+        },
+      },
+    })
+
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'Invoice not found' },
+        { status: 404 }
+      )
+    }
+
+    // Running balance after each payment or refund, oldest first
+    let balance = invoice.totalAmount
+    const payments = invoice.payments.map((payment) => {
+      balance += payment.type === 'REFUND' ? payment.amount : -payment.amount
+      return { ...payment, balanceAfter: Math.round(balance * 100) / 100 }
+    })
+
+    return NextResponse.json({
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      status: invoice.status,
+      totalAmount: invoice.totalAmount,
+      payments,
+      creditNotes: invoice.creditNotes,
+      ...summarizeInvoiceBalance(invoice),
+    })
+  } catch (error) {
+    if (error instanceof PortalAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    console.error('Error fetching invoice payments:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/invoices/[id]/payments - Record a full or partial payment
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = paymentSchema.parse(body)
+
+    const result = await recordInvoicePayment(id, validatedData, session.user.id, prisma)
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Invoice not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof InvoicePaymentError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error recording invoice payment:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
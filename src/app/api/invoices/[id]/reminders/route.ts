@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+// GET /api/invoices/[id]/reminders - Get the payment reminders sent (or attempted) for an invoice
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { id },
+      select: { id: true },
+    })
+
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'Invoice not found' },
+        { status: 404 }
+      )
+    }
+
+    const reminders = await prisma.invoiceReminder.findMany({
+      where: { invoiceId: id },
+      orderBy: { offsetDays: 'asc' },
+    })
+
+    return NextResponse.json({
+      reminders,
+      total: reminders.length,
+    })
+  } catch (error) {
+    console.error('Error fetching invoice reminders:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
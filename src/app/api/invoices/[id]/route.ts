@@ -3,27 +3,30 @@ import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 import { z } from 'zod'
+import { assertClientContact, ContactNotFoundError, recipientContactSelect } from '@/lib/client-contacts'
+import { getClientScope, PortalAccessError, portalInvoiceWhere } from '@/lib/client-portal'
+import { currencyCodeSchema } from '@/lib/currency'
+import { assignInvoiceNumber } from '@/lib/invoice-numbers'
+import { summarizeInvoiceBalance, syncInvoicePaymentStatus } from '@/lib/invoice-payments'
+import { buildInvoiceItems, TaxRateError } from '@/lib/tax-rates'
 
 const prisma = new PrismaClient()
 
-// Validation schema for invoice updates
+// Validation schema for invoice updates. Invoice numbers are assigned by the numbering
+// service and cannot be edited; totals are recomputed whenever the items change. An
+// invoice only becomes PAID through its recorded payments.
 const updateInvoiceSchema = z.object({
-  invoiceNumber: z.string().min(1, 'Invoice number is required').optional(),
-  status: z.enum(['DRAFT', 'SENT', 'PAID', 'OVERDUE', 'CANCELLED']).optional(),
+  status: z.enum(['DRAFT', 'SENT', 'OVERDUE', 'CANCELLED']).optional(),
   issueDate: z.string().transform((str) => new Date(str)).optional(),
   dueDate: z.string().transform((str) => new Date(str)).optional(),
+  recipientContactId: z.string().nullable().optional(),
   items: z.array(z.object({
     description: z.string().min(1, 'Item description is required'),
     quantity: z.number().min(0, 'Quantity must be positive'),
     unitPrice: z.number().min(0, 'Unit price must be positive'),
-    totalPrice: z.number().min(0, 'Total must be positive'),
-  })).optional(),
-  subtotal: z.number().min(0, 'Subtotal must be positive').optional(),
-  taxRate: z.number().min(0).max(1, 'Tax rate must be between 0 and 1').optional(),
-  taxAmount: z.number().min(0, 'Tax amount must be positive').optional(),
-  discountRate: z.number().min(0).max(1, 'Discount rate must be between 0 and 1').optional(),
-  discountAmount: z.number().min(0, 'Discount amount must be positive').optional(),
-  totalAmount: z.number().min(0, 'Total must be positive').optional(),
+    taxRateId: z.string().nullable().optional(),
+  })).min(1, 'At least one item is required').optional(),
+  currency: currencyCodeSchema.optional(),
   notes: z.string().optional(),
   terms: z.string().optional(),
 })
@@ -41,8 +44,11 @@ export async function GET(
 
     const { id } = await params
 
-    const invoice = await prisma.invoice.findUnique({
-      where: { id },
+    // CLIENT users only see their own client's issued invoices; others are reported missing
+    const portalUser = await getClientScope(session.user.id, prisma)
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id, ...(portalUser && portalInvoiceWhere(portalUser.clientId)) },
       include: {
         client: {
           select: {
@@ -60,6 +66,7 @@ export async function GET(
 
           },
         },
+        recipientContact: recipientContactSelect,
         creator: {
           select: {
             id: true,
@@ -71,6 +78,7 @@ export async function GET(
         payments: {
           select: {
             id: true,
+            type: true,
             amount: true,
             paymentDate: true,
             paymentMethod: true,
@@ -79,6 +87,14 @@ export async function GET(
           },
           orderBy: { paymentDate: 'desc' },
         },
+        creditNotes: {
+          select: {
+            id: true,
+            invoiceNumber: true,
+            totalAmount: true,
+            issueDate: true,
+          },
+        },
       },
     })
 
@@ -90,20 +106,24 @@ export async function GET(
     }
 
     // Calculate payment status
-    const totalPaid = invoice.payments
-      .reduce((sum, payment) => sum + payment.amount, 0)
-    
-    const remainingAmount = invoice.totalAmount - totalPaid
+    const balance = summarizeInvoiceBalance(invoice)
+    const totalPaid = balance.amountPaid
+    const remainingAmount = balance.balanceDue
     const paymentStatus = remainingAmount <= 0 ? 'FULLY_PAID' : 
                          totalPaid > 0 ? 'PARTIALLY_PAID' : 'UNPAID'
 
     return NextResponse.json({
       ...invoice,
+      ...balance,
       totalPaid,
       remainingAmount,
       paymentStatus,
     })
   } catch (error) {
+    if (error instanceof PortalAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
     console.error('Error fetching invoice:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -141,23 +161,37 @@ export async function PUT(
     }
 
     // Check if invoice is paid (shouldn't be modified)
-    if (existingInvoice.status === 'PAID' && validatedData.status !== 'PAID') {
+    if (existingInvoice.status === 'PAID') {
       return NextResponse.json(
         { error: 'Cannot modify paid invoice' },
         { status: 400 }
       )
     }
 
-    // If invoice number is being updated, check for conflicts
-    if (validatedData.invoiceNumber && validatedData.invoiceNumber !== existingInvoice.invoiceNumber) {
-      const invoiceNumberConflict = await prisma.invoice.findUnique({
-        where: { invoiceNumber: validatedData.invoiceNumber },
-      })
+    // Numbered invoices are part of a gapless series and cannot go back to DRAFT
+    if (validatedData.status === 'DRAFT' && existingInvoice.invoiceNumber) {
+      return NextResponse.json(
+        { error: 'Cannot move a numbered invoice back to draft' },
+        { status: 400 }
+      )
+    }
 
-      if (invoiceNumberConflict) {
+    // Payments and credit notes are made against the issued amounts, so only draft
+    // invoices can have their items (and with them the totals) changed
+    if (validatedData.items && (existingInvoice.status !== 'DRAFT' || existingInvoice.type !== 'INVOICE')) {
+      return NextResponse.json(
+        { error: 'Only the items of draft invoices can be changed' },
+        { status: 400 }
+      )
+    }
+
+    // Payments are recorded in the invoice's currency, so it is fixed once money has moved
+    if (validatedData.currency && validatedData.currency !== existingInvoice.currency) {
+      const paymentCount = await prisma.payment.count({ where: { invoiceId: id } })
+      if (paymentCount > 0) {
         return NextResponse.json(
-          { error: 'Invoice number already exists' },
-          { status: 409 }
+          { error: 'Cannot change the currency of an invoice with recorded payments' },
+          { status: 400 }
         )
       }
     }
@@ -172,72 +206,46 @@ export async function PUT(
       }
     }
 
+    // Check that the recipient is one of the client's contacts (if provided)
+    await assertClientContact(existingInvoice.clientId, validatedData.recipientContactId)
+
     // Handle items update
     const { items, ...invoiceUpdateData } = validatedData
+    const rebuilt = items ? await buildInvoiceItems(items, prisma) : null
 
-    let updatedInvoice
-    if (items) {
-      // Update invoice and replace items
-      updatedInvoice = await prisma.$transaction(async (tx) => {
+    const updatedInvoice = await prisma.$transaction(async (tx) => {
+      if (items) {
         // Delete existing items
         await tx.invoiceItem.deleteMany({
           where: { invoiceId: id },
         })
+      }
 
-        // Update invoice and create new items
-        return await tx.invoice.update({
-          where: { id },
-          data: {
-            ...invoiceUpdateData,
-            updatedAt: new Date(),
-            items: {
-              create: items,
-            },
-          },
-          include: {
-            client: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-                company: true,
-                phone: true,
-              },
-            },
-            project: {
-              select: {
-                id: true,
-                name: true,
-
-              },
-            },
-            creator: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-              },
-            },
-            items: true,
-            payments: {
-              select: {
-                id: true,
-                amount: true,
-                paymentDate: true,
-                paymentMethod: true,
-              },
-            },
-          },
-        })
-      })
-    } else {
-      // Update invoice only
-      updatedInvoice = await prisma.invoice.update({
+      // Update invoice and create new items
+      const invoice = await tx.invoice.update({
         where: { id },
         data: {
           ...invoiceUpdateData,
+          ...(rebuilt && {
+            amount: rebuilt.amount,
+            taxAmount: rebuilt.taxAmount,
+            totalAmount: rebuilt.totalAmount,
+            items: { create: rebuilt.lines },
+          }),
           updatedAt: new Date(),
         },
+      })
+
+      // An invoice leaving DRAFT gets the next number in its series
+      if (invoice.status !== 'DRAFT' && !invoice.invoiceNumber) {
+        await assignInvoiceNumber(id, tx)
+      }
+
+      // A status set by hand must still agree with the payments and credits on record
+      await syncInvoicePaymentStatus(id, tx)
+
+      return tx.invoice.findUniqueOrThrow({
+        where: { id },
         include: {
           client: {
             select: {
@@ -254,6 +262,7 @@ export async function PUT(
               name: true,
             },
           },
+          recipientContact: recipientContactSelect,
           creator: {
             select: {
               id: true,
@@ -263,16 +272,16 @@ export async function PUT(
           },
           items: true,
           payments: {
-              select: {
-                id: true,
-                amount: true,
-                paymentDate: true,
-                paymentMethod: true,
-              },
+            select: {
+              id: true,
+              amount: true,
+              paymentDate: true,
+              paymentMethod: true,
             },
           },
-        })
-    }
+        },
+      })
+    })
 
     return NextResponse.json(updatedInvoice)
   } catch (error) {
@@ -283,6 +292,13 @@ export async function PUT(
       )
     }
 
+    if (error instanceof ContactNotFoundError || error instanceof TaxRateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
     console.error('Error updating invoice:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -324,6 +340,14 @@ export async function DELETE(
       )
     }
 
+    // Numbered invoices are part of a gapless series; they are cancelled, not deleted
+    if (existingInvoice.invoiceNumber) {
+      return NextResponse.json(
+        { error: 'Cannot delete a numbered invoice; cancel it instead' },
+        { status: 400 }
+      )
+    }
+
     await prisma.invoice.delete({
       where: { id },
     })
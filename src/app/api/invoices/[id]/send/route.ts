@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { recipientContactSelect } from '@/lib/client-contacts'
+import { emailInvoice } from '@/lib/invoice-emails'
+import { assignInvoiceNumber } from '@/lib/invoice-numbers'
+
+const prisma = new PrismaClient()
+
+// POST /api/invoices/[id]/send - Issue a draft invoice (or resend an issued one) and email it to the client as a PDF
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const existingInvoice = await prisma.invoice.findUnique({
+      where: { id },
+      select: { id: true, status: true, createdBy: true },
+    })
+
+    if (!existingInvoice) {
+      return NextResponse.json(
+        { error: 'Invoice not found' },
+        { status: 404 }
+      )
+    }
+
+    // Check permissions - only creator, managers or admins can send
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (
+      existingInvoice.createdBy !== session.user.id &&
+      currentUser?.role !== 'ADMIN' &&
+      currentUser?.role !== 'MANAGER'
+    ) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    if (!['DRAFT', 'SENT', 'OVERDUE'].includes(existingInvoice.status)) {
+      return NextResponse.json(
+        { error: `Cannot send an invoice that is ${existingInvoice.status.toLowerCase()}` },
+        { status: 409 }
+      )
+    }
+
+    const invoice = await prisma.$transaction(async (tx) => {
+      if (existingInvoice.status === 'DRAFT') {
+        await tx.invoice.update({
+          where: { id },
+          data: { status: 'SENT' },
+        })
+      }
+
+      // An invoice leaving DRAFT gets the next number in its series
+      const invoiceNumber = await assignInvoiceNumber(id, tx)
+
+      await tx.activity.create({
+        data: {
+          userId: session.user.id,
+          type: 'INVOICE_SENT',
+          description: `Invoice ${invoiceNumber} sent to the client`,
+          entityType: 'INVOICE',
+          entityId: id,
+        },
+      })
+
+      return tx.invoice.findUniqueOrThrow({
+        where: { id },
+        include: {
+          client: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              company: true,
+            },
+          },
+          recipientContact: recipientContactSelect,
+          items: true,
+        },
+      })
+    })
+
+    // The invoice stays issued when email delivery fails; the PDF can be downloaded and sent by hand
+    let emailedTo: string | null = null
+    let emailError: string | null = null
+    try {
+      const { recipient } = await emailInvoice(invoice, prisma)
+      emailedTo = recipient.email
+    } catch (error) {
+      console.error(`Error emailing invoice ${id}:`, error)
+      emailError = error instanceof Error ? error.message : 'Email could not be sent'
+    }
+
+    return NextResponse.json({
+      ...invoice,
+      emailedTo,
+      emailError,
+    })
+  } catch (error) {
+    console.error('Error sending invoice:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
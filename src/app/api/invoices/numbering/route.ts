@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import {
+  INVOICE_NUMBERING_SETTING_KEY,
+  defaultInvoiceNumberingConfig,
+  formatDocumentNumber,
+  getInvoiceNumberingConfig,
+  invoiceNumberingConfigSchema,
+} from '@/lib/invoice-numbers'
+
+const prisma = new PrismaClient()
+
+// GET /api/invoices/numbering - Get the invoice and credit note numbering settings
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const config = await getInvoiceNumberingConfig(prisma)
+    const now = new Date()
+
+    return NextResponse.json({
+      config,
+      defaults: defaultInvoiceNumberingConfig,
+      examples: {
+        invoice: formatDocumentNumber(config.invoice, 1, now.getFullYear(), now.getMonth() + 1),
+        creditNote: formatDocumentNumber(config.creditNote, 1, now.getFullYear(), now.getMonth() + 1),
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching invoice numbering config:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/invoices/numbering - Update the numbering settings (admin only). Counters are
+// kept, so numbers issued before the change are never reused.
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Only administrators can change invoice numbering' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const currentConfig = await getInvoiceNumberingConfig(prisma)
+    const validatedData = invoiceNumberingConfigSchema.parse({
+      ...currentConfig,
+      ...body,
+    })
+
+    await prisma.systemSetting.upsert({
+      where: { key: INVOICE_NUMBERING_SETTING_KEY },
+      update: {
+        value: JSON.stringify(validatedData),
+        updatedBy: session.user.id,
+      },
+      create: {
+        key: INVOICE_NUMBERING_SETTING_KEY,
+        value: JSON.stringify(validatedData),
+        description: 'Invoice and credit note number formats and when numbers are assigned',
+        updatedBy: session.user.id,
+      },
+    })
+
+    return NextResponse.json({ config: validatedData })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating invoice numbering config:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
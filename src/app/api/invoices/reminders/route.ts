@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import {
+  INVOICE_REMINDERS_SETTING_KEY,
+  defaultInvoiceReminderConfig,
+  getInvoiceReminderConfig,
+  invoiceReminderConfigSchema,
+} from '@/lib/invoice-reminders'
+
+const prisma = new PrismaClient()
+
+// GET /api/invoices/reminders - Get the payment reminder sequence
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const config = await getInvoiceReminderConfig(prisma)
+
+    return NextResponse.json({
+      config,
+      defaults: defaultInvoiceReminderConfig,
+    })
+  } catch (error) {
+    console.error('Error fetching invoice reminder config:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/invoices/reminders - Update the payment reminder sequence (admin only)
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Only administrators can change payment reminders' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const currentConfig = await getInvoiceReminderConfig(prisma)
+    const validatedData = invoiceReminderConfigSchema.parse({
+      ...currentConfig,
+      ...body,
+    })
+
+    await prisma.systemSetting.upsert({
+      where: { key: INVOICE_REMINDERS_SETTING_KEY },
+      update: {
+        value: JSON.stringify(validatedData),
+        updatedBy: session.user.id,
+      },
+      create: {
+        key: INVOICE_REMINDERS_SETTING_KEY,
+        value: JSON.stringify(validatedData),
+        description: 'Days relative to the due date on which payment reminders are sent',
+        updatedBy: session.user.id,
+      },
+    })
+
+    return NextResponse.json({ config: validatedData })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating invoice reminder config:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
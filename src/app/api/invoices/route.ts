@@ -3,32 +3,40 @@ import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 import { z } from 'zod'
+import { assertClientContact, ContactNotFoundError, recipientContactSelect } from '@/lib/client-contacts'
+import { getClientScope, PortalAccessError, portalInvoiceWhere } from '@/lib/client-portal'
+import { currencyCodeSchema, resolveRecordCurrency } from '@/lib/currency'
+import { assignInvoiceNumber, numberForNewInvoice } from '@/lib/invoice-numbers'
+import { summarizeInvoiceBalance, syncInvoicePaymentStatus } from '@/lib/invoice-payments'
+import { buildInvoiceItems, TaxRateError } from '@/lib/tax-rates'
 
 const prisma = new PrismaClient()
 
-// Validation schema for creating invoices
+// Validation schema for creating invoices. Invoice numbers come from the numbering
+// service, and line and invoice totals are computed from the items and their tax rates;
+// neither is taken from the request.
 const createInvoiceSchema = z.object({
-  invoiceNumber: z.string().min(1, 'Invoice number is required'),
   clientId: z.string().min(1, 'Client ID is required'),
   projectId: z.string().optional(),
-  status: z.enum(['DRAFT', 'SENT', 'PAID', 'OVERDUE', 'CANCELLED']).default('DRAFT'),
+  recipientContactId: z.string().nullable().optional(),
+  // PAID is only reached by recording payments
+  status: z.enum(['DRAFT', 'SENT', 'OVERDUE', 'CANCELLED']).default('DRAFT'),
   issueDate: z.string().transform((str) => new Date(str)),
   dueDate: z.string().transform((str) => new Date(str)),
   items: z.array(z.object({
     description: z.string().min(1, 'Item description is required'),
     quantity: z.number().min(0, 'Quantity must be positive'),
     unitPrice: z.number().min(0, 'Unit price must be positive'),
-    totalPrice: z.number().min(0, 'Total must be positive'),
+    taxRateId: z.string().nullable().optional(),
   })).min(1, 'At least one item is required'),
-  amount: z.number().min(0, 'Amount must be positive'),
-  taxAmount: z.number().min(0, 'Tax amount must be positive').default(0),
-  totalAmount: z.number().min(0, 'Total must be positive'),
+  // Defaults to the client's billing currency
+  currency: currencyCodeSchema.optional(),
   notes: z.string().optional(),
   terms: z.string().optional(),
 })
 
 // Validation schema for updating invoices
-const updateInvoiceSchema = createInvoiceSchema.partial().omit({ clientId: true })
+const updateInvoiceSchema = createInvoiceSchema.partial().omit({ clientId: true, recipientContactId: true, currency: true, items: true })
 
 // GET /api/invoices - Get all invoices with filtering and pagination
 export async function GET(request: NextRequest) {
@@ -43,6 +51,7 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(searchParams.get('limit') || '10')
     const search = searchParams.get('search') || ''
     const status = searchParams.get('status')
+    const type = searchParams.get('type')
     const clientId = searchParams.get('clientId')
     const projectId = searchParams.get('projectId')
     const dateFrom = searchParams.get('dateFrom')
@@ -68,6 +77,10 @@ export async function GET(request: NextRequest) {
       where.status = status
     }
 
+    if (type) {
+      where.type = type
+    }
+
     if (clientId) {
       where.clientId = clientId
     }
@@ -86,6 +99,12 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // CLIENT users only see their own client's issued invoices
+    const portalUser = await getClientScope(session.user.id, prisma)
+    if (portalUser) {
+      where.AND = [portalInvoiceWhere(portalUser.clientId)]
+    }
+
     const [invoices, total] = await Promise.all([
       prisma.invoice.findMany({
         where,
@@ -109,6 +128,7 @@ export async function GET(request: NextRequest) {
 
             },
           },
+          recipientContact: recipientContactSelect,
           creator: {
             select: {
               id: true,
@@ -120,11 +140,13 @@ export async function GET(request: NextRequest) {
           payments: {
               select: {
                 id: true,
+                type: true,
                 amount: true,
                 paymentDate: true,
                 paymentMethod: true,
               },
             },
+          creditNotes: { select: { totalAmount: true } },
           },
         }),
       prisma.invoice.count({ where }),
@@ -132,15 +154,15 @@ export async function GET(request: NextRequest) {
 
     // Calculate payment status for each invoice
     const invoicesWithPaymentStatus = invoices.map(invoice => {
-      const totalPaid = invoice.payments
-        .reduce((sum, payment) => sum + payment.amount, 0)
-      
-      const remainingAmount = invoice.totalAmount - totalPaid
+      const balance = summarizeInvoiceBalance(invoice)
+      const totalPaid = balance.amountPaid
+      const remainingAmount = balance.balanceDue
       const paymentStatus = remainingAmount <= 0 ? 'FULLY_PAID' : 
                            totalPaid > 0 ? 'PARTIALLY_PAID' : 'UNPAID'
 
       return {
         ...invoice,
+        ...balance,
         totalPaid,
         remainingAmount,
         paymentStatus,
@@ -161,6 +183,10 @@ export async function GET(request: NextRequest) {
       },
     })
   } catch (error) {
+    if (error instanceof PortalAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
     console.error('Error fetching invoices:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -206,17 +232,8 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Check if invoice number already exists
-    const existingInvoice = await prisma.invoice.findUnique({
-      where: { invoiceNumber: validatedData.invoiceNumber },
-    })
-
-    if (existingInvoice) {
-      return NextResponse.json(
-        { error: 'Invoice number already exists' },
-        { status: 409 }
-      )
-    }
+    // Check that the recipient is one of the client's contacts (if provided)
+    await assertClientContact(validatedData.clientId, validatedData.recipientContactId)
 
     // Validate date range
     if (validatedData.dueDate <= validatedData.issueDate) {
@@ -226,43 +243,59 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Create invoice with items
+    // Create invoice with items. The number is allocated in the same transaction so
+    // a failed create does not use it up.
     const { items, ...invoiceData } = validatedData
     
-    const invoice = await prisma.invoice.create({
-      data: {
-        ...invoiceData,
-        createdBy: session.user.id,
-        items: {
-          create: items,
-        },
-      },
-      include: {
-        client: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            company: true,
-            phone: true,
+    const { lines, ...totals } = await buildInvoiceItems(items, prisma)
+
+    const invoice = await prisma.$transaction(async (tx) => {
+      const created = await tx.invoice.create({
+        data: {
+          ...invoiceData,
+          ...totals,
+          currency: await resolveRecordCurrency(invoiceData, tx),
+          invoiceNumber: await numberForNewInvoice('INVOICE', invoiceData.status, tx, invoiceData.issueDate),
+          createdBy: session.user.id,
+          items: {
+            create: lines,
           },
         },
-        project: {
-          select: {
-            id: true,
-            name: true,
-            status: true,
+      })
+
+      // An issued invoice with nothing to pay is settled straight away
+      await syncInvoicePaymentStatus(created.id, tx)
+
+      return tx.invoice.findUniqueOrThrow({
+        where: { id: created.id },
+        include: {
+          client: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              company: true,
+              phone: true,
+            },
           },
-        },
-        creator: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
+          project: {
+            select: {
+              id: true,
+              name: true,
+              status: true,
+            },
           },
+          recipientContact: recipientContactSelect,
+          creator: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+          items: true,
         },
-        items: true,
-      },
+      })
     })
 
     return NextResponse.json(invoice, { status: 201 })
@@ -274,6 +307,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (error instanceof ContactNotFoundError || error instanceof TaxRateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
     console.error('Error creating invoice:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -302,14 +342,79 @@ export async function PUT(request: NextRequest) {
 
     const validatedData = updateInvoiceSchema.parse(data)
 
-    const updatedInvoices = await prisma.invoice.updateMany({
+    // Check if any invoices are paid (shouldn't be modified)
+    const paidInvoices = await prisma.invoice.findMany({
       where: {
         id: { in: ids },
+        status: 'PAID',
       },
-      data: {
-        ...validatedData,
-        updatedAt: new Date(),
-      },
+      select: { id: true, invoiceNumber: true },
+    })
+
+    if (paidInvoices.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Cannot modify paid invoices',
+          paidInvoices: paidInvoices.map(inv => inv.invoiceNumber),
+        },
+        { status: 400 }
+      )
+    }
+
+    // Numbered invoices are part of a gapless series and cannot go back to DRAFT
+    if (validatedData.status === 'DRAFT') {
+      const numberedInvoices = await prisma.invoice.findMany({
+        where: {
+          id: { in: ids },
+          invoiceNumber: { not: null },
+        },
+        select: { id: true, invoiceNumber: true },
+      })
+
+      if (numberedInvoices.length > 0) {
+        return NextResponse.json(
+          {
+            error: 'Cannot move numbered invoices back to draft',
+            numberedInvoices: numberedInvoices.map(inv => inv.invoiceNumber),
+          },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Invoices leaving DRAFT are numbered in the same transaction as the status change,
+    // and every status set by hand must still agree with the payments and credits on record
+    const updatedInvoices = await prisma.$transaction(async (tx) => {
+      const result = await tx.invoice.updateMany({
+        where: {
+          id: { in: ids },
+        },
+        data: {
+          ...validatedData,
+          updatedAt: new Date(),
+        },
+      })
+
+      const unnumbered = await tx.invoice.findMany({
+        where: { id: { in: ids }, invoiceNumber: null, status: { not: 'DRAFT' } },
+        orderBy: [{ issueDate: 'asc' }, { createdAt: 'asc' }],
+        select: { id: true },
+      })
+
+      for (const invoice of unnumbered) {
+        await assignInvoiceNumber(invoice.id, tx)
+      }
+
+      const updated = await tx.invoice.findMany({
+        where: { id: { in: ids } },
+        select: { id: true },
+      })
+
+      for (const invoice of updated) {
+        await syncInvoicePaymentStatus(invoice.id, tx)
+      }
+
+      return result
     })
 
     return NextResponse.json({
@@ -371,6 +476,25 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
+    // Numbered invoices are part of a gapless series; they are cancelled, not deleted
+    const numberedInvoices = await prisma.invoice.findMany({
+      where: {
+        id: { in: ids },
+        invoiceNumber: { not: null },
+      },
+      select: { id: true, invoiceNumber: true },
+    })
+
+    if (numberedInvoices.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Cannot delete numbered invoices; cancel them instead',
+          numberedInvoices: numberedInvoices.map(inv => inv.invoiceNumber),
+        },
+        { status: 400 }
+      )
+    }
+
     const deletedInvoices = await prisma.invoice.deleteMany({
       where: {
         id: { in: ids },
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeJobRequest } from '@/lib/jobs'
+import { recomputeAllClientHealth } from '@/lib/client-health'
+
+// POST /api/jobs/client-health - Recompute every client's health score (run daily)
+export async function POST(request: NextRequest) {
+  try {
+    if (!(await authorizeJobRequest(request))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await recomputeAllClientHealth()
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error recomputing client health:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
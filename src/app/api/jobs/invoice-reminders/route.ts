@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeJobRequest } from '@/lib/jobs'
+import { runInvoiceDunning } from '@/lib/invoice-reminders'
+
+// POST /api/jobs/invoice-reminders - Mark overdue invoices and send due payment reminders (run daily)
+export async function POST(request: NextRequest) {
+  try {
+    if (!(await authorizeJobRequest(request))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await runInvoiceDunning()
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error running invoice reminders:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
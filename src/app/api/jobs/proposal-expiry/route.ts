@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeJobRequest } from '@/lib/jobs'
+import { expireDueProposals } from '@/lib/proposal-sharing'
+
+// POST /api/jobs/proposal-expiry - Expire open proposals past their valid-until date (run daily)
+export async function POST(request: NextRequest) {
+  try {
+    if (!(await authorizeJobRequest(request))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await expireDueProposals()
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error expiring proposals:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeJobRequest } from '@/lib/jobs'
+import { generateDueRecurringInvoices } from '@/lib/recurring-invoices'
+
+// POST /api/jobs/recurring-invoices - Generate the invoices of every recurring profile that is due (run daily)
+export async function POST(request: NextRequest) {
+  try {
+    if (!(await authorizeJobRequest(request))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await generateDueRecurringInvoices()
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error generating recurring invoices:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeJobRequest } from '@/lib/jobs'
+import { runDueReports } from '@/lib/report-scheduler'
+
+// POST /api/jobs/scheduled-reports - Run and email every saved report that is due
+export async function POST(request: NextRequest) {
+  try {
+    if (!(await authorizeJobRequest(request))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await runDueReports()
+
+    return NextResponse.json({
+      processed: result.processed,
+      sent: result.sent,
+      failed: result.failed,
+      deliveries: result.deliveries.map((delivery) => ({
+        id: delivery.id,
+        reportId: delivery.reportId,
+        status: delivery.status,
+        error: delivery.error,
+      })),
+    })
+  } catch (error) {
+    console.error('Error running scheduled reports:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { CAPTURE_FIELDS, generateFormToken } from '@/lib/lead-capture'
+
+const prisma = new PrismaClient()
+
+// Validation schema for lead capture form updates
+const updateLeadFormSchema = z.object({
+  name: z.string().min(1, 'Form name is required').optional(),
+  description: z.string().optional(),
+  fieldMapping: z.record(z.enum(CAPTURE_FIELDS)).optional(),
+  allowedOrigins: z.array(z.string().url('Invalid origin')).optional(),
+  redirectUrl: z.string().url('Invalid redirect URL').nullable().optional(),
+  honeypotField: z.string().min(1).optional(),
+  rateLimitPerHour: z.number().int().min(1).max(1000).optional(),
+  defaultAssigneeId: z.string().nullable().optional(),
+  isActive: z.boolean().optional(),
+  regenerateToken: z.boolean().optional(),
+})
+
+async function canManageForms(userId: string) {
+  const currentUser = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  })
+
+  return currentUser?.role === 'ADMIN' || currentUser?.role === 'MANAGER'
+}
+
+// GET /api/lead-forms/[id] - Get a lead form with its recent submissions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const form = await prisma.leadForm.findUnique({
+      where: { id },
+      include: {
+        defaultAssignee: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        submissions: {
+          orderBy: { createdAt: 'desc' },
+          take: 50,
+          select: {
+            id: true,
+            leadId: true,
+            status: true,
+            ipAddress: true,
+            createdAt: true,
+          },
+        },
+        _count: {
+          select: {
+            leads: true,
+            submissions: true,
+          },
+        },
+      },
+    })
+
+    if (!form) {
+      return NextResponse.json(
+        { error: 'Lead form not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      ...form,
+      submitUrl: `/api/public/lead-forms/${form.token}`,
+    })
+  } catch (error) {
+    console.error('Error fetching lead form:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/lead-forms/[id] - Update a lead form
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await canManageForms(session.user.id))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { regenerateToken, allowedOrigins, ...validatedData } = updateLeadFormSchema.parse(body)
+
+    const existingForm = await prisma.leadForm.findUnique({
+      where: { id },
+    })
+
+    if (!existingForm) {
+      return NextResponse.json(
+        { error: 'Lead form not found' },
+        { status: 404 }
+      )
+    }
+
+    const updatedForm = await prisma.leadForm.update({
+      where: { id },
+      data: {
+        ...validatedData,
+        ...(allowedOrigins && { allowedOrigins: allowedOrigins.join(',') }),
+        ...(regenerateToken && { token: generateFormToken() }),
+      },
+    })
+
+    return NextResponse.json({
+      ...updatedForm,
+      submitUrl: `/api/public/lead-forms/${updatedForm.token}`,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating lead form:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/lead-forms/[id] - Delete a lead form (captured leads are kept)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await canManageForms(session.user.id))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const existingForm = await prisma.leadForm.findUnique({
+      where: { id },
+    })
+
+    if (!existingForm) {
+      return NextResponse.json(
+        { error: 'Lead form not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.leadForm.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({
+      message: 'Lead form deleted successfully',
+      id,
+    })
+  } catch (error) {
+    console.error('Error deleting lead form:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
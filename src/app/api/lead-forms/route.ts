@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { CAPTURE_FIELDS, generateFormToken } from '@/lib/lead-capture'
+
+const prisma = new PrismaClient()
+
+// Validation schema for lead capture forms
+const leadFormSchema = z.object({
+  name: z.string().min(1, 'Form name is required'),
+  description: z.string().optional(),
+  fieldMapping: z.record(z.enum(CAPTURE_FIELDS)).optional(),
+  allowedOrigins: z.array(z.string().url('Invalid origin')).optional(),
+  redirectUrl: z.string().url('Invalid redirect URL').optional(),
+  honeypotField: z.string().min(1).default('website_url'),
+  rateLimitPerHour: z.number().int().min(1).max(1000).default(5),
+  defaultAssigneeId: z.string().optional(),
+  isActive: z.boolean().default(true),
+})
+
+// GET /api/lead-forms - Get all lead capture forms
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const forms = await prisma.leadForm.findMany({
+      orderBy: { createdAt: 'desc' },
+      include: {
+        defaultAssignee: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        _count: {
+          select: {
+            leads: true,
+            submissions: true,
+          },
+        },
+      },
+    })
+
+    return NextResponse.json({
+      forms,
+      total: forms.length,
+    })
+  } catch (error) {
+    console.error('Error fetching lead forms:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/lead-forms - Create a new lead capture form
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN' && currentUser?.role !== 'MANAGER') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = leadFormSchema.parse(body)
+
+    if (validatedData.defaultAssigneeId) {
+      const assignee = await prisma.user.findUnique({
+        where: { id: validatedData.defaultAssigneeId },
+      })
+
+      if (!assignee) {
+        return NextResponse.json(
+          { error: 'Assignee not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    const form = await prisma.leadForm.create({
+      data: {
+        ...validatedData,
+        allowedOrigins: validatedData.allowedOrigins?.join(','),
+        token: generateFormToken(),
+        createdBy: session.user.id,
+      },
+    })
+
+    return NextResponse.json(
+      {
+        ...form,
+        submitUrl: `/api/public/lead-forms/${form.token}`,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating lead form:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
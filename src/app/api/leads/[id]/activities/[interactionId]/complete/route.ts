@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { rescoreLead } from '@/lib/lead-scoring'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+
+const prisma = new PrismaClient()
+
+// Validation schema for completing a scheduled interaction
+const completeInteractionSchema = z.object({
+  completedAt: z.string().transform((str) => new Date(str)).optional(),
+  outcome: z.string().optional(),
+})
+
+// POST /api/leads/[id]/activities/[interactionId]/complete - Mark a scheduled interaction as completed
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; interactionId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, interactionId } = await params
+    const body = await request.json().catch(() => ({}))
+    const validatedData = completeInteractionSchema.parse(body)
+
+    const existingInteraction = await prisma.leadInteraction.findFirst({
+      where: { id: interactionId, leadId: id },
+    })
+
+    if (!existingInteraction) {
+      return NextResponse.json(
+        { error: 'Interaction not found' },
+        { status: 404 }
+      )
+    }
+
+    if (existingInteraction.completedAt) {
+      return NextResponse.json(
+        { error: 'Interaction is already completed' },
+        { status: 409 }
+      )
+    }
+
+    // Append the outcome to the existing content so the original agenda is kept
+    const content = validatedData.outcome
+      ? [existingInteraction.content, validatedData.outcome].filter(Boolean).join('\n\n')
+      : existingInteraction.content
+
+    const interaction = await prisma.leadInteraction.update({
+      where: { id: interactionId },
+      data: {
+        completedAt: validatedData.completedAt || new Date(),
+        content,
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    })
+
+    await rescoreLead(id, prisma)
+
+    return NextResponse.json(interaction)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error completing lead interaction:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { rescoreLead } from '@/lib/lead-scoring'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+
+const prisma = new PrismaClient()
+
+// Validation schema for lead interaction updates
+const updateInteractionSchema = z.object({
+  interactionType: z.enum(['CALL', 'EMAIL', 'MEETING', 'NOTE']).optional(),
+  subject: z.string().max(200).optional(),
+  content: z.string().optional(),
+  scheduledAt: z.string().transform((str) => new Date(str)).nullable().optional(),
+  completedAt: z.string().transform((str) => new Date(str)).nullable().optional(),
+})
+
+// GET /api/leads/[id]/activities/[interactionId] - Get a specific interaction
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; interactionId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, interactionId } = await params
+
+    const interaction = await prisma.leadInteraction.findFirst({
+      where: { id: interactionId, leadId: id },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        lead: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            company: true,
+          },
+        },
+      },
+    })
+
+    if (!interaction) {
+      return NextResponse.json(
+        { error: 'Interaction not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(interaction)
+  } catch (error) {
+    console.error('Error fetching lead interaction:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/leads/[id]/activities/[interactionId] - Update a specific interaction
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; interactionId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, interactionId } = await params
+    const body = await request.json()
+    const validatedData = updateInteractionSchema.parse(body)
+
+    const existingInteraction = await prisma.leadInteraction.findFirst({
+      where: { id: interactionId, leadId: id },
+    })
+
+    if (!existingInteraction) {
+      return NextResponse.json(
+        { error: 'Interaction not found' },
+        { status: 404 }
+      )
+    }
+
+    // Check permissions - only the author, managers or admins can modify
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (
+      existingInteraction.userId !== session.user.id &&
+      currentUser?.role !== 'ADMIN' &&
+      currentUser?.role !== 'MANAGER'
+    ) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const updatedInteraction = await prisma.leadInteraction.update({
+      where: { id: interactionId },
+      data: validatedData,
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    })
+
+    await rescoreLead(id, prisma)
+
+    return NextResponse.json(updatedInteraction)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating lead interaction:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/leads/[id]/activities/[interactionId] - Delete a specific interaction
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; interactionId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, interactionId } = await params
+
+    const existingInteraction = await prisma.leadInteraction.findFirst({
+      where: { id: interactionId, leadId: id },
+    })
+
+    if (!existingInteraction) {
+      return NextResponse.json(
+        { error: 'Interaction not found' },
+        { status: 404 }
+      )
+    }
+
+    // Check permissions - only the author, managers or admins can delete
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (
+      existingInteraction.userId !== session.user.id &&
+      currentUser?.role !== 'ADMIN' &&
+      currentUser?.role !== 'MANAGER'
+    ) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    await prisma.leadInteraction.delete({
+      where: { id: interactionId },
+    })
+
+    await rescoreLead(id, prisma)
+
+    return NextResponse.json({
+      message: 'Interaction deleted successfully',
+      id: interactionId,
+    })
+  } catch (error) {
+    console.error('Error deleting lead interaction:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
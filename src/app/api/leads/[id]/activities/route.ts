@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { rescoreLead } from '@/lib/lead-scoring'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+
+const prisma = new PrismaClient()
+
+// Validation schema for creating lead interactions
+const createInteractionSchema = z.object({
+  interactionType: z.enum(['CALL', 'EMAIL', 'MEETING', 'NOTE']),
+  subject: z.string().max(200).optional(),
+  content: z.string().optional(),
+  scheduledAt: z.string().transform((str) => new Date(str)).optional(),
+  completedAt: z.string().transform((str) => new Date(str)).optional(),
+  userId: z.string().optional(),
+})
+
+// GET /api/leads/[id]/activities - Get the communication log of a lead
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const type = searchParams.get('type')
+    const pending = searchParams.get('pending')
+    const sortOrder = searchParams.get('sortOrder') === 'asc' ? 'asc' : 'desc'
+
+    const lead = await prisma.lead.findUnique({
+      where: { id },
+      select: { id: true },
+    })
+
+    if (!lead) {
+      return NextResponse.json(
+        { error: 'Lead not found' },
+        { status: 404 }
+      )
+    }
+
+    // Build where clause
+    const where: any = { leadId: id }
+
+    if (type) {
+      where.interactionType = type
+    }
+
+    if (pending === 'true') {
+      where.completedAt = null
+      where.scheduledAt = { not: null }
+    }
+
+    const interactions = await prisma.leadInteraction.findMany({
+      where,
+      orderBy: { createdAt: sortOrder },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    })
+
+    return NextResponse.json({
+      interactions,
+      total: interactions.length,
+    })
+  } catch (error) {
+    console.error('Error fetching lead interactions:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/leads/[id]/activities - Log a new interaction or schedule a follow-up
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = createInteractionSchema.parse(body)
+
+    const lead = await prisma.lead.findUnique({
+      where: { id },
+      select: { id: true },
+    })
+
+    if (!lead) {
+      return NextResponse.json(
+        { error: 'Lead not found' },
+        { status: 404 }
+      )
+    }
+
+    // Interactions without a schedule are logged as already completed
+    const completedAt = validatedData.completedAt ??
+      (validatedData.scheduledAt ? undefined : new Date())
+
+    const interaction = await prisma.leadInteraction.create({
+      data: {
+        leadId: id,
+        userId: validatedData.userId || session.user.id,
+        interactionType: validatedData.interactionType,
+        subject: validatedData.subject,
+        content: validatedData.content,
+        scheduledAt: validatedData.scheduledAt,
+        completedAt,
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    })
+
+    await rescoreLead(id, prisma)
+
+    return NextResponse.json(interaction, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating lead interaction:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
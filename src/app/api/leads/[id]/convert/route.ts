@@ -0,0 +1,211 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { resolveRecordCurrency } from '@/lib/currency'
+import { copyLeadInteractionsToClient } from '@/lib/duplicates'
+import { markLeadStatusChange } from '@/lib/lead-scoring'
+
+const prisma = new PrismaClient()
+
+// Validation schema for lead conversion
+const convertLeadSchema = z.object({
+  client: z.object({
+    name: z.string().min(1, 'Name is required').optional(),
+    company: z.string().min(1, 'Company is required').optional(),
+    industry: z.string().optional(),
+    address: z.string().optional(),
+    website: z.string().optional(),
+    accountManagerId: z.string().optional(),
+  }).optional(),
+  project: z.object({
+    name: z.string().min(1, 'Project name is required'),
+    description: z.string().optional(),
+    budget: z.number().min(0).optional(),
+    priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).default('MEDIUM'),
+    startDate: z.string().transform((str) => new Date(str)).optional(),
+    endDate: z.string().transform((str) => new Date(str)).optional(),
+    managerId: z.string().optional(),
+  }).optional(),
+  contact: z.object({
+    position: z.string().optional(),
+  }).optional(),
+  createContact: z.boolean().default(true),
+})
+
+// POST /api/leads/[id]/convert - Convert a lead into a client
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+    const validatedData = convertLeadSchema.parse(body)
+
+    const lead = await prisma.lead.findUnique({
+      where: { id },
+      include: {
+        interactions: {
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    })
+
+    if (!lead) {
+      return NextResponse.json(
+        { error: 'Lead not found' },
+        { status: 404 }
+      )
+    }
+
+    if (lead.convertedToClientId || lead.status === 'CONVERTED') {
+      return NextResponse.json(
+        {
+          error: 'Lead has already been converted',
+          clientId: lead.convertedToClientId,
+        },
+        { status: 409 }
+      )
+    }
+
+    // Check if a client with the lead's email already exists
+    const existingClient = await prisma.client.findFirst({
+      where: { email: lead.email },
+      select: { id: true, name: true },
+    })
+
+    if (existingClient) {
+      return NextResponse.json(
+        {
+          error: 'Client with this email already exists',
+          clientId: existingClient.id,
+        },
+        { status: 409 }
+      )
+    }
+
+    const projectData = validatedData.project
+    if (projectData?.startDate && projectData?.endDate && projectData.endDate <= projectData.startDate) {
+      return NextResponse.json(
+        { error: 'End date must be after start date' },
+        { status: 400 }
+      )
+    }
+
+    const accountManagerId =
+      validatedData.client?.accountManagerId || lead.assignedTo || session.user.id
+
+    // Every step runs inside one transaction so a failure rolls the whole conversion back
+    const result = await prisma.$transaction(async (tx) => {
+      const client = await tx.client.create({
+        data: {
+          name: validatedData.client?.name || lead.name,
+          email: lead.email,
+          phone: lead.phone,
+          company: validatedData.client?.company || lead.company || lead.name,
+          industry: validatedData.client?.industry || lead.industry,
+          address: validatedData.client?.address,
+          website: validatedData.client?.website,
+          leadId: lead.id,
+          accountManagerId,
+        },
+      })
+
+      const contact = validatedData.createContact
+        ? await tx.clientContact.create({
+            data: {
+              clientId: client.id,
+              name: lead.name,
+              email: lead.email,
+              phone: lead.phone,
+              position: validatedData.contact?.position,
+              isPrimary: true,
+            },
+          })
+        : null
+
+      const project = projectData
+        ? await tx.project.create({
+            data: {
+              name: projectData.name,
+              description: projectData.description,
+              budget: projectData.budget,
+              currency: await resolveRecordCurrency({ clientId: client.id }, tx),
+              priority: projectData.priority,
+              startDate: projectData.startDate,
+              endDate: projectData.endDate,
+              clientId: client.id,
+              managerId: projectData.managerId || session.user.id,
+            },
+          })
+        : null
+
+      // Copy the lead's communication log into the client's history
+      await copyLeadInteractionsToClient(lead, lead.interactions, client.id, tx)
+
+      await markLeadStatusChange({ id: lead.id }, 'CONVERTED', tx)
+      const updatedLead = await tx.lead.update({
+        where: { id: lead.id },
+        data: {
+          status: 'CONVERTED',
+          convertedToClientId: client.id,
+        },
+        include: {
+          assigned: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+      })
+
+      await tx.activity.create({
+        data: {
+          userId: session.user.id,
+          type: 'LEAD_CONVERTED',
+          description: `Converted lead ${lead.name} to client ${client.company}`,
+          entityType: 'LEAD',
+          entityId: lead.id,
+          metadata: {
+            clientId: client.id,
+            projectId: project?.id ?? null,
+            contactId: contact?.id ?? null,
+            interactionsCopied: lead.interactions.length,
+          },
+        },
+      })
+
+      return { lead: updatedLead, client, contact, project }
+    })
+
+    return NextResponse.json(
+      {
+        ...result,
+        message: 'Lead successfully converted to client',
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error converting lead:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
+import { computeLeadScore, getLeadScoringConfig, markLeadStatusChange, rescoreLead } from '@/lib/lead-scoring'
+import { recordLeadAssignment } from '@/lib/lead-assignment'
 import { PrismaClient } from '@prisma/client'
 import { z } from 'zod'
 
@@ -12,6 +14,8 @@ const updateLeadSchema = z.object({
   email: z.string().email('Invalid email format').optional(),
   phone: z.string().optional(),
   company: z.string().optional(),
+  industry: z.string().optional(),
+  companySize: z.number().int().min(0).optional(),
   status: z.enum(['NEW', 'CONTACTED', 'QUALIFIED', 'PROPOSAL_SENT', 'NEGOTIATION', 'CONVERTED', 'LOST']).optional(),
   source: z.enum(['WEBSITE', 'SOCIAL', 'REFERRAL', 'EMAIL', 'COLD_CALL']).optional(),
   value: z.number().min(0).optional(),
@@ -43,6 +47,13 @@ export async function GET(
             email: true,
           },
         },
+        interactions: {
+          select: {
+            createdAt: true,
+            scheduledAt: true,
+            completedAt: true,
+          },
+        },
       },
     })
 
@@ -53,7 +64,15 @@ export async function GET(
       )
     }
 
-    return NextResponse.json(lead)
+    // Explain how the current score was reached
+    const { interactions, ...leadData } = lead
+    const scoring = computeLeadScore(lead, await getLeadScoringConfig(prisma))
+
+    return NextResponse.json({
+      ...leadData,
+      interactionCount: interactions.length,
+      scoring,
+    })
   } catch (error) {
     console.error('Error fetching lead:', error)
     return NextResponse.json(
@@ -76,7 +95,7 @@ export async function PUT(
 
     const { id } = await params
     const body = await request.json()
-    const validatedData = updateLeadSchema.parse(body)
+    const { assignedToId, ...validatedData } = updateLeadSchema.parse(body)
 
     // Check if lead exists
     const existingLead = await prisma.lead.findUnique({
@@ -107,6 +126,16 @@ export async function PUT(
       }
     }
 
+    if (assignedToId && assignedToId !== existingLead.assignedTo) {
+      await recordLeadAssignment(existingLead, assignedToId, session.user.id, prisma, {
+        notify: assignedToId !== session.user.id,
+      })
+    }
+
+    if (validatedData.status) {
+      await markLeadStatusChange({ id }, validatedData.status, prisma)
+    }
+
     const updatedLead = await prisma.lead.update({
       where: { id },
       data: {
@@ -124,6 +153,11 @@ export async function PUT(
       },
     })
 
+    const scoring = await rescoreLead(id, prisma)
+    if (scoring) {
+      updatedLead.score = scoring.score
+    }
+
     return NextResponse.json(updatedLead)
   } catch (error) {
     if (error instanceof z.ZodError) {
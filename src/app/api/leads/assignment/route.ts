@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import {
+  LEAD_ASSIGNMENT_SETTING_KEY,
+  autoAssignLead,
+  defaultLeadAssignmentConfig,
+  getAssignmentCandidates,
+  getLeadAssignmentConfig,
+  leadAssignmentConfigSchema,
+} from '@/lib/lead-assignment'
+
+const prisma = new PrismaClient()
+
+// Validation schema for assigning existing unassigned leads
+const assignLeadsSchema = z.object({
+  leadIds: z.array(z.string()).optional(),
+})
+
+// GET /api/leads/assignment - Get the assignment configuration and eligible users
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const config = await getLeadAssignmentConfig(prisma)
+    const candidates = await getAssignmentCandidates(
+      { ...config, excludedUserIds: [] },
+      prisma
+    )
+
+    return NextResponse.json({
+      config,
+      defaults: defaultLeadAssignmentConfig,
+      users: candidates.map((candidate) => ({
+        ...candidate,
+        excluded: config.excludedUserIds.includes(candidate.id),
+        atCapacity: config.maxOpenLeads !== null && candidate.openLeads >= config.maxOpenLeads,
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching lead assignment config:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/leads/assignment - Update assignment strategy, weights and rules (admin only)
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Only administrators can change lead assignment' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const currentConfig = await getLeadAssignmentConfig(prisma)
+    const validatedData = leadAssignmentConfigSchema.parse({
+      ...currentConfig,
+      ...body,
+    })
+
+    // Every user referenced by a rule or weight must exist
+    const referencedIds = Array.from(new Set([
+      ...validatedData.rules.flatMap((rule) => rule.userIds),
+      ...Object.keys(validatedData.weights),
+    ]))
+    const knownUsers = await prisma.user.count({
+      where: { id: { in: referencedIds } },
+    })
+
+    if (knownUsers !== referencedIds.length) {
+      return NextResponse.json(
+        { error: 'Assignment rules reference unknown users' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.systemSetting.upsert({
+      where: { key: LEAD_ASSIGNMENT_SETTING_KEY },
+      update: {
+        value: JSON.stringify(validatedData),
+        updatedBy: session.user.id,
+      },
+      create: {
+        key: LEAD_ASSIGNMENT_SETTING_KEY,
+        value: JSON.stringify(validatedData),
+        description: 'Automatic lead assignment strategy and rules',
+        updatedBy: session.user.id,
+      },
+    })
+
+    return NextResponse.json({ config: validatedData })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating lead assignment config:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/leads/assignment - Run the assignment engine over unassigned open leads
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN' && currentUser?.role !== 'MANAGER') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { leadIds } = assignLeadsSchema.parse(body)
+
+    const config = await getLeadAssignmentConfig(prisma)
+    if (!config.enabled) {
+      return NextResponse.json(
+        { error: 'Automatic lead assignment is disabled' },
+        { status: 409 }
+      )
+    }
+
+    const unassignedLeads = await prisma.lead.findMany({
+      where: {
+        assignedTo: null,
+        status: { notIn: ['CONVERTED', 'LOST'] },
+        ...(leadIds && { id: { in: leadIds } }),
+      },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    })
+
+    const assignments: { leadId: string; userId: string }[] = []
+    for (const lead of unassignedLeads) {
+      const userId = await autoAssignLead(lead.id, session.user.id, prisma, config)
+      if (userId) {
+        assignments.push({ leadId: lead.id, userId })
+      }
+    }
+
+    return NextResponse.json({
+      message: `Assigned ${assignments.length} of ${unassignedLeads.length} leads`,
+      assignments,
+      unassigned: unassignedLeads.length - assignments.length,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error assigning leads:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import {
+  findDuplicateGroups,
+  loadClientCandidates,
+  loadLeadCandidates,
+} from '@/lib/duplicates'
+
+const prisma = new PrismaClient()
+
+// GET /api/leads/duplicates - Find leads that look like other leads or existing clients
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const leadId = searchParams.get('leadId')
+    const includeClients = searchParams.get('includeClients') !== 'false'
+    const minScore = parseFloat(searchParams.get('minScore') || '0')
+
+    const [leads, clients] = await Promise.all([
+      loadLeadCandidates(prisma),
+      includeClients ? loadClientCandidates(prisma) : Promise.resolve([]),
+    ])
+
+    let groups = findDuplicateGroups(leads, { against: clients, minScore })
+
+    if (leadId) {
+      groups = groups.filter((group) =>
+        group.records.some((record) => record.kind === 'LEAD' && record.id === leadId)
+      )
+    }
+
+    return NextResponse.json({
+      groups,
+      total: groups.length,
+    })
+  } catch (error) {
+    console.error('Error finding duplicate leads:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+// GET /api/leads/follow-ups - Get scheduled, uncompleted interactions due for a user
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const userId = searchParams.get('userId') || session.user.id
+    const days = parseInt(searchParams.get('days') || '0')
+    const type = searchParams.get('type')
+
+    // Due means scheduled up to the end of today, plus an optional look-ahead window
+    const dueBefore = new Date()
+    dueBefore.setHours(23, 59, 59, 999)
+    dueBefore.setDate(dueBefore.getDate() + Math.max(0, days))
+
+    const where: any = {
+      userId,
+      completedAt: null,
+      scheduledAt: { not: null, lte: dueBefore },
+      lead: {
+        status: { notIn: ['CONVERTED', 'LOST'] },
+      },
+    }
+
+    if (type) {
+      where.interactionType = type
+    }
+
+    const followUps = await prisma.leadInteraction.findMany({
+      where,
+      orderBy: { scheduledAt: 'asc' },
+      include: {
+        lead: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            phone: true,
+            company: true,
+            status: true,
+            score: true,
+          },
+        },
+      },
+    })
+
+    const now = new Date()
+    const overdueCount = followUps.filter(
+      (followUp) => followUp.scheduledAt && followUp.scheduledAt < now
+    ).length
+
+    return NextResponse.json({
+      followUps,
+      summary: {
+        total: followUps.length,
+        overdue: overdueCount,
+        dueBefore: dueBefore.toISOString(),
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching lead follow-ups:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { mergeLeads } from '@/lib/duplicates'
+import { rescoreLead } from '@/lib/lead-scoring'
+
+const prisma = new PrismaClient()
+
+// Validation schema for merging leads
+const mergeLeadsSchema = z.object({
+  survivorId: z.string().min(1, 'Survivor lead is required'),
+  duplicateIds: z.array(z.string()).min(1, 'At least one duplicate lead is required'),
+})
+
+// POST /api/leads/merge - Merge duplicate leads into a surviving lead
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN' && currentUser?.role !== 'MANAGER') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = mergeLeadsSchema.parse(body)
+    const duplicateIds = Array.from(new Set(validatedData.duplicateIds))
+
+    if (duplicateIds.includes(validatedData.survivorId)) {
+      return NextResponse.json(
+        { error: 'A lead cannot be merged into itself' },
+        { status: 400 }
+      )
+    }
+
+    const found = await prisma.lead.count({
+      where: { id: { in: [validatedData.survivorId, ...duplicateIds] } },
+    })
+
+    if (found !== duplicateIds.length + 1) {
+      return NextResponse.json(
+        { error: 'Lead not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await prisma.$transaction((tx) =>
+      mergeLeads(validatedData.survivorId, duplicateIds, session.user.id, tx)
+    )
+
+    await rescoreLead(validatedData.survivorId, prisma)
+
+    return NextResponse.json({
+      ...result,
+      message: `Merged ${result.merged} lead(s)`,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error merging leads:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,25 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
+import { markLeadStatusChange, rescoreLead, rescoreLeads } from '@/lib/lead-scoring'
+import { autoAssignLead, recordLeadAssignment } from '@/lib/lead-assignment'
 import { PrismaClient } from '@prisma/client'
 import { z } from 'zod'
+import { leadSchema } from '@/lib/schemas'
 
 const prisma = new PrismaClient()
 
-// Validation schema for lead data
-const leadSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  email: z.string().email('Invalid email format'),
-  phone: z.string().optional(),
-  company: z.string().optional(),
-  status: z.enum(['NEW', 'CONTACTED', 'QUALIFIED', 'PROPOSAL_SENT', 'NEGOTIATION', 'CONVERTED', 'LOST']).default('NEW'),
-  source: z.enum(['WEBSITE', 'SOCIAL', 'REFERRAL', 'EMAIL', 'COLD_CALL']).default('WEBSITE'),
-  value: z.number().min(0).optional(),
-  priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).default('MEDIUM'),
-  notes: z.string().optional(),
-  assignedToId: z.string().optional(),
-})
-
 const updateLeadSchema = leadSchema.partial()
 
 // GET /api/leads - Get all leads
@@ -121,13 +110,30 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // If no assignedToId provided, assign to current user
-    if (!validatedData.assignedToId) {
-      validatedData.assignedToId = session.user.id
+    const { assignedToId, ...leadData } = validatedData
+
+    const createdLead = await prisma.lead.create({
+      data: leadData,
+    })
+
+    // Explicit assignees are recorded as-is; otherwise the assignment engine picks an owner,
+    // falling back to the current user when auto-assignment is disabled or nobody is available
+    if (assignedToId) {
+      await recordLeadAssignment(createdLead, assignedToId, session.user.id, prisma, {
+        notify: assignedToId !== session.user.id,
+      })
+    } else {
+      const assigneeId = await autoAssignLead(createdLead.id, session.user.id, prisma)
+      if (!assigneeId) {
+        await prisma.lead.update({
+          where: { id: createdLead.id },
+          data: { assignedTo: session.user.id },
+        })
+      }
     }
 
-    const lead = await prisma.lead.create({
-      data: validatedData,
+    const lead = await prisma.lead.findUniqueOrThrow({
+      where: { id: createdLead.id },
       include: {
         assigned: {
           select: {
@@ -139,6 +145,11 @@ export async function POST(request: NextRequest) {
       },
     })
 
+    const scoring = await rescoreLead(lead.id, prisma)
+    if (scoring) {
+      lead.score = scoring.score
+    }
+
     return NextResponse.json(lead, { status: 201 })
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -176,6 +187,10 @@ export async function PUT(request: NextRequest) {
 
     const validatedData = updateLeadSchema.parse(data)
 
+    if (validatedData.status) {
+      await markLeadStatusChange({ id: { in: ids } }, validatedData.status, prisma)
+    }
+
     const updatedLeads = await prisma.lead.updateMany({
       where: {
         id: { in: ids },
@@ -186,6 +201,8 @@ export async function PUT(request: NextRequest) {
       },
     })
 
+    await rescoreLeads(ids, prisma)
+
     return NextResponse.json({
       message: `Updated ${updatedLeads.count} leads`,
       count: updatedLeads.count,
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import {
+  LEAD_SCORING_SETTING_KEY,
+  defaultLeadScoringConfig,
+  getLeadScoringConfig,
+  leadScoringConfigSchema,
+  rescoreLeads,
+} from '@/lib/lead-scoring'
+
+const prisma = new PrismaClient()
+
+// Re-score every lead that is still in the pipeline
+async function rescoreOpenLeads() {
+  const openLeads = await prisma.lead.findMany({
+    where: { status: { notIn: ['CONVERTED', 'LOST'] } },
+    select: { id: true },
+  })
+
+  const changed = await rescoreLeads(openLeads.map((lead) => lead.id), prisma)
+
+  return { rescored: openLeads.length, changed }
+}
+
+// GET /api/leads/scoring - Get the active lead scoring configuration
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const config = await getLeadScoringConfig(prisma)
+
+    return NextResponse.json({
+      config,
+      defaults: defaultLeadScoringConfig,
+    })
+  } catch (error) {
+    console.error('Error fetching lead scoring config:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/leads/scoring - Update scoring rules and thresholds (admin only)
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Only administrators can change lead scoring' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const currentConfig = await getLeadScoringConfig(prisma)
+    const validatedData = leadScoringConfigSchema.parse({
+      ...currentConfig,
+      ...body,
+    })
+
+    await prisma.systemSetting.upsert({
+      where: { key: LEAD_SCORING_SETTING_KEY },
+      update: {
+        value: JSON.stringify(validatedData),
+        updatedBy: session.user.id,
+      },
+      create: {
+        key: LEAD_SCORING_SETTING_KEY,
+        value: JSON.stringify(validatedData),
+        description: 'Lead scoring rules and HOT/WARM/COLD thresholds',
+        updatedBy: session.user.id,
+      },
+    })
+
+    const result = await rescoreOpenLeads()
+
+    return NextResponse.json({
+      config: validatedData,
+      ...result,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating lead scoring config:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/leads/scoring - Re-score all open leads with the current rules
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await rescoreOpenLeads()
+
+    return NextResponse.json({
+      message: `Re-scored ${result.rescored} leads`,
+      ...result,
+    })
+  } catch (error) {
+    console.error('Error re-scoring leads:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { getPortalUser, portalInvoiceWhere } from '@/lib/client-portal'
+import { summarizeInvoiceBalance } from '@/lib/invoice-payments'
+
+const prisma = new PrismaClient()
+
+// GET /api/portal/invoices - The client's invoices with payment history and balance due
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const portalUser = await getPortalUser(session.user.id, prisma)
+    if (!portalUser) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const invoices = await prisma.invoice.findMany({
+      where: portalInvoiceWhere(portalUser.clientId),
+      select: {
+        id: true,
+        invoiceNumber: true,
+        type: true,
+        status: true,
+        amount: true,
+        taxAmount: true,
+        totalAmount: true,
+        issueDate: true,
+        dueDate: true,
+        paidDate: true,
+        project: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        items: {
+          select: {
+            id: true,
+            description: true,
+            quantity: true,
+            unitPrice: true,
+            totalPrice: true,
+          },
+        },
+        payments: {
+          select: {
+            id: true,
+            type: true,
+            amount: true,
+            paymentMethod: true,
+            paymentDate: true,
+          },
+          orderBy: { paymentDate: 'desc' },
+        },
+        creditNotes: {
+          select: {
+            totalAmount: true,
+          },
+        },
+      },
+      orderBy: { issueDate: 'desc' },
+    })
+
+    // Credit notes are listed with the invoices but nothing is owed on them
+    const invoicesWithBalance = invoices.map((invoice) => {
+      const { amountPaid, amountCredited, balanceDue } = summarizeInvoiceBalance(invoice)
+      return {
+        ...invoice,
+        amountPaid,
+        amountCredited,
+        balanceDue: invoice.type === 'CREDIT_NOTE' ? 0 : balanceDue,
+      }
+    })
+
+    return NextResponse.json({ invoices: invoicesWithBalance })
+  } catch (error) {
+    console.error('Error fetching portal invoices:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
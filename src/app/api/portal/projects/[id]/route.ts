@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { getPortalUser, portalProjectWhere, portalUserSelect } from '@/lib/client-portal'
+
+const prisma = new PrismaClient()
+
+// GET /api/portal/projects/[id] - Project progress with shared resources and client-visible tasks
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const portalUser = await getPortalUser(session.user.id, prisma)
+    if (!portalUser) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    const project = await prisma.project.findFirst({
+      where: { id, ...portalProjectWhere(portalUser.clientId) },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        status: true,
+        startDate: true,
+        endDate: true,
+        completionPercentage: true,
+        manager: {
+          select: {
+            name: true,
+            email: true,
+          },
+        },
+        resources: {
+          where: { sharedWithClient: true },
+          select: {
+            id: true,
+            name: true,
+            type: true,
+            url: true,
+            filePath: true,
+            description: true,
+            createdAt: true,
+          },
+          orderBy: { createdAt: 'desc' },
+        },
+        tasks: {
+          where: { clientVisible: true },
+          select: {
+            id: true,
+            title: true,
+            description: true,
+            status: true,
+            dueDate: true,
+            completionPercentage: true,
+            comments: {
+              select: {
+                id: true,
+                content: true,
+                createdAt: true,
+                user: portalUserSelect,
+              },
+              orderBy: { createdAt: 'asc' },
+            },
+          },
+          orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }],
+        },
+      },
+    })
+
+    // Another client's project is reported as missing rather than forbidden
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(project)
+  } catch (error) {
+    console.error('Error fetching portal project:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
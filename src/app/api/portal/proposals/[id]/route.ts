@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { getPortalUser, respondToProposal } from '@/lib/client-portal'
+import { ProposalResponseError } from '@/lib/proposals'
+
+const prisma = new PrismaClient()
+
+// Validation schema for a client's response to a proposal
+const proposalResponseSchema = z.object({
+  action: z.enum(['accept', 'reject']),
+  reason: z.string().max(2000).optional(),
+})
+
+// POST /api/portal/proposals/[id] - Accept or reject a proposal
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const portalUser = await getPortalUser(session.user.id, prisma)
+    if (!portalUser) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = proposalResponseSchema.parse(body)
+
+    const proposal = await respondToProposal(id, portalUser, validatedData, prisma)
+
+    if (!proposal) {
+      return NextResponse.json(
+        { error: 'Proposal not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      id: proposal.id,
+      status: proposal.status,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ProposalResponseError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    console.error('Error responding to proposal:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { getPortalUser, portalProposalWhere } from '@/lib/client-portal'
+import { proposalItemOrderBy } from '@/lib/proposals'
+
+const prisma = new PrismaClient()
+
+// GET /api/portal/proposals - Proposals sent to the client
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const portalUser = await getPortalUser(session.user.id, prisma)
+    if (!portalUser) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const proposals = await prisma.proposal.findMany({
+      where: portalProposalWhere(portalUser.clientId),
+      select: {
+        id: true,
+        title: true,
+        content: true,
+        subtotal: true,
+        discountAmount: true,
+        taxAmount: true,
+        totalAmount: true,
+        terms: true,
+        status: true,
+        validUntil: true,
+        createdAt: true,
+        project: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        items: {
+          select: {
+            id: true,
+            description: true,
+            quantity: true,
+            unitPrice: true,
+            totalPrice: true,
+          },
+          orderBy: proposalItemOrderBy,
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json({ proposals })
+  } catch (error) {
+    console.error('Error fetching portal proposals:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
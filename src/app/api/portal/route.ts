@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import {
+  getPortalUser,
+  portalInvoiceWhere,
+  portalProjectWhere,
+  portalProposalWhere,
+} from '@/lib/client-portal'
+import { invoiceBalanceInclude, summarizeInvoiceBalance } from '@/lib/invoice-payments'
+
+const prisma = new PrismaClient()
+
+// GET /api/portal - Overview of the signed-in client's account
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const portalUser = await getPortalUser(session.user.id, prisma)
+    if (!portalUser) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { clientId } = portalUser
+
+    const [client, activeProjects, openProposals, unpaidInvoices] = await Promise.all([
+      prisma.client.findUnique({
+        where: { id: clientId },
+        select: {
+          id: true,
+          name: true,
+          company: true,
+          accountManager: {
+            select: {
+              name: true,
+              email: true,
+            },
+          },
+        },
+      }),
+      prisma.project.count({
+        where: { ...portalProjectWhere(clientId), status: { in: ['PLANNING', 'ACTIVE', 'ON_HOLD'] } },
+      }),
+      prisma.proposal.count({
+        where: { ...portalProposalWhere(clientId), status: { in: ['SENT', 'VIEWED'] } },
+      }),
+      prisma.invoice.findMany({
+        where: { ...portalInvoiceWhere(clientId), type: 'INVOICE', status: { in: ['SENT', 'OVERDUE'] } },
+        select: {
+          status: true,
+          totalAmount: true,
+          ...invoiceBalanceInclude,
+        },
+      }),
+    ])
+
+    const outstandingBalance = unpaidInvoices.reduce(
+      (sum, invoice) => sum + summarizeInvoiceBalance(invoice).balanceDue,
+      0
+    )
+
+    return NextResponse.json({
+      user: {
+        id: portalUser.id,
+        name: portalUser.name,
+        email: portalUser.email,
+      },
+      client,
+      summary: {
+        activeProjects,
+        openProposals,
+        unpaidInvoices: unpaidInvoices.length,
+        outstandingBalance,
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching portal overview:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
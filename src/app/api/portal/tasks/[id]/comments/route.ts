@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { addPortalTaskComment, getPortalUser, portalTaskWhere, portalUserSelect } from '@/lib/client-portal'
+
+const prisma = new PrismaClient()
+
+// Validation schema for client comments
+const taskCommentSchema = z.object({
+  content: z.string().trim().min(1, 'Comment is required').max(5000),
+})
+
+// GET /api/portal/tasks/[id]/comments - Comments on a client-visible task
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const portalUser = await getPortalUser(session.user.id, prisma)
+    if (!portalUser) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    const task = await prisma.task.findFirst({
+      where: { id, ...portalTaskWhere(portalUser.clientId) },
+      select: {
+        id: true,
+        comments: {
+          select: {
+            id: true,
+            content: true,
+            createdAt: true,
+            user: portalUserSelect,
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    })
+
+    if (!task) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ comments: task.comments })
+  } catch (error) {
+    console.error('Error fetching task comments:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/portal/tasks/[id]/comments - Comment on a client-visible task
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const portalUser = await getPortalUser(session.user.id, prisma)
+    if (!portalUser) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { content } = taskCommentSchema.parse(body)
+
+    const comment = await addPortalTaskComment(id, portalUser, content, prisma)
+
+    if (!comment) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(comment, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating task comment:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
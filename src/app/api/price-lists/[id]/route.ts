@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { pinTemplateItemPrices, PriceListItemNotFoundError, priceListItemSchema, syncPriceListItems } from '@/lib/proposal-templates'
+
+const prisma = new PrismaClient()
+
+// Validation schema for price list updates. When items are given they replace the
+// list's services; send an item's id to keep it.
+const updatePriceListSchema = z.object({
+  name: z.string().min(1, 'Price list name is required').max(200).optional(),
+  description: z.string().nullable().optional(),
+  isActive: z.boolean().optional(),
+  items: z.array(priceListItemSchema).max(500).optional(),
+})
+
+async function canManagePriceLists(userId: string) {
+  const currentUser = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  })
+
+  return currentUser?.role === 'ADMIN' || currentUser?.role === 'MANAGER'
+}
+
+// GET /api/price-lists/[id] - Get a price list with its services
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const priceList = await prisma.priceList.findUnique({
+      where: { id },
+      include: {
+        creator: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        items: {
+          orderBy: { sortOrder: 'asc' },
+        },
+      },
+    })
+
+    if (!priceList) {
+      return NextResponse.json(
+        { error: 'Price list not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(priceList)
+  } catch (error) {
+    console.error('Error fetching price list:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/price-lists/[id] - Update a price list (proposals already created keep their prices)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await canManagePriceLists(session.user.id))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { items, ...validatedData } = updatePriceListSchema.parse(body)
+
+    const existingPriceList = await prisma.priceList.findUnique({
+      where: { id },
+    })
+
+    if (!existingPriceList) {
+      return NextResponse.json(
+        { error: 'Price list not found' },
+        { status: 404 }
+      )
+    }
+
+    const updatedPriceList = await prisma.$transaction(async (tx) => {
+      await tx.priceList.update({
+        where: { id },
+        data: validatedData,
+      })
+
+      if (items) {
+        await syncPriceListItems(id, items, tx)
+      }
+
+      return tx.priceList.findUniqueOrThrow({
+        where: { id },
+        include: {
+          items: {
+            orderBy: { sortOrder: 'asc' },
+          },
+        },
+      })
+    })
+
+    return NextResponse.json(updatedPriceList)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof PriceListItemNotFoundError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating price list:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/price-lists/[id] - Delete a price list (template items keep their own description and price)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await canManagePriceLists(session.user.id))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const existingPriceList = await prisma.priceList.findUnique({
+      where: { id },
+    })
+
+    if (!existingPriceList) {
+      return NextResponse.json(
+        { error: 'Price list not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await pinTemplateItemPrices({ priceListId: id }, tx)
+      await tx.priceList.delete({
+        where: { id },
+      })
+    })
+
+    return NextResponse.json({
+      message: 'Price list deleted successfully',
+      id,
+    })
+  } catch (error) {
+    console.error('Error deleting price list:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { priceListItemSchema } from '@/lib/proposal-templates'
+
+const prisma = new PrismaClient()
+
+// Validation schema for price lists
+const priceListSchema = z.object({
+  name: z.string().min(1, 'Price list name is required').max(200),
+  description: z.string().optional(),
+  isActive: z.boolean().default(true),
+  items: z.array(priceListItemSchema.omit({ id: true })).max(500).default([]),
+})
+
+// GET /api/price-lists - Get price lists with their services (active only unless includeInactive=true)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const includeInactive = searchParams.get('includeInactive') === 'true'
+
+    const priceLists = await prisma.priceList.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      orderBy: { name: 'asc' },
+      include: {
+        items: {
+          orderBy: { sortOrder: 'asc' },
+        },
+      },
+    })
+
+    return NextResponse.json({
+      priceLists,
+      total: priceLists.length,
+    })
+  } catch (error) {
+    console.error('Error fetching price lists:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/price-lists - Create a price list
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN' && currentUser?.role !== 'MANAGER') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { items, ...validatedData } = priceListSchema.parse(body)
+
+    const priceList = await prisma.priceList.create({
+      data: {
+        ...validatedData,
+        createdBy: session.user.id,
+        items: {
+          create: items.map((item, index) => ({ ...item, sortOrder: index })),
+        },
+      },
+      include: {
+        items: {
+          orderBy: { sortOrder: 'asc' },
+        },
+      },
+    })
+
+    return NextResponse.json(priceList, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating price list:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
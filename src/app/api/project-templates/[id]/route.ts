@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { templateTasksSchema } from '@/lib/project-templates'
+
+const prisma = new PrismaClient()
+
+// Validation schema for project template updates
+const updateProjectTemplateSchema = z.object({
+  name: z.string().min(1, 'Template name is required').max(200).optional(),
+  description: z.string().nullable().optional(),
+  durationDays: z.number().int().min(1).max(3650).optional(),
+  priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).optional(),
+  tasks: templateTasksSchema.optional(),
+  isActive: z.boolean().optional(),
+})
+
+async function canManageTemplates(userId: string) {
+  const currentUser = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  })
+
+  return currentUser?.role === 'ADMIN' || currentUser?.role === 'MANAGER'
+}
+
+// GET /api/project-templates/[id] - Get a project template
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const template = await prisma.projectTemplate.findUnique({
+      where: { id },
+      include: {
+        creator: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        _count: {
+          select: {
+            projects: true,
+          },
+        },
+      },
+    })
+
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Project template not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(template)
+  } catch (error) {
+    console.error('Error fetching project template:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/project-templates/[id] - Update a project template (existing projects are not changed)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await canManageTemplates(session.user.id))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = updateProjectTemplateSchema.parse(body)
+
+    const existingTemplate = await prisma.projectTemplate.findUnique({
+      where: { id },
+    })
+
+    if (!existingTemplate) {
+      return NextResponse.json(
+        { error: 'Project template not found' },
+        { status: 404 }
+      )
+    }
+
+    const updatedTemplate = await prisma.projectTemplate.update({
+      where: { id },
+      data: validatedData,
+    })
+
+    return NextResponse.json(updatedTemplate)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating project template:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/project-templates/[id] - Delete a project template (projects created from it are kept)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await canManageTemplates(session.user.id))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const existingTemplate = await prisma.projectTemplate.findUnique({
+      where: { id },
+    })
+
+    if (!existingTemplate) {
+      return NextResponse.json(
+        { error: 'Project template not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.projectTemplate.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({
+      message: 'Project template deleted successfully',
+      id,
+    })
+  } catch (error) {
+    console.error('Error deleting project template:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
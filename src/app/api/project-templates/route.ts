@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { templateTasksSchema } from '@/lib/project-templates'
+
+const prisma = new PrismaClient()
+
+// Validation schema for project templates
+const projectTemplateSchema = z.object({
+  name: z.string().min(1, 'Template name is required').max(200),
+  description: z.string().optional(),
+  durationDays: z.number().int().min(1).max(3650).default(30),
+  priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).default('MEDIUM'),
+  tasks: templateTasksSchema.default([]),
+  isActive: z.boolean().default(true),
+})
+
+// GET /api/project-templates - Get project templates (active only unless includeInactive=true)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const includeInactive = searchParams.get('includeInactive') === 'true'
+
+    const templates = await prisma.projectTemplate.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      orderBy: { name: 'asc' },
+      include: {
+        creator: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        _count: {
+          select: {
+            projects: true,
+          },
+        },
+      },
+    })
+
+    return NextResponse.json({
+      templates,
+      total: templates.length,
+    })
+  } catch (error) {
+    console.error('Error fetching project templates:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/project-templates - Create a project template
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN' && currentUser?.role !== 'MANAGER') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = projectTemplateSchema.parse(body)
+
+    const template = await prisma.projectTemplate.create({
+      data: {
+        ...validatedData,
+        createdBy: session.user.id,
+      },
+    })
+
+    return NextResponse.json(template, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating project template:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+
+const prisma = new PrismaClient()
+
+// Validation schema for resource updates
+const updateResourceSchema = z.object({
+  name: z.string().min(1, 'Name is required').optional(),
+  type: z.enum(['LINK', 'FILE', 'DOCUMENT', 'RESEARCH']).optional(),
+  url: z.string().url('Invalid URL').nullable().optional(),
+  filePath: z.string().nullable().optional(),
+  description: z.string().nullable().optional(),
+  sharedWithClient: z.boolean().optional(),
+})
+
+// Only the resource's creator, the project manager or an admin can change a resource
+async function canManageResource(resource: { createdBy: string; project: { managerId: string } }, userId: string) {
+  if (resource.createdBy === userId || resource.project.managerId === userId) {
+    return true
+  }
+
+  const currentUser = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  })
+
+  return currentUser?.role === 'ADMIN'
+}
+
+async function findResource(projectId: string, resourceId: string) {
+  return prisma.projectResource.findFirst({
+    where: { id: resourceId, projectId },
+    include: {
+      project: {
+        select: { managerId: true },
+      },
+    },
+  })
+}
+
+// PUT /api/projects/[id]/resources/[resourceId] - Update a resource or share it with the client
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; resourceId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, resourceId } = await params
+    const body = await request.json()
+    const validatedData = updateResourceSchema.parse(body)
+
+    const existingResource = await findResource(id, resourceId)
+
+    if (!existingResource) {
+      return NextResponse.json(
+        { error: 'Resource not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!(await canManageResource(existingResource, session.user.id))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const resource = await prisma.projectResource.update({
+      where: { id: resourceId },
+      data: validatedData,
+    })
+
+    return NextResponse.json(resource)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating project resource:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/projects/[id]/resources/[resourceId] - Remove a resource
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; resourceId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, resourceId } = await params
+    const existingResource = await findResource(id, resourceId)
+
+    if (!existingResource) {
+      return NextResponse.json(
+        { error: 'Resource not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!(await canManageResource(existingResource, session.user.id))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    await prisma.projectResource.delete({
+      where: { id: resourceId },
+    })
+
+    return NextResponse.json({ message: 'Resource deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting project resource:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
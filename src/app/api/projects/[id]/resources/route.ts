@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { getClientScope, PortalAccessError, portalProjectWhere, portalResourceWhere } from '@/lib/client-portal'
+
+const prisma = new PrismaClient()
+
+// Validation schema for project resources
+const createResourceSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  type: z.enum(['LINK', 'FILE', 'DOCUMENT', 'RESEARCH']),
+  url: z.string().url('Invalid URL').optional(),
+  filePath: z.string().optional(),
+  description: z.string().optional(),
+  sharedWithClient: z.boolean().default(false),
+})
+
+// GET /api/projects/[id]/resources - Get a project's resources
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    // CLIENT users only see the resources shared with them on their own client's projects
+    const portalUser = await getClientScope(session.user.id, prisma)
+
+    const project = await prisma.project.findFirst({
+      where: { id, ...(portalUser && portalProjectWhere(portalUser.clientId)) },
+      select: { id: true },
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const resources = await prisma.projectResource.findMany({
+      where: { projectId: id, ...(portalUser && portalResourceWhere(portalUser.clientId)) },
+      include: {
+        creator: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json({ resources })
+  } catch (error) {
+    if (error instanceof PortalAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    console.error('Error fetching project resources:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/projects/[id]/resources - Add a resource to a project
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = createResourceSchema.parse(body)
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { id: true },
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const resource = await prisma.projectResource.create({
+      data: {
+        ...validatedData,
+        projectId: id,
+        createdBy: session.user.id,
+      },
+      include: {
+        creator: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    })
+
+    return NextResponse.json(resource, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating project resource:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
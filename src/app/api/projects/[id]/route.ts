@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 import { z } from 'zod'
+import { getClientScope, PortalAccessError, portalProjectWhere } from '@/lib/client-portal'
+import { currencyCodeSchema } from '@/lib/currency'
 
 const prisma = new PrismaClient()
 
@@ -14,6 +16,7 @@ const updateProjectSchema = z.object({
   status: z.enum(['PLANNING', 'ACTIVE', 'ON_HOLD', 'COMPLETED', 'CANCELLED']).optional(),
   priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).optional(),
   budget: z.number().min(0).optional(),
+  currency: currencyCodeSchema.optional(),
   startDate: z.string().transform((str) => new Date(str)).optional(),
   endDate: z.string().transform((str) => new Date(str)).optional(),
   tags: z.array(z.string()).optional(),
@@ -32,8 +35,13 @@ export async function GET(
 
     const { id } = await params
 
-    const project = await prisma.project.findUnique({
-      where: { id },
+    // CLIENT users only see their own client's projects and client-visible tasks;
+    // another client's project is reported as missing
+    const portalUser = await getClientScope(session.user.id, prisma)
+    const taskWhere = portalUser ? { clientVisible: true } : undefined
+
+    const project = await prisma.project.findFirst({
+      where: { id, ...(portalUser && portalProjectWhere(portalUser.clientId)) },
       include: {
         client: {
           select: {
@@ -53,6 +61,7 @@ export async function GET(
           },
         },
         tasks: {
+          where: taskWhere,
           include: {
             assignee: {
               select: {
@@ -81,7 +90,7 @@ export async function GET(
         },
         _count: {
           select: {
-            tasks: true,
+            tasks: { where: taskWhere },
           },
         },
       },
@@ -118,6 +127,10 @@ export async function GET(
 
     return NextResponse.json(projectWithStats)
   } catch (error) {
+    if (error instanceof PortalAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
     console.error('Error fetching project:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
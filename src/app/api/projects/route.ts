@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 import { z } from 'zod'
+import { getClientScope, PortalAccessError, portalProjectWhere } from '@/lib/client-portal'
+import { currencyCodeSchema, resolveRecordCurrency } from '@/lib/currency'
 
 const prisma = new PrismaClient()
 
@@ -15,6 +17,8 @@ const createProjectSchema = z.object({
   status: z.enum(['PLANNING', 'ACTIVE', 'ON_HOLD', 'COMPLETED', 'CANCELLED']).default('PLANNING'),
   priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).default('MEDIUM'),
   budget: z.number().min(0).optional(),
+  // Currency of the budget; defaults to the client's billing currency
+  currency: currencyCodeSchema.optional(),
   startDate: z.string().transform((str) => new Date(str)),
   endDate: z.string().transform((str) => new Date(str)),
   tags: z.array(z.string()).optional().default([]),
@@ -70,6 +74,13 @@ export async function GET(request: NextRequest) {
       where.managerId = managerId
     }
 
+    // CLIENT users only see their own client's projects and client-visible tasks
+    const portalUser = await getClientScope(session.user.id, prisma)
+    if (portalUser) {
+      where.AND = [portalProjectWhere(portalUser.clientId)]
+    }
+    const taskWhere = portalUser ? { clientVisible: true } : undefined
+
     const [projects, total] = await Promise.all([
       prisma.project.findMany({
         where,
@@ -93,6 +104,7 @@ export async function GET(request: NextRequest) {
             },
           },
           tasks: {
+            where: taskWhere,
             select: {
               id: true,
               title: true,
@@ -105,7 +117,7 @@ export async function GET(request: NextRequest) {
           },
           _count: {
             select: {
-              tasks: true,
+              tasks: { where: taskWhere },
             },
           },
         },
@@ -127,6 +139,10 @@ export async function GET(request: NextRequest) {
       },
     })
   } catch (error) {
+    if (error instanceof PortalAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
     console.error('Error fetching projects:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -181,6 +197,7 @@ export async function POST(request: NextRequest) {
     const project = await prisma.project.create({
       data: {
         ...validatedData,
+        currency: await resolveRecordCurrency(validatedData, prisma),
         managerId: session.user.id,
       },
       include: {
@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { mergeText } from '@/lib/proposal-templates'
+
+const prisma = new PrismaClient()
+
+// Validation schema for proposal section updates
+const updateProposalSectionSchema = z.object({
+  name: z.string().min(1, 'Section name is required').max(200).optional(),
+  type: z.enum(['INTRO', 'SCOPE', 'TIMELINE', 'TERMS', 'OTHER']).optional(),
+  body: mergeText().pipe(z.string().min(1, 'Section text is required').max(20000)).optional(),
+  isActive: z.boolean().optional(),
+})
+
+async function canManageSections(userId: string) {
+  const currentUser = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  })
+
+  return currentUser?.role === 'ADMIN' || currentUser?.role === 'MANAGER'
+}
+
+// GET /api/proposal-sections/[id] - Get a proposal section
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const section = await prisma.proposalSection.findUnique({
+      where: { id },
+      include: {
+        creator: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        templates: {
+          select: {
+            template: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+        },
+      },
+    })
+
+    if (!section) {
+      return NextResponse.json(
+        { error: 'Proposal section not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(section)
+  } catch (error) {
+    console.error('Error fetching proposal section:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/proposal-sections/[id] - Update a proposal section (proposals already created are not changed)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await canManageSections(session.user.id))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = updateProposalSectionSchema.parse(body)
+
+    const existingSection = await prisma.proposalSection.findUnique({
+      where: { id },
+    })
+
+    if (!existingSection) {
+      return NextResponse.json(
+        { error: 'Proposal section not found' },
+        { status: 404 }
+      )
+    }
+
+    const updatedSection = await prisma.proposalSection.update({
+      where: { id },
+      data: validatedData,
+    })
+
+    return NextResponse.json(updatedSection)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating proposal section:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/proposal-sections/[id] - Delete a proposal section (it is removed from every template)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await canManageSections(session.user.id))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const existingSection = await prisma.proposalSection.findUnique({
+      where: { id },
+    })
+
+    if (!existingSection) {
+      return NextResponse.json(
+        { error: 'Proposal section not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.proposalSection.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({
+      message: 'Proposal section deleted successfully',
+      id,
+    })
+  } catch (error) {
+    console.error('Error deleting proposal section:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
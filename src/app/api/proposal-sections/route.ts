@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { mergeText } from '@/lib/proposal-templates'
+
+const prisma = new PrismaClient()
+
+// Validation schema for reusable proposal sections
+const proposalSectionSchema = z.object({
+  name: z.string().min(1, 'Section name is required').max(200),
+  type: z.enum(['INTRO', 'SCOPE', 'TIMELINE', 'TERMS', 'OTHER']).default('OTHER'),
+  body: mergeText().pipe(z.string().min(1, 'Section text is required').max(20000)),
+  isActive: z.boolean().default(true),
+})
+
+// GET /api/proposal-sections - Get the section library
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const type = searchParams.get('type')
+    const includeInactive = searchParams.get('includeInactive') === 'true'
+
+    const where: any = {}
+    if (type) {
+      where.type = type
+    }
+    if (!includeInactive) {
+      where.isActive = true
+    }
+
+    const sections = await prisma.proposalSection.findMany({
+      where,
+      orderBy: [{ type: 'asc' }, { name: 'asc' }],
+      include: {
+        _count: {
+          select: {
+            templates: true,
+          },
+        },
+      },
+    })
+
+    return NextResponse.json({
+      sections,
+      total: sections.length,
+    })
+  } catch (error) {
+    console.error('Error fetching proposal sections:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/proposal-sections - Add a section to the library
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN' && currentUser?.role !== 'MANAGER') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = proposalSectionSchema.parse(body)
+
+    const section = await prisma.proposalSection.create({
+      data: {
+        ...validatedData,
+        createdBy: session.user.id,
+      },
+    })
+
+    return NextResponse.json(section, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating proposal section:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
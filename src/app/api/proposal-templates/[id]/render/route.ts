@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { z } from 'zod'
+import { ContactNotFoundError } from '@/lib/client-contacts'
+import { renderProposalTemplate, TemplateReferenceError } from '@/lib/proposal-templates'
+import { buildProposalItems, computeProposalTotals } from '@/lib/proposals'
+
+// Validation schema for previewing a template for a client
+const renderTemplateSchema = z.object({
+  clientId: z.string().min(1, 'Client ID is required'),
+  projectId: z.string().optional(),
+  recipientContactId: z.string().nullable().optional(),
+})
+
+// POST /api/proposal-templates/[id]/render - Preview the proposal a template would create for a client
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = renderTemplateSchema.parse(body)
+
+    const rendered = await renderProposalTemplate(id, validatedData, session.user.id)
+
+    if (!rendered) {
+      return NextResponse.json(
+        { error: 'Proposal template or client not found' },
+        { status: 404 }
+      )
+    }
+
+    const items = buildProposalItems(rendered.items)
+
+    return NextResponse.json({
+      ...rendered,
+      items,
+      ...computeProposalTotals(items, rendered),
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof TemplateReferenceError || error instanceof ContactNotFoundError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error rendering proposal template:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import {
+  mergeText,
+  replaceTemplateContent,
+  templateItemSchema,
+  TemplateReferenceError,
+  templateSectionsInclude,
+} from '@/lib/proposal-templates'
+
+const prisma = new PrismaClient()
+
+// Validation schema for proposal template updates. Sections and items, when given,
+// replace the template's current ones.
+const updateProposalTemplateSchema = z.object({
+  name: z.string().min(1, 'Template name is required').max(200).optional(),
+  description: z.string().nullable().optional(),
+  title: mergeText().pipe(z.string().min(1, 'Proposal title is required').max(500)).optional(),
+  taxRate: z.number().min(0).max(1, 'Tax rate must be between 0 and 1').optional(),
+  discountRate: z.number().min(0).max(1, 'Discount rate must be between 0 and 1').optional(),
+  validDays: z.number().int().min(1).max(365).optional(),
+  isActive: z.boolean().optional(),
+  sectionIds: z.array(z.string()).max(50).optional(),
+  items: z.array(templateItemSchema).max(200).optional(),
+})
+
+async function canManageTemplates(userId: string) {
+  const currentUser = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  })
+
+  return currentUser?.role === 'ADMIN' || currentUser?.role === 'MANAGER'
+}
+
+// GET /api/proposal-templates/[id] - Get a proposal template with its sections and items
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const template = await prisma.proposalTemplate.findUnique({
+      where: { id },
+      include: {
+        ...templateSectionsInclude,
+        creator: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        _count: {
+          select: {
+            proposals: true,
+          },
+        },
+      },
+    })
+
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Proposal template not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(template)
+  } catch (error) {
+    console.error('Error fetching proposal template:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/proposal-templates/[id] - Update a proposal template (existing proposals are not changed)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await canManageTemplates(session.user.id))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { sectionIds, items, ...validatedData } = updateProposalTemplateSchema.parse(body)
+
+    const existingTemplate = await prisma.proposalTemplate.findUnique({
+      where: { id },
+    })
+
+    if (!existingTemplate) {
+      return NextResponse.json(
+        { error: 'Proposal template not found' },
+        { status: 404 }
+      )
+    }
+
+    const updatedTemplate = await prisma.$transaction(async (tx) => {
+      await tx.proposalTemplate.update({
+        where: { id },
+        data: validatedData,
+      })
+
+      await replaceTemplateContent(id, { sectionIds, items }, tx)
+
+      return tx.proposalTemplate.findUniqueOrThrow({
+        where: { id },
+        include: templateSectionsInclude,
+      })
+    })
+
+    return NextResponse.json(updatedTemplate)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof TemplateReferenceError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating proposal template:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/proposal-templates/[id] - Delete a proposal template (proposals created from it are kept)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await canManageTemplates(session.user.id))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const existingTemplate = await prisma.proposalTemplate.findUnique({
+      where: { id },
+    })
+
+    if (!existingTemplate) {
+      return NextResponse.json(
+        { error: 'Proposal template not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.proposalTemplate.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({
+      message: 'Proposal template deleted successfully',
+      id,
+    })
+  } catch (error) {
+    console.error('Error deleting proposal template:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import {
+  mergeText,
+  replaceTemplateContent,
+  templateItemSchema,
+  TemplateReferenceError,
+  templateSectionsInclude,
+} from '@/lib/proposal-templates'
+
+const prisma = new PrismaClient()
+
+// Validation schema for proposal templates. Sections are listed in the order they
+// appear in the proposal.
+const proposalTemplateSchema = z.object({
+  name: z.string().min(1, 'Template name is required').max(200),
+  description: z.string().optional(),
+  title: mergeText().pipe(z.string().min(1, 'Proposal title is required').max(500)),
+  taxRate: z.number().min(0).max(1, 'Tax rate must be between 0 and 1').default(0),
+  discountRate: z.number().min(0).max(1, 'Discount rate must be between 0 and 1').default(0),
+  validDays: z.number().int().min(1).max(365).default(30),
+  isActive: z.boolean().default(true),
+  sectionIds: z.array(z.string()).max(50).default([]),
+  items: z.array(templateItemSchema).max(200).default([]),
+})
+
+// GET /api/proposal-templates - Get proposal templates (active only unless includeInactive=true)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const includeInactive = searchParams.get('includeInactive') === 'true'
+
+    const templates = await prisma.proposalTemplate.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      orderBy: { name: 'asc' },
+      include: {
+        ...templateSectionsInclude,
+        creator: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        _count: {
+          select: {
+            proposals: true,
+          },
+        },
+      },
+    })
+
+    return NextResponse.json({
+      templates,
+      total: templates.length,
+    })
+  } catch (error) {
+    console.error('Error fetching proposal templates:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/proposal-templates - Create a proposal template
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN' && currentUser?.role !== 'MANAGER') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { sectionIds, items, ...validatedData } = proposalTemplateSchema.parse(body)
+
+    const template = await prisma.$transaction(async (tx) => {
+      const created = await tx.proposalTemplate.create({
+        data: {
+          ...validatedData,
+          createdBy: session.user.id,
+        },
+      })
+
+      await replaceTemplateContent(created.id, { sectionIds, items }, tx)
+
+      return tx.proposalTemplate.findUniqueOrThrow({
+        where: { id: created.id },
+        include: templateSectionsInclude,
+      })
+    })
+
+    return NextResponse.json(template, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof TemplateReferenceError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating proposal template:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
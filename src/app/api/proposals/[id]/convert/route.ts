@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import {
+  convertProposal,
+  ProposalConversionError,
+  proposalConversionSchema,
+} from '@/lib/proposal-conversion'
+
+const prisma = new PrismaClient()
+
+// POST /api/proposals/[id]/convert - Create the project, budget and invoices for an accepted proposal
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = proposalConversionSchema.parse(body)
+
+    const existingProposal = await prisma.proposal.findUnique({
+      where: { id },
+      select: { id: true, createdBy: true },
+    })
+
+    if (!existingProposal) {
+      return NextResponse.json(
+        { error: 'Proposal not found' },
+        { status: 404 }
+      )
+    }
+
+    // Check permissions - creator, admins and managers can convert
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (
+      existingProposal.createdBy !== session.user.id &&
+      currentUser?.role !== 'ADMIN' &&
+      currentUser?.role !== 'MANAGER'
+    ) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    if (validatedData.templateId) {
+      const template = await prisma.projectTemplate.findFirst({
+        where: { id: validatedData.templateId, isActive: true },
+      })
+
+      if (!template) {
+        return NextResponse.json(
+          { error: 'Project template not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    if (validatedData.managerId) {
+      const manager = await prisma.user.findUnique({
+        where: { id: validatedData.managerId },
+      })
+
+      if (!manager) {
+        return NextResponse.json(
+          { error: 'Manager not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    const result = await convertProposal(id, validatedData, session.user.id, prisma)
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Proposal not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ProposalConversionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    console.error('Error converting proposal:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { getClientScope, PortalAccessError, portalProposalWhere } from '@/lib/client-portal'
+import { renderProposalPdf } from '@/lib/document-pdf'
+
+const prisma = new PrismaClient()
+
+// GET /api/proposals/[id]/pdf - Download a proposal as a branded PDF (?lang= overrides the client's language)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+
+    // Portal users may only download their own client's sent proposals
+    const portalUser = await getClientScope(session.user.id, prisma)
+    const file = await renderProposalPdf(id, {
+      language: searchParams.get('lang'),
+      where: portalUser ? portalProposalWhere(portalUser.clientId) : undefined,
+    }, prisma)
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'Proposal not found' },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(new Uint8Array(file.body), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`,
+        'Content-Length': String(file.body.byteLength),
+      },
+    })
+  } catch (error) {
+    if (error instanceof PortalAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    console.error('Error rendering proposal PDF:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,6 +3,18 @@ import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 import { z } from 'zod'
+import { assertClientContact, ContactNotFoundError, recipientContactSelect } from '@/lib/client-contacts'
+import { getClientScope, PortalAccessError, portalProposalWhere } from '@/lib/client-portal'
+import { currencyCodeSchema } from '@/lib/currency'
+import {
+  proposalItemOrderBy,
+  recalculateProposalTotals,
+  recordProposalVersion,
+  replaceProposalItems,
+  shouldRecordVersion,
+} from '@/lib/proposals'
+import { markProposalSent } from '@/lib/proposal-sharing'
+import { TaxRateError } from '@/lib/tax-rates'
 
 const prisma = new PrismaClient()
 
@@ -12,20 +24,19 @@ const updateProposalSchema = z.object({
   description: z.string().optional(),
   status: z.enum(['DRAFT', 'SENT', 'VIEWED', 'ACCEPTED', 'REJECTED', 'EXPIRED']).optional(),
   validUntil: z.string().datetime().optional(),
+  recipientContactId: z.string().nullable().optional(),
   items: z.array(z.object({
     description: z.string().min(1, 'Item description is required'),
     quantity: z.number().min(0, 'Quantity must be positive'),
     unitPrice: z.number().min(0, 'Unit price must be positive'),
-    total: z.number().min(0, 'Total must be positive'),
-  })).optional(),
-  subtotal: z.number().min(0, 'Subtotal must be positive').optional(),
+    taxRateId: z.string().nullable().optional(),
+  })).min(1, 'At least one item is required').optional(),
   taxRate: z.number().min(0).max(1, 'Tax rate must be between 0 and 1').optional(),
-  taxAmount: z.number().min(0, 'Tax amount must be positive').optional(),
   discountRate: z.number().min(0).max(1, 'Discount rate must be between 0 and 1').optional(),
-  discountAmount: z.number().min(0, 'Discount amount must be positive').optional(),
-  total: z.number().min(0, 'Total must be positive').optional(),
+  currency: currencyCodeSchema.optional(),
   notes: z.string().optional(),
   terms: z.string().optional(),
+  changeSummary: z.string().max(500).optional(),
 })
 
 // GET /api/proposals/[id] - Get specific proposal
@@ -48,8 +59,11 @@ export async function GET(
       )
     }
 
-    const proposal = await prisma.proposal.findUnique({
-      where: { id },
+    // CLIENT users only see their own client's sent proposals; others are reported missing
+    const portalUser = await getClientScope(session.user.id, prisma)
+
+    const proposal = await prisma.proposal.findFirst({
+      where: { id, ...(portalUser && portalProposalWhere(portalUser.clientId)) },
       include: {
         client: {
           select: {
@@ -74,6 +88,12 @@ export async function GET(
             budget: true,
           },
         },
+        recipientContact: recipientContactSelect,
+        items: { orderBy: proposalItemOrderBy },
+        views: {
+          orderBy: { viewedAt: 'desc' },
+          take: 20,
+        },
         creator: {
           select: {
             id: true,
@@ -91,22 +111,12 @@ export async function GET(
       )
     }
 
-    // Track view if status is SENT and not viewed by creator
-    if (
-      proposal.status === 'SENT' &&
-      session.user.id !== proposal.createdBy
-    ) {
-      await prisma.proposal.update({
-        where: { id },
-        data: {
-          status: 'VIEWED',
-        },
-      })
-      proposal.status = 'VIEWED'
-    }
-
     return NextResponse.json(proposal)
   } catch (error) {
+    if (error instanceof PortalAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
     console.error('Error fetching proposal:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -147,6 +157,7 @@ export async function PUT(
         createdBy: true,
         clientId: true,
         projectId: true,
+        currentVersion: true,
       },
     })
 
@@ -207,8 +218,13 @@ export async function PUT(
       }
     }
 
+    // Check that the recipient is one of the client's contacts (if provided)
+    await assertClientContact(existingProposal.clientId, validatedData.recipientContactId)
+
+    const { items, description, changeSummary, ...fields } = validatedData
     const updateData: any = {
-      ...validatedData,
+      ...fields,
+      content: description,
       updatedAt: new Date(),
     }
 
@@ -216,37 +232,64 @@ export async function PUT(
       updateData.validUntil = new Date(validatedData.validUntil)
     }
 
-    // Note: Timestamp fields like acceptedAt, rejectedAt, sentAt are not in the schema
-    // They would need to be added to the Proposal model if needed
+    if (validatedData.status === 'ACCEPTED' || validatedData.status === 'REJECTED') {
+      updateData.respondedAt = new Date()
+    }
 
-    const updatedProposal = await prisma.proposal.update({
-      where: { id },
-      data: updateData,
-      include: {
-        client: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            company: true,
-            phone: true,
+    const updatedProposal = await prisma.$transaction(async (tx) => {
+      await tx.proposal.update({
+        where: { id },
+        data: updateData,
+      })
+
+      // Sending through a status change also issues the share link
+      if (validatedData.status === 'SENT') {
+        await markProposalSent(id, tx)
+      }
+
+      if (items) {
+        await replaceProposalItems(id, items, tx)
+      }
+
+      // Totals are recomputed from the stored items whenever items or rates change
+      if (items || validatedData.taxRate !== undefined || validatedData.discountRate !== undefined) {
+        await recalculateProposalTotals(id, tx)
+      }
+
+      if (shouldRecordVersion(existingProposal, validatedData)) {
+        await recordProposalVersion(id, session.user.id, tx, changeSummary)
+      }
+
+      return tx.proposal.findUniqueOrThrow({
+        where: { id },
+        include: {
+          client: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              company: true,
+              phone: true,
+            },
           },
-        },
-        project: {
-          select: {
-            id: true,
-            name: true,
-            status: true,
+          project: {
+            select: {
+              id: true,
+              name: true,
+              status: true,
+            },
           },
-        },
-        creator: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
+          recipientContact: recipientContactSelect,
+          items: { orderBy: proposalItemOrderBy },
+          creator: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
           },
         },
-      },
+      })
     })
 
     // If proposal is accepted, optionally create a project
@@ -264,6 +307,7 @@ export async function PUT(
           status: 'PLANNING',
           priority: 'MEDIUM',
           budget: updatedProposal.totalAmount,
+          currency: updatedProposal.currency,
           startDate: new Date(),
           endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
         },
@@ -294,6 +338,13 @@ export async function PUT(
       )
     }
 
+    if (error instanceof ContactNotFoundError || error instanceof TaxRateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
     console.error('Error updating proposal:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
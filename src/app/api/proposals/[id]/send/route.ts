@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { recipientContactSelect } from '@/lib/client-contacts'
+import { recordProposalVersion, shouldRecordVersion } from '@/lib/proposals'
+import {
+  emailProposalLink,
+  isPastValidUntil,
+  markProposalSent,
+  proposalShareUrl,
+} from '@/lib/proposal-sharing'
+
+const prisma = new PrismaClient()
+
+// POST /api/proposals/[id]/send - Send (or resend) a proposal's share link to the client
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const existingProposal = await prisma.proposal.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        createdBy: true,
+        validUntil: true,
+        currentVersion: true,
+      },
+    })
+
+    if (!existingProposal) {
+      return NextResponse.json(
+        { error: 'Proposal not found' },
+        { status: 404 }
+      )
+    }
+
+    // Check permissions - only creator or admin can send
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true, name: true },
+    })
+
+    if (
+      existingProposal.createdBy !== session.user.id &&
+      currentUser?.role !== 'ADMIN'
+    ) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    if (!['DRAFT', 'SENT', 'VIEWED'].includes(existingProposal.status)) {
+      return NextResponse.json(
+        { error: `Cannot send a proposal that has been ${existingProposal.status.toLowerCase()}` },
+        { status: 409 }
+      )
+    }
+
+    if (isPastValidUntil(existingProposal)) {
+      return NextResponse.json(
+        { error: 'Proposal is past its valid-until date; extend it before sending' },
+        { status: 409 }
+      )
+    }
+
+    const proposal = await prisma.$transaction(async (tx) => {
+      await markProposalSent(id, tx)
+
+      if (shouldRecordVersion(existingProposal, { status: 'SENT' })) {
+        await recordProposalVersion(id, session.user.id, tx)
+      }
+
+      await tx.activity.create({
+        data: {
+          userId: session.user.id,
+          type: 'PROPOSAL_SENT',
+          description: `Proposal "${existingProposal.title}" sent to the client`,
+          entityType: 'PROPOSAL',
+          entityId: id,
+        },
+      })
+
+      return tx.proposal.findUniqueOrThrow({
+        where: { id },
+        include: {
+          client: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              company: true,
+            },
+          },
+          recipientContact: recipientContactSelect,
+        },
+      })
+    })
+
+    const shareUrl = proposalShareUrl(
+      proposal.shareToken!,
+      process.env.NEXTAUTH_URL || new URL(request.url).origin
+    )
+
+    // The proposal stays sent when email delivery fails; the link can be shared by hand
+    let emailedTo: string | null = null
+    let emailError: string | null = null
+    try {
+      const { recipient } = await emailProposalLink(proposal, shareUrl, currentUser?.name || 'Our team', prisma)
+      emailedTo = recipient.email
+    } catch (error) {
+      console.error(`Error emailing proposal ${id}:`, error)
+      emailError = error instanceof Error ? error.message : 'Email could not be sent'
+    }
+
+    return NextResponse.json({
+      ...proposal,
+      shareUrl,
+      emailedTo,
+      emailError,
+    })
+  } catch (error) {
+    console.error('Error sending proposal:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { diffProposalSnapshots, ProposalSnapshot } from '@/lib/proposals'
+
+const prisma = new PrismaClient()
+
+// Validation schema for the compared versions. Defaults to the latest version
+// against the one before it.
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1).optional(),
+  to: z.coerce.number().int().min(1).optional(),
+})
+
+// GET /api/proposals/[id]/versions/diff - Compare two versions of a proposal
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const query = diffQuerySchema.parse({
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+    })
+
+    const proposal = await prisma.proposal.findUnique({
+      where: { id },
+      select: { id: true, currentVersion: true },
+    })
+
+    if (!proposal) {
+      return NextResponse.json(
+        { error: 'Proposal not found' },
+        { status: 404 }
+      )
+    }
+
+    const to = query.to ?? proposal.currentVersion
+    const from = query.from ?? to - 1
+
+    const versions = await prisma.proposalVersion.findMany({
+      where: { proposalId: id, version: { in: [from, to] } },
+      select: { version: true, snapshot: true },
+    })
+
+    const fromVersion = versions.find(v => v.version === from)
+    const toVersion = versions.find(v => v.version === to)
+
+    if (!fromVersion || !toVersion) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      diffProposalSnapshots(
+        { version: from, snapshot: fromVersion.snapshot as unknown as ProposalSnapshot },
+        { version: to, snapshot: toVersion.snapshot as unknown as ProposalSnapshot }
+      )
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error comparing proposal versions:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
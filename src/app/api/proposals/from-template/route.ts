@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { ContactNotFoundError, recipientContactSelect } from '@/lib/client-contacts'
+import { resolveRecordCurrency } from '@/lib/currency'
+import { renderProposalTemplate, TemplateReferenceError } from '@/lib/proposal-templates'
+import { buildProposalItems, computeProposalTotals, proposalItemOrderBy } from '@/lib/proposals'
+
+const prisma = new PrismaClient()
+
+// Validation schema for creating a proposal from a template
+const createFromTemplateSchema = z.object({
+  templateId: z.string().min(1, 'Template ID is required'),
+  clientId: z.string().min(1, 'Client ID is required'),
+  projectId: z.string().optional(),
+  recipientContactId: z.string().nullable().optional(),
+  title: z.string().min(1).optional(),
+})
+
+// POST /api/proposals/from-template - Create a draft proposal pre-filled from a template
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { templateId, title, ...target } = createFromTemplateSchema.parse(body)
+
+    const proposal = await prisma.$transaction(async (tx) => {
+      const rendered = await renderProposalTemplate(templateId, target, session.user.id, tx)
+      if (!rendered) {
+        return null
+      }
+
+      const items = buildProposalItems(rendered.items)
+
+      return tx.proposal.create({
+        data: {
+          title: title ?? rendered.title,
+          content: rendered.description,
+          terms: rendered.terms,
+          clientId: rendered.clientId,
+          projectId: rendered.projectId,
+          recipientContactId: rendered.recipientContactId,
+          templateId: rendered.templateId,
+          status: 'DRAFT',
+          validUntil: new Date(rendered.validUntil),
+          taxRate: rendered.taxRate,
+          discountRate: rendered.discountRate,
+          currency: await resolveRecordCurrency({ clientId: rendered.clientId }, tx),
+          ...computeProposalTotals(items, rendered),
+          createdBy: session.user.id,
+          items: { create: items },
+        },
+        include: {
+          client: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              company: true,
+              phone: true,
+            },
+          },
+          project: {
+            select: {
+              id: true,
+              name: true,
+              status: true,
+            },
+          },
+          recipientContact: recipientContactSelect,
+          items: { orderBy: proposalItemOrderBy },
+          template: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      })
+    })
+
+    if (!proposal) {
+      return NextResponse.json(
+        { error: 'Proposal template or client not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(proposal, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof TemplateReferenceError || error instanceof ContactNotFoundError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating proposal from template:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
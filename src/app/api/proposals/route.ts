@@ -3,6 +3,11 @@ import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 import { z } from 'zod'
+import { assertClientContact, ContactNotFoundError, recipientContactSelect } from '@/lib/client-contacts'
+import { getClientScope, PortalAccessError, portalProposalWhere } from '@/lib/client-portal'
+import { currencyCodeSchema, resolveRecordCurrency } from '@/lib/currency'
+import { buildProposalItems, computeProposalTotals, proposalItemOrderBy, recordProposalVersion, shouldRecordVersion } from '@/lib/proposals'
+import { loadTaxRates, TaxRateError } from '@/lib/tax-rates'
 
 const prisma = new PrismaClient()
 
@@ -12,42 +17,31 @@ const createProposalSchema = z.object({
   description: z.string().optional(),
   clientId: z.string().min(1, 'Client ID is required'),
   projectId: z.string().optional(),
+  recipientContactId: z.string().nullable().optional(),
   status: z.enum(['DRAFT', 'SENT', 'VIEWED', 'ACCEPTED', 'REJECTED', 'EXPIRED']).default('DRAFT'),
   validUntil: z.string().datetime().optional(),
   items: z.array(z.object({
     description: z.string().min(1, 'Item description is required'),
     quantity: z.number().min(0, 'Quantity must be positive'),
     unitPrice: z.number().min(0, 'Unit price must be positive'),
-    totalAmount: z.number().min(0, 'Total must be positive'),
+    // Named tax rate for the item; items without one use taxRate
+    taxRateId: z.string().nullable().optional(),
   })).min(1, 'At least one item is required'),
-  subtotal: z.number().min(0, 'Subtotal must be positive'),
   taxRate: z.number().min(0).max(1, 'Tax rate must be between 0 and 1').default(0),
-  taxAmount: z.number().min(0, 'Tax amount must be positive').default(0),
   discountRate: z.number().min(0).max(1, 'Discount rate must be between 0 and 1').default(0),
-  discountAmount: z.number().min(0, 'Discount amount must be positive').default(0),
-  totalAmount: z.number().min(0, 'Total must be positive'),
+  // Defaults to the client's billing currency
+  currency: currencyCodeSchema.optional(),
   notes: z.string().optional(),
   terms: z.string().optional(),
 })
 
-// Validation schema for updating proposals
+// Validation schema for bulk updating proposals. Items and rates change totals,
+// so they are only editable one proposal at a time.
 const updateProposalSchema = z.object({
   title: z.string().min(1, 'Title is required').optional(),
   description: z.string().optional(),
   status: z.enum(['DRAFT', 'SENT', 'VIEWED', 'ACCEPTED', 'REJECTED', 'EXPIRED']).optional(),
   validUntil: z.string().datetime().optional(),
-  items: z.array(z.object({
-    description: z.string().min(1, 'Item description is required'),
-    quantity: z.number().min(0, 'Quantity must be positive'),
-    unitPrice: z.number().min(0, 'Unit price must be positive'),
-    totalAmount: z.number().min(0, 'Total must be positive'),
-  })).optional(),
-  subtotal: z.number().min(0, 'Subtotal must be positive').optional(),
-  taxRate: z.number().min(0).max(1, 'Tax rate must be between 0 and 1').optional(),
-  taxAmount: z.number().min(0, 'Tax amount must be positive').optional(),
-  discountRate: z.number().min(0).max(1, 'Discount rate must be between 0 and 1').optional(),
-  discountAmount: z.number().min(0, 'Discount amount must be positive').optional(),
-  totalAmount: z.number().min(0, 'Total must be positive').optional(),
   notes: z.string().optional(),
   terms: z.string().optional(),
 })
@@ -109,6 +103,12 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // CLIENT users only see their own client's sent proposals
+    const portalUser = await getClientScope(session.user.id, prisma)
+    if (portalUser) {
+      where.AND = [portalProposalWhere(portalUser.clientId)]
+    }
+
     const [proposals, total] = await Promise.all([
       prisma.proposal.findMany({
         where,
@@ -132,6 +132,8 @@ export async function GET(request: NextRequest) {
               status: true,
             },
           },
+          recipientContact: recipientContactSelect,
+          items: { orderBy: proposalItemOrderBy },
           creator: {
             select: {
               id: true,
@@ -158,6 +160,10 @@ export async function GET(request: NextRequest) {
       },
     })
   } catch (error) {
+    if (error instanceof PortalAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
     console.error('Error fetching proposals:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -211,42 +217,66 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Check that the recipient is one of the client's contacts (if provided)
+    await assertClientContact(validatedData.clientId, validatedData.recipientContactId)
+
     // Generate proposal number
     const proposalCount = await prisma.proposal.count()
     const proposalNumber = `PROP-${String(proposalCount + 1).padStart(4, '0')}`
 
-    const proposal = await prisma.proposal.create({
-      data: {
-        ...validatedData,
+    // Line totals and proposal totals are computed here, never taken from the request
+    const { items, description, ...proposalData } = validatedData
+    const taxRates = await loadTaxRates(items.map((item) => item.taxRateId), prisma)
+    const proposalItems = buildProposalItems(items, taxRates)
+    const totals = computeProposalTotals(proposalItems, validatedData)
+
+    const proposal = await prisma.$transaction(async (tx) => {
+      const created = await tx.proposal.create({
+        data: {
+          ...proposalData,
+          ...totals,
+          currency: await resolveRecordCurrency(proposalData, tx),
+          content: description,
+          validUntil: validatedData.validUntil ? new Date(validatedData.validUntil) : undefined,
+          createdBy: session.user.id,
+          items: { create: proposalItems },
+        },
+      })
 
-        validUntil: validatedData.validUntil ? new Date(validatedData.validUntil) : undefined,
-        createdBy: session.user.id,
-      },
-      include: {
-        client: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            company: true,
-            phone: true,
+      if (shouldRecordVersion(created, {})) {
+        await recordProposalVersion(created.id, session.user.id, tx)
+      }
+
+      return tx.proposal.findUniqueOrThrow({
+        where: { id: created.id },
+        include: {
+          client: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              company: true,
+              phone: true,
+            },
           },
-        },
-        project: {
-          select: {
-            id: true,
-            name: true,
-            status: true,
+          project: {
+            select: {
+              id: true,
+              name: true,
+              status: true,
+            },
           },
-        },
-        creator: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
+          recipientContact: recipientContactSelect,
+          items: { orderBy: proposalItemOrderBy },
+          creator: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
           },
         },
-      },
+      })
     })
 
     return NextResponse.json(proposal, { status: 201 })
@@ -258,6 +288,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (error instanceof ContactNotFoundError || error instanceof TaxRateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
     console.error('Error creating proposal:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -295,6 +332,7 @@ export async function PUT(request: NextRequest) {
         id: true,
         status: true,
         createdBy: true,
+        currentVersion: true,
       },
     })
 
@@ -320,8 +358,10 @@ export async function PUT(request: NextRequest) {
       )
     }
 
+    const { description, ...fields } = validatedData
     const updateData: any = {
-      ...validatedData,
+      ...fields,
+      content: description,
       updatedAt: new Date(),
     }
 
@@ -329,11 +369,21 @@ export async function PUT(request: NextRequest) {
       updateData.validUntil = new Date(validatedData.validUntil)
     }
 
-    const updatedProposals = await prisma.proposal.updateMany({
-      where: {
-        id: { in: ids },
-      },
-      data: updateData,
+    const updatedProposals = await prisma.$transaction(async (tx) => {
+      const result = await tx.proposal.updateMany({
+        where: {
+          id: { in: ids },
+        },
+        data: updateData,
+      })
+
+      // Sent proposals keep a version for every edit
+      const versioned = existingProposals.filter(p => shouldRecordVersion(p, validatedData))
+      for (const proposal of versioned) {
+        await recordProposalVersion(proposal.id, session.user.id, tx)
+      }
+
+      return result
     })
 
     return NextResponse.json({
@@ -0,0 +1,269 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma, PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import {
+  corsHeaders,
+  getClientIp,
+  isUrlEncodedSubmission,
+  mapSubmission,
+  readSubmission,
+  SubmissionError,
+} from '@/lib/lead-capture'
+import { rescoreLead } from '@/lib/lead-scoring'
+import { autoAssignLead, recordLeadAssignment } from '@/lib/lead-assignment'
+
+const prisma = new PrismaClient()
+
+// Validation schema for a mapped form submission
+const capturedLeadSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(200),
+  email: z.string().email('Invalid email format'),
+  company: z.string().max(200).optional(),
+  phone: z.string().max(50).optional(),
+  industry: z.string().max(200).optional(),
+  companySize: z.number().int().min(0).optional(),
+  notes: z.string().max(5000).optional(),
+  utmSource: z.string().max(200).optional(),
+  utmMedium: z.string().max(200).optional(),
+  utmCampaign: z.string().max(200).optional(),
+  utmTerm: z.string().max(200).optional(),
+  utmContent: z.string().max(200).optional(),
+})
+
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000
+
+// Stored emails keep the case they were typed in, so compare them lowercased
+async function findIdByEmail(table: 'leads' | 'clients', email: string) {
+  const rows = await prisma.$queryRaw<{ id: string }[]>`
+    SELECT id FROM ${Prisma.raw(table)} WHERE lower(email) = ${email} LIMIT 1
+  `
+  return rows[0] ?? null
+}
+
+// Respond the same way for accepted, duplicate and spam submissions so bots learn nothing
+function successResponse(
+  request: NextRequest,
+  redirectUrl: string | null,
+  headers: Record<string, string>
+) {
+  if (redirectUrl && isUrlEncodedSubmission(request)) {
+    return NextResponse.redirect(redirectUrl, { status: 303, headers })
+  }
+
+  return NextResponse.json(
+    { success: true, message: 'Thank you, we will be in touch soon' },
+    { status: 200, headers }
+  )
+}
+
+// OPTIONS /api/public/lead-forms/[token] - CORS preflight for embedded forms
+export async function OPTIONS(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params
+  const form = await prisma.leadForm.findUnique({
+    where: { token },
+    select: { allowedOrigins: true, isActive: true },
+  })
+
+  const headers = form?.isActive
+    ? corsHeaders(request.headers.get('origin'), form.allowedOrigins)
+    : {}
+
+  return new NextResponse(null, { status: 204, headers })
+}
+
+// POST /api/public/lead-forms/[token] - Capture a lead from a website form (no session required)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  let headers: Record<string, string> = {}
+
+  try {
+    const { token } = await params
+
+    const form = await prisma.leadForm.findUnique({
+      where: { token },
+    })
+
+    if (!form || !form.isActive) {
+      return NextResponse.json(
+        { error: 'Form not found' },
+        { status: 404 }
+      )
+    }
+
+    headers = corsHeaders(request.headers.get('origin'), form.allowedOrigins)
+    const ipAddress = getClientIp(request)
+    const userAgent = request.headers.get('user-agent')
+
+    // Per-IP rate limit for this form; submissions without a known address share one limit
+    const recentSubmissions = await prisma.leadFormSubmission.count({
+      where: {
+        formId: form.id,
+        ipAddress,
+        createdAt: { gte: new Date(Date.now() - RATE_LIMIT_WINDOW_MS) },
+      },
+    })
+
+    if (recentSubmissions >= form.rateLimitPerHour) {
+      await prisma.leadFormSubmission.create({
+        data: {
+          formId: form.id,
+          ipAddress,
+          userAgent,
+          status: 'RATE_LIMITED',
+        },
+      })
+
+      return NextResponse.json(
+        { error: 'Too many submissions, please try again later' },
+        { status: 429, headers: { ...headers, 'Retry-After': '3600' } }
+      )
+    }
+
+    const fields = await readSubmission(request)
+
+    // Honeypot: a hidden field real visitors never fill in
+    if (fields[form.honeypotField]?.trim()) {
+      await prisma.leadFormSubmission.create({
+        data: {
+          formId: form.id,
+          ipAddress,
+          userAgent,
+          status: 'SPAM',
+          payload: fields,
+        },
+      })
+
+      return successResponse(request, form.redirectUrl, headers)
+    }
+
+    const { searchParams } = new URL(request.url)
+    const captured = capturedLeadSchema.parse(
+      mapSubmission(fields, form.fieldMapping as Record<string, string> | null, searchParams)
+    )
+
+    // Deduplicate against existing leads and clients by email
+    const [existingLead, existingClient] = await Promise.all([
+      findIdByEmail('leads', captured.email),
+      findIdByEmail('clients', captured.email),
+    ])
+
+    if (existingLead || existingClient) {
+      await prisma.$transaction(async (tx) => {
+        if (existingLead) {
+          await tx.leadInteraction.create({
+            data: {
+              leadId: existingLead.id,
+              userId: form.defaultAssigneeId || form.createdBy,
+              interactionType: 'NOTE',
+              subject: `Submitted web form "${form.name}" again`,
+              content: captured.notes,
+              completedAt: new Date(),
+            },
+          })
+        } else if (existingClient) {
+          await tx.activity.create({
+            data: {
+              userId: form.createdBy,
+              type: 'NOTE_ADDED',
+              description: `Existing client submitted web form "${form.name}"`,
+              entityType: 'CLIENT',
+              entityId: existingClient.id,
+              metadata: { formId: form.id, notes: captured.notes ?? null },
+            },
+          })
+        }
+
+        await tx.leadFormSubmission.create({
+          data: {
+            formId: form.id,
+            leadId: existingLead?.id,
+            ipAddress,
+            userAgent,
+            status: 'DUPLICATE',
+            payload: fields,
+          },
+        })
+      })
+
+      if (existingLead) {
+        await rescoreLead(existingLead.id, prisma)
+      }
+
+      return successResponse(request, form.redirectUrl, headers)
+    }
+
+    const lead = await prisma.$transaction(async (tx) => {
+      const lead = await tx.lead.create({
+        data: {
+          ...captured,
+          source: 'WEBSITE',
+          status: 'NEW',
+          formId: form.id,
+        },
+      })
+
+      // A form-level default assignee wins over the assignment engine
+      if (form.defaultAssigneeId) {
+        await recordLeadAssignment(lead, form.defaultAssigneeId, form.createdBy, tx, { strategy: 'FORM_DEFAULT' })
+      } else if (!(await autoAssignLead(lead.id, form.createdBy, tx))) {
+        await recordLeadAssignment(lead, form.createdBy, form.createdBy, tx, { strategy: 'FORM_OWNER' })
+      }
+
+      await tx.leadFormSubmission.create({
+        data: {
+          formId: form.id,
+          leadId: lead.id,
+          ipAddress,
+          userAgent,
+          status: 'ACCEPTED',
+          payload: fields,
+        },
+      })
+
+      await tx.activity.create({
+        data: {
+          userId: form.createdBy,
+          type: 'LEAD_CREATED',
+          description: `Lead ${lead.name} captured from web form "${form.name}"`,
+          entityType: 'LEAD',
+          entityId: lead.id,
+          metadata: {
+            formId: form.id,
+            utmCampaign: lead.utmCampaign,
+          },
+        },
+      })
+
+      return lead
+    })
+
+    await rescoreLead(lead.id, prisma)
+
+    return successResponse(request, form.redirectUrl, headers)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400, headers }
+      )
+    }
+
+    if (error instanceof SubmissionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400, headers }
+      )
+    }
+
+    console.error('Error capturing web form lead:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500, headers }
+    )
+  }
+}
@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { getClientIp } from '@/lib/lead-capture'
+import { proposalItemOrderBy, ProposalResponseError } from '@/lib/proposals'
+import {
+  expireProposalIfDue,
+  isProposalOpen,
+  recordProposalView,
+  respondToSharedProposal,
+} from '@/lib/proposal-sharing'
+
+const prisma = new PrismaClient()
+
+// Validation schema for a client's response through the share link
+const proposalResponseSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('accept'),
+    signatureName: z.string().trim().min(2, 'Type your full name to sign').max(200),
+  }),
+  z.object({
+    action: z.literal('reject'),
+    reason: z.string().trim().min(1, 'Please tell us why you are declining').max(2000),
+  }),
+])
+
+function viewerInfo(request: NextRequest) {
+  return {
+    ipAddress: getClientIp(request),
+    userAgent: request.headers.get('user-agent'),
+  }
+}
+
+// Look up a shared proposal and expire it first if its validUntil date has passed.
+// Drafts are never exposed, even if a token exists.
+async function findSharedProposal(token: string) {
+  const proposal = await prisma.proposal.findUnique({
+    where: { shareToken: token },
+    select: { id: true, title: true, status: true, validUntil: true, createdBy: true },
+  })
+
+  if (!proposal || proposal.status === 'DRAFT') {
+    return null
+  }
+
+  if (await prisma.$transaction((tx) => expireProposalIfDue(proposal, tx))) {
+    proposal.status = 'EXPIRED'
+  }
+
+  return proposal
+}
+
+// GET /api/public/proposals/[token] - Render a shared proposal and record the view (no session required)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+
+    const shared = await findSharedProposal(token)
+    if (!shared) {
+      return NextResponse.json(
+        { error: 'Proposal not found' },
+        { status: 404 }
+      )
+    }
+
+    if (isProposalOpen(shared)) {
+      await recordProposalView(shared.id, viewerInfo(request), prisma)
+    }
+
+    const proposal = await prisma.proposal.findUniqueOrThrow({
+      where: { id: shared.id },
+      select: {
+        title: true,
+        content: true,
+        status: true,
+        validUntil: true,
+        sentAt: true,
+        respondedAt: true,
+        signatureName: true,
+        subtotal: true,
+        discountRate: true,
+        discountAmount: true,
+        taxRate: true,
+        taxAmount: true,
+        totalAmount: true,
+        terms: true,
+        currentVersion: true,
+        items: {
+          select: {
+            id: true,
+            description: true,
+            quantity: true,
+            unitPrice: true,
+            totalPrice: true,
+          },
+          orderBy: proposalItemOrderBy,
+        },
+        client: {
+          select: {
+            name: true,
+            company: true,
+          },
+        },
+        creator: {
+          select: {
+            name: true,
+            email: true,
+          },
+        },
+      },
+    })
+
+    return NextResponse.json(proposal, {
+      headers: { 'Cache-Control': 'no-store' },
+    })
+  } catch (error) {
+    console.error('Error fetching shared proposal:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/public/proposals/[token] - Accept (typed-name signature) or reject a shared proposal
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const body = await request.json()
+    const validatedData = proposalResponseSchema.parse(body)
+
+    const shared = await findSharedProposal(token)
+    if (!shared) {
+      return NextResponse.json(
+        { error: 'Proposal not found' },
+        { status: 404 }
+      )
+    }
+
+    const proposal = await respondToSharedProposal(token, validatedData, viewerInfo(request), prisma)
+    if (!proposal) {
+      return NextResponse.json(
+        { error: 'Proposal not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      status: proposal.status,
+      respondedAt: proposal.respondedAt,
+      signatureName: proposal.signatureName,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ProposalResponseError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    console.error('Error responding to shared proposal:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,227 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { ContactNotFoundError } from '@/lib/client-contacts'
+import {
+  assertProfileReferences,
+  recurringInvoiceInclude,
+  RecurringInvoiceError,
+  replaceProfileItems,
+  resolveProfileItems,
+  scheduleNextIssueDate,
+  updateRecurringInvoiceSchema,
+} from '@/lib/recurring-invoices'
+import { TaxRateError } from '@/lib/tax-rates'
+
+const prisma = new PrismaClient()
+
+async function canManageRecurringInvoices(userId: string) {
+  const currentUser = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  })
+
+  return currentUser?.role === 'ADMIN' || currentUser?.role === 'MANAGER'
+}
+
+// GET /api/recurring-invoices/[id] - Get a recurring invoice profile with the invoices it generated
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const profile = await prisma.recurringInvoice.findUnique({
+      where: { id },
+      include: {
+        ...recurringInvoiceInclude,
+        invoices: {
+          orderBy: { issueDate: 'desc' },
+          select: {
+            id: true,
+            invoiceNumber: true,
+            status: true,
+            issueDate: true,
+            dueDate: true,
+            totalAmount: true,
+          },
+        },
+      },
+    })
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Recurring invoice not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(profile)
+  } catch (error) {
+    console.error('Error fetching recurring invoice:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/recurring-invoices/[id] - Update a recurring invoice profile (invoices already generated are not changed)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await canManageRecurringInvoices(session.user.id))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { items, fromInvoiceId, startDate, endDate, ...validatedData } = updateRecurringInvoiceSchema.parse(body)
+
+    const existingProfile = await prisma.recurringInvoice.findUnique({
+      where: { id },
+    })
+
+    if (!existingProfile) {
+      return NextResponse.json(
+        { error: 'Recurring invoice not found' },
+        { status: 404 }
+      )
+    }
+
+    const schedule = {
+      id,
+      frequency: validatedData.frequency ?? existingProfile.frequency,
+      startDate: startDate ? new Date(startDate) : existingProfile.startDate,
+      endDate: endDate === undefined ? existingProfile.endDate : endDate ? new Date(endDate) : null,
+      isActive: validatedData.isActive ?? existingProfile.isActive,
+    }
+
+    if (schedule.endDate && schedule.endDate <= schedule.startDate) {
+      return NextResponse.json(
+        { error: 'End date must be after start date' },
+        { status: 400 }
+      )
+    }
+
+    const scheduleChanged = schedule.frequency !== existingProfile.frequency ||
+      schedule.startDate.getTime() !== existingProfile.startDate.getTime() ||
+      schedule.endDate?.getTime() !== existingProfile.endDate?.getTime() ||
+      schedule.isActive !== existingProfile.isActive
+
+    const updatedProfile = await prisma.$transaction(async (tx) => {
+      await assertProfileReferences(existingProfile.clientId, {
+        projectId: validatedData.projectId,
+        recipientContactId: validatedData.recipientContactId,
+      }, tx)
+      const profileItems = await resolveProfileItems(existingProfile.clientId, { items, fromInvoiceId }, tx)
+
+      await tx.recurringInvoice.update({
+        where: { id },
+        data: {
+          ...validatedData,
+          startDate: schedule.startDate,
+          endDate: schedule.endDate,
+          nextIssueDate: scheduleChanged ? await scheduleNextIssueDate(schedule, tx) : undefined,
+        },
+      })
+
+      if (profileItems) {
+        await replaceProfileItems(id, profileItems, tx)
+      }
+
+      return tx.recurringInvoice.findUniqueOrThrow({
+        where: { id },
+        include: recurringInvoiceInclude,
+      })
+    })
+
+    return NextResponse.json(updatedProfile)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof RecurringInvoiceError || error instanceof ContactNotFoundError || error instanceof TaxRateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating recurring invoice:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/recurring-invoices/[id] - Delete a recurring invoice profile (its invoices are kept)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await canManageRecurringInvoices(session.user.id))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const existingProfile = await prisma.recurringInvoice.findUnique({
+      where: { id },
+    })
+
+    if (!existingProfile) {
+      return NextResponse.json(
+        { error: 'Recurring invoice not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.recurringInvoice.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({
+      message: 'Recurring invoice deleted successfully',
+      id,
+    })
+  } catch (error) {
+    console.error('Error deleting recurring invoice:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
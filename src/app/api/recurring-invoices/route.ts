@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { Prisma, PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { ContactNotFoundError } from '@/lib/client-contacts'
+import { resolveRecordCurrency } from '@/lib/currency'
+import {
+  assertProfileReferences,
+  recurringInvoiceInclude,
+  recurringInvoiceSchema,
+  RecurringInvoiceError,
+  replaceProfileItems,
+  resolveProfileItems,
+  scheduleNextIssueDate,
+} from '@/lib/recurring-invoices'
+import { buildInvoiceItems, TaxRateError } from '@/lib/tax-rates'
+
+const prisma = new PrismaClient()
+
+// GET /api/recurring-invoices - Get recurring invoice profiles (filter by clientId, projectId, isActive)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const clientId = searchParams.get('clientId')
+    const projectId = searchParams.get('projectId')
+    const isActive = searchParams.get('isActive')
+
+    const where: Prisma.RecurringInvoiceWhereInput = {}
+    if (clientId) where.clientId = clientId
+    if (projectId) where.projectId = projectId
+    if (isActive !== null) where.isActive = isActive === 'true'
+
+    const profiles = await prisma.recurringInvoice.findMany({
+      where,
+      orderBy: [{ isActive: 'desc' }, { nextIssueDate: 'asc' }, { name: 'asc' }],
+      include: {
+        ...recurringInvoiceInclude,
+        _count: {
+          select: { invoices: true },
+        },
+      },
+    })
+
+    return NextResponse.json({
+      recurringInvoices: await Promise.all(profiles.map(async (profile) => {
+        const { amount, taxAmount, totalAmount } = await buildInvoiceItems(profile.items, prisma)
+        return { ...profile, amount, taxAmount, totalAmount }
+      })),
+      total: profiles.length,
+    })
+  } catch (error) {
+    console.error('Error fetching recurring invoices:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/recurring-invoices - Create a recurring invoice profile
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN' && currentUser?.role !== 'MANAGER') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { items, fromInvoiceId, ...validatedData } = recurringInvoiceSchema.parse(body)
+
+    const client = await prisma.client.findUnique({
+      where: { id: validatedData.clientId },
+      select: { id: true },
+    })
+
+    if (!client) {
+      return NextResponse.json(
+        { error: 'Client not found' },
+        { status: 404 }
+      )
+    }
+
+    const profile = await prisma.$transaction(async (tx) => {
+      await assertProfileReferences(validatedData.clientId, validatedData, tx)
+      const profileItems = await resolveProfileItems(validatedData.clientId, { items, fromInvoiceId }, tx)
+
+      const startDate = new Date(validatedData.startDate)
+      const endDate = validatedData.endDate ? new Date(validatedData.endDate) : null
+
+      const created = await tx.recurringInvoice.create({
+        data: {
+          ...validatedData,
+          currency: await resolveRecordCurrency(validatedData, tx),
+          startDate,
+          endDate,
+          nextIssueDate: await scheduleNextIssueDate({ ...validatedData, startDate, endDate }, tx),
+          createdBy: session.user.id,
+        },
+      })
+
+      await replaceProfileItems(created.id, profileItems ?? [], tx)
+
+      return tx.recurringInvoice.findUniqueOrThrow({
+        where: { id: created.id },
+        include: recurringInvoiceInclude,
+      })
+    })
+
+    return NextResponse.json(profile, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof RecurringInvoiceError || error instanceof ContactNotFoundError || error instanceof TaxRateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating recurring invoice:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { previewUpcomingInvoices } from '@/lib/recurring-invoices'
+
+// GET /api/recurring-invoices/upcoming - Preview the invoices recurring profiles will generate (?days=30, up to 366)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const days = parseInt(searchParams.get('days') || '30')
+
+    if (isNaN(days) || days < 1 || days > 366) {
+      return NextResponse.json(
+        { error: 'days must be between 1 and 366' },
+        { status: 400 }
+      )
+    }
+
+    const preview = await previewUpcomingInvoices(days)
+
+    return NextResponse.json(preview)
+  } catch (error) {
+    console.error('Error previewing recurring invoices:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
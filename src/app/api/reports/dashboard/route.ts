@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 import { z } from 'zod'
+import { CurrencyConverter, ExchangeRateError, getCurrencyConfig, loadCurrencyConverter } from '@/lib/currency'
 
 const prisma = new PrismaClient()
 
@@ -118,17 +119,21 @@ export async function GET(request: NextRequest) {
       baseFilters.projectId = validatedParams.projectId
     }
 
+    // Money is shown in the agency's base currency, converted at the rate on each record's date
+    const { baseCurrency } = await getCurrencyConfig(prisma)
+    const converter = await loadCurrencyConverter(baseCurrency, prisma)
+
     // Generate requested widgets
     for (const widget of validatedParams.widgets) {
       switch (widget) {
         case 'overview_stats':
-          dashboardData.widgets.overview_stats = await generateOverviewStats(baseFilters, startDate, endDate)
+          dashboardData.widgets.overview_stats = await generateOverviewStats(baseFilters, startDate, endDate, converter)
           break
         case 'revenue_chart':
-          dashboardData.widgets.revenue_chart = await generateRevenueChart(baseFilters, startDate, endDate)
+          dashboardData.widgets.revenue_chart = await generateRevenueChart(baseFilters, startDate, endDate, converter)
           break
         case 'expense_chart':
-          dashboardData.widgets.expense_chart = await generateExpenseChart(baseFilters, startDate, endDate)
+          dashboardData.widgets.expense_chart = await generateExpenseChart(baseFilters, startDate, endDate, converter)
           break
         case 'project_status':
           dashboardData.widgets.project_status = await generateProjectStatus(baseFilters)
@@ -143,19 +148,19 @@ export async function GET(request: NextRequest) {
           dashboardData.widgets.task_completion = await generateTaskCompletion(baseFilters, startDate, endDate)
           break
         case 'budget_utilization':
-          dashboardData.widgets.budget_utilization = await generateBudgetUtilization(baseFilters, startDate, endDate)
+          dashboardData.widgets.budget_utilization = await generateBudgetUtilization(baseFilters, startDate, endDate, converter)
           break
         case 'recent_activities':
           dashboardData.widgets.recent_activities = await generateRecentActivities(baseFilters)
           break
         case 'top_clients':
-          dashboardData.widgets.top_clients = await generateTopClients(baseFilters, startDate, endDate)
+          dashboardData.widgets.top_clients = await generateTopClients(baseFilters, startDate, endDate, converter)
           break
         case 'upcoming_deadlines':
           dashboardData.widgets.upcoming_deadlines = await generateUpcomingDeadlines()
           break
         case 'financial_summary':
-          dashboardData.widgets.financial_summary = await generateFinancialSummary(baseFilters, startDate, endDate)
+          dashboardData.widgets.financial_summary = await generateFinancialSummary(baseFilters, startDate, endDate, converter)
           break
       }
     }
@@ -169,6 +174,13 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    if (error instanceof ExchangeRateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
     console.error('Error generating dashboard:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -178,7 +190,7 @@ export async function GET(request: NextRequest) {
 }
 
 // Helper function to generate overview statistics
-async function generateOverviewStats(baseFilters: any, startDate: Date, endDate: Date) {
+async function generateOverviewStats(baseFilters: any, startDate: Date, endDate: Date, converter: CurrencyConverter) {
   const [clients, projects, tasks, revenues, expenses] = await Promise.all([
     prisma.client.count({
       where: {
@@ -191,24 +203,30 @@ async function generateOverviewStats(baseFilters: any, startDate: Date, endDate:
     prisma.task.count({
       where: baseFilters,
     }),
-    prisma.revenue.aggregate({
+    prisma.revenue.findMany({
       where: {
         date: { gte: startDate, lte: endDate },
         status: 'RECEIVED',
       },
-      _sum: { amount: true, taxAmount: true },
+      select: { amount: true, taxAmount: true, currency: true, date: true },
     }),
-    prisma.expense.aggregate({
+    prisma.expense.findMany({
       where: {
         date: { gte: startDate, lte: endDate },
         status: 'APPROVED',
       },
-      _sum: { amount: true, taxAmount: true },
+      select: { amount: true, taxAmount: true, currency: true, date: true },
     }),
   ])
 
-  const totalRevenue = (revenues._sum.amount || 0) + (revenues._sum.taxAmount || 0)
-  const totalExpenses = (expenses._sum.amount || 0) + (expenses._sum.taxAmount || 0)
+  const totalRevenue = revenues.reduce(
+    (sum, r) => sum + converter.convert(r.amount + r.taxAmount, r.currency, r.date),
+    0
+  )
+  const totalExpenses = expenses.reduce(
+    (sum, e) => sum + converter.convert(e.amount + e.taxAmount, e.currency, e.date),
+    0
+  )
   const profit = totalRevenue - totalExpenses
   const profitMargin = totalRevenue > 0 ? (profit / totalRevenue) * 100 : 0
 
@@ -228,24 +246,24 @@ async function generateOverviewStats(baseFilters: any, startDate: Date, endDate:
     revenue: {
       total: totalRevenue,
       label: 'Total Revenue',
-      currency: 'USD',
+      currency: converter.currency,
     },
     expenses: {
       total: totalExpenses,
       label: 'Total Expenses',
-      currency: 'USD',
+      currency: converter.currency,
     },
     profit: {
       total: profit,
       margin: profitMargin,
       label: 'Net Profit',
-      currency: 'USD',
+      currency: converter.currency,
     },
   }
 }
 
 // Helper function to generate revenue chart data
-async function generateRevenueChart(baseFilters: any, startDate: Date, endDate: Date) {
+async function generateRevenueChart(baseFilters: any, startDate: Date, endDate: Date, converter: CurrencyConverter) {
   const revenues = await prisma.revenue.findMany({
     where: {
       date: { gte: startDate, lte: endDate },
@@ -254,11 +272,14 @@ async function generateRevenueChart(baseFilters: any, startDate: Date, endDate:
     select: {
       amount: true,
       taxAmount: true,
+      currency: true,
       date: true,
       category: true,
     },
     orderBy: { date: 'asc' },
   })
+  const gross = (revenue: typeof revenues[number]) =>
+    converter.convert(revenue.amount + revenue.taxAmount, revenue.currency, revenue.date)
 
   // Group by day
   const dailyRevenue = revenues.reduce((acc, revenue) => {
@@ -266,7 +287,7 @@ async function generateRevenueChart(baseFilters: any, startDate: Date, endDate:
     if (!acc[dateKey]) {
       acc[dateKey] = 0
     }
-    acc[dateKey] += revenue.amount + revenue.taxAmount
+    acc[dateKey] += gross(revenue)
     return acc
   }, {} as Record<string, number>)
 
@@ -276,13 +297,14 @@ async function generateRevenueChart(baseFilters: any, startDate: Date, endDate:
 
   return {
     data: chartData,
-    total: revenues.reduce((sum, r) => sum + r.amount + r.taxAmount, 0),
+    total: revenues.reduce((sum, r) => sum + gross(r), 0),
     count: revenues.length,
+    currency: converter.currency,
   }
 }
 
 // Helper function to generate expense chart data
-async function generateExpenseChart(baseFilters: any, startDate: Date, endDate: Date) {
+async function generateExpenseChart(baseFilters: any, startDate: Date, endDate: Date, converter: CurrencyConverter) {
   const expenses = await prisma.expense.findMany({
     where: {
       date: { gte: startDate, lte: endDate },
@@ -290,12 +312,15 @@ async function generateExpenseChart(baseFilters: any, startDate: Date, endDate:
     select: {
       amount: true,
       taxAmount: true,
+      currency: true,
       date: true,
       category: true,
       status: true,
     },
     orderBy: { date: 'asc' },
   })
+  const gross = (expense: typeof expenses[number]) =>
+    converter.convert(expense.amount + expense.taxAmount, expense.currency, expense.date)
 
   // Group by day
   const dailyExpenses = expenses.reduce((acc, expense) => {
@@ -303,7 +328,7 @@ async function generateExpenseChart(baseFilters: any, startDate: Date, endDate:
     if (!acc[dateKey]) {
       acc[dateKey] = 0
     }
-    acc[dateKey] += expense.amount + expense.taxAmount
+    acc[dateKey] += gross(expense)
     return acc
   }, {} as Record<string, number>)
 
@@ -316,15 +341,16 @@ async function generateExpenseChart(baseFilters: any, startDate: Date, endDate:
     if (!acc[expense.category]) {
       acc[expense.category] = 0
     }
-    acc[expense.category] += expense.amount + expense.taxAmount
+    acc[expense.category] += gross(expense)
     return acc
   }, {} as Record<string, number>)
 
   return {
     data: chartData,
     categoryBreakdown,
-    total: expenses.reduce((sum, e) => sum + e.amount + e.taxAmount, 0),
+    total: expenses.reduce((sum, e) => sum + gross(e), 0),
     count: expenses.length,
+    currency: converter.currency,
   }
 }
 
@@ -466,7 +492,7 @@ async function generateTaskCompletion(baseFilters: any, startDate: Date, endDate
 }
 
 // Helper function to generate budget utilization data
-async function generateBudgetUtilization(baseFilters: any, startDate: Date, endDate: Date) {
+async function generateBudgetUtilization(baseFilters: any, startDate: Date, endDate: Date, converter: CurrencyConverter) {
   const budgets = await prisma.budget.findMany({
     where: {
       OR: [
@@ -485,36 +511,41 @@ async function generateBudgetUtilization(baseFilters: any, startDate: Date, endD
 
   const utilizationData = await Promise.all(
     budgets.map(async (budget) => {
-      const expenses = await prisma.expense.aggregate({
+      const expenses = await prisma.expense.findMany({
         where: {
           date: { gte: budget.startDate, lte: budget.endDate },
           ...(budget.projectId && { projectId: budget.projectId }),
           ...(budget.clientId && { clientId: budget.clientId }),
         },
-        _sum: { amount: true, taxAmount: true },
+        select: { amount: true, taxAmount: true, currency: true, date: true },
       })
 
-      const totalSpent = (expenses._sum.amount || 0) + (expenses._sum.taxAmount || 0)
-      const utilization = budget.totalAmount > 0 ? (totalSpent / budget.totalAmount) * 100 : 0
+      const totalAmount = converter.convert(budget.totalAmount, budget.currency, budget.startDate)
+      const totalSpent = expenses.reduce(
+        (sum, e) => sum + converter.convert(e.amount + e.taxAmount, e.currency, e.date),
+        0
+      )
+      const utilization = totalAmount > 0 ? (totalSpent / totalAmount) * 100 : 0
 
       return {
         budget: {
           id: budget.id,
           name: budget.name,
-          totalAmount: budget.totalAmount,
+          totalAmount,
         },
         project: budget.project,
         client: budget.client,
         spent: totalSpent,
-        remaining: budget.totalAmount - totalSpent,
+        remaining: totalAmount - totalSpent,
         utilization,
-        isOverBudget: totalSpent > budget.totalAmount,
+        isOverBudget: totalSpent > totalAmount,
       }
     })
   )
 
   return {
     data: utilizationData,
+    currency: converter.currency,
   }
 }
 
@@ -551,6 +582,7 @@ async function generateRecentActivities(baseFilters: any) {
         id: true,
         description: true,
         amount: true,
+        currency: true,
         createdAt: true,
         user: { select: { name: true } },
       },
@@ -576,7 +608,7 @@ async function generateRecentActivities(baseFilters: any) {
       type: 'expense',
       id: e.id,
       title: `New expense: ${e.description}`,
-      subtitle: `$${e.amount} by ${e.user?.name}`,
+      subtitle: `${e.amount} ${e.currency} by ${e.user?.name}`,
       timestamp: e.createdAt,
     })),
   ].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
@@ -588,7 +620,7 @@ async function generateRecentActivities(baseFilters: any) {
 }
 
 // Helper function to generate top clients data
-async function generateTopClients(baseFilters: any, startDate: Date, endDate: Date) {
+async function generateTopClients(baseFilters: any, startDate: Date, endDate: Date, converter: CurrencyConverter) {
   const topClients = await prisma.client.findMany({
     where: {
       // Remove status filter as Client model doesn't have status field
@@ -605,6 +637,8 @@ async function generateTopClients(baseFilters: any, startDate: Date, endDate: Da
         select: {
           amount: true,
           taxAmount: true,
+          currency: true,
+          date: true,
         },
       },
       _count: {
@@ -618,7 +652,7 @@ async function generateTopClients(baseFilters: any, startDate: Date, endDate: Da
   const clientsWithRevenue = topClients
     .map(client => {
       const totalRevenue = client.revenues.reduce(
-        (sum, r) => sum + r.amount + r.taxAmount,
+        (sum, r) => sum + converter.convert(r.amount + r.taxAmount, r.currency, r.date),
         0
       )
       return {
@@ -638,6 +672,7 @@ async function generateTopClients(baseFilters: any, startDate: Date, endDate: Da
 
   return {
     data: clientsWithRevenue,
+    currency: converter.currency,
   }
 }
 
@@ -712,51 +747,58 @@ async function generateUpcomingDeadlines() {
 }
 
 // Helper function to generate financial summary
-async function generateFinancialSummary(baseFilters: any, startDate: Date, endDate: Date) {
+async function generateFinancialSummary(baseFilters: any, startDate: Date, endDate: Date, converter: CurrencyConverter) {
   const [revenues, expenses, budgets] = await Promise.all([
-    prisma.revenue.aggregate({
+    prisma.revenue.findMany({
       where: {
         date: { gte: startDate, lte: endDate },
       },
-      _sum: { amount: true, taxAmount: true },
-      _count: true,
+      select: { amount: true, taxAmount: true, currency: true, date: true },
     }),
-    prisma.expense.aggregate({
+    prisma.expense.findMany({
       where: {
         date: { gte: startDate, lte: endDate },
       },
-      _sum: { amount: true, taxAmount: true },
-      _count: true,
+      select: { amount: true, taxAmount: true, currency: true, date: true },
     }),
-    prisma.budget.aggregate({
+    prisma.budget.findMany({
       where: {
         startDate: { lte: endDate },
         endDate: { gte: startDate },
       },
-      _sum: { totalAmount: true },
-      _count: true,
+      select: { totalAmount: true, currency: true, startDate: true },
     }),
   ])
 
-  const totalRevenue = (revenues._sum.amount || 0) + (revenues._sum.taxAmount || 0)
-  const totalExpenses = (expenses._sum.amount || 0) + (expenses._sum.taxAmount || 0)
-  const totalBudget = budgets._sum.totalAmount || 0
+  const totalRevenue = revenues.reduce(
+    (sum, r) => sum + converter.convert(r.amount + r.taxAmount, r.currency, r.date),
+    0
+  )
+  const totalExpenses = expenses.reduce(
+    (sum, e) => sum + converter.convert(e.amount + e.taxAmount, e.currency, e.date),
+    0
+  )
+  const totalBudget = budgets.reduce(
+    (sum, b) => sum + converter.convert(b.totalAmount, b.currency, b.startDate),
+    0
+  )
   const profit = totalRevenue - totalExpenses
   const profitMargin = totalRevenue > 0 ? (profit / totalRevenue) * 100 : 0
   const budgetUtilization = totalBudget > 0 ? (totalExpenses / totalBudget) * 100 : 0
 
   return {
+    currency: converter.currency,
     revenue: {
       total: totalRevenue,
-      count: revenues._count,
+      count: revenues.length,
     },
     expenses: {
       total: totalExpenses,
-      count: expenses._count,
+      count: expenses.length,
     },
     budget: {
       total: totalBudget,
-      count: budgets._count,
+      count: budgets.length,
       utilization: budgetUtilization,
     },
     profit: {
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import {
+  BRANDING_SETTING_KEY,
+  brandingConfigSchema,
+  defaultBrandingConfig,
+  getBrandingConfig,
+} from '@/lib/branding'
+
+const prisma = new PrismaClient()
+
+// GET /api/settings/branding - Get the agency details printed on invoices and proposals
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const config = await getBrandingConfig(prisma)
+
+    return NextResponse.json({
+      config,
+      defaults: defaultBrandingConfig,
+    })
+  } catch (error) {
+    console.error('Error fetching branding config:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/settings/branding - Update the document branding (admin only). Send logo: null to remove the logo.
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Only administrators can change document branding' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const currentConfig = await getBrandingConfig(prisma)
+    const validatedData = brandingConfigSchema.parse({
+      ...currentConfig,
+      ...body,
+    })
+
+    await prisma.systemSetting.upsert({
+      where: { key: BRANDING_SETTING_KEY },
+      update: {
+        value: JSON.stringify(validatedData),
+        updatedBy: session.user.id,
+      },
+      create: {
+        key: BRANDING_SETTING_KEY,
+        value: JSON.stringify(validatedData),
+        description: 'Agency name, logo, contact details and footer printed on invoices and proposals',
+        updatedBy: session.user.id,
+      },
+    })
+
+    return NextResponse.json({ config: validatedData })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating branding config:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
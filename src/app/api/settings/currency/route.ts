@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import {
+  CURRENCY_SETTING_KEY,
+  currencyConfigSchema,
+  defaultCurrencyConfig,
+  getCurrencyConfig,
+} from '@/lib/currency'
+
+const prisma = new PrismaClient()
+
+// GET /api/settings/currency - Get the base currency finance reports are converted to
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const config = await getCurrencyConfig(prisma)
+
+    return NextResponse.json({
+      config,
+      defaults: defaultCurrencyConfig,
+    })
+  } catch (error) {
+    console.error('Error fetching currency config:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/settings/currency - Change the base currency (admin only). Reports need exchange rates into the new currency.
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Only administrators can change the base currency' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const currentConfig = await getCurrencyConfig(prisma)
+    const validatedData = currencyConfigSchema.parse({
+      ...currentConfig,
+      ...body,
+    })
+
+    await prisma.systemSetting.upsert({
+      where: { key: CURRENCY_SETTING_KEY },
+      update: {
+        value: JSON.stringify(validatedData),
+        updatedBy: session.user.id,
+      },
+      create: {
+        key: CURRENCY_SETTING_KEY,
+        value: JSON.stringify(validatedData),
+        description: 'Base currency for finance reports',
+        updatedBy: session.user.id,
+      },
+    })
+
+    return NextResponse.json({ config: validatedData })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating currency config:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
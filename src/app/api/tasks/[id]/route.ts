@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 import { z } from 'zod'
+import { getClientScope, PortalAccessError, portalTaskWhere } from '@/lib/client-portal'
 
 const prisma = new PrismaClient()
 
@@ -15,6 +16,7 @@ const updateTaskSchema = z.object({
   priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).optional(),
   dueDate: z.string().transform((str) => new Date(str)).optional(),
   estimatedHours: z.number().min(0).optional(),
+  clientVisible: z.boolean().optional(),
   tags: z.array(z.string()).optional(),
 })
 
@@ -31,8 +33,12 @@ export async function GET(
 
     const { id } = await params
 
-    const task = await prisma.task.findUnique({
-      where: { id },
+    // CLIENT users only see the client-visible tasks on their own client's projects;
+    // others are reported missing
+    const portalUser = await getClientScope(session.user.id, prisma)
+
+    const task = await prisma.task.findFirst({
+      where: { id, ...(portalUser && portalTaskWhere(portalUser.clientId)) },
       include: {
         project: {
           select: {
@@ -85,6 +91,19 @@ export async function GET(
           },
           orderBy: { date: 'desc' },
         },
+        comments: {
+          include: {
+            user: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+                role: true,
+              },
+            },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
         _count: {
           select: {
             timeEntries: true,
@@ -117,6 +136,10 @@ export async function GET(
 
     return NextResponse.json(taskWithStats)
   } catch (error) {
+    if (error instanceof PortalAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
     console.error('Error fetching task:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 import { z } from 'zod'
+import { getClientScope, PortalAccessError, portalTaskWhere } from '@/lib/client-portal'
 
 const prisma = new PrismaClient()
 
@@ -16,6 +17,7 @@ const createTaskSchema = z.object({
   priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).default('MEDIUM'),
   dueDate: z.string().transform((str) => new Date(str)).optional(),
   estimatedHours: z.number().min(0).optional(),
+  clientVisible: z.boolean().default(false),
   tags: z.array(z.string()).optional().default([]),
 })
 
@@ -81,6 +83,12 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // CLIENT users only see the client-visible tasks on their own client's projects
+    const portalUser = await getClientScope(session.user.id, prisma)
+    if (portalUser) {
+      where.AND = [portalTaskWhere(portalUser.clientId)]
+    }
+
     const [tasks, total] = await Promise.all([
       prisma.task.findMany({
         where,
@@ -158,6 +166,10 @@ export async function GET(request: NextRequest) {
       },
     })
   } catch (error) {
+    if (error instanceof PortalAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
     console.error('Error fetching tasks:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
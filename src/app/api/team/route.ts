@@ -52,8 +52,10 @@ export async function GET(request: NextRequest) {
 
     const skip = (page - 1) * limit
 
-    // Build where clause
-    const where: any = {}
+    // Build where clause; client portal users are managed per client, not as team members
+    const where: any = {
+      role: { not: 'CLIENT' },
+    }
 
     if (search) {
       where.OR = [
@@ -0,0 +1,592 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { useClient, useClientContacts, useClientPortalUsers, useClientTimeline } from '@/hooks/useClients'
+import type { ClientContactInput, ClientTimelineEvent, TimelineEventType } from '@/hooks/useClients'
+import { MainLayout } from '@/components/layout'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  Activity,
+  Building,
+  CreditCard,
+  DollarSign,
+  FileText,
+  FolderOpen,
+  KeyRound,
+  Loader2,
+  Mail,
+  MessageSquare,
+  Phone,
+  Plus,
+  Receipt,
+  Star,
+  Trash2,
+  TrendingUp,
+  User,
+} from 'lucide-react'
+
+const emptyContact: ClientContactInput = {
+  name: '',
+  email: '',
+  phone: '',
+  position: '',
+  isPrimary: false,
+}
+
+const timelineTypeLabels: Record<TimelineEventType, string> = {
+  project: 'Projects',
+  proposal: 'Proposals',
+  invoice: 'Invoices',
+  payment: 'Payments',
+  revenue: 'Revenue',
+  expense: 'Expenses',
+  lead_interaction: 'Lead interactions',
+  activity: 'Activity',
+}
+
+const timelineTypeIcons: Record<TimelineEventType, typeof Activity> = {
+  project: FolderOpen,
+  proposal: FileText,
+  invoice: Receipt,
+  payment: CreditCard,
+  revenue: TrendingUp,
+  expense: DollarSign,
+  lead_interaction: MessageSquare,
+  activity: Activity,
+}
+
+// The amount shown next to financial events
+function timelineAmount(event: ClientTimelineEvent): number | null {
+  switch (event.type) {
+    case 'proposal':
+    case 'invoice':
+      return event.payload.totalAmount
+    case 'payment':
+    case 'revenue':
+    case 'expense':
+      return event.payload.amount
+    default:
+      return null
+  }
+}
+
+function timelineStatus(event: ClientTimelineEvent): string | null {
+  return event.payload.status || event.payload.interactionType || null
+}
+
+function TimelineTab({ clientId }: { clientId: string }) {
+  const [typeFilter, setTypeFilter] = useState<'all' | TimelineEventType>('all')
+  const { events, counts, loading, error, hasMore, loadMore } = useClientTimeline(
+    clientId,
+    typeFilter === 'all' ? [] : [typeFilter]
+  )
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Timeline</CardTitle>
+          <CardDescription>
+            Projects, proposals, invoices, payments and interactions, newest first
+          </CardDescription>
+        </div>
+        <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as 'all' | TimelineEventType)}>
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="All events" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All events</SelectItem>
+            {(Object.keys(timelineTypeLabels) as TimelineEventType[]).map((type) => (
+              <SelectItem key={type} value={type}>
+                {timelineTypeLabels[type]}
+                {typeFilter === 'all' && counts[type] != null && ` (${counts[type]})`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {!loading && events.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">No events yet</p>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-4">
+            {events.map((event) => {
+              const Icon = timelineTypeIcons[event.type]
+              const amount = timelineAmount(event)
+              const status = timelineStatus(event)
+
+              return (
+                <li key={event.id} className="ml-6 pb-6">
+                  <span className="absolute -left-4 flex items-center justify-center w-8 h-8 bg-blue-50 rounded-full ring-4 ring-white">
+                    <Icon className="w-4 h-4 text-blue-600" />
+                  </span>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="font-medium text-gray-900">{event.title}</p>
+                      {event.description && (
+                        <p className="text-sm text-gray-600 mt-1">{event.description}</p>
+                      )}
+                      <p className="text-xs text-gray-500 mt-1">
+                        {new Date(event.occurredAt).toLocaleString()}
+                        {event.actor && ` · ${event.actor.name || event.actor.email}`}
+                      </p>
+                    </div>
+                    <div className="flex flex-col items-end space-y-1">
+                      {amount != null && (
+                        <span className="text-sm font-medium">${amount.toLocaleString()}</span>
+                      )}
+                      {status && (
+                        <Badge variant="secondary">{status}</Badge>
+                      )}
+                    </div>
+                  </div>
+                </li>
+              )
+            })}
+          </ol>
+        )}
+
+        {loading && (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        )}
+
+        {hasMore && !loading && (
+          <div className="flex justify-center">
+            <Button variant="outline" onClick={loadMore}>
+              Load more
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function ContactsCard({ clientId }: { clientId: string }) {
+  const {
+    contacts,
+    loading,
+    error,
+    addContact,
+    makePrimary,
+    deleteContact,
+    moveContact,
+  } = useClientContacts(clientId)
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState<ClientContactInput>(emptyContact)
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setSaving(true)
+      setActionError(null)
+      await action()
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    run(async () => {
+      // Empty optional fields are left out rather than sent as blank strings
+      await addContact({
+        name: form.name,
+        email: form.email || undefined,
+        phone: form.phone || undefined,
+        position: form.position || undefined,
+        isPrimary: form.isPrimary,
+      })
+      setForm(emptyContact)
+      setShowForm(false)
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Contacts</CardTitle>
+          <CardDescription>
+            The primary contact receives proposals and invoices unless another recipient is chosen
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setShowForm(!showForm)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Contact
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(error || actionError) && (
+          <p className="text-sm text-red-600">{actionError || error}</p>
+        )}
+
+        {showForm && (
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4 rounded-md border p-4">
+            <div className="space-y-1">
+              <Label htmlFor="contact-name">Name</Label>
+              <Input
+                id="contact-name"
+                required
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="contact-position">Role</Label>
+              <Input
+                id="contact-position"
+                placeholder="e.g. Marketing Director"
+                value={form.position}
+                onChange={(e) => setForm({ ...form, position: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="contact-email">Email</Label>
+              <Input
+                id="contact-email"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="contact-phone">Phone</Label>
+              <Input
+                id="contact-phone"
+                value={form.phone}
+                onChange={(e) => setForm({ ...form, phone: e.target.value })}
+              />
+            </div>
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={form.isPrimary}
+                onChange={(e) => setForm({ ...form, isPrimary: e.target.checked })}
+              />
+              <span>Make primary contact</span>
+            </label>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                Save Contact
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : contacts.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">No contacts yet</p>
+        ) : (
+          <ul className="divide-y">
+            {contacts.map((contact, index) => (
+              <li key={contact.id} className="flex items-center justify-between py-3">
+                <div className="flex items-center space-x-3">
+                  <div className="w-9 h-9 bg-gray-100 rounded-full flex items-center justify-center">
+                    <User className="w-4 h-4 text-gray-600" />
+                  </div>
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium">{contact.name}</span>
+                      {contact.isPrimary && (
+                        <Badge className="bg-blue-100 text-blue-800">Primary</Badge>
+                      )}
+                    </div>
+                    {contact.position && (
+                      <p className="text-sm text-gray-600">{contact.position}</p>
+                    )}
+                    <div className="flex items-center space-x-4 text-xs text-gray-500 mt-1">
+                      {contact.email && (
+                        <span className="flex items-center">
+                          <Mail className="w-3 h-3 mr-1" />
+                          {contact.email}
+                        </span>
+                      )}
+                      {contact.phone && (
+                        <span className="flex items-center">
+                          <Phone className="w-3 h-3 mr-1" />
+                          {contact.phone}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-1">
+                  {!contact.isPrimary && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={saving}
+                      onClick={() => run(() => makePrimary(contact.id))}
+                    >
+                      <Star className="w-4 h-4 mr-1" />
+                      Make Primary
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={saving || index === 0}
+                    onClick={() => run(() => moveContact(contact.id, -1))}
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={saving || index === contacts.length - 1}
+                    onClick={() => run(() => moveContact(contact.id, 1))}
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={saving}
+                    onClick={() => {
+                      if (window.confirm(`Remove ${contact.name} from this client?`)) {
+                        run(() => deleteContact(contact.id))
+                      }
+                    }}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function PortalAccessCard({ clientId }: { clientId: string }) {
+  const { users, loading, inviteUser, revokeUser } = useClientPortalUsers(clientId)
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState({ name: '', email: '', password: '' })
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    try {
+      setActionError(null)
+      await inviteUser(form)
+      setForm({ name: '', email: '', password: '' })
+      setShowForm(false)
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const handleRevoke = async (userId: string) => {
+    try {
+      setActionError(null)
+      await revokeUser(userId)
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Portal Access</CardTitle>
+          <CardDescription>People at this client who can sign in to the client portal</CardDescription>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => setShowForm(!showForm)}>
+          <KeyRound className="h-4 w-4 mr-1" />
+          Give Access
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {actionError && <p className="text-red-600">{actionError}</p>}
+
+        {showForm && (
+          <form onSubmit={handleSubmit} className="space-y-2 rounded-md border p-3">
+            <Input
+              required
+              placeholder="Name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+            <Input
+              required
+              type="email"
+              placeholder="Email"
+              value={form.email}
+              onChange={(e) => setForm({ ...form, email: e.target.value })}
+            />
+            <Input
+              required
+              type="password"
+              minLength={6}
+              placeholder="Temporary password"
+              value={form.password}
+              onChange={(e) => setForm({ ...form, password: e.target.value })}
+            />
+            <Button type="submit" size="sm" className="w-full">
+              Create Portal Login
+            </Button>
+          </form>
+        )}
+
+        {loading ? (
+          <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+        ) : users.length === 0 ? (
+          <p className="text-gray-500">No one has portal access yet</p>
+        ) : (
+          users.map((user) => (
+            <div key={user.id} className="flex items-center justify-between">
+              <div>
+                <p className={`font-medium ${user.isActive ? '' : 'text-gray-400 line-through'}`}>{user.name}</p>
+                <p className="text-xs text-gray-500">{user.email}</p>
+              </div>
+              {user.isActive && (
+                <Button size="sm" variant="ghost" onClick={() => handleRevoke(user.id)}>
+                  Revoke
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function ClientDetailPage() {
+  const params = useParams<{ id: string }>()
+  const { client, loading, error } = useClient(params?.id ?? '')
+
+  if (loading) {
+    return (
+      <MainLayout>
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin" />
+          <span className="ml-2">Loading client...</span>
+        </div>
+      </MainLayout>
+    )
+  }
+
+  if (error || !client) {
+    return (
+      <MainLayout>
+        <Card>
+          <CardContent className="text-center py-12">
+            <AlertTriangle className="h-12 w-12 mx-auto mb-4 text-red-500" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Error loading client</h3>
+            <p className="text-gray-500 mb-4">{error}</p>
+            <Link href="/clients">
+              <Button variant="outline">Back to Clients</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </MainLayout>
+    )
+  }
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="space-y-2">
+          <Link href="/clients" className="flex items-center text-sm text-gray-600 hover:text-gray-900">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Clients
+          </Link>
+          <div className="flex items-center space-x-3">
+            <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center">
+              <Building className="w-6 h-6 text-blue-600" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">{client.company || client.name}</h1>
+              <p className="text-gray-600">
+                {client.name}
+                {client.email && ` · ${client.email}`}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <Tabs defaultValue="overview" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="timeline">Timeline</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="overview">
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2">
+                <ContactsCard clientId={client.id} />
+              </div>
+
+              <div className="space-y-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Account</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4 text-sm">
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-gray-600">Health Score</span>
+                        <span className="font-medium">{client.healthScore}%</span>
+                      </div>
+                      <Progress value={client.healthScore} className="h-2" />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-600">Industry</span>
+                      <span className="font-medium">{client.industry || '-'}</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-600">Account Manager</span>
+                      <span className="font-medium">{client.accountManager?.name || 'Unassigned'}</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-600">Projects</span>
+                      <span className="font-medium">{client._count?.projects ?? 0}</span>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <PortalAccessCard clientId={client.id} />
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="timeline">
+            <TimelineTab clientId={client.id} />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </MainLayout>
+  )
+}
@@ -1,8 +1,10 @@
 'use client'
 
 import { useState } from 'react'
+import Link from 'next/link'
 import { useAuth } from '@/hooks/use-auth'
 import { useClients } from '@/hooks/useClients'
+import type { ClientHealthBand } from '@/hooks/useClients'
 import type { Client } from '@/shared/types'
 import { MainLayout } from '@/components/layout'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -81,8 +83,20 @@ function getHealthScoreIcon(score: number) {
   return <AlertTriangle className="h-4 w-4 text-red-600" />
 }
 
+interface ClientHealthInfo {
+  healthBand?: ClientHealthBand | null
+  healthTrend?: number | null
+  atRisk?: boolean
+}
+
+const healthBandLabels: Record<ClientHealthBand, string> = {
+  HEALTHY: 'Healthy',
+  WATCH: 'Watch',
+  AT_RISK: 'At Risk',
+}
+
 interface ClientCardProps {
-  client: Client
+  client: Client & ClientHealthInfo
   onCall?: (client: Client) => void
   onEmail?: (client: Client) => void
   onSchedule?: (client: Client) => void
@@ -99,17 +113,29 @@ const ClientCard = ({ client, onCall, onEmail, onSchedule, onEdit }: ClientCardP
               <Building className="w-5 h-5 text-blue-600" />
             </div>
             <div>
-              <CardTitle className="text-lg">{client.name}</CardTitle>
+              <CardTitle className="text-lg">
+                <Link href={`/clients/${client.id}`} className="hover:underline">
+                  {client.name}
+                </Link>
+              </CardTitle>
               <p className="text-sm text-gray-600">{client.company}</p>
             </div>
           </div>
-          <Badge 
-            variant={client.status === 'active' ? 'default' : 
-                    client.status === 'at-risk' ? 'destructive' : 'secondary'}
-            className={statusColors[client.status]}
-          >
-            {statusLabels[client.status]}
-          </Badge>
+          <div className="flex flex-col items-end space-y-1">
+            <Badge 
+              variant={client.status === 'active' ? 'default' : 
+                      client.status === 'at-risk' ? 'destructive' : 'secondary'}
+              className={statusColors[client.status]}
+            >
+              {statusLabels[client.status]}
+            </Badge>
+            {client.atRisk && (
+              <Badge variant="destructive" className="flex items-center">
+                <AlertTriangle className="w-3 h-3 mr-1" />
+                At Risk
+              </Badge>
+            )}
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -120,14 +146,27 @@ const ClientCard = ({ client, onCall, onEmail, onSchedule, onEdit }: ClientCardP
               {getHealthScoreIcon(client.healthScore)}
               <span>Health Score</span>
             </span>
-            <span className={`font-medium ${getHealthScoreColor(client.healthScore)}`}>
-              {client.healthScore}%
+            <span className="flex items-center space-x-2">
+              {client.healthTrend != null && client.healthTrend !== 0 && (
+                <span className={`flex items-center text-xs ${client.healthTrend > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {client.healthTrend > 0
+                    ? <TrendingUp className="h-3 w-3 mr-0.5" />
+                    : <TrendingDown className="h-3 w-3 mr-0.5" />}
+                  {client.healthTrend > 0 ? '+' : ''}{client.healthTrend}
+                </span>
+              )}
+              <span className={`font-medium ${getHealthScoreColor(client.healthScore)}`}>
+                {client.healthScore}%
+              </span>
             </span>
           </div>
           <Progress 
             value={client.healthScore} 
             className="h-2"
           />
+          {client.healthBand && (
+            <p className="text-xs text-gray-500">{healthBandLabels[client.healthBand as ClientHealthBand]}</p>
+          )}
         </div>
 
         {/* Client Info */}
@@ -198,6 +237,7 @@ export default function ClientsPage() {
   const [statusFilter, setStatusFilter] = useState('all')
   const [tierFilter, setTierFilter] = useState('all')
   const [industryFilter, setIndustryFilter] = useState('all')
+  const [healthFilter, setHealthFilter] = useState('all')
   const [showAdvancedFilters, setShowAdvancedFilters] = useState(false)
 
   // Use real API data
@@ -211,7 +251,8 @@ export default function ClientsPage() {
     search: searchTerm || undefined,
     status: statusFilter !== 'all' ? statusFilter : undefined,
     tier: tierFilter !== 'all' ? tierFilter : undefined,
-    industry: industryFilter !== 'all' ? industryFilter : undefined
+    industry: industryFilter !== 'all' ? industryFilter : undefined,
+    health: healthFilter !== 'all' ? healthFilter : undefined
   })
 
   const { 
@@ -448,9 +489,9 @@ export default function ClientsPage() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Scores</SelectItem>
-                    <SelectItem value="high">High (80+)</SelectItem>
-                    <SelectItem value="medium">Medium (60-79)</SelectItem>
-                    <SelectItem value="low">Low (&lt;60)</SelectItem>
+                    <SelectItem value="healthy">Healthy</SelectItem>
+                    <SelectItem value="watch">Watch</SelectItem>
+                    <SelectItem value="at-risk">At Risk</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
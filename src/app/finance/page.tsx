@@ -20,6 +20,8 @@ import {
   useFinanceStats,
   useBudgetForecast,
   useFinancialReports,
+  useUpcomingInvoices,
+  type UpcomingInvoicePreview,
   type Transaction,
   type Budget,
   type Expense,
@@ -73,6 +75,7 @@ import {
   Plane,
   Smartphone,
   Laptop,
+  Repeat,
 } from 'lucide-react'
 
 interface Transaction {
@@ -703,6 +706,79 @@ function ReportCard({ report }: { report: FinancialReport }) {
   )
 }
 
+function UpcomingInvoicesCard({ preview, loading, error }: {
+  preview: UpcomingInvoicePreview | null
+  loading: boolean
+  error: string | null
+}) {
+  const invoices = preview?.invoices ?? []
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <Repeat className="h-5 w-5 mr-2" />
+              Upcoming Recurring Invoices
+            </CardTitle>
+            <CardDescription>Invoices retainers and subscriptions will generate in the next 30 days</CardDescription>
+          </div>
+          {preview && (
+            <div className="text-right">
+              {Object.entries(preview.byCurrency).map(([currency, total]) => (
+                <div key={currency} className="text-2xl font-bold text-green-600">
+                  {total.toLocaleString()} {currency}
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">{invoices.length} invoice(s)</p>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : loading && !preview ? (
+          <p className="text-sm text-muted-foreground">Loading upcoming invoices...</p>
+        ) : invoices.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No recurring invoices are due in the next 30 days.</p>
+        ) : (
+          <div className="space-y-3">
+            {invoices.map((invoice) => (
+              <div
+                key={`${invoice.recurringInvoiceId}-${invoice.issueDate}`}
+                className="flex items-center justify-between border-b pb-3 last:border-0 last:pb-0"
+              >
+                <div>
+                  <div className="font-medium">{invoice.name}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {invoice.client.company || invoice.client.name}
+                    {invoice.project && ` • ${invoice.project.name}`}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-4">
+                  <div className="text-right">
+                    <div className="font-medium">{invoice.totalAmount.toLocaleString()} {invoice.currency}</div>
+                    <div className="text-xs text-muted-foreground flex items-center justify-end">
+                      <CalendarIcon className="h-3 w-3 mr-1" />
+                      {new Date(invoice.issueDate).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <Badge variant="outline">{invoice.status === 'SENT' ? 'Auto-send' : 'Draft'}</Badge>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
 export default function FinancePage() {
   const { user, isLoading } = useAuth()
   const [activeTab, setActiveTab] = useState('overview')
@@ -721,6 +797,7 @@ export default function FinancePage() {
   const { stats, loading: statsLoading, error: statsError, loadStats } = useFinanceStats()
   const { forecast, loading: forecastLoading, error: forecastError, generateForecast } = useBudgetForecast()
   const { reports, loading: reportsLoading, error: reportsError, generateReport } = useFinancialReports()
+  const { preview: upcomingInvoices, loading: upcomingLoading, error: upcomingError, loadUpcomingInvoices } = useUpcomingInvoices()
 
   // Load data on component mount
   useEffect(() => {
@@ -729,6 +806,7 @@ export default function FinancePage() {
     loadExpenses()
     loadRevenues()
     loadStats()
+    loadUpcomingInvoices()
   }, [])
 
   // Generate forecast when period changes
@@ -972,6 +1050,9 @@ export default function FinancePage() {
               </Card>
             </div>
 
+            {/* Upcoming Recurring Invoices */}
+            <UpcomingInvoicesCard preview={upcomingInvoices} loading={upcomingLoading} error={upcomingError} />
+
             {/* Quick Actions */}
             <Card>
               <CardHeader>
@@ -0,0 +1,375 @@
+'use client'
+
+import { useState } from 'react'
+import { useAuth } from '@/hooks/use-auth'
+import { useImports } from '@/hooks/useImports'
+import type {
+  DuplicatePolicy,
+  ImportEntityType,
+  ImportPreview,
+  ImportValidation,
+} from '@/hooks/useImports'
+import { MainLayout } from '@/components/layout'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import {
+  Upload,
+  FileText,
+  CheckCircle,
+  AlertTriangle,
+  Undo2,
+  Loader2,
+  ArrowRight,
+} from 'lucide-react'
+
+const entityLabels: Record<ImportEntityType, string> = {
+  LEAD: 'Leads',
+  CLIENT: 'Clients',
+  CLIENT_CONTACT: 'Client contacts',
+}
+
+const policyLabels: Record<DuplicatePolicy, string> = {
+  SKIP: 'Skip existing records',
+  UPDATE: 'Update existing records',
+  CREATE: 'Create duplicates anyway',
+}
+
+const actionColors = {
+  CREATE: 'bg-green-100 text-green-800',
+  UPDATE: 'bg-blue-100 text-blue-800',
+  SKIP: 'bg-gray-100 text-gray-800',
+  ERROR: 'bg-red-100 text-red-800',
+}
+
+const UNMAPPED = '__none__'
+
+export default function ImportsPage() {
+  const { user, hasRole } = useAuth()
+  const { jobs, loading, previewImport, validateImport, runImport, undoImport } = useImports()
+
+  const [entityType, setEntityType] = useState<ImportEntityType>('LEAD')
+  const [duplicatePolicy, setDuplicatePolicy] = useState<DuplicatePolicy>('SKIP')
+  const [csv, setCsv] = useState('')
+  const [fileName, setFileName] = useState<string>()
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [mapping, setMapping] = useState<Record<string, string | null>>({})
+  const [valueMapping, setValueMapping] = useState<Record<string, Record<string, string>>>({})
+  const [validation, setValidation] = useState<ImportValidation | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  if (!user) {
+    return <div>Please log in to import data.</div>
+  }
+
+  const canImport = hasRole('ADMIN') || hasRole('MANAGER')
+  const settings = { entityType, csv, fileName, mapping, valueMapping, duplicatePolicy }
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setBusy(true)
+      setMessage(null)
+      await action()
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Something went wrong' })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleFile = async (file?: File) => {
+    if (!file) return
+    const text = await file.text()
+    setCsv(text)
+    setFileName(file.name)
+    await run(async () => {
+      const result = await previewImport({ entityType, csv: text, fileName: file.name })
+      setPreview(result)
+      setMapping(result.mapping)
+      setValueMapping(
+        Object.fromEntries(
+          Object.entries(result.valueMapping).map(([field, values]) => [
+            field,
+            Object.fromEntries(Object.entries(values).filter(([, v]) => v !== null)) as Record<string, string>,
+          ])
+        )
+      )
+      setValidation(null)
+    })
+  }
+
+  const handleValidate = () => run(async () => {
+    setValidation(await validateImport(settings))
+  })
+
+  const handleImport = () => run(async () => {
+    const result = await runImport({ ...settings, skipInvalidRows: true })
+    setMessage({ type: 'success', text: result.message })
+    setPreview(null)
+    setValidation(null)
+    setCsv('')
+    setFileName(undefined)
+  })
+
+  const handleUndo = (id: string) => run(async () => {
+    const result = await undoImport(id)
+    const skipped = result.skipped.length > 0 ? ` (${result.skipped.length} kept: ${result.skipped[0].reason})` : ''
+    setMessage({ type: 'success', text: `${result.message}${skipped}` })
+  })
+
+  const enumFields = preview?.fields.filter((f) => f.type === 'enum' && Object.values(mapping).includes(f.field)) || []
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Import Data</h1>
+          <p className="text-gray-600 mt-1">
+            Bring leads, clients and contacts in from a spreadsheet
+          </p>
+        </div>
+
+        {message && (
+          <div className={`rounded-md p-4 text-sm ${message.type === 'error' ? 'bg-red-50 text-red-800' : 'bg-green-50 text-green-800'}`}>
+            {message.text}
+          </div>
+        )}
+
+        {/* Step 1: upload */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Upload className="h-5 w-5" />
+              <span>1. Upload CSV</span>
+            </CardTitle>
+            <CardDescription>The first row must contain column headers</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Import into</Label>
+              <Select
+                value={entityType}
+                onValueChange={(value) => {
+                  setEntityType(value as ImportEntityType)
+                  setPreview(null)
+                  setValidation(null)
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(entityLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>When a record already exists</Label>
+              <Select value={duplicatePolicy} onValueChange={(value) => setDuplicatePolicy(value as DuplicatePolicy)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(policyLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="csv-file">CSV file</Label>
+              <Input
+                id="csv-file"
+                type="file"
+                accept=".csv,text/csv"
+                disabled={busy}
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Step 2: mapping */}
+        {preview && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <FileText className="h-5 w-5" />
+                <span>2. Map columns</span>
+              </CardTitle>
+              <CardDescription>
+                {preview.fileName} · {preview.totalRows} rows · suggested mappings are pre-selected
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {preview.headers.map((header, index) => (
+                  <div key={header} className="flex items-center space-x-3">
+                    <div className="w-1/2">
+                      <p className="text-sm font-medium truncate">{header}</p>
+                      <p className="text-xs text-gray-500 truncate">{preview.sampleRows[0]?.[index] || '—'}</p>
+                    </div>
+                    <ArrowRight className="h-4 w-4 text-gray-400 shrink-0" />
+                    <Select
+                      value={mapping[header] || UNMAPPED}
+                      onValueChange={(value) => setMapping({ ...mapping, [header]: value === UNMAPPED ? null : value })}
+                    >
+                      <SelectTrigger className="w-1/2">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Don&apos;t import</SelectItem>
+                        {preview.fields.map((field) => (
+                          <SelectItem key={field.field} value={field.field}>
+                            {field.label}{field.required ? ' *' : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              {enumFields.map((field) => (
+                <div key={field.field} className="space-y-2">
+                  <p className="text-sm font-medium">{field.label} values</p>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    {Object.keys(preview.valueMapping[field.field] || {}).map((raw) => (
+                      <div key={raw} className="flex items-center space-x-2">
+                        <span className="text-sm w-1/2 truncate">{raw}</span>
+                        <Select
+                          value={valueMapping[field.field]?.[raw] || UNMAPPED}
+                          onValueChange={(value) => setValueMapping({
+                            ...valueMapping,
+                            [field.field]: { ...valueMapping[field.field], [raw]: value },
+                          })}
+                        >
+                          <SelectTrigger className="w-1/2">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNMAPPED} disabled>Choose value</SelectItem>
+                            {field.values?.map((value) => (
+                              <SelectItem key={value} value={value}>{value.replace(/_/g, ' ')}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
+              <Button onClick={handleValidate} disabled={busy || !csv}>
+                {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+                Run dry run
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Step 3: dry run results */}
+        {validation && (
+          <Card>
+            <CardHeader>
+              <CardTitle>3. Review and import</CardTitle>
+              <CardDescription>
+                {validation.summary.create} to create · {validation.summary.update} to update ·{' '}
+                {validation.summary.skip} skipped · {validation.summary.errors} with errors
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="max-h-96 overflow-y-auto border rounded-md divide-y">
+                {validation.rows.filter((row) => row.action !== 'CREATE').length === 0 && (
+                  <p className="p-4 text-sm text-gray-600">Every row is valid and will be created.</p>
+                )}
+                {validation.rows
+                  .filter((row) => row.action !== 'CREATE')
+                  .map((row) => (
+                    <div key={row.rowNumber} className="p-3 flex items-start space-x-3 text-sm">
+                      <Badge className={actionColors[row.action]}>{row.action}</Badge>
+                      <span className="text-gray-500 shrink-0">Row {row.rowNumber}</span>
+                      <div>
+                        {row.message && <p>{row.message}</p>}
+                        {row.errors.map((err, index) => (
+                          <p key={index} className="text-red-700">
+                            <span className="font-medium">{err.field}</span>: {err.message}
+                          </p>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+              </div>
+              {canImport ? (
+                <Button
+                  onClick={handleImport}
+                  disabled={busy || validation.summary.create + validation.summary.update === 0}
+                >
+                  {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                  Import {validation.summary.create + validation.summary.update} rows
+                  {validation.summary.errors > 0 ? ` (skip ${validation.summary.errors} invalid)` : ''}
+                </Button>
+              ) : (
+                <p className="text-sm text-gray-600">Only managers and administrators can run imports.</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Import history */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Import history</CardTitle>
+            <CardDescription>Undo removes created records and restores updated ones</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : jobs.length === 0 ? (
+              <p className="text-sm text-gray-600">No imports yet.</p>
+            ) : (
+              <div className="divide-y">
+                {jobs.map((job) => (
+                  <div key={job.id} className="py-3 flex items-center justify-between">
+                    <div>
+                      <p className="font-medium">
+                        {entityLabels[job.entityType]} · {job.fileName || 'CSV import'}
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        {new Date(job.createdAt).toLocaleString()} by {job.creator?.name} ·{' '}
+                        {job.createdCount} created, {job.updatedCount} updated, {job.skippedCount} skipped, {job.errorCount} errors
+                      </p>
+                    </div>
+                    {job.status === 'UNDONE' ? (
+                      <Badge variant="secondary">Undone</Badge>
+                    ) : (
+                      <Button size="sm" variant="outline" disabled={busy} onClick={() => handleUndo(job.id)}>
+                        <Undo2 className="h-4 w-4 mr-1" />
+                        Undo
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            {jobs.some((job) => job.errorCount > 0) && (
+              <p className="mt-4 flex items-center text-xs text-gray-500">
+                <AlertTriangle className="h-3 w-3 mr-1" />
+                Rows with errors are listed on each import job
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </MainLayout>
+  )
+}
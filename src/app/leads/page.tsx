@@ -3,6 +3,7 @@
 import { useState } from 'react'
 import { useAuth } from '@/hooks/use-auth'
 import { useLeads, useLeadStats } from '@/hooks/useLeads'
+import type { LeadInteraction } from '@/hooks/useLeads'
 import type { Lead } from '@/shared/types'
 import { MainLayout } from '@/components/layout'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -23,7 +24,10 @@ import {
   TrendingUp,
   User,
   Building,
-  Loader2
+  Loader2,
+  History,
+  CheckCircle,
+  StickyNote
 } from 'lucide-react'
 
 const statusColors = {
@@ -52,14 +56,100 @@ function getScoreColor(score: number) {
   return 'text-red-600'
 }
 
-function LeadCard({ lead, onCall, onEmail, onSchedule }: { 
+const interactionIcons = {
+  CALL: Phone,
+  EMAIL: Mail,
+  MEETING: Calendar,
+  NOTE: StickyNote,
+}
+
+function LeadTimeline({ interactions, onComplete }: {
+  interactions: LeadInteraction[]
+  onComplete?: (interaction: LeadInteraction) => void
+}) {
+  if (interactions.length === 0) {
+    return <p className="text-sm text-gray-500">No interactions logged yet</p>
+  }
+
+  return (
+    <ol className="space-y-3 border-l border-gray-200 pl-4">
+      {interactions.map((interaction) => {
+        const Icon = interactionIcons[interaction.interactionType] || StickyNote
+        const isPending = !interaction.completedAt && !!interaction.scheduledAt
+        const isOverdue = isPending && new Date(interaction.scheduledAt!) < new Date()
+
+        return (
+          <li key={interaction.id} className="text-sm">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center font-medium">
+                <Icon className="h-3 w-3 mr-2" />
+                {interaction.subject || interaction.interactionType.toLowerCase()}
+              </div>
+              {isPending && (
+                <Badge variant={isOverdue ? 'destructive' : 'secondary'}>
+                  {isOverdue ? 'Overdue' : 'Scheduled'}
+                </Badge>
+              )}
+            </div>
+            {interaction.content && (
+              <p className="text-gray-600 mt-1 whitespace-pre-line">{interaction.content}</p>
+            )}
+            <div className="flex items-center justify-between text-xs text-gray-500 mt-1">
+              <span>
+                {new Date(interaction.completedAt || interaction.scheduledAt || interaction.createdAt).toLocaleString()}
+                {interaction.user && ` · ${interaction.user.name}`}
+              </span>
+              {isPending && onComplete && (
+                <Button size="sm" variant="ghost" onClick={() => onComplete(interaction)}>
+                  <CheckCircle className="h-3 w-3 mr-1" />
+                  Done
+                </Button>
+              )}
+            </div>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
+
+function LeadCard({ lead, onCall, onEmail, onSchedule, loadTimeline, onCompleteInteraction }: { 
   lead: Lead
   onCall?: (lead: Lead) => void
   onEmail?: (lead: Lead) => void
   onSchedule?: (lead: Lead) => void
+  loadTimeline?: (lead: Lead) => Promise<LeadInteraction[]>
+  onCompleteInteraction?: (lead: Lead, interaction: LeadInteraction) => Promise<void>
 }) {
   const statusColor = statusColors[lead.status] || 'bg-gray-100 text-gray-800'
   const fullName = `${lead.firstName} ${lead.lastName}`
+  const [timeline, setTimeline] = useState<LeadInteraction[] | null>(null)
+  const [timelineLoading, setTimelineLoading] = useState(false)
+
+  const refreshTimeline = async () => {
+    if (!loadTimeline) return
+    try {
+      setTimelineLoading(true)
+      setTimeline(await loadTimeline(lead))
+    } catch (error) {
+      console.error('Failed to load lead timeline:', error)
+    } finally {
+      setTimelineLoading(false)
+    }
+  }
+
+  const toggleTimeline = async () => {
+    if (timeline) {
+      setTimeline(null)
+      return
+    }
+    await refreshTimeline()
+  }
+
+  const handleComplete = async (interaction: LeadInteraction) => {
+    await onCompleteInteraction?.(lead, interaction)
+    await refreshTimeline()
+  }
   
   return (
     <Card className="hover:shadow-md transition-shadow">
@@ -126,6 +216,22 @@ function LeadCard({ lead, onCall, onEmail, onSchedule }: {
             Schedule
           </Button>
         </div>
+
+        <div className="pt-4">
+          <Button size="sm" variant="ghost" className="w-full" onClick={toggleTimeline}>
+            {timelineLoading ? (
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            ) : (
+              <History className="h-3 w-3 mr-1" />
+            )}
+            {timeline ? 'Hide timeline' : 'Show timeline'}
+          </Button>
+          {timeline && (
+            <div className="mt-4">
+              <LeadTimeline interactions={timeline} onComplete={handleComplete} />
+            </div>
+          )}
+        </div>
       </CardContent>
     </Card>
   )
@@ -138,7 +244,7 @@ export default function LeadsPage() {
   const [sourceFilter, setSourceFilter] = useState('all')
   const [priorityFilter, setPriorityFilter] = useState('all')
 
-  const { leads, loading, error, fetchLeads, addActivity } = useLeads({
+  const { leads, loading, error, fetchLeads, addActivity, fetchInteractions, completeInteraction } = useLeads({
     search: searchTerm || undefined,
     status: statusFilter !== 'all' ? statusFilter : undefined,
     source: sourceFilter !== 'all' ? sourceFilter : undefined,
@@ -151,9 +257,8 @@ export default function LeadsPage() {
   const handleCall = async (lead: Lead) => {
     try {
       await addActivity(lead.id, {
-        type: 'call',
-        description: `Called ${lead.firstName} ${lead.lastName}`,
-        date: new Date().toISOString()
+        interactionType: 'CALL',
+        subject: `Called ${lead.firstName} ${lead.lastName}`,
       })
     } catch (error) {
       console.error('Failed to log call activity:', error)
@@ -163,9 +268,8 @@ export default function LeadsPage() {
   const handleEmail = async (lead: Lead) => {
     try {
       await addActivity(lead.id, {
-        type: 'email',
-        description: `Sent email to ${lead.firstName} ${lead.lastName}`,
-        date: new Date().toISOString()
+        interactionType: 'EMAIL',
+        subject: `Sent email to ${lead.firstName} ${lead.lastName}`,
       })
     } catch (error) {
       console.error('Failed to log email activity:', error)
@@ -174,16 +278,29 @@ export default function LeadsPage() {
 
   const handleSchedule = async (lead: Lead) => {
     try {
+      // Follow-up meetings default to the next business morning
+      const scheduledAt = new Date()
+      scheduledAt.setDate(scheduledAt.getDate() + (scheduledAt.getDay() === 5 ? 3 : scheduledAt.getDay() === 6 ? 2 : 1))
+      scheduledAt.setHours(10, 0, 0, 0)
+
       await addActivity(lead.id, {
-        type: 'meeting',
-        description: `Scheduled meeting with ${lead.firstName} ${lead.lastName}`,
-        date: new Date().toISOString()
+        interactionType: 'MEETING',
+        subject: `Meeting with ${lead.firstName} ${lead.lastName}`,
+        scheduledAt: scheduledAt.toISOString()
       })
     } catch (error) {
       console.error('Failed to log meeting activity:', error)
     }
   }
 
+  const handleCompleteInteraction = async (lead: Lead, interaction: LeadInteraction) => {
+    try {
+      await completeInteraction(lead.id, interaction.id)
+    } catch (error) {
+      console.error('Failed to complete lead activity:', error)
+    }
+  }
+
   if (loading || statsLoading) {
     return (
       <MainLayout>
@@ -361,6 +478,8 @@ export default function LeadsPage() {
               onCall={handleCall}
               onEmail={handleEmail}
               onSchedule={handleSchedule}
+              loadTimeline={(lead) => fetchInteractions(lead.id)}
+              onCompleteInteraction={handleCompleteInteraction}
             />
           ))}
         </div>
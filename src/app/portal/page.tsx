@@ -0,0 +1,504 @@
+'use client'
+
+import { useState } from 'react'
+import { signOut } from 'next-auth/react'
+import { usePortal, usePortalProject } from '@/hooks/usePortal'
+import type { PortalInvoice, PortalProposal, PortalTask } from '@/hooks/usePortal'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  AlertTriangle,
+  Building,
+  CheckCircle,
+  DollarSign,
+  ExternalLink,
+  FileText,
+  FolderOpen,
+  Loader2,
+  LogOut,
+  MessageSquare,
+  Receipt,
+  XCircle,
+} from 'lucide-react'
+
+function formatCurrency(amount: number) {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+function formatDate(date: string | null) {
+  return date ? new Date(date).toLocaleDateString() : '-'
+}
+
+const proposalStatusColors: Record<string, string> = {
+  SENT: 'bg-blue-100 text-blue-800',
+  VIEWED: 'bg-blue-100 text-blue-800',
+  ACCEPTED: 'bg-green-100 text-green-800',
+  REJECTED: 'bg-red-100 text-red-800',
+  EXPIRED: 'bg-gray-100 text-gray-800',
+}
+
+const invoiceStatusColors: Record<string, string> = {
+  SENT: 'bg-blue-100 text-blue-800',
+  PAID: 'bg-green-100 text-green-800',
+  OVERDUE: 'bg-red-100 text-red-800',
+  CANCELLED: 'bg-gray-100 text-gray-800',
+}
+
+function TaskComments({ task, onComment }: { task: PortalTask; onComment: (taskId: string, content: string) => Promise<unknown> }) {
+  const [content, setContent] = useState('')
+  const [posting, setPosting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!content.trim()) return
+    try {
+      setPosting(true)
+      setError(null)
+      await onComment(task.id, content)
+      setContent('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setPosting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2 pl-4 border-l">
+      {task.comments.map((comment) => (
+        <div key={comment.id} className="text-sm">
+          <span className="font-medium">{comment.user.name}</span>
+          <span className="text-xs text-gray-500 ml-2">{new Date(comment.createdAt).toLocaleString()}</span>
+          <p className="text-gray-700 whitespace-pre-line">{comment.content}</p>
+        </div>
+      ))}
+      <form onSubmit={handleSubmit} className="flex items-start space-x-2">
+        <textarea
+          className="flex-1 rounded-md border px-3 py-2 text-sm"
+          rows={2}
+          placeholder="Add a comment for the team..."
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+        />
+        <Button type="submit" size="sm" disabled={posting || !content.trim()}>
+          Comment
+        </Button>
+      </form>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
+
+function ProjectDetail({ projectId }: { projectId: string }) {
+  const { project, loading, error, addComment } = usePortalProject(projectId)
+
+  if (loading || !project) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        {error ? <p className="text-sm text-red-600">{error}</p> : <Loader2 className="h-6 w-6 animate-spin" />}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6 pt-4 border-t">
+      <div>
+        <h4 className="font-medium mb-2">Shared files and links</h4>
+        {project.resources.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing has been shared yet</p>
+        ) : (
+          <ul className="space-y-2">
+            {project.resources.map((resource) => (
+              <li key={resource.id} className="flex items-center justify-between text-sm">
+                <div>
+                  <p className="font-medium">{resource.name}</p>
+                  {resource.description && <p className="text-gray-600">{resource.description}</p>}
+                </div>
+                {(resource.url || resource.filePath) && (
+                  <a
+                    href={resource.url || resource.filePath || '#'}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center text-blue-600 hover:text-blue-800"
+                  >
+                    Open
+                    <ExternalLink className="w-3 h-3 ml-1" />
+                  </a>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        <h4 className="font-medium mb-2">Tasks</h4>
+        {project.tasks.length === 0 ? (
+          <p className="text-sm text-gray-500">No tasks to show</p>
+        ) : (
+          <ul className="space-y-4">
+            {project.tasks.map((task) => (
+              <li key={task.id} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">{task.title}</p>
+                    <p className="text-xs text-gray-500">Due {formatDate(task.dueDate)}</p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="secondary">{task.status.replace('_', ' ')}</Badge>
+                    <span className="flex items-center text-xs text-gray-500">
+                      <MessageSquare className="w-3 h-3 mr-1" />
+                      {task.comments.length}
+                    </span>
+                  </div>
+                </div>
+                {task.description && <p className="text-sm text-gray-600">{task.description}</p>}
+                <TaskComments task={task} onComment={addComment} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function ProposalCard({
+  proposal,
+  onRespond,
+}: {
+  proposal: PortalProposal
+  onRespond: (id: string, action: 'accept' | 'reject', reason?: string) => Promise<unknown>
+}) {
+  const [rejecting, setRejecting] = useState(false)
+  const [reason, setReason] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const canRespond = proposal.status === 'SENT' || proposal.status === 'VIEWED'
+
+  const respond = async (action: 'accept' | 'reject') => {
+    try {
+      setSaving(true)
+      setError(null)
+      await onRespond(proposal.id, action, action === 'reject' ? reason || undefined : undefined)
+      setRejecting(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="text-lg">{proposal.title}</CardTitle>
+            <CardDescription>
+              {proposal.project ? `${proposal.project.name} · ` : ''}
+              Valid until {formatDate(proposal.validUntil)}
+            </CardDescription>
+          </div>
+          <Badge className={proposalStatusColors[proposal.status]}>{proposal.status}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {proposal.content && <p className="text-sm text-gray-700 whitespace-pre-line">{proposal.content}</p>}
+        {proposal.items.length > 0 && (
+          <div className="text-sm space-y-1">
+            {proposal.items.map((item) => (
+              <div key={item.id} className="flex justify-between">
+                <span>{item.quantity} × {item.description}</span>
+                <span>{formatCurrency(item.totalPrice)}</span>
+              </div>
+            ))}
+            {proposal.discountAmount > 0 && (
+              <div className="flex justify-between text-gray-600 border-t pt-1">
+                <span>Discount</span>
+                <span>-{formatCurrency(proposal.discountAmount)}</span>
+              </div>
+            )}
+            {proposal.taxAmount > 0 && (
+              <div className="flex justify-between text-gray-600">
+                <span>Tax</span>
+                <span>{formatCurrency(proposal.taxAmount)}</span>
+              </div>
+            )}
+          </div>
+        )}
+        <p className="text-xl font-semibold">{formatCurrency(proposal.totalAmount)}</p>
+        {proposal.terms && <p className="text-xs text-gray-500 whitespace-pre-line">{proposal.terms}</p>}
+
+        {canRespond && !rejecting && (
+          <div className="flex space-x-2">
+            <Button disabled={saving} onClick={() => respond('accept')}>
+              <CheckCircle className="w-4 h-4 mr-1" />
+              Accept
+            </Button>
+            <Button variant="outline" disabled={saving} onClick={() => setRejecting(true)}>
+              <XCircle className="w-4 h-4 mr-1" />
+              Decline
+            </Button>
+          </div>
+        )}
+
+        {canRespond && rejecting && (
+          <div className="space-y-2">
+            <textarea
+              className="w-full rounded-md border px-3 py-2 text-sm"
+              rows={3}
+              placeholder="Let us know why (optional)"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+            <div className="flex space-x-2">
+              <Button variant="destructive" disabled={saving} onClick={() => respond('reject')}>
+                Decline Proposal
+              </Button>
+              <Button variant="outline" disabled={saving} onClick={() => setRejecting(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
+
+function InvoiceRow({ invoice }: { invoice: PortalInvoice }) {
+  const [expanded, setExpanded] = useState(false)
+
+  return (
+    <>
+      <tr className="border-b hover:bg-gray-50 cursor-pointer" onClick={() => setExpanded(!expanded)}>
+        <td className="py-3 font-medium">
+          {invoice.invoiceNumber}
+          {invoice.type === 'CREDIT_NOTE' && <span className="ml-2 text-xs text-gray-500">Credit note</span>}
+        </td>
+        <td className="py-3">{formatDate(invoice.issueDate)}</td>
+        <td className="py-3">{formatDate(invoice.dueDate)}</td>
+        <td className="py-3">
+          <Badge className={invoiceStatusColors[invoice.status]}>{invoice.status}</Badge>
+        </td>
+        <td className="py-3 text-right">{formatCurrency(invoice.totalAmount)}</td>
+        <td className="py-3 text-right font-medium">{formatCurrency(invoice.balanceDue)}</td>
+      </tr>
+      {expanded && (
+        <tr className="border-b bg-gray-50">
+          <td colSpan={6} className="p-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+              <div>
+                <h4 className="font-medium mb-2">Items</h4>
+                {invoice.items.map((item) => (
+                  <div key={item.id} className="flex justify-between">
+                    <span>{item.quantity} × {item.description}</span>
+                    <span>{formatCurrency(item.totalPrice)}</span>
+                  </div>
+                ))}
+              </div>
+              <div>
+                <h4 className="font-medium mb-2">Payments</h4>
+                {invoice.payments.length === 0 ? (
+                  <p className="text-gray-500">No payments recorded</p>
+                ) : (
+                  invoice.payments.map((payment) => (
+                    <div key={payment.id} className="flex justify-between">
+                      <span>
+                        {formatDate(payment.paymentDate)}
+                        {payment.paymentMethod && ` · ${payment.paymentMethod}`}
+                        {payment.type === 'REFUND' && ' · Refund'}
+                      </span>
+                      <span>{payment.type === 'REFUND' ? '-' : ''}{formatCurrency(payment.amount)}</span>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </td>
+        </tr>
+      )}
+    </>
+  )
+}
+
+export default function ClientPortalPage() {
+  const { overview, projects, proposals, invoices, loading, error, respondToProposal } = usePortal()
+  const [openProjectId, setOpenProjectId] = useState<string | null>(null)
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    )
+  }
+
+  if (error || !overview) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <AlertTriangle className="h-12 w-12 mx-auto mb-4 text-red-500" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Client portal unavailable</h1>
+          <p className="text-gray-600 mb-4">{error}</p>
+          <Button variant="outline" onClick={() => signOut({ callbackUrl: '/auth/signin' })}>
+            Sign Out
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+              <Building className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-gray-900">{overview.client?.company}</h1>
+              <p className="text-sm text-gray-600">Signed in as {overview.user.name}</p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => signOut({ callbackUrl: '/auth/signin' })}>
+            <LogOut className="w-4 h-4 mr-1" />
+            Sign Out
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 py-6 space-y-6">
+        {/* Summary */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Active Projects</CardTitle>
+              <FolderOpen className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{overview.summary.activeProjects}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Awaiting Your Response</CardTitle>
+              <FileText className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{overview.summary.openProposals}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Balance Due</CardTitle>
+              <DollarSign className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatCurrency(overview.summary.outstandingBalance)}</div>
+              <p className="text-xs text-muted-foreground">
+                {overview.summary.unpaidInvoices} unpaid invoice{overview.summary.unpaidInvoices === 1 ? '' : 's'}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Tabs defaultValue="projects" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="projects">Projects</TabsTrigger>
+            <TabsTrigger value="proposals">Proposals</TabsTrigger>
+            <TabsTrigger value="invoices">Invoices</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="projects" className="space-y-4">
+            {projects.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-12">No projects yet</p>
+            ) : (
+              projects.map((project) => (
+                <Card key={project.id}>
+                  <CardHeader
+                    className="cursor-pointer"
+                    onClick={() => setOpenProjectId(openProjectId === project.id ? null : project.id)}
+                  >
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <CardTitle className="text-lg">{project.name}</CardTitle>
+                        <CardDescription>
+                          {formatDate(project.startDate)} – {formatDate(project.endDate)} · Managed by {project.manager.name}
+                        </CardDescription>
+                      </div>
+                      <Badge variant="secondary">{project.status.replace('_', ' ')}</Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span>Progress</span>
+                      <span className="font-medium">{project.completionPercentage}%</span>
+                    </div>
+                    <Progress value={project.completionPercentage} className="h-2" />
+                    <p className="text-xs text-gray-500">
+                      {project._count.tasks} shared task{project._count.tasks === 1 ? '' : 's'} · {project._count.resources} shared file{project._count.resources === 1 ? '' : 's'}
+                    </p>
+                    {openProjectId === project.id && <ProjectDetail projectId={project.id} />}
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </TabsContent>
+
+          <TabsContent value="proposals" className="space-y-4">
+            {proposals.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-12">No proposals yet</p>
+            ) : (
+              proposals.map((proposal) => (
+                <ProposalCard key={proposal.id} proposal={proposal} onRespond={respondToProposal} />
+              ))
+            )}
+          </TabsContent>
+
+          <TabsContent value="invoices">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Receipt className="w-5 h-5 mr-2" />
+                  Invoices and Payments
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {invoices.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-6">No invoices yet</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-gray-600">
+                        <th className="py-2">Invoice</th>
+                        <th className="py-2">Issued</th>
+                        <th className="py-2">Due</th>
+                        <th className="py-2">Status</th>
+                        <th className="py-2 text-right">Total</th>
+                        <th className="py-2 text-right">Balance</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {invoices.map((invoice) => (
+                        <InvoiceRow key={invoice.id} invoice={invoice} />
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </main>
+    </div>
+  )
+}
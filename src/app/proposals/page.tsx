@@ -11,7 +11,7 @@ import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { useAuth } from '@/hooks/use-auth'
-import { useProposals, useProposalStats, useInvoices, useInvoiceStats } from '@/hooks/useProposals'
+import { useProposals, useProposalStats, useInvoices, useInvoiceStats, useProposalTemplates } from '@/hooks/useProposals'
 import type { Proposal, Invoice } from '@/hooks/useProposals'
 import {
   Plus,
@@ -177,6 +177,10 @@ function ProposalCard({ proposal, onView, onEdit, onDelete, onSend }: {
             <Send className="h-3 w-3 mr-1" />
             Send
           </Button>
+          <Button size="sm" variant="outline" className="flex-1" onClick={() => window.open(`/api/proposals/${proposal.id}/pdf`, '_blank')}>
+            <Download className="h-3 w-3 mr-1" />
+            PDF
+          </Button>
         </div>
       </CardContent>
     </Card>
@@ -199,7 +203,7 @@ function InvoiceCard({ invoice, onView, onEdit, onDelete, onSend, onMarkPaid }:
       <CardHeader className="pb-4">
         <div className="flex items-start justify-between">
           <div className="flex-1">
-            <CardTitle className="text-lg">{invoice.invoiceNumber}</CardTitle>
+            <CardTitle className="text-lg">{invoice.invoiceNumber ?? 'Draft invoice'}</CardTitle>
             <CardDescription className="text-sm mt-1">
               {invoice.client} • {invoice.clientEmail}
             </CardDescription>
@@ -287,6 +291,10 @@ function InvoiceCard({ invoice, onView, onEdit, onDelete, onSend, onMarkPaid }:
             <Send className="h-3 w-3 mr-1" />
             Send
           </Button>
+          <Button size="sm" variant="outline" className="flex-1" onClick={() => window.open(`/api/invoices/${invoice.id}/pdf`, '_blank')}>
+            <Download className="h-3 w-3 mr-1" />
+            PDF
+          </Button>
           {!isPaid && (
             <Button size="sm" variant="outline" className="flex-1" onClick={() => onMarkPaid(invoice)}>
               <CheckCircle className="h-3 w-3 mr-1" />
@@ -299,12 +307,124 @@ function InvoiceCard({ invoice, onView, onEdit, onDelete, onSend, onMarkPaid }:
   )
 }
 
+function TemplateProposalPanel({ onCreated, onClose }: { onCreated: () => void; onClose: () => void }) {
+  const {
+    templates,
+    clients,
+    error,
+    fetchTemplates,
+    fetchClientOptions,
+    previewTemplate,
+    createFromTemplate,
+  } = useProposalTemplates()
+  const [templateId, setTemplateId] = useState('')
+  const [clientId, setClientId] = useState('')
+  const [preview, setPreview] = useState<Awaited<ReturnType<typeof previewTemplate>> | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    fetchTemplates().catch(() => undefined)
+    fetchClientOptions().catch(() => undefined)
+  }, [])
+
+  useEffect(() => {
+    setPreview(null)
+    if (templateId && clientId) {
+      previewTemplate(templateId, { clientId }).then(setPreview).catch(() => undefined)
+    }
+  }, [templateId, clientId])
+
+  const handleCreate = async () => {
+    try {
+      setSaving(true)
+      await createFromTemplate(templateId, { clientId })
+      onCreated()
+    } catch {
+      // error is shown from the hook
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>New Proposal from Template</CardTitle>
+        <CardDescription>Sections, line items and merge fields are filled in for the chosen client</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Template</Label>
+            <Select value={templateId} onValueChange={setTemplateId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a template" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Client</Label>
+            <Select value={clientId} onValueChange={setClientId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a client" />
+              </SelectTrigger>
+              <SelectContent>
+                {clients.map((client) => (
+                  <SelectItem key={client.id} value={client.id}>{client.company || client.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {preview && (
+          <div className="rounded-md border p-4 space-y-3 text-sm">
+            <h3 className="font-semibold text-base">{preview.title}</h3>
+            <p className="text-gray-700 whitespace-pre-line">{preview.description}</p>
+            <div className="space-y-1">
+              {preview.items.map((item, index) => (
+                <div key={index} className="flex justify-between">
+                  <span>{item.quantity} x {item.description}</span>
+                  <span>${item.totalPrice.toLocaleString()}</span>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between border-t pt-2 font-semibold">
+              <span>Total</span>
+              <span>${preview.totalAmount.toLocaleString()}</span>
+            </div>
+            {preview.terms && <p className="text-gray-500 whitespace-pre-line">{preview.terms}</p>}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex space-x-2">
+          <Button disabled={!preview || saving} onClick={handleCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Draft
+          </Button>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
 export default function ProposalsPage() {
   const { user } = useAuth()
   const [activeTab, setActiveTab] = useState('proposals')
   const [searchTerm, setSearchTerm] = useState('')
   const [statusFilter, setStatusFilter] = useState('all')
   const [clientFilter, setClientFilter] = useState('all')
+  const [showTemplatePanel, setShowTemplatePanel] = useState(false)
 
   // Fetch data using hooks
   const { 
@@ -358,7 +478,7 @@ export default function ProposalsPage() {
   const filteredInvoices = useMemo(() => {
     if (!invoices) return []
     return invoices.filter(invoice => {
-      const matchesSearch = invoice.invoiceNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      const matchesSearch = (invoice.invoiceNumber ?? '').toLowerCase().includes(searchTerm.toLowerCase()) ||
                            invoice.client.toLowerCase().includes(searchTerm.toLowerCase()) ||
                            invoice.description.toLowerCase().includes(searchTerm.toLowerCase())
       const matchesStatus = statusFilter === 'all' || invoice.status === statusFilter
@@ -428,6 +548,10 @@ export default function ProposalsPage() {
               <BarChart3 className="h-4 w-4 mr-2" />
               Reports
             </Button>
+            <Button variant="outline" onClick={() => setShowTemplatePanel(true)}>
+              <Copy className="h-4 w-4 mr-2" />
+              From Template
+            </Button>
             <Button>
               <Plus className="h-4 w-4 mr-2" />
               Create New
@@ -435,6 +559,16 @@ export default function ProposalsPage() {
           </div>
         </div>
 
+        {showTemplatePanel && (
+          <TemplateProposalPanel
+            onCreated={() => {
+              setShowTemplatePanel(false)
+              fetchProposals()
+            }}
+            onClose={() => setShowTemplatePanel(false)}
+          />
+        )}
+
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
           <TabsList className="grid w-full grid-cols-2">
             <TabsTrigger value="proposals">Proposals</TabsTrigger>
@@ -0,0 +1,264 @@
+'use client'
+
+import { useState } from 'react'
+import { useParams } from 'next/navigation'
+import { useSharedProposal } from '@/hooks/useSharedProposal'
+import type { SharedProposal } from '@/hooks/useSharedProposal'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { AlertTriangle, CheckCircle, Clock, FileText, Loader2, XCircle } from 'lucide-react'
+
+function formatCurrency(amount: number) {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+function formatDate(date: string | null) {
+  return date ? new Date(date).toLocaleDateString() : '-'
+}
+
+function formatPercent(rate: number) {
+  return `${Math.round(rate * 10000) / 100}%`
+}
+
+const statusColors: Record<string, string> = {
+  SENT: 'bg-blue-100 text-blue-800',
+  VIEWED: 'bg-blue-100 text-blue-800',
+  ACCEPTED: 'bg-green-100 text-green-800',
+  REJECTED: 'bg-red-100 text-red-800',
+  EXPIRED: 'bg-gray-100 text-gray-800',
+}
+
+function ResponseForm({
+  proposal,
+  onRespond,
+}: {
+  proposal: SharedProposal
+  onRespond: ReturnType<typeof useSharedProposal>['respond']
+}) {
+  const [mode, setMode] = useState<'accept' | 'reject' | null>(null)
+  const [signatureName, setSignatureName] = useState('')
+  const [reason, setReason] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    try {
+      setSaving(true)
+      setError(null)
+      await onRespond(mode === 'accept' ? { action: 'accept', signatureName } : { action: 'reject', reason })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!mode) {
+    return (
+      <div className="flex space-x-2">
+        <Button onClick={() => setMode('accept')}>
+          <CheckCircle className="w-4 h-4 mr-1" />
+          Accept Proposal
+        </Button>
+        <Button variant="outline" onClick={() => setMode('reject')}>
+          <XCircle className="w-4 h-4 mr-1" />
+          Decline
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-3">
+      {mode === 'accept' ? (
+        <div className="space-y-2">
+          <Label htmlFor="signatureName">Type your full name to sign</Label>
+          <Input
+            id="signatureName"
+            value={signatureName}
+            onChange={(e) => setSignatureName(e.target.value)}
+            placeholder="Full name"
+            autoComplete="name"
+          />
+          <p className="text-xs text-gray-500">
+            By signing you accept &quot;{proposal.title}&quot; for {formatCurrency(proposal.totalAmount)} on
+            behalf of {proposal.client.company || proposal.client.name}.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor="reason">Reason for declining</Label>
+          <textarea
+            id="reason"
+            className="w-full rounded-md border px-3 py-2 text-sm"
+            rows={3}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+      )}
+
+      <div className="flex space-x-2">
+        <Button
+          type="submit"
+          variant={mode === 'accept' ? 'default' : 'destructive'}
+          disabled={saving || (mode === 'accept' ? !signatureName.trim() : !reason.trim())}
+        >
+          {saving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+          {mode === 'accept' ? 'Sign and Accept' : 'Decline Proposal'}
+        </Button>
+        <Button type="button" variant="outline" disabled={saving} onClick={() => setMode(null)}>
+          Cancel
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </form>
+  )
+}
+
+export default function SharedProposalPage() {
+  const params = useParams<{ token: string }>()
+  const { proposal, loading, error, respond } = useSharedProposal(params?.token ?? '')
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    )
+  }
+
+  if (error || !proposal) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <AlertTriangle className="h-12 w-12 mx-auto mb-4 text-red-500" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Proposal unavailable</h1>
+          <p className="text-gray-600">{error}</p>
+        </div>
+      </div>
+    )
+  }
+
+  const canRespond = proposal.status === 'SENT' || proposal.status === 'VIEWED'
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-10">
+      <div className="max-w-3xl mx-auto px-4 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between">
+              <div>
+                <CardTitle className="text-2xl flex items-center">
+                  <FileText className="w-6 h-6 mr-2 text-blue-600" />
+                  {proposal.title}
+                </CardTitle>
+                <CardDescription>
+                  Prepared for {proposal.client.company || proposal.client.name} by {proposal.creator.name}
+                  {' · '}Sent {formatDate(proposal.sentAt)}
+                </CardDescription>
+              </div>
+              <Badge className={statusColors[proposal.status]}>{proposal.status}</Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {proposal.content && <p className="text-gray-700 whitespace-pre-line">{proposal.content}</p>}
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-500">
+                  <th className="py-2 font-medium">Description</th>
+                  <th className="py-2 font-medium text-right">Qty</th>
+                  <th className="py-2 font-medium text-right">Unit price</th>
+                  <th className="py-2 font-medium text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {proposal.items.map((item) => (
+                  <tr key={item.id} className="border-b">
+                    <td className="py-2">{item.description}</td>
+                    <td className="py-2 text-right">{item.quantity}</td>
+                    <td className="py-2 text-right">{formatCurrency(item.unitPrice)}</td>
+                    <td className="py-2 text-right">{formatCurrency(item.totalPrice)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="ml-auto max-w-xs space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span>Subtotal</span>
+                <span>{formatCurrency(proposal.subtotal)}</span>
+              </div>
+              {proposal.discountAmount > 0 && (
+                <div className="flex justify-between text-gray-600">
+                  <span>Discount ({formatPercent(proposal.discountRate)})</span>
+                  <span>-{formatCurrency(proposal.discountAmount)}</span>
+                </div>
+              )}
+              {proposal.taxAmount > 0 && (
+                <div className="flex justify-between text-gray-600">
+                  <span>Tax ({formatPercent(proposal.taxRate)})</span>
+                  <span>{formatCurrency(proposal.taxAmount)}</span>
+                </div>
+              )}
+              <div className="flex justify-between border-t pt-1 text-lg font-semibold">
+                <span>Total</span>
+                <span>{formatCurrency(proposal.totalAmount)}</span>
+              </div>
+            </div>
+
+            {proposal.terms && (
+              <div>
+                <h3 className="font-medium mb-1">Terms</h3>
+                <p className="text-sm text-gray-600 whitespace-pre-line">{proposal.terms}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            {canRespond && (
+              <div className="space-y-4">
+                {proposal.validUntil && (
+                  <p className="text-sm text-gray-600 flex items-center">
+                    <Clock className="w-4 h-4 mr-1" />
+                    This proposal is valid until {formatDate(proposal.validUntil)}
+                  </p>
+                )}
+                <ResponseForm proposal={proposal} onRespond={respond} />
+              </div>
+            )}
+
+            {proposal.status === 'ACCEPTED' && (
+              <p className="text-green-700 flex items-center">
+                <CheckCircle className="w-5 h-5 mr-2" />
+                Accepted{proposal.signatureName && ` and signed by ${proposal.signatureName}`} on {formatDate(proposal.respondedAt)}. Thank you!
+              </p>
+            )}
+
+            {proposal.status === 'REJECTED' && (
+              <p className="text-gray-700 flex items-center">
+                <XCircle className="w-5 h-5 mr-2" />
+                Declined on {formatDate(proposal.respondedAt)}. Thank you for letting us know.
+              </p>
+            )}
+
+            {proposal.status === 'EXPIRED' && (
+              <p className="text-gray-700 flex items-center">
+                <Clock className="w-5 h-5 mr-2" />
+                This proposal expired on {formatDate(proposal.validUntil)}. Contact {proposal.creator.email} for an updated offer.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
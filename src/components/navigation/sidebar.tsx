@@ -16,6 +16,7 @@ import {
   FileText,
   DollarSign,
   BarChart3,
+  Upload,
   Settings,
   LogOut,
   Menu,
@@ -78,6 +79,12 @@ const navItems: NavItem[] = [
     icon: BarChart3,
     roles: ['ADMIN', 'MANAGER'],
   },
+  {
+    title: 'Import',
+    href: '/imports',
+    icon: Upload,
+    roles: ['ADMIN', 'MANAGER'],
+  },
 ]
 
 export function Sidebar() {
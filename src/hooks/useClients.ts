@@ -13,6 +13,82 @@ interface ClientWithAssignedUser extends Client {
     name: string
     status: string
   }[]
+  healthBand?: ClientHealthBand | null
+  healthTrend?: number | null
+  atRisk?: boolean
+}
+
+export type ClientHealthBand = 'HEALTHY' | 'WATCH' | 'AT_RISK'
+
+export interface ClientHealthFactor {
+  factor: string
+  label: string
+  points: number
+}
+
+export interface ClientHealth {
+  clientId: string
+  score: number
+  band: ClientHealthBand | null
+  updatedAt: string | null
+  breakdown: ClientHealthFactor[]
+  trend: number | null
+  thresholds: { healthy: number; watch: number }
+  history: { date: string; score: number; band: ClientHealthBand }[]
+}
+
+export interface ClientContact {
+  id: string
+  clientId: string
+  name: string
+  email: string | null
+  phone: string | null
+  position: string | null
+  isPrimary: boolean
+  sortOrder: number
+  createdAt: string
+  updatedAt: string
+}
+
+export type ClientContactInput = {
+  name: string
+  email?: string
+  phone?: string
+  position?: string
+  isPrimary?: boolean
+}
+
+export interface ClientPortalUser {
+  id: string
+  name: string
+  email: string
+  isActive: boolean
+  lastLogin: string | null
+  createdAt: string
+}
+
+export type TimelineEventType =
+  | 'project'
+  | 'proposal'
+  | 'invoice'
+  | 'payment'
+  | 'revenue'
+  | 'expense'
+  | 'lead_interaction'
+  | 'activity'
+
+export interface ClientTimelineEvent {
+  id: string
+  type: TimelineEventType
+  occurredAt: string
+  title: string
+  description: string | null
+  actor: {
+    id: string
+    name: string | null
+    email: string
+  } | null
+  payload: Record<string, any>
 }
 
 export interface ClientStats {
@@ -64,6 +140,7 @@ interface UseClientsOptions {
   status?: string
   tier?: string
   industry?: string
+  health?: string
   sortBy?: string
   sortOrder?: 'asc' | 'desc'
   page?: number
@@ -86,6 +163,7 @@ export const useClients = (options: UseClientsOptions = {}) => {
       if (options.status) params.append('status', options.status)
       if (options.tier) params.append('tier', options.tier)
       if (options.industry) params.append('industry', options.industry)
+      if (options.health) params.append('health', options.health)
       if (options.sortBy) params.append('sortBy', options.sortBy)
       if (options.sortOrder) params.append('sortOrder', options.sortOrder)
       if (options.page) params.append('page', options.page.toString())
@@ -177,28 +255,46 @@ export const useClients = (options: UseClientsOptions = {}) => {
     }
   }
 
-  const updateHealthScore = async (id: string, healthScore: number, reason?: string) => {
+  // Scores are derived from invoices, projects, tasks, proposals and interactions, so they are
+  // recomputed rather than set by hand
+  const recomputeHealthScore = async (id: string) => {
     try {
-      const response = await fetch(`http://localhost:3001/api/clients/${id}/health-score`, {
-        method: 'PUT',
+      const response = await fetch(`/api/clients/${id}/health`, {
+        method: 'POST',
         headers: {
-          'Authorization': `Bearer ${user?.token}`,
           'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ healthScore, reason })
+        }
       })
 
       if (!response.ok) {
-        throw new Error('Failed to update health score')
+        throw new Error('Failed to recompute health score')
       }
 
-      const { client } = await response.json()
-      setClients(prev => prev.map(c => 
-        c.id === id ? client : c
+      const result = await response.json()
+      setClients(prev => prev.map(c =>
+        c.id === id ? { ...c, healthScore: result.score, healthBand: result.band, atRisk: result.band === 'AT_RISK' } : c
       ))
-      return client
+      return result
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to recompute health score')
+    }
+  }
+
+  const getClientHealth = async (id: string, days: number = 90): Promise<ClientHealth> => {
+    try {
+      const response = await fetch(`/api/clients/${id}/health?days=${days}`, {
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch client health')
+      }
+
+      return await response.json()
     } catch (err) {
-      throw new Error(err instanceof Error ? err.message : 'Failed to update health score')
+      throw new Error(err instanceof Error ? err.message : 'Failed to fetch client health')
     }
   }
 
@@ -244,7 +340,7 @@ export const useClients = (options: UseClientsOptions = {}) => {
 
   useEffect(() => {
     fetchClients()
-  }, [options.search, options.status, options.tier, options.industry, options.sortBy, options.sortOrder, options.page, options.limit])
+  }, [options.search, options.status, options.tier, options.industry, options.health, options.sortBy, options.sortOrder, options.page, options.limit])
 
   return {
     clients,
@@ -254,7 +350,8 @@ export const useClients = (options: UseClientsOptions = {}) => {
     createClient,
     updateClient,
     deleteClient,
-    updateHealthScore,
+    recomputeHealthScore,
+    getClientHealth,
     getClientProjects,
     addClientNote
   }
@@ -301,4 +398,274 @@ export const useClientStats = () => {
     error,
     fetchStats
   }
-}
\ No newline at end of file
+}
+
+export const useClient = (id: string) => {
+  const [client, setClient] = useState<any | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchClient = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/clients/${id}`, {
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? 'Client not found' : 'Failed to fetch client')
+      }
+
+      setClient(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (id) {
+      fetchClient()
+    }
+  }, [id])
+
+  return {
+    client,
+    loading,
+    error,
+    refetch: fetchClient
+  }
+}
+
+export const useClientContacts = (clientId: string) => {
+  const [contacts, setContacts] = useState<ClientContact[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const request = async (path: string, init: RequestInit, failure: string) => {
+    const response = await fetch(`/api/clients/${clientId}/contacts${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    })
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null)
+      throw new Error(data?.error || failure)
+    }
+
+    return response.json()
+  }
+
+  const fetchContacts = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const data = await request('', {}, 'Failed to fetch contacts')
+      setContacts(data.contacts || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Creating, promoting or removing a contact can change the primary flag of
+  // other contacts, so the list is reloaded after each change
+  const addContact = async (contact: ClientContactInput) => {
+    const created = await request('', { method: 'POST', body: JSON.stringify(contact) }, 'Failed to add contact')
+    await fetchContacts()
+    return created as ClientContact
+  }
+
+  const updateContact = async (contactId: string, updates: Partial<ClientContactInput>) => {
+    const updated = await request(`/${contactId}`, { method: 'PUT', body: JSON.stringify(updates) }, 'Failed to update contact')
+    await fetchContacts()
+    return updated as ClientContact
+  }
+
+  const makePrimary = (contactId: string) => updateContact(contactId, { isPrimary: true })
+
+  const deleteContact = async (contactId: string) => {
+    await request(`/${contactId}`, { method: 'DELETE' }, 'Failed to delete contact')
+    await fetchContacts()
+  }
+
+  const reorderContacts = async (contactIds: string[]) => {
+    const data = await request('', { method: 'PATCH', body: JSON.stringify({ contactIds }) }, 'Failed to reorder contacts')
+    setContacts(data.contacts || [])
+  }
+
+  const moveContact = async (contactId: string, direction: -1 | 1) => {
+    const ids = contacts.map((contact) => contact.id)
+    const index = ids.indexOf(contactId)
+    const target = index + direction
+    if (index === -1 || target < 0 || target >= ids.length) return
+
+    ;[ids[index], ids[target]] = [ids[target], ids[index]]
+    await reorderContacts(ids)
+  }
+
+  useEffect(() => {
+    if (clientId) {
+      fetchContacts()
+    }
+  }, [clientId])
+
+  return {
+    contacts,
+    loading,
+    error,
+    fetchContacts,
+    addContact,
+    updateContact,
+    makePrimary,
+    deleteContact,
+    reorderContacts,
+    moveContact
+  }
+}
+
+export const useClientTimeline = (clientId: string, types: TimelineEventType[] = [], limit: number = 20) => {
+  const [events, setEvents] = useState<ClientTimelineEvent[]>([])
+  const [counts, setCounts] = useState<Partial<Record<TimelineEventType, number>>>({})
+  const [page, setPage] = useState(1)
+  const [pages, setPages] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const typeKey = types.join(',')
+
+  const fetchPage = async (nextPage: number) => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams()
+      params.append('page', nextPage.toString())
+      params.append('limit', limit.toString())
+      if (typeKey) params.append('types', typeKey)
+
+      const response = await fetch(`/api/clients/${clientId}/timeline?${params}`, {
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch client timeline')
+      }
+
+      const data = await response.json()
+      setEvents(prev => nextPage === 1 ? data.events : [...prev, ...data.events])
+      setCounts(data.counts || {})
+      setPage(nextPage)
+      setPages(data.pagination?.pages || 0)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (clientId) {
+      fetchPage(1)
+    }
+  }, [clientId, typeKey, limit])
+
+  return {
+    events,
+    counts,
+    loading,
+    error,
+    hasMore: page < pages,
+    loadMore: () => fetchPage(page + 1),
+    refetch: () => fetchPage(1)
+  }
+}
+
+export const useClientPortalUsers = (clientId: string) => {
+  const [users, setUsers] = useState<ClientPortalUser[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchUsers = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/clients/${clientId}/portal-users`, {
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch portal users')
+      }
+
+      const data = await response.json()
+      setUsers(data.users || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const inviteUser = async (user: { name: string; email: string; password: string }) => {
+    const response = await fetch(`/api/clients/${clientId}/portal-users`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(user)
+    })
+
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to give portal access')
+    }
+
+    setUsers(prev => [...prev, data])
+    return data as ClientPortalUser
+  }
+
+  const revokeUser = async (userId: string) => {
+    const response = await fetch(`/api/clients/${clientId}/portal-users/${userId}`, {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    })
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null)
+      throw new Error(data?.error || 'Failed to revoke portal access')
+    }
+
+    setUsers(prev => prev.map(user => user.id === userId ? { ...user, isActive: false } : user))
+  }
+
+  useEffect(() => {
+    if (clientId) {
+      fetchUsers()
+    }
+  }, [clientId])
+
+  return {
+    users,
+    loading,
+    error,
+    fetchUsers,
+    inviteUser,
+    revokeUser
+  }
+}
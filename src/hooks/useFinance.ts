@@ -125,6 +125,28 @@ export interface BudgetForecast {
   factors: string[]
 }
 
+export interface UpcomingInvoice {
+  recurringInvoiceId: string
+  name: string
+  client: { id: string; name: string; company: string }
+  project: { id: string; name: string } | null
+  issueDate: string
+  dueDate: string
+  status: 'DRAFT' | 'SENT'
+  currency: string
+  amount: number
+  taxAmount: number
+  totalAmount: number
+}
+
+export interface UpcomingInvoicePreview {
+  from: string
+  until: string
+  // Total per currency code
+  byCurrency: Record<string, number>
+  invoices: UpcomingInvoice[]
+}
+
 // API functions
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'
 
@@ -448,6 +470,21 @@ const generateFinancialReport = async (params: {
   return response.json()
 }
 
+const fetchUpcomingInvoices = async (days: number = 30): Promise<UpcomingInvoicePreview> => {
+  const response = await fetch(`${API_BASE}/api/recurring-invoices/upcoming?days=${days}`, {
+    headers: {
+      'Authorization': `Bearer ${localStorage.getItem('token')}`,
+      'Content-Type': 'application/json'
+    }
+  })
+  
+  if (!response.ok) {
+    throw new Error('Failed to fetch upcoming invoices')
+  }
+  
+  return response.json()
+}
+
 // Custom hooks
 export const useTransactions = () => {
   const [transactions, setTransactions] = useState<Transaction[]>([])
@@ -753,4 +790,31 @@ export const useFinancialReports = () => {
     error,
     generateReport
   }
-}
\ No newline at end of file
+}
+
+export const useUpcomingInvoices = () => {
+  const [preview, setPreview] = useState<UpcomingInvoicePreview | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadUpcomingInvoices = useCallback(async (days?: number) => {
+    try {
+      setLoading(true)
+      setError(null)
+      const result = await fetchUpcomingInvoices(days)
+      setPreview(result)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load upcoming invoices')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  return {
+    preview,
+    loading,
+    error,
+    loadUpcomingInvoices,
+    refetch: loadUpcomingInvoices
+  }
+}
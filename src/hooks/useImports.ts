@@ -0,0 +1,188 @@
+import { useState, useEffect } from 'react'
+import { useAuth } from './use-auth'
+
+type ImportEntityType = 'LEAD' | 'CLIENT' | 'CLIENT_CONTACT'
+type DuplicatePolicy = 'SKIP' | 'UPDATE' | 'CREATE'
+
+interface ImportField {
+  field: string
+  label: string
+  type: 'string' | 'email' | 'number' | 'boolean' | 'enum'
+  required?: boolean
+  values?: string[]
+}
+
+interface ImportPreview {
+  entityType: ImportEntityType
+  fileName?: string
+  headers: string[]
+  totalRows: number
+  sampleRows: string[][]
+  fields: ImportField[]
+  mapping: Record<string, string | null>
+  valueMapping: Record<string, Record<string, string | null>>
+}
+
+interface ImportRowResult {
+  rowNumber: number
+  action: 'CREATE' | 'UPDATE' | 'SKIP' | 'ERROR'
+  data?: Record<string, unknown>
+  existingId?: string
+  errors: { field: string; message: string }[]
+  message?: string
+}
+
+interface ImportSummary {
+  total: number
+  create: number
+  update: number
+  skip: number
+  errors: number
+}
+
+interface ImportValidation {
+  rows: ImportRowResult[]
+  summary: ImportSummary
+}
+
+interface ImportJob {
+  id: string
+  entityType: ImportEntityType
+  fileName?: string | null
+  status: 'COMPLETED' | 'UNDONE'
+  duplicatePolicy: DuplicatePolicy
+  totalRows: number
+  createdCount: number
+  updatedCount: number
+  skippedCount: number
+  errorCount: number
+  createdAt: string
+  undoneAt?: string | null
+  creator?: {
+    id: string
+    name: string
+    email: string
+  }
+}
+
+interface ImportSettings {
+  entityType: ImportEntityType
+  csv: string
+  fileName?: string
+  mapping?: Record<string, string | null>
+  valueMapping?: Record<string, Record<string, string>>
+  duplicatePolicy?: DuplicatePolicy
+  skipInvalidRows?: boolean
+}
+
+const postJson = async (url: string, body: unknown) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body)
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || 'Request failed')
+  }
+  return data
+}
+
+export const useImports = () => {
+  const [jobs, setJobs] = useState<ImportJob[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const { user } = useAuth()
+
+  const fetchJobs = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch('/api/imports', {
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch import history')
+      }
+
+      const data = await response.json()
+      setJobs(data.jobs)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (user) {
+      fetchJobs()
+    }
+  }, [user])
+
+  const previewImport = async (settings: ImportSettings): Promise<ImportPreview> => {
+    try {
+      return await postJson('/api/imports/preview', settings)
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to read CSV file')
+    }
+  }
+
+  const validateImport = async (settings: ImportSettings): Promise<ImportValidation> => {
+    try {
+      return await postJson('/api/imports', { ...settings, dryRun: true })
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to validate import')
+    }
+  }
+
+  const runImport = async (settings: ImportSettings) => {
+    try {
+      const result = await postJson('/api/imports', { ...settings, dryRun: false })
+      await fetchJobs()
+      return result as { job: ImportJob; summary: ImportSummary; message: string }
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to run import')
+    }
+  }
+
+  const undoImport = async (id: string) => {
+    try {
+      const result = await postJson(`/api/imports/${id}/undo`, {})
+      await fetchJobs()
+      return result as { removed: number; restored: number; skipped: { entityId: string; reason: string }[]; message: string }
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to undo import')
+    }
+  }
+
+  return {
+    jobs,
+    loading,
+    error,
+    fetchJobs,
+    previewImport,
+    validateImport,
+    runImport,
+    undoImport
+  }
+}
+
+export type {
+  ImportEntityType,
+  DuplicatePolicy,
+  ImportField,
+  ImportPreview,
+  ImportRowResult,
+  ImportSummary,
+  ImportValidation,
+  ImportJob,
+  ImportSettings
+}
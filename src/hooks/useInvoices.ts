@@ -16,12 +16,24 @@ interface InvoiceWithDetails extends Invoice {
   items: InvoiceItem[]
   payments: {
     id: string
+    type: 'PAYMENT' | 'REFUND'
     amount: number
-    date: Date
-    method: string
-    reference?: string | null
+    paymentDate: string
+    paymentMethod: string | null
   }[]
-  paymentStatus: 'paid' | 'partial' | 'unpaid' | 'overdue'
+  paymentStatus: 'FULLY_PAID' | 'PARTIALLY_PAID' | 'UNPAID'
+  amountPaid: number
+  amountRefunded: number
+  amountCredited: number
+  balanceDue: number
+}
+
+export interface PaymentInput {
+  amount: number
+  paymentMethod?: string
+  transactionId?: string
+  paymentDate?: string
+  notes?: string
 }
 
 interface InvoicesResponse {
@@ -188,7 +200,7 @@ export const useInvoices = (options: UseInvoicesOptions = {}) => {
     }
   }
 
-  const markAsPaid = async (id: string, paymentData: { amount: number; method: string; reference?: string; date?: string }) => {
+  const markAsPaid = async (id: string, paymentData: PaymentInput) => {
     try {
       const response = await fetch(`/api/invoices/${id}/payments`, {
         method: 'POST',
@@ -212,6 +224,30 @@ export const useInvoices = (options: UseInvoicesOptions = {}) => {
     }
   }
 
+  const refundPayment = async (id: string, refundData: Omit<PaymentInput, 'amount' | 'paymentMethod'> & { paymentId: string; amount?: number }) => {
+    try {
+      const response = await fetch(`/api/invoices/${id}/refunds`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(refundData)
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to record refund')
+      }
+
+      const result = await response.json()
+      // Refresh invoices to get updated payment status
+      await fetchInvoices()
+      return result
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to record refund')
+    }
+  }
+
   return {
     invoices,
     loading,
@@ -222,7 +258,8 @@ export const useInvoices = (options: UseInvoicesOptions = {}) => {
     updateInvoice,
     deleteInvoice,
     sendInvoice,
-    markAsPaid
+    markAsPaid,
+    refundPayment
   }
 }
 
@@ -10,6 +10,43 @@ interface LeadWithAssignedUser extends Lead {
   }
 }
 
+interface LeadInteraction {
+  id: string
+  leadId: string
+  userId: string
+  interactionType: 'CALL' | 'EMAIL' | 'MEETING' | 'NOTE'
+  subject?: string | null
+  content?: string | null
+  scheduledAt?: string | null
+  completedAt?: string | null
+  createdAt: string
+  user?: {
+    id: string
+    name: string
+    email: string
+  }
+}
+
+interface LeadInteractionInput {
+  interactionType: LeadInteraction['interactionType']
+  subject?: string
+  content?: string
+  scheduledAt?: string
+  completedAt?: string
+}
+
+interface LeadFollowUp extends LeadInteraction {
+  lead: {
+    id: string
+    name: string
+    email: string
+    phone?: string | null
+    company?: string | null
+    status: string
+    score: string
+  }
+}
+
 interface LeadStats {
   total: number
   byStatus: Record<string, number>
@@ -184,22 +221,21 @@ export const useLeads = (options: UseLeadsOptions = {}) => {
     }
   }
 
-  const addActivity = async (id: string, activity: { type: string; description: string; date?: string }) => {
+  const addActivity = async (id: string, interaction: LeadInteractionInput) => {
     try {
       const response = await fetch(`/api/leads/${id}/activities`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${user?.token}`,
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify(activity)
+        body: JSON.stringify(interaction)
       })
 
       if (!response.ok) {
         throw new Error('Failed to add activity')
       }
 
-      const newActivity = await response.json()
+      const newActivity: LeadInteraction = await response.json()
       // Refresh leads to get updated lastContactDate
       await fetchLeads()
       return newActivity
@@ -208,6 +244,63 @@ export const useLeads = (options: UseLeadsOptions = {}) => {
     }
   }
 
+  const fetchInteractions = async (id: string) => {
+    try {
+      const response = await fetch(`/api/leads/${id}/activities`, {
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch activities')
+      }
+
+      const data: { interactions: LeadInteraction[] } = await response.json()
+      return data.interactions
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to fetch activities')
+    }
+  }
+
+  const completeInteraction = async (id: string, interactionId: string, outcome?: string) => {
+    try {
+      const response = await fetch(`/api/leads/${id}/activities/${interactionId}/complete`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ outcome })
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to complete activity')
+      }
+
+      const completed: LeadInteraction = await response.json()
+      return completed
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to complete activity')
+    }
+  }
+
+  const deleteInteraction = async (id: string, interactionId: string) => {
+    try {
+      const response = await fetch(`/api/leads/${id}/activities/${interactionId}`, {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to delete activity')
+      }
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to delete activity')
+    }
+  }
+
   return {
     leads,
     loading,
@@ -218,7 +311,10 @@ export const useLeads = (options: UseLeadsOptions = {}) => {
     updateLead,
     deleteLead,
     convertLead,
-    addActivity
+    addActivity,
+    fetchInteractions,
+    completeInteraction,
+    deleteInteraction
   }
 }
 
@@ -267,4 +363,55 @@ export const useLeadStats = () => {
   }
 }
 
-export type { Lead, LeadStats }
\ No newline at end of file
+export const useLeadFollowUps = (options: { userId?: string; days?: number } = {}) => {
+  const [followUps, setFollowUps] = useState<LeadFollowUp[]>([])
+  const [overdue, setOverdue] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const { user } = useAuth()
+
+  const fetchFollowUps = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams()
+      if (options.userId) params.append('userId', options.userId)
+      if (options.days) params.append('days', options.days.toString())
+
+      const response = await fetch(`/api/leads/follow-ups?${params.toString()}`, {
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch follow-ups')
+      }
+
+      const data = await response.json()
+      setFollowUps(data.followUps)
+      setOverdue(data.summary.overdue)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (user) {
+      fetchFollowUps()
+    }
+  }, [user, options.userId, options.days])
+
+  return {
+    followUps,
+    overdue,
+    loading,
+    error,
+    fetchFollowUps
+  }
+}
+
+export type { Lead, LeadStats, LeadInteraction, LeadInteractionInput, LeadFollowUp }
\ No newline at end of file
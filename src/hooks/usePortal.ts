@@ -0,0 +1,218 @@
+import { useState, useEffect } from 'react'
+
+export interface PortalOverview {
+  user: {
+    id: string
+    name: string
+    email: string
+  }
+  client: {
+    id: string
+    name: string
+    company: string
+    accountManager: { name: string; email: string } | null
+  } | null
+  summary: {
+    activeProjects: number
+    openProposals: number
+    unpaidInvoices: number
+    outstandingBalance: number
+  }
+}
+
+export interface PortalProject {
+  id: string
+  name: string
+  description: string | null
+  status: string
+  startDate: string | null
+  endDate: string | null
+  completionPercentage: number
+  manager: { name: string; email: string }
+  _count: { tasks: number; resources: number }
+}
+
+export interface PortalComment {
+  id: string
+  content: string
+  createdAt: string
+  user: { id: string; name: string }
+}
+
+export interface PortalTask {
+  id: string
+  title: string
+  description: string | null
+  status: string
+  dueDate: string | null
+  completionPercentage: number
+  comments: PortalComment[]
+}
+
+export interface PortalResource {
+  id: string
+  name: string
+  type: string
+  url: string | null
+  filePath: string | null
+  description: string | null
+  createdAt: string
+}
+
+export interface PortalProjectDetail extends Omit<PortalProject, '_count'> {
+  resources: PortalResource[]
+  tasks: PortalTask[]
+}
+
+export interface PortalProposal {
+  id: string
+  title: string
+  content: string | null
+  subtotal: number
+  discountAmount: number
+  taxAmount: number
+  totalAmount: number
+  terms: string | null
+  status: string
+  validUntil: string | null
+  createdAt: string
+  project: { id: string; name: string } | null
+  items: { id: string; description: string; quantity: number; unitPrice: number; totalPrice: number }[]
+}
+
+export interface PortalInvoice {
+  id: string
+  invoiceNumber: string
+  type: 'INVOICE' | 'CREDIT_NOTE'
+  status: string
+  amount: number
+  taxAmount: number
+  totalAmount: number
+  issueDate: string
+  dueDate: string
+  paidDate: string | null
+  project: { id: string; name: string } | null
+  items: { id: string; description: string; quantity: number; unitPrice: number; totalPrice: number }[]
+  payments: { id: string; type: 'PAYMENT' | 'REFUND'; amount: number; paymentMethod: string | null; paymentDate: string }[]
+  amountPaid: number
+  amountCredited: number
+  balanceDue: number
+}
+
+async function portalFetch(path: string, init: RequestInit = {}, failure: string = 'Request failed') {
+  const response = await fetch(`/api/portal${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json'
+    }
+  })
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null)
+    throw new Error(data?.error || failure)
+  }
+
+  return response.json()
+}
+
+export const usePortal = () => {
+  const [overview, setOverview] = useState<PortalOverview | null>(null)
+  const [projects, setProjects] = useState<PortalProject[]>([])
+  const [proposals, setProposals] = useState<PortalProposal[]>([])
+  const [invoices, setInvoices] = useState<PortalInvoice[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchPortal = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const [overviewData, projectData, proposalData, invoiceData] = await Promise.all([
+        portalFetch('', {}, 'Failed to load your account'),
+        portalFetch('/projects', {}, 'Failed to load projects'),
+        portalFetch('/proposals', {}, 'Failed to load proposals'),
+        portalFetch('/invoices', {}, 'Failed to load invoices'),
+      ])
+
+      setOverview(overviewData)
+      setProjects(projectData.projects || [])
+      setProposals(proposalData.proposals || [])
+      setInvoices(invoiceData.invoices || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const respondToProposal = async (id: string, action: 'accept' | 'reject', reason?: string) => {
+    const result = await portalFetch(`/proposals/${id}`, {
+      method: 'POST',
+      body: JSON.stringify({ action, reason })
+    }, 'Failed to respond to proposal')
+
+    setProposals(prev => prev.map(proposal => proposal.id === id ? { ...proposal, status: result.status } : proposal))
+    return result
+  }
+
+  useEffect(() => {
+    fetchPortal()
+  }, [])
+
+  return {
+    overview,
+    projects,
+    proposals,
+    invoices,
+    loading,
+    error,
+    refetch: fetchPortal,
+    respondToProposal
+  }
+}
+
+export const usePortalProject = (id: string | null) => {
+  const [project, setProject] = useState<PortalProjectDetail | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchProject = async () => {
+    if (!id) return
+    try {
+      setLoading(true)
+      setError(null)
+      setProject(await portalFetch(`/projects/${id}`, {}, 'Failed to load project'))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const addComment = async (taskId: string, content: string) => {
+    const comment: PortalComment = await portalFetch(`/tasks/${taskId}/comments`, {
+      method: 'POST',
+      body: JSON.stringify({ content })
+    }, 'Failed to post comment')
+
+    setProject(prev => prev && {
+      ...prev,
+      tasks: prev.tasks.map(task => task.id === taskId ? { ...task, comments: [...task.comments, comment] } : task)
+    })
+    return comment
+  }
+
+  useEffect(() => {
+    setProject(null)
+    fetchProject()
+  }, [id])
+
+  return {
+    project,
+    loading,
+    error,
+    refetch: fetchProject,
+    addComment
+  }
+}
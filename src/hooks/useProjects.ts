@@ -367,4 +367,104 @@ export const useProjectStats = () => {
     error,
     fetchStats,
   }
-}
\ No newline at end of file
+}
+export interface ProjectTemplateTask {
+  title: string
+  description?: string
+  offsetDays: number
+  durationDays: number
+  estimatedHours?: number
+  priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT'
+  clientVisible: boolean
+}
+
+export interface ProjectTemplate {
+  id: string
+  name: string
+  description: string | null
+  durationDays: number
+  priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT'
+  tasks: ProjectTemplateTask[]
+  isActive: boolean
+  createdAt: string
+  _count?: { projects: number }
+}
+
+export const useProjectTemplates = () => {
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchTemplates = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/project-templates', {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch project templates')
+      }
+
+      const data = await response.json()
+      setTemplates(data.templates || [])
+      return data
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch project templates'
+      setError(errorMessage)
+      throw err
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveTemplate = async (template: Partial<Omit<ProjectTemplate, 'id' | 'createdAt' | '_count'>>, id?: string) => {
+    const response = await fetch(id ? `/api/project-templates/${id}` : '/api/project-templates', {
+      method: id ? 'PUT' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(template),
+    })
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null)
+      throw new Error(data?.error || 'Failed to save project template')
+    }
+
+    const saved: ProjectTemplate = await response.json()
+    setTemplates(prev => id ? prev.map(t => t.id === id ? { ...t, ...saved } : t) : [...prev, saved])
+    return saved
+  }
+
+  const deleteTemplate = async (id: string) => {
+    const response = await fetch(`/api/project-templates/${id}`, {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    })
+
+    if (!response.ok) {
+      throw new Error('Failed to delete project template')
+    }
+
+    setTemplates(prev => prev.filter(t => t.id !== id))
+  }
+
+  useEffect(() => {
+    fetchTemplates().catch(() => {})
+  }, [])
+
+  return {
+    templates,
+    loading,
+    error,
+    fetchTemplates,
+    saveTemplate,
+    deleteTemplate,
+  }
+}
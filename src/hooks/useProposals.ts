@@ -46,7 +46,7 @@ interface ProposalStats {
 
 interface Invoice {
   id: string
-  invoiceNumber: string
+  invoiceNumber: string | null
   client: string
   clientEmail: string
   status: 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled'
@@ -77,6 +77,46 @@ interface InvoiceStats {
   pendingValue: number
 }
 
+interface ProposalTemplateSummary {
+  id: string
+  name: string
+  description: string | null
+  title: string
+  validDays: number
+  sections: { id: string; sortOrder: number; section: { id: string; name: string; type: string } }[]
+  items: { id: string; description: string; quantity: number; unitPrice: number | null }[]
+}
+
+interface RenderedProposalPreview {
+  templateId: string
+  clientId: string
+  projectId: string | null
+  recipientContactId: string | null
+  title: string
+  description: string
+  terms: string | null
+  items: { description: string; quantity: number; unitPrice: number; totalPrice: number }[]
+  taxRate: number
+  discountRate: number
+  validUntil: string
+  subtotal: number
+  discountAmount: number
+  taxAmount: number
+  totalAmount: number
+}
+
+interface TemplateClientOption {
+  id: string
+  name: string
+  company: string
+}
+
+interface TemplateTarget {
+  clientId: string
+  projectId?: string
+  recipientContactId?: string | null
+}
+
 // Custom hook for proposals
 export const useProposals = () => {
   const [proposals, setProposals] = useState<Proposal[]>([])
@@ -263,6 +303,91 @@ export const useProposals = () => {
     }
   }
 
+  const getProposalVersions = async (id: string) => {
+    setError(null)
+    try {
+      const response = await fetch(`/api/proposals/${id}/versions`, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+          'Content-Type': 'application/json',
+        },
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch proposal versions')
+      }
+
+      return response.json()
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch proposal versions'
+      setError(errorMessage)
+      throw err
+    }
+  }
+
+  const compareProposalVersions = async (id: string, from?: number, to?: number) => {
+    setError(null)
+    try {
+      const queryParams = new URLSearchParams()
+      if (from) queryParams.append('from', from.toString())
+      if (to) queryParams.append('to', to.toString())
+
+      const response = await fetch(`/api/proposals/${id}/versions/diff?${queryParams.toString()}`, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+          'Content-Type': 'application/json',
+        },
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to compare proposal versions')
+      }
+
+      return response.json()
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to compare proposal versions'
+      setError(errorMessage)
+      throw err
+    }
+  }
+
+  const convertProposal = async (id: string, conversion: {
+    templateId?: string
+    projectName?: string
+    managerId?: string
+    startDate?: string
+    endDate?: string
+    billing?:
+      | { mode: 'single'; dueInDays?: number }
+      | { mode: 'schedule'; installments: { label: string; percentage: number; issueDate?: string; dueInDays?: number }[] }
+  }) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/proposals/${id}/convert`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(conversion),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to convert proposal')
+      }
+
+      return response.json()
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to convert proposal'
+      setError(errorMessage)
+      throw err
+    } finally {
+      setLoading(false)
+    }
+  }
+
   return {
     proposals,
     loading,
@@ -273,6 +398,9 @@ export const useProposals = () => {
     updateProposal,
     deleteProposal,
     sendProposal,
+    getProposalVersions,
+    compareProposalVersions,
+    convertProposal,
   }
 }
 
@@ -317,6 +445,128 @@ export const useProposalStats = () => {
   }
 }
 
+// Custom hook for proposal templates
+export const useProposalTemplates = () => {
+  const [templates, setTemplates] = useState<ProposalTemplateSummary[]>([])
+  const [clients, setClients] = useState<TemplateClientOption[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchTemplates = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/proposal-templates', {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+          'Content-Type': 'application/json',
+        },
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch proposal templates')
+      }
+
+      const data = await response.json()
+      setTemplates(data.templates)
+      return data
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch proposal templates'
+      setError(errorMessage)
+      throw err
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchClientOptions = async () => {
+    try {
+      const response = await fetch('/api/clients?limit=100&sortBy=name&sortOrder=asc', {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+          'Content-Type': 'application/json',
+        },
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch clients')
+      }
+
+      const data = await response.json()
+      setClients(data.clients)
+      return data.clients
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch clients'
+      setError(errorMessage)
+      throw err
+    }
+  }
+
+  const previewTemplate = async (templateId: string, target: TemplateTarget): Promise<RenderedProposalPreview> => {
+    setError(null)
+    try {
+      const response = await fetch(`/api/proposal-templates/${templateId}/render`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(target),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to preview proposal template')
+      }
+
+      return response.json()
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to preview proposal template'
+      setError(errorMessage)
+      throw err
+    }
+  }
+
+  const createFromTemplate = async (templateId: string, target: TemplateTarget & { title?: string }) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/proposals/from-template', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ templateId, ...target }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to create proposal from template')
+      }
+
+      return response.json()
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create proposal from template'
+      setError(errorMessage)
+      throw err
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return {
+    templates,
+    clients,
+    loading,
+    error,
+    fetchTemplates,
+    fetchClientOptions,
+    previewTemplate,
+    createFromTemplate,
+  }
+}
+
 // Custom hook for invoices
 export const useInvoices = () => {
   const [invoices, setInvoices] = useState<Invoice[]>([])
@@ -534,6 +784,34 @@ export const useInvoices = () => {
     }
   }
 
+  const createCreditNote = async (id: string, creditData: { amount?: number; reason: string; issueDate?: string }) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/invoices/${id}/credit-notes`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(creditData),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to create credit note')
+      }
+
+      return response.json()
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create credit note'
+      setError(errorMessage)
+      throw err
+    } finally {
+      setLoading(false)
+    }
+  }
+
   return {
     invoices,
     loading,
@@ -545,6 +823,7 @@ export const useInvoices = () => {
     deleteInvoice,
     sendInvoice,
     markInvoicePaid,
+    createCreditNote,
   }
 }
 
@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react'
+
+export interface SharedProposal {
+  title: string
+  content: string | null
+  status: string
+  validUntil: string | null
+  sentAt: string | null
+  respondedAt: string | null
+  signatureName: string | null
+  subtotal: number
+  discountRate: number
+  discountAmount: number
+  taxRate: number
+  taxAmount: number
+  totalAmount: number
+  terms: string | null
+  currentVersion: number
+  items: { id: string; description: string; quantity: number; unitPrice: number; totalPrice: number }[]
+  client: { name: string; company: string }
+  creator: { name: string; email: string }
+}
+
+export type SharedProposalResponse =
+  | { action: 'accept'; signatureName: string }
+  | { action: 'reject'; reason: string }
+
+export const useSharedProposal = (token: string) => {
+  const [proposal, setProposal] = useState<SharedProposal | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchProposal = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/public/proposals/${token}`, {
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? 'This proposal link is not valid' : 'Failed to load proposal')
+      }
+
+      setProposal(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const respond = async (body: SharedProposalResponse) => {
+    const response = await fetch(`/api/public/proposals/${token}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    })
+
+    const data = await response.json().catch(() => null)
+    if (!response.ok) {
+      throw new Error(data?.details?.[0]?.message || data?.error || 'Failed to send your response')
+    }
+
+    setProposal(prev => prev && { ...prev, ...data })
+    return data
+  }
+
+  useEffect(() => {
+    if (token) {
+      fetchProposal()
+    }
+  }, [token])
+
+  return {
+    proposal,
+    loading,
+    error,
+    refetch: fetchProposal,
+    respond
+  }
+}
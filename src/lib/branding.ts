@@ -0,0 +1,65 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+export const BRANDING_SETTING_KEY = 'branding'
+
+// Roughly 500 KB of image once base64 encoded
+const MAX_LOGO_LENGTH = 700_000
+
+const optionalText = (max: number) => z.string().max(max).nullable()
+
+// Agency details printed on invoices and proposals, stored as JSON in the branding system setting
+export const brandingConfigSchema = z.object({
+  agencyName: z.string().min(1, 'Agency name is required').max(200),
+  // PNG or JPEG as a data URL (data:image/png;base64,...)
+  logo: z.string()
+    .max(MAX_LOGO_LENGTH, 'Logo must be smaller than 500 KB')
+    .regex(/^data:image\/(png|jpeg);base64,[A-Za-z0-9+/=]+$/, 'Logo must be a PNG or JPEG data URL')
+    .nullable(),
+  address: optionalText(1000),
+  email: z.string().email('Invalid email format').nullable(),
+  phone: optionalText(50),
+  website: optionalText(200),
+  taxId: optionalText(100),
+  bankDetails: optionalText(1000),
+  footerTerms: optionalText(2000),
+  accentColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Accent color must be a hex color like #2563eb'),
+})
+
+export type BrandingConfig = z.infer<typeof brandingConfigSchema>
+
+export const defaultBrandingConfig: BrandingConfig = {
+  agencyName: 'AgencyCRM',
+  logo: null,
+  address: null,
+  email: null,
+  phone: null,
+  website: null,
+  taxId: null,
+  bankDetails: null,
+  footerTerms: null,
+  accentColor: '#2563eb',
+}
+
+export async function getBrandingConfig(db: Db = prisma): Promise<BrandingConfig> {
+  const setting = await db.systemSetting.findUnique({
+    where: { key: BRANDING_SETTING_KEY },
+  })
+
+  if (!setting?.value) {
+    return defaultBrandingConfig
+  }
+
+  try {
+    return brandingConfigSchema.parse({
+      ...defaultBrandingConfig,
+      ...JSON.parse(setting.value),
+    })
+  } catch (error) {
+    console.error('Invalid branding configuration, using defaults:', error)
+    return defaultBrandingConfig
+  }
+}
@@ -0,0 +1,106 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import { prisma } from './prisma'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+export const contactOrderBy: Prisma.ClientContactOrderByWithRelationInput[] = [
+  { sortOrder: 'asc' },
+  { createdAt: 'asc' },
+]
+
+export const recipientContactSelect = {
+  select: {
+    id: true,
+    name: true,
+    email: true,
+    phone: true,
+    position: true,
+    isPrimary: true,
+  },
+}
+
+export class ContactNotFoundError extends Error {
+  constructor() {
+    super('Contact does not belong to the specified client')
+    this.name = 'ContactNotFoundError'
+  }
+}
+
+// Keep exactly one primary contact per client. `preferredId` becomes the primary when given;
+// otherwise the current primary is kept (the first one if several are flagged), or the
+// first contact in display order is promoted.
+export async function ensurePrimaryContact(clientId: string, db: Db = prisma, preferredId?: string) {
+  const contacts = await db.clientContact.findMany({
+    where: { clientId },
+    orderBy: contactOrderBy,
+    select: { id: true, isPrimary: true },
+  })
+
+  if (contacts.length === 0) {
+    return null
+  }
+
+  const primaryId = preferredId && contacts.some((c) => c.id === preferredId)
+    ? preferredId
+    : (contacts.find((c) => c.isPrimary) ?? contacts[0]).id
+
+  const wrong = contacts.filter((c) => c.isPrimary !== (c.id === primaryId))
+  for (const contact of wrong) {
+    await db.clientContact.update({
+      where: { id: contact.id },
+      data: { isPrimary: contact.id === primaryId },
+    })
+  }
+
+  return primaryId
+}
+
+export async function nextContactSortOrder(clientId: string, db: Db = prisma) {
+  const last = await db.clientContact.findFirst({
+    where: { clientId },
+    orderBy: { sortOrder: 'desc' },
+    select: { sortOrder: true },
+  })
+  return (last?.sortOrder ?? -1) + 1
+}
+
+// Check that a proposal or invoice recipient is one of the client's contacts
+export async function assertClientContact(clientId: string, contactId: string | null | undefined, db: Db = prisma) {
+  if (!contactId) return
+  const contact = await db.clientContact.findFirst({
+    where: { id: contactId, clientId },
+    select: { id: true },
+  })
+  if (!contact) {
+    throw new ContactNotFoundError()
+  }
+}
+
+export interface DocumentRecipient {
+  contactId: string | null
+  name: string
+  email: string | null
+}
+
+// Who a proposal or invoice goes to: the chosen contact, else the client's primary contact,
+// else the client's own address
+export async function resolveRecipient(
+  document: { clientId: string; recipientContactId: string | null },
+  db: Db = prisma
+): Promise<DocumentRecipient> {
+  const [contact, client] = await Promise.all([
+    document.recipientContactId
+      ? db.clientContact.findUnique({ where: { id: document.recipientContactId } })
+      : db.clientContact.findFirst({ where: { clientId: document.clientId, isPrimary: true } }),
+    db.client.findUniqueOrThrow({
+      where: { id: document.clientId },
+      select: { name: true, email: true },
+    }),
+  ])
+
+  if (contact?.email) {
+    return { contactId: contact.id, name: contact.name, email: contact.email }
+  }
+
+  return { contactId: null, name: client.name, email: client.email }
+}
@@ -0,0 +1,420 @@
+import { Prisma, PrismaClient, ClientHealthBand } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { INTERACTION_ACTIVITY_TYPES } from './duplicates'
+import { invoiceBalanceInclude, summarizeInvoiceBalance } from './invoice-payments'
+import { getAgencyTimeZone, startOfZonedDay } from './timezone'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+export const CLIENT_HEALTH_SETTING_KEY = 'client_health'
+
+const tierSchema = z.array(z.object({
+  afterDays: z.number().min(1),
+  points: z.number(),
+}))
+
+// Health rules stored as JSON in the client_health system setting.
+// Every client starts at 100 and loses points for each warning sign.
+export const clientHealthConfigSchema = z.object({
+  thresholds: z.object({
+    healthy: z.number().min(0).max(100),
+    watch: z.number().min(0).max(100),
+  }).refine((t) => t.healthy > t.watch, 'Healthy threshold must be above watch threshold'),
+  overdueInvoice: z.object({
+    pointsEach: z.number(),
+    maxPoints: z.number(),
+  }),
+  // Only applies while the client has unpaid invoices
+  paymentGap: tierSchema,
+  projectSlippage: z.object({
+    toleranceRatio: z.number().min(0).max(1),
+    pointsPerLateProject: z.number(),
+    pointsPerSlippingProject: z.number(),
+    maxPoints: z.number(),
+  }),
+  taskOverdue: z.object({
+    // Points at a 100% overdue ratio, scaled linearly
+    maxPoints: z.number(),
+    minOpenTasks: z.number().min(1),
+  }),
+  proposalRejection: z.object({
+    withinDays: z.number().min(1),
+    pointsEach: z.number(),
+    maxPoints: z.number(),
+  }),
+  interactionGap: tierSchema,
+})
+
+export type ClientHealthConfig = z.infer<typeof clientHealthConfigSchema>
+
+export const defaultClientHealthConfig: ClientHealthConfig = {
+  thresholds: { healthy: 70, watch: 40 },
+  overdueInvoice: { pointsEach: -10, maxPoints: -30 },
+  paymentGap: [
+    { afterDays: 90, points: -15 },
+    { afterDays: 60, points: -10 },
+  ],
+  projectSlippage: {
+    toleranceRatio: 0.2,
+    pointsPerLateProject: -15,
+    pointsPerSlippingProject: -5,
+    maxPoints: -25,
+  },
+  taskOverdue: { maxPoints: -20, minOpenTasks: 3 },
+  proposalRejection: { withinDays: 180, pointsEach: -5, maxPoints: -15 },
+  interactionGap: [
+    { afterDays: 90, points: -15 },
+    { afterDays: 60, points: -10 },
+    { afterDays: 30, points: -5 },
+  ],
+}
+
+export interface ClientHealthFactor {
+  factor: string
+  label: string
+  points: number
+}
+
+export interface ClientHealthResult {
+  score: number
+  band: ClientHealthBand
+  breakdown: ClientHealthFactor[]
+  thresholds: ClientHealthConfig['thresholds']
+}
+
+export interface ClientHealthSignals {
+  // Issued invoices (not credit notes) with what is still owed on each
+  invoices: { dueDate: Date; balanceDue: number }[]
+  lastPaymentDate: Date | null
+  projects: {
+    name: string
+    status: string
+    startDate: Date | null
+    endDate: Date | null
+    completionPercentage: number
+  }[]
+  openTasks: { dueDate: Date | null }[]
+  rejectedProposals: { updatedAt: Date }[]
+  lastInteractionDate: Date | null
+  clientCreatedAt: Date
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const BAND_RANK: Record<ClientHealthBand, number> = { HEALTHY: 2, WATCH: 1, AT_RISK: 0 }
+
+export function mapScoreToBand(score: number, thresholds: ClientHealthConfig['thresholds']): ClientHealthBand {
+  if (score >= thresholds.healthy) return 'HEALTHY'
+  if (score >= thresholds.watch) return 'WATCH'
+  return 'AT_RISK'
+}
+
+export function isBandDrop(previous: ClientHealthBand | null, next: ClientHealthBand): boolean {
+  return previous !== null && BAND_RANK[next] < BAND_RANK[previous]
+}
+
+function daysBetween(from: Date, to: Date) {
+  return Math.floor((to.getTime() - from.getTime()) / DAY_MS)
+}
+
+function pickTier(tiers: ClientHealthConfig['paymentGap'], days: number) {
+  return [...tiers].sort((a, b) => b.afterDays - a.afterDays).find((t) => days > t.afterDays)
+}
+
+// Compute a 0-100 health score and the per-factor explanation for a client
+export function computeClientHealth(
+  signals: ClientHealthSignals,
+  config: ClientHealthConfig = defaultClientHealthConfig,
+  now: Date = new Date()
+): ClientHealthResult {
+  const breakdown: ClientHealthFactor[] = []
+
+  const unpaid = signals.invoices.filter((invoice) => invoice.balanceDue > 0)
+  const overdue = unpaid.filter((invoice) => invoice.dueDate < now)
+  if (overdue.length > 0) {
+    const amount = overdue.reduce((sum, invoice) => sum + invoice.balanceDue, 0)
+    breakdown.push({
+      factor: 'overdueInvoices',
+      label: `${overdue.length} overdue invoice(s) totalling ${amount.toFixed(2)}`,
+      points: Math.max(overdue.length * config.overdueInvoice.pointsEach, config.overdueInvoice.maxPoints),
+    })
+  }
+
+  if (unpaid.length > 0) {
+    const since = signals.lastPaymentDate ?? signals.clientCreatedAt
+    const days = daysBetween(since, now)
+    const tier = pickTier(config.paymentGap, days)
+    if (tier) {
+      breakdown.push({
+        factor: 'paymentGap',
+        label: signals.lastPaymentDate ? `No payment for ${days} day(s)` : `No payment received in ${days} day(s)`,
+        points: tier.points,
+      })
+    }
+  }
+
+  // A project slips when its completion lags the share of its schedule already elapsed
+  let late = 0
+  let slipping = 0
+  for (const project of signals.projects) {
+    if (!['PLANNING', 'ACTIVE', 'ON_HOLD'].includes(project.status) || !project.endDate) continue
+    if (project.endDate < now) {
+      late++
+      continue
+    }
+    if (!project.startDate || project.startDate >= project.endDate || project.startDate > now) continue
+    const elapsed = (now.getTime() - project.startDate.getTime()) / (project.endDate.getTime() - project.startDate.getTime())
+    if (elapsed - project.completionPercentage / 100 > config.projectSlippage.toleranceRatio) {
+      slipping++
+    }
+  }
+  if (late + slipping > 0) {
+    const parts = [late > 0 && `${late} past end date`, slipping > 0 && `${slipping} behind schedule`].filter(Boolean)
+    breakdown.push({
+      factor: 'projectSlippage',
+      label: `Projects: ${parts.join(', ')}`,
+      points: Math.max(
+        late * config.projectSlippage.pointsPerLateProject + slipping * config.projectSlippage.pointsPerSlippingProject,
+        config.projectSlippage.maxPoints
+      ),
+    })
+  }
+
+  if (signals.openTasks.length >= config.taskOverdue.minOpenTasks) {
+    const overdueTasks = signals.openTasks.filter((task) => task.dueDate && task.dueDate < now).length
+    const ratio = overdueTasks / signals.openTasks.length
+    if (overdueTasks > 0) {
+      breakdown.push({
+        factor: 'taskOverdue',
+        label: `${overdueTasks} of ${signals.openTasks.length} open task(s) overdue`,
+        points: Math.round(ratio * config.taskOverdue.maxPoints),
+      })
+    }
+  }
+
+  const recentRejections = signals.rejectedProposals.filter(
+    (proposal) => daysBetween(proposal.updatedAt, now) <= config.proposalRejection.withinDays
+  )
+  if (recentRejections.length > 0) {
+    breakdown.push({
+      factor: 'proposalRejections',
+      label: `${recentRejections.length} proposal(s) rejected in the last ${config.proposalRejection.withinDays} days`,
+      points: Math.max(recentRejections.length * config.proposalRejection.pointsEach, config.proposalRejection.maxPoints),
+    })
+  }
+
+  const lastContact = signals.lastInteractionDate ?? signals.clientCreatedAt
+  const contactDays = daysBetween(lastContact, now)
+  const contactTier = pickTier(config.interactionGap, contactDays)
+  if (contactTier) {
+    breakdown.push({
+      factor: 'interactionGap',
+      label: signals.lastInteractionDate ? `Last interaction ${contactDays} day(s) ago` : 'No recorded interactions',
+      points: contactTier.points,
+    })
+  }
+
+  const rawScore = 100 + breakdown.reduce((sum, f) => sum + f.points, 0)
+  const score = Math.max(0, Math.min(100, rawScore))
+
+  return {
+    score,
+    band: mapScoreToBand(score, config.thresholds),
+    breakdown,
+    thresholds: config.thresholds,
+  }
+}
+
+export async function getClientHealthConfig(db: Db = prisma): Promise<ClientHealthConfig> {
+  const setting = await db.systemSetting.findUnique({
+    where: { key: CLIENT_HEALTH_SETTING_KEY },
+  })
+
+  if (!setting?.value) {
+    return defaultClientHealthConfig
+  }
+
+  try {
+    return clientHealthConfigSchema.parse({
+      ...defaultClientHealthConfig,
+      ...JSON.parse(setting.value),
+    })
+  } catch (error) {
+    console.error('Invalid client health configuration, using defaults:', error)
+    return defaultClientHealthConfig
+  }
+}
+
+// Gather everything the health score looks at for one client
+export async function loadClientHealthSignals(clientId: string, db: Db = prisma): Promise<ClientHealthSignals | null> {
+  const client = await db.client.findUnique({
+    where: { id: clientId },
+    select: {
+      createdAt: true,
+      leadId: true,
+      invoices: {
+        where: { type: 'INVOICE', status: { not: 'DRAFT' } },
+        select: { status: true, dueDate: true, totalAmount: true, ...invoiceBalanceInclude },
+      },
+      projects: {
+        select: { name: true, status: true, startDate: true, endDate: true, completionPercentage: true },
+      },
+      proposals: {
+        where: { status: 'REJECTED' },
+        select: { updatedAt: true },
+      },
+    },
+  })
+
+  if (!client) {
+    return null
+  }
+
+  const [lastPayment, openTasks, lastActivity, lastLeadInteraction] = await Promise.all([
+    db.payment.findFirst({
+      where: { type: 'PAYMENT', invoice: { clientId } },
+      orderBy: { paymentDate: 'desc' },
+      select: { paymentDate: true },
+    }),
+    db.task.findMany({
+      where: { project: { clientId }, status: { notIn: ['DONE', 'CANCELLED'] } },
+      select: { dueDate: true },
+    }),
+    db.activity.findFirst({
+      where: {
+        entityType: 'CLIENT',
+        entityId: clientId,
+        type: { in: Object.values(INTERACTION_ACTIVITY_TYPES) },
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    }),
+    client.leadId
+      ? db.leadInteraction.findFirst({
+          where: { leadId: client.leadId },
+          orderBy: { createdAt: 'desc' },
+          select: { createdAt: true },
+        })
+      : null,
+  ])
+
+  const interactionDates = [lastActivity?.createdAt, lastLeadInteraction?.createdAt].filter((d): d is Date => !!d)
+
+  return {
+    invoices: client.invoices.map((invoice) => ({
+      dueDate: invoice.dueDate,
+      balanceDue: summarizeInvoiceBalance(invoice).balanceDue,
+    })),
+    lastPaymentDate: lastPayment?.paymentDate ?? null,
+    projects: client.projects,
+    openTasks,
+    rejectedProposals: client.proposals,
+    lastInteractionDate: interactionDates.length > 0
+      ? new Date(Math.max(...interactionDates.map((d) => d.getTime())))
+      : null,
+    clientCreatedAt: client.createdAt,
+  }
+}
+
+// Recompute a client's health, store today's snapshot and warn the account manager on a band drop
+export async function recomputeClientHealth(
+  clientId: string,
+  db: Db = prisma,
+  options: { config?: ClientHealthConfig; timeZone?: string; now?: Date } = {}
+): Promise<(ClientHealthResult & { previousBand: ClientHealthBand | null; dropped: boolean }) | null> {
+  const [client, signals] = await Promise.all([
+    db.client.findUnique({
+      where: { id: clientId },
+      select: { id: true, name: true, company: true, healthBand: true, accountManagerId: true },
+    }),
+    loadClientHealthSignals(clientId, db),
+  ])
+
+  if (!client || !signals) {
+    return null
+  }
+
+  const now = options.now ?? new Date()
+  const config = options.config ?? await getClientHealthConfig(db)
+  const timeZone = options.timeZone ?? await getAgencyTimeZone(db)
+  const result = computeClientHealth(signals, config, now)
+  const date = startOfZonedDay(now, timeZone)
+
+  await db.client.update({
+    where: { id: clientId },
+    data: { healthScore: result.score, healthBand: result.band, healthUpdatedAt: now },
+  })
+
+  await db.clientHealthSnapshot.upsert({
+    where: { clientId_date: { clientId, date } },
+    create: {
+      clientId,
+      date,
+      score: result.score,
+      band: result.band,
+      factors: result.breakdown as unknown as Prisma.InputJsonValue,
+    },
+    update: {
+      score: result.score,
+      band: result.band,
+      factors: result.breakdown as unknown as Prisma.InputJsonValue,
+    },
+  })
+
+  const dropped = isBandDrop(client.healthBand, result.band)
+
+  if (dropped && client.accountManagerId) {
+    const reasons = [...result.breakdown]
+      .sort((a, b) => a.points - b.points)
+      .slice(0, 3)
+      .map((f) => f.label)
+      .join('; ')
+
+    await db.notification.create({
+      data: {
+        userId: client.accountManagerId,
+        title: result.band === 'AT_RISK' ? 'Client at risk' : 'Client health dropped',
+        message: `${client.company || client.name} dropped to ${result.band.replace('_', ' ').toLowerCase()} (score ${result.score})${reasons ? `: ${reasons}` : ''}`,
+        type: result.band === 'AT_RISK' ? 'ERROR' : 'WARNING',
+        actionUrl: '/clients',
+      },
+    })
+
+    await db.activity.create({
+      data: {
+        userId: client.accountManagerId,
+        type: 'CLIENT_HEALTH_DROPPED',
+        description: `Health dropped from ${client.healthBand} to ${result.band}`,
+        entityType: 'CLIENT',
+        entityId: clientId,
+        metadata: {
+          previousBand: client.healthBand,
+          band: result.band,
+          score: result.score,
+        },
+      },
+    })
+  }
+
+  return { ...result, previousBand: client.healthBand, dropped }
+}
+
+export async function recomputeAllClientHealth(db: Db = prisma, now: Date = new Date()) {
+  const [clients, config, timeZone] = await Promise.all([
+    db.client.findMany({ select: { id: true } }),
+    getClientHealthConfig(db),
+    getAgencyTimeZone(db),
+  ])
+
+  const counts = { processed: 0, dropped: 0, atRisk: 0 }
+
+  for (const client of clients) {
+    const result = await recomputeClientHealth(client.id, db, { config, timeZone, now })
+    if (!result) continue
+    counts.processed++
+    if (result.dropped) counts.dropped++
+    if (result.band === 'AT_RISK') counts.atRisk++
+  }
+
+  return counts
+}
@@ -0,0 +1,194 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import { prisma } from './prisma'
+import { ProposalResponseError } from './proposals'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+export interface PortalUser {
+  id: string
+  name: string
+  email: string
+  clientId: string
+}
+
+// The signed-in user as a portal user, or null when they are not an active CLIENT
+// user linked to a client. Portal routes answer 403 for anyone else.
+export async function getPortalUser(userId: string, db: Db = prisma): Promise<PortalUser | null> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { id: true, name: true, email: true, role: true, isActive: true, clientId: true },
+  })
+
+  if (!user || user.role !== 'CLIENT' || !user.isActive || !user.clientId) {
+    return null
+  }
+
+  return { id: user.id, name: user.name, email: user.email, clientId: user.clientId }
+}
+
+export class PortalAccessError extends Error {
+  constructor(message: string = 'Insufficient permissions') {
+    super(message)
+    this.name = 'PortalAccessError'
+  }
+}
+
+// For agency API routes that CLIENT users may also read: null for agency users, who
+// see every record, and the portal user for CLIENT users, whose queries must be
+// narrowed with the portal*Where filters below. CLIENT users who are not linked to an
+// active client are refused with a PortalAccessError.
+export async function getClientScope(userId: string, db: Db = prisma): Promise<PortalUser | null> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  })
+
+  if (user?.role !== 'CLIENT') {
+    return null
+  }
+
+  const portalUser = await getPortalUser(userId, db)
+  if (!portalUser) {
+    throw new PortalAccessError()
+  }
+  return portalUser
+}
+
+// Admins, managers and the client's account manager can grant and revoke portal access
+export async function canManagePortalUsers(client: { accountManagerId: string | null }, userId: string, db: Db = prisma) {
+  if (client.accountManagerId === userId) {
+    return true
+  }
+
+  const currentUser = await db.user.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  })
+
+  return currentUser?.role === 'ADMIN' || currentUser?.role === 'MANAGER'
+}
+
+// Row-level filters for what a client may see. Drafts stay internal until they are sent.
+export function portalProjectWhere(clientId: string): Prisma.ProjectWhereInput {
+  return { clientId }
+}
+
+export function portalProposalWhere(clientId: string): Prisma.ProposalWhereInput {
+  return { clientId, status: { not: 'DRAFT' } }
+}
+
+export function portalInvoiceWhere(clientId: string): Prisma.InvoiceWhereInput {
+  return { clientId, status: { not: 'DRAFT' } }
+}
+
+export function portalTaskWhere(clientId: string): Prisma.TaskWhereInput {
+  return { clientVisible: true, project: { clientId } }
+}
+
+export function portalResourceWhere(clientId: string): Prisma.ProjectResourceWhereInput {
+  return { sharedWithClient: true, project: { clientId } }
+}
+
+export const portalUserSelect = {
+  select: {
+    id: true,
+    name: true,
+  },
+}
+
+// Accept or reject a sent proposal on behalf of the client. The proposal owner is
+// notified and the response is logged as an Activity on the proposal.
+export async function respondToProposal(
+  proposalId: string,
+  portalUser: PortalUser,
+  response: { action: 'accept' | 'reject'; reason?: string },
+  db: PrismaClient = prisma,
+  now: Date = new Date()
+) {
+  return db.$transaction(async (tx) => {
+    const proposal = await tx.proposal.findFirst({
+      where: { id: proposalId, ...portalProposalWhere(portalUser.clientId) },
+    })
+
+    if (!proposal) {
+      return null
+    }
+
+    if (proposal.status !== 'SENT' && proposal.status !== 'VIEWED') {
+      throw new ProposalResponseError(`Proposal has already been ${proposal.status.toLowerCase()}`)
+    }
+
+    if (proposal.validUntil && proposal.validUntil < now) {
+      throw new ProposalResponseError('Proposal has expired')
+    }
+
+    const status = response.action === 'accept' ? 'ACCEPTED' : 'REJECTED'
+    const updated = await tx.proposal.update({
+      where: { id: proposal.id },
+      data: { status, respondedAt: now },
+    })
+
+    const verb = response.action === 'accept' ? 'accepted' : 'rejected'
+
+    await tx.activity.create({
+      data: {
+        userId: portalUser.id,
+        type: response.action === 'accept' ? 'PROPOSAL_ACCEPTED' : 'PROPOSAL_REJECTED',
+        description: `${portalUser.name} ${verb} proposal "${proposal.title}" in the client portal`,
+        entityType: 'PROPOSAL',
+        entityId: proposal.id,
+        metadata: response.reason ? { reason: response.reason } : undefined,
+      },
+    })
+
+    await tx.notification.create({
+      data: {
+        userId: proposal.createdBy,
+        title: `Proposal ${verb}`,
+        message: response.reason
+          ? `${portalUser.name} ${verb} "${proposal.title}": ${response.reason}`
+          : `${portalUser.name} ${verb} "${proposal.title}"`,
+        type: response.action === 'accept' ? 'SUCCESS' : 'WARNING',
+        actionUrl: '/proposals',
+      },
+    })
+
+    return updated
+  })
+}
+
+// Record a client comment on a client-visible task and let the assignee and the
+// project manager know about it
+export async function addPortalTaskComment(taskId: string, portalUser: PortalUser, content: string, db: PrismaClient = prisma) {
+  return db.$transaction(async (tx) => {
+    const task = await tx.task.findFirst({
+      where: { id: taskId, ...portalTaskWhere(portalUser.clientId) },
+      select: { id: true, title: true, assigneeId: true, project: { select: { managerId: true } } },
+    })
+
+    if (!task) {
+      return null
+    }
+
+    const comment = await tx.taskComment.create({
+      data: { taskId: task.id, userId: portalUser.id, content },
+      include: { user: portalUserSelect },
+    })
+
+    const recipients = [task.assigneeId, task.project.managerId]
+      .filter((id, index, ids): id is string => !!id && ids.indexOf(id) === index)
+    for (const userId of recipients) {
+      await tx.notification.create({
+        data: {
+          userId,
+          title: 'New client comment',
+          message: `${portalUser.name} commented on "${task.title}"`,
+          type: 'INFO',
+          actionUrl: '/tasks',
+        },
+      })
+    }
+
+    return comment
+  })
+}
@@ -0,0 +1,456 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+export const TIMELINE_EVENT_TYPES = [
+  'project',
+  'proposal',
+  'invoice',
+  'payment',
+  'revenue',
+  'expense',
+  'lead_interaction',
+  'activity',
+] as const
+
+export type TimelineEventType = typeof TIMELINE_EVENT_TYPES[number]
+
+const MAX_TIMELINE_LIMIT = 100
+// Deepest event a page may reach; older history is paged through with `to`
+const MAX_TIMELINE_DEPTH = 1000
+
+export const timelineQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(MAX_TIMELINE_LIMIT).default(20),
+  // Comma-separated list, e.g. `types=invoice,payment`
+  types: z.string().optional().transform((value, ctx) => {
+    if (!value) return [...TIMELINE_EVENT_TYPES]
+    const types = value.split(',').map((type) => type.trim()).filter(Boolean)
+    const unknown = types.filter((type) => !TIMELINE_EVENT_TYPES.includes(type as TimelineEventType))
+    if (unknown.length > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown event types: ${unknown.join(', ')}` })
+      return z.NEVER
+    }
+    return types as TimelineEventType[]
+  }),
+  from: z.string().datetime().transform((str) => new Date(str)).optional(),
+  to: z.string().datetime().transform((str) => new Date(str)).optional(),
+}).refine((query) => query.page * query.limit <= MAX_TIMELINE_DEPTH, {
+  path: ['page'],
+  message: `Pages reach back at most ${MAX_TIMELINE_DEPTH} events; use "to" to see older ones`,
+})
+
+export type TimelineQuery = z.infer<typeof timelineQuerySchema>
+
+export interface TimelineActor {
+  id: string
+  name: string | null
+  email: string
+}
+
+interface TimelineEventBase<T extends TimelineEventType, P> {
+  // `${type}:${recordId}`, unique across the whole feed
+  id: string
+  type: T
+  occurredAt: Date
+  title: string
+  description: string | null
+  actor: TimelineActor | null
+  payload: P
+}
+
+export type ClientTimelineEvent =
+  | TimelineEventBase<'project', {
+    projectId: string
+    name: string
+    status: string
+    priority: string
+    startDate: Date | null
+    endDate: Date | null
+    completionPercentage: number
+  }>
+  | TimelineEventBase<'proposal', {
+    proposalId: string
+    projectId: string | null
+    title: string
+    status: string
+    totalAmount: number
+    validUntil: Date | null
+  }>
+  | TimelineEventBase<'invoice', {
+    invoiceId: string
+    projectId: string | null
+    invoiceNumber: string | null
+    status: string
+    totalAmount: number
+    dueDate: Date
+    paidDate: Date | null
+  }>
+  | TimelineEventBase<'payment', {
+    paymentId: string
+    paymentType: string
+    invoiceId: string
+    invoiceNumber: string | null
+    amount: number
+    paymentMethod: string | null
+    transactionId: string | null
+  }>
+  | TimelineEventBase<'revenue', {
+    revenueId: string
+    projectId: string | null
+    invoiceId: string | null
+    category: string
+    status: string
+    amount: number
+  }>
+  | TimelineEventBase<'expense', {
+    expenseId: string
+    projectId: string | null
+    category: string
+    status: string
+    amount: number
+  }>
+  | TimelineEventBase<'lead_interaction', {
+    interactionId: string
+    leadId: string
+    interactionType: string
+    subject: string | null
+    scheduledAt: Date | null
+    completedAt: Date | null
+  }>
+  | TimelineEventBase<'activity', {
+    activityId: string
+    activityType: string
+    entityType: string | null
+    entityId: string | null
+    metadata: Prisma.JsonValue | null
+  }>
+
+// Everything that belongs to a client, for sources that are not linked to it directly
+interface TimelineScope {
+  clientId: string
+  leadId: string | null
+  projectIds: string[]
+  proposalIds: string[]
+  invoiceIds: string[]
+}
+
+interface TimelineSource {
+  count(): Promise<number>
+  // The `take` most recent events of this source, newest first
+  load(take: number): Promise<ClientTimelineEvent[]>
+}
+
+const actorSelect = {
+  select: {
+    id: true,
+    name: true,
+    email: true,
+  },
+}
+
+function buildSources(scope: TimelineScope, range: Prisma.DateTimeFilter | undefined, db: Db): Record<TimelineEventType, TimelineSource> {
+  const projectWhere: Prisma.ProjectWhereInput = { clientId: scope.clientId, createdAt: range }
+  const proposalWhere: Prisma.ProposalWhereInput = { clientId: scope.clientId, createdAt: range }
+  const invoiceWhere: Prisma.InvoiceWhereInput = { clientId: scope.clientId, issueDate: range }
+  const paymentWhere: Prisma.PaymentWhereInput = { invoice: { clientId: scope.clientId }, paymentDate: range }
+  const revenueWhere: Prisma.RevenueWhereInput = { clientId: scope.clientId, date: range }
+  const expenseWhere: Prisma.ExpenseWhereInput = { clientId: scope.clientId, date: range }
+  // Interactions logged while the client was still a lead
+  const interactionWhere: Prisma.LeadInteractionWhereInput = scope.leadId
+    ? { leadId: scope.leadId, createdAt: range }
+    : { id: { in: [] } }
+  // Activity rows about the client itself, its originating lead and its projects, proposals and invoices
+  const activityWhere: Prisma.ActivityWhereInput = {
+    createdAt: range,
+    OR: [
+      { entityType: 'CLIENT', entityId: scope.clientId },
+      ...(scope.leadId ? [{ entityType: 'LEAD', entityId: scope.leadId }] : []),
+      { entityType: 'PROJECT', entityId: { in: scope.projectIds } },
+      { entityType: 'PROPOSAL', entityId: { in: scope.proposalIds } },
+      { entityType: 'INVOICE', entityId: { in: scope.invoiceIds } },
+    ],
+  }
+
+  return {
+    project: {
+      count: () => db.project.count({ where: projectWhere }),
+      load: async (take) => {
+        const projects = await db.project.findMany({
+          where: projectWhere,
+          include: { manager: actorSelect },
+          orderBy: { createdAt: 'desc' },
+          take,
+        })
+        return projects.map((project) => ({
+          id: `project:${project.id}`,
+          type: 'project',
+          occurredAt: project.createdAt,
+          title: `Project "${project.name}" started`,
+          description: project.description,
+          actor: project.manager,
+          payload: {
+            projectId: project.id,
+            name: project.name,
+            status: project.status,
+            priority: project.priority,
+            startDate: project.startDate,
+            endDate: project.endDate,
+            completionPercentage: project.completionPercentage,
+          },
+        }))
+      },
+    },
+    proposal: {
+      count: () => db.proposal.count({ where: proposalWhere }),
+      load: async (take) => {
+        const proposals = await db.proposal.findMany({
+          where: proposalWhere,
+          include: { creator: actorSelect },
+          orderBy: { createdAt: 'desc' },
+          take,
+        })
+        return proposals.map((proposal) => ({
+          id: `proposal:${proposal.id}`,
+          type: 'proposal',
+          occurredAt: proposal.createdAt,
+          title: `Proposal "${proposal.title}" created`,
+          description: null,
+          actor: proposal.creator,
+          payload: {
+            proposalId: proposal.id,
+            projectId: proposal.projectId,
+            title: proposal.title,
+            status: proposal.status,
+            totalAmount: proposal.totalAmount,
+            validUntil: proposal.validUntil,
+          },
+        }))
+      },
+    },
+    invoice: {
+      count: () => db.invoice.count({ where: invoiceWhere }),
+      load: async (take) => {
+        const invoices = await db.invoice.findMany({
+          where: invoiceWhere,
+          include: { creator: actorSelect },
+          orderBy: { issueDate: 'desc' },
+          take,
+        })
+        return invoices.map((invoice) => ({
+          id: `invoice:${invoice.id}`,
+          type: 'invoice',
+          occurredAt: invoice.issueDate,
+          title: invoice.invoiceNumber ? `Invoice ${invoice.invoiceNumber} issued` : 'Draft invoice created',
+          description: invoice.notes,
+          actor: invoice.creator,
+          payload: {
+            invoiceId: invoice.id,
+            projectId: invoice.projectId,
+            invoiceNumber: invoice.invoiceNumber,
+            status: invoice.status,
+            totalAmount: invoice.totalAmount,
+            dueDate: invoice.dueDate,
+            paidDate: invoice.paidDate,
+          },
+        }))
+      },
+    },
+    payment: {
+      count: () => db.payment.count({ where: paymentWhere }),
+      load: async (take) => {
+        const payments = await db.payment.findMany({
+          where: paymentWhere,
+          include: { invoice: { select: { invoiceNumber: true } }, recorder: actorSelect },
+          orderBy: { paymentDate: 'desc' },
+          take,
+        })
+        return payments.map((payment) => ({
+          id: `payment:${payment.id}`,
+          type: 'payment',
+          occurredAt: payment.paymentDate,
+          title: payment.type === 'REFUND'
+            ? `Refund issued for invoice ${payment.invoice.invoiceNumber ?? '(draft)'}`
+            : `Payment received for invoice ${payment.invoice.invoiceNumber ?? '(draft)'}`,
+          description: payment.notes,
+          actor: payment.recorder,
+          payload: {
+            paymentId: payment.id,
+            paymentType: payment.type,
+            invoiceId: payment.invoiceId,
+            invoiceNumber: payment.invoice.invoiceNumber,
+            amount: payment.amount,
+            paymentMethod: payment.paymentMethod,
+            transactionId: payment.transactionId,
+          },
+        }))
+      },
+    },
+    revenue: {
+      count: () => db.revenue.count({ where: revenueWhere }),
+      load: async (take) => {
+        const revenues = await db.revenue.findMany({
+          where: revenueWhere,
+          include: { user: actorSelect },
+          orderBy: { date: 'desc' },
+          take,
+        })
+        return revenues.map((revenue) => ({
+          id: `revenue:${revenue.id}`,
+          type: 'revenue',
+          occurredAt: revenue.date,
+          title: revenue.title,
+          description: revenue.description,
+          actor: revenue.user,
+          payload: {
+            revenueId: revenue.id,
+            projectId: revenue.projectId,
+            invoiceId: revenue.invoiceId,
+            category: revenue.category,
+            status: revenue.status,
+            amount: revenue.amount,
+          },
+        }))
+      },
+    },
+    expense: {
+      count: () => db.expense.count({ where: expenseWhere }),
+      load: async (take) => {
+        const expenses = await db.expense.findMany({
+          where: expenseWhere,
+          include: { user: actorSelect },
+          orderBy: { date: 'desc' },
+          take,
+        })
+        return expenses.map((expense) => ({
+          id: `expense:${expense.id}`,
+          type: 'expense',
+          occurredAt: expense.date,
+          title: expense.title,
+          description: expense.description,
+          actor: expense.user,
+          payload: {
+            expenseId: expense.id,
+            projectId: expense.projectId,
+            category: expense.category,
+            status: expense.status,
+            amount: expense.amount,
+          },
+        }))
+      },
+    },
+    lead_interaction: {
+      count: () => db.leadInteraction.count({ where: interactionWhere }),
+      load: async (take) => {
+        const interactions = await db.leadInteraction.findMany({
+          where: interactionWhere,
+          include: { user: actorSelect },
+          orderBy: { createdAt: 'desc' },
+          take,
+        })
+        return interactions.map((interaction) => ({
+          id: `lead_interaction:${interaction.id}`,
+          type: 'lead_interaction',
+          occurredAt: interaction.createdAt,
+          title: interaction.subject || `${interaction.interactionType.toLowerCase()} logged`,
+          description: interaction.content,
+          actor: interaction.user,
+          payload: {
+            interactionId: interaction.id,
+            leadId: interaction.leadId,
+            interactionType: interaction.interactionType,
+            subject: interaction.subject,
+            scheduledAt: interaction.scheduledAt,
+            completedAt: interaction.completedAt,
+          },
+        }))
+      },
+    },
+    activity: {
+      count: () => db.activity.count({ where: activityWhere }),
+      load: async (take) => {
+        const activities = await db.activity.findMany({
+          where: activityWhere,
+          include: { user: actorSelect },
+          orderBy: { createdAt: 'desc' },
+          take,
+        })
+        return activities.map((activity) => ({
+          id: `activity:${activity.id}`,
+          type: 'activity',
+          occurredAt: activity.createdAt,
+          title: activity.description,
+          description: null,
+          actor: activity.user,
+          payload: {
+            activityId: activity.id,
+            activityType: activity.type,
+            entityType: activity.entityType,
+            entityId: activity.entityId,
+            metadata: activity.metadata,
+          },
+        }))
+      },
+    },
+  }
+}
+
+// One chronological feed (newest first) over every record that belongs to a client.
+// Each source is read in date order up to the end of the requested page and the
+// results are merged, so deep pages cost more than shallow ones; `limit` and how deep
+// a page may reach are capped to keep that bounded. Returns null when the client does
+// not exist.
+export async function getClientTimeline(clientId: string, query: TimelineQuery, db: Db = prisma) {
+  const client = await db.client.findUnique({
+    where: { id: clientId },
+    select: {
+      id: true,
+      leadId: true,
+      projects: { select: { id: true } },
+      proposals: { select: { id: true } },
+      invoices: { select: { id: true } },
+    },
+  })
+
+  if (!client) {
+    return null
+  }
+
+  const range = query.from || query.to ? { gte: query.from, lte: query.to } : undefined
+  const sources = buildSources({
+    clientId: client.id,
+    leadId: client.leadId,
+    projectIds: client.projects.map((project) => project.id),
+    proposalIds: client.proposals.map((proposal) => proposal.id),
+    invoiceIds: client.invoices.map((invoice) => invoice.id),
+  }, range, db)
+
+  const skip = (query.page - 1) * query.limit
+  const take = skip + query.limit
+
+  const results = await Promise.all(query.types.map(async (type) => {
+    const [count, events] = await Promise.all([sources[type].count(), sources[type].load(take)])
+    return { type, count, events }
+  }))
+
+  const events = results
+    .flatMap((result) => result.events)
+    .sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime() || a.id.localeCompare(b.id))
+    .slice(skip, take)
+
+  const counts = Object.fromEntries(results.map((result) => [result.type, result.count])) as Partial<Record<TimelineEventType, number>>
+  const total = results.reduce((sum, result) => sum + result.count, 0)
+
+  return {
+    events,
+    counts,
+    pagination: {
+      page: query.page,
+      limit: query.limit,
+      total,
+      pages: Math.min(Math.ceil(total / query.limit), Math.floor(MAX_TIMELINE_DEPTH / query.limit)),
+    },
+  }
+}
@@ -0,0 +1,135 @@
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { allocateDocumentNumber } from './invoice-numbers'
+import { syncInvoicePaymentStatus } from './invoice-payments'
+import { roundMoney } from './utils'
+
+// Validation schema for crediting an invoice. Without an amount the whole remaining
+// balance of the invoice is credited.
+export const creditNoteSchema = z.object({
+  amount: z.number().gt(0, 'Credit amount must be positive').optional(),
+  reason: z.string().min(1, 'A reason is required').max(2000),
+  issueDate: z.string().datetime().optional(),
+})
+
+export type CreditNoteInput = z.infer<typeof creditNoteSchema>
+
+export class CreditNoteError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CreditNoteError'
+  }
+}
+
+// Issue a credit note against an invoice. Credit notes carry positive amounts and are
+// numbered straight away in their own series; together they can never exceed the
+// invoice total.
+export async function createCreditNote(
+  invoiceId: string,
+  input: CreditNoteInput,
+  userId: string,
+  db: PrismaClient = prisma,
+  now: Date = new Date()
+) {
+  return db.$transaction(async (tx) => {
+    const invoice = await tx.invoice.findUnique({
+      where: { id: invoiceId },
+      include: {
+        items: true,
+        creditNotes: { select: { totalAmount: true } },
+      },
+    })
+
+    if (!invoice) {
+      return null
+    }
+
+    if (invoice.type !== 'INVOICE') {
+      throw new CreditNoteError('Only invoices can be credited')
+    }
+
+    if (!invoice.invoiceNumber || invoice.status === 'DRAFT') {
+      throw new CreditNoteError('Only issued invoices can be credited')
+    }
+
+    const credited = roundMoney(invoice.creditNotes.reduce((sum, note) => sum + note.totalAmount, 0))
+    const creditable = roundMoney(invoice.totalAmount - credited)
+    const totalAmount = input.amount === undefined ? creditable : roundMoney(input.amount)
+
+    if (totalAmount <= 0 || totalAmount > creditable) {
+      throw new CreditNoteError(`At most ${creditable} can still be credited on this invoice`)
+    }
+
+    // Split the credit into net and tax in the same proportion as the invoice
+    const taxShare = invoice.totalAmount > 0 ? invoice.taxAmount / invoice.totalAmount : 0
+    const taxAmount = roundMoney(totalAmount * taxShare)
+    const amount = roundMoney(totalAmount - taxAmount)
+
+    // A partial credit is one line, at the invoice's tax rate when all its items share one
+    const [first] = invoice.items
+    const sharedRate = first && invoice.items.every((item) => item.taxRateId === first.taxRateId && item.taxRate === first.taxRate)
+      ? first
+      : null
+    const items = totalAmount === invoice.totalAmount
+      ? invoice.items.map((item) => ({
+          description: item.description,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          totalPrice: item.totalPrice,
+          taxRateId: item.taxRateId,
+          taxRate: item.taxRate,
+        }))
+      : [{
+          description: `Credit for invoice ${invoice.invoiceNumber}: ${input.reason}`,
+          quantity: 1,
+          unitPrice: amount,
+          totalPrice: amount,
+          taxRateId: sharedRate?.taxRateId ?? null,
+          taxRate: sharedRate?.taxRate ?? 0,
+        }]
+
+    const issueDate = input.issueDate ? new Date(input.issueDate) : now
+
+    const creditNote = await tx.invoice.create({
+      data: {
+        type: 'CREDIT_NOTE',
+        invoiceNumber: await allocateDocumentNumber('CREDIT_NOTE', tx, issueDate),
+        creditedInvoiceId: invoice.id,
+        clientId: invoice.clientId,
+        projectId: invoice.projectId,
+        recipientContactId: invoice.recipientContactId,
+        status: 'SENT',
+        issueDate,
+        dueDate: issueDate,
+        amount,
+        taxAmount,
+        totalAmount,
+        currency: invoice.currency,
+        notes: input.reason,
+        createdBy: userId,
+        items: { create: items },
+      },
+      include: { items: true },
+    })
+
+    // A credit can settle what is left of a partly paid invoice
+    await syncInvoicePaymentStatus(invoice.id, tx, now)
+
+    await tx.activity.create({
+      data: {
+        userId,
+        type: 'CREDIT_NOTE_ISSUED',
+        description: `Credit note ${creditNote.invoiceNumber} issued for invoice ${invoice.invoiceNumber}`,
+        entityType: 'INVOICE',
+        entityId: invoice.id,
+        metadata: {
+          creditNoteId: creditNote.id,
+          totalAmount,
+        },
+      },
+    })
+
+    return creditNote
+  })
+}
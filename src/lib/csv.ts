@@ -0,0 +1,81 @@
+export interface ParsedCsv {
+  headers: string[]
+  rows: string[][]
+}
+
+// Pick whichever of comma, semicolon or tab appears most often in the header line
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || ''
+  const candidates = [',', ';', '\t']
+  return candidates
+    .map((delimiter) => ({ delimiter, count: firstLine.split(delimiter).length - 1 }))
+    .sort((a, b) => b.count - a.count)[0].delimiter
+}
+
+// RFC 4180 parser: quoted fields, escaped quotes, embedded newlines and CRLF line endings
+export function parseCsv(input: string, delimiter?: string): ParsedCsv {
+  const text = input.replace(/^\uFEFF/, '')
+  const separator = delimiter || detectDelimiter(text)
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true
+    } else if (char === separator) {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  const nonEmpty = records.filter((r) => r.some((value) => value.trim() !== ''))
+  const [headers = [], ...rows] = nonEmpty
+
+  return {
+    headers: headers.map((header) => header.trim()),
+    rows,
+  }
+}
+
+function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  const text = value instanceof Date ? value.toISOString() : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsvRow(values: unknown[]): string {
+  return values.map(escapeCsvValue).join(',')
+}
+
+export function toCsv(headers: string[], rows: unknown[][]): string {
+  return [toCsvRow(headers), ...rows.map(toCsvRow)].join('\r\n')
+}
@@ -0,0 +1,241 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { parseCsv } from './csv'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+export const CURRENCY_SETTING_KEY = 'currency'
+export const MAX_EXCHANGE_RATE_ROWS = 20000
+
+export const currencyCodeSchema = z.string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, 'Currency must be a three-letter ISO 4217 code')
+
+// The currency finance reports are converted to, stored as JSON in the currency system setting
+export const currencyConfigSchema = z.object({
+  baseCurrency: currencyCodeSchema,
+})
+
+export type CurrencyConfig = z.infer<typeof currencyConfigSchema>
+
+export const defaultCurrencyConfig: CurrencyConfig = {
+  baseCurrency: 'USD',
+}
+
+export class ExchangeRateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ExchangeRateError'
+  }
+}
+
+export async function getCurrencyConfig(db: Db = prisma): Promise<CurrencyConfig> {
+  const setting = await db.systemSetting.findUnique({
+    where: { key: CURRENCY_SETTING_KEY },
+  })
+
+  if (!setting?.value) {
+    return defaultCurrencyConfig
+  }
+
+  try {
+    return currencyConfigSchema.parse({
+      ...defaultCurrencyConfig,
+      ...JSON.parse(setting.value),
+    })
+  } catch (error) {
+    console.error('Invalid currency configuration, using defaults:', error)
+    return defaultCurrencyConfig
+  }
+}
+
+// Currency for a new money record: the one given, else the client's billing currency,
+// else the agency's base currency
+export async function resolveRecordCurrency(
+  input: { currency?: string | null; clientId?: string | null },
+  db: Db = prisma
+) {
+  if (input.currency) {
+    return input.currency
+  }
+
+  if (input.clientId) {
+    const client = await db.client.findUnique({
+      where: { id: input.clientId },
+      select: { currency: true },
+    })
+    if (client?.currency) {
+      return client.currency
+    }
+  }
+
+  return (await getCurrencyConfig(db)).baseCurrency
+}
+
+export interface CurrencyConverter {
+  currency: string
+  rateOn(from: string, date: Date): number
+  convert(amount: number, from: string, date: Date): number
+}
+
+function formatRateDate(date: Date) {
+  return date.toISOString().slice(0, 10)
+}
+
+// Load every rate into or out of `currency` once, so a report can convert thousands of
+// records without a query each. A record uses the latest rate dated on or before it;
+// rates stored the other way round are inverted.
+export async function loadCurrencyConverter(currency: string, db: Db = prisma): Promise<CurrencyConverter> {
+  const rates = await db.exchangeRate.findMany({
+    where: { OR: [{ baseCurrency: currency }, { currency }] },
+    select: { baseCurrency: true, currency: true, rate: true, date: true },
+    orderBy: { date: 'asc' },
+  })
+
+  const series: Record<string, { time: number; rate: number }[]> = {}
+  for (const row of rates) {
+    const from = row.baseCurrency === currency ? row.currency : row.baseCurrency
+    const rate = row.baseCurrency === currency ? row.rate : 1 / row.rate
+    const points = series[from] ?? (series[from] = [])
+    // A direct quote takes precedence over an inverted one for the same day
+    const last = points[points.length - 1]
+    if (last && last.time === row.date.getTime()) {
+      if (row.baseCurrency === currency) last.rate = rate
+    } else {
+      points.push({ time: row.date.getTime(), rate })
+    }
+  }
+
+  const rateOn = (from: string, date: Date) => {
+    if (from === currency) {
+      return 1
+    }
+
+    const points = series[from] ?? []
+    let low = 0
+    let high = points.length - 1
+    let found = -1
+    while (low <= high) {
+      const middle = (low + high) >> 1
+      if (points[middle].time <= date.getTime()) {
+        found = middle
+        low = middle + 1
+      } else {
+        high = middle - 1
+      }
+    }
+
+    if (found === -1) {
+      throw new ExchangeRateError(`No ${from}/${currency} exchange rate on or before ${formatRateDate(date)}`)
+    }
+    return points[found].rate
+  }
+
+  return {
+    currency,
+    rateOn,
+    convert: (amount, from, date) => amount * rateOn(from, date),
+  }
+}
+
+export interface ExchangeRateRow {
+  line: number
+  baseCurrency: string
+  currency: string
+  rate: number
+  date: Date
+}
+
+const exchangeRateColumns: Record<string, 'date' | 'currency' | 'rate' | 'baseCurrency'> = {
+  date: 'date',
+  currency: 'currency',
+  rate: 'rate',
+  base: 'baseCurrency',
+  base_currency: 'baseCurrency',
+  basecurrency: 'baseCurrency',
+}
+
+// Read an exchange rate file with date (YYYY-MM-DD), currency and rate columns, plus an
+// optional base currency column that defaults to the agency's base currency. Rows that
+// cannot be read are reported by line number rather than failing the whole file.
+export function parseExchangeRateCsv(csv: string, defaultBaseCurrency: string) {
+  const parsed = parseCsv(csv)
+  const columns = parsed.headers.map((header) => exchangeRateColumns[header.trim().toLowerCase().replace(/[\s-]+/g, '_')])
+
+  const missing = ['date', 'currency', 'rate'].filter((column) => !columns.includes(column as 'date'))
+  if (missing.length > 0) {
+    throw new z.ZodError([{ code: 'custom', path: ['csv'], message: `CSV file is missing the ${missing.join(', ')} column${missing.length === 1 ? '' : 's'}` }])
+  }
+  if (parsed.rows.length > MAX_EXCHANGE_RATE_ROWS) {
+    throw new z.ZodError([{ code: 'custom', path: ['csv'], message: `CSV files are limited to ${MAX_EXCHANGE_RATE_ROWS} rows` }])
+  }
+
+  const rows: ExchangeRateRow[] = []
+  const errors: { line: number; message: string }[] = []
+
+  parsed.rows.forEach((values, index) => {
+    // Line 1 is the header
+    const line = index + 2
+    const record: Record<string, string> = {}
+    columns.forEach((column, position) => {
+      if (column) record[column] = (values[position] ?? '').trim()
+    })
+
+    const baseCurrency = currencyCodeSchema.safeParse(record.baseCurrency || defaultBaseCurrency)
+    const currency = currencyCodeSchema.safeParse(record.currency)
+    const rate = Number(record.rate)
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(record.date) ? new Date(`${record.date}T00:00:00.000Z`) : null
+
+    if (!currency.success || !baseCurrency.success) {
+      errors.push({ line, message: 'Currency must be a three-letter ISO 4217 code' })
+    } else if (currency.data === baseCurrency.data) {
+      errors.push({ line, message: 'Currency and base currency must differ' })
+    } else if (!record.rate || !Number.isFinite(rate) || rate <= 0) {
+      errors.push({ line, message: 'Rate must be a positive number' })
+    } else if (!date || Number.isNaN(date.getTime())) {
+      errors.push({ line, message: 'Date must be in YYYY-MM-DD format' })
+    } else {
+      rows.push({ line, baseCurrency: baseCurrency.data, currency: currency.data, rate, date })
+    }
+  })
+
+  return { rows, errors }
+}
+
+// Store imported rates, replacing any rate already held for the same pair and day
+export async function importExchangeRates(
+  rows: ExchangeRateRow[],
+  userId: string,
+  source: string | null,
+  db: PrismaClient = prisma
+) {
+  return db.$transaction(async (tx) => {
+    let created = 0
+    let updated = 0
+
+    for (const row of rows) {
+      const key = { baseCurrency: row.baseCurrency, currency: row.currency, date: row.date }
+      const existing = await tx.exchangeRate.findUnique({
+        where: { baseCurrency_currency_date: key },
+        select: { id: true },
+      })
+
+      if (existing) {
+        await tx.exchangeRate.update({
+          where: { id: existing.id },
+          data: { rate: row.rate, source, importedBy: userId },
+        })
+        updated++
+      } else {
+        await tx.exchangeRate.create({
+          data: { ...key, rate: row.rate, source, importedBy: userId },
+        })
+        created++
+      }
+    }
+
+    return { created, updated }
+  }, { timeout: 120000 })
+}
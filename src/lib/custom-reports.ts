@@ -0,0 +1,1073 @@
+import { PrismaClient, Prisma, SavedReport, UserRole } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { CurrencyConverter, getCurrencyConfig, loadCurrencyConverter } from './currency'
+import { applicableGroupings, buildReportTable, ReportExportFormat } from './report-export'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+// Validation schema for custom report parameters
+export const customReportSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  reportType: z.enum([
+    'financial_summary',
+    'project_performance',
+    'team_productivity',
+    'client_analysis',
+    'time_tracking',
+    'budget_analysis',
+    'revenue_forecast',
+    'expense_breakdown',
+    'task_completion',
+    'custom_query'
+  ]),
+  parameters: z.object({
+    dateRange: z.object({
+      from: z.string().datetime(),
+      to: z.string().datetime(),
+    }),
+    filters: z.object({
+      clientIds: z.array(z.string()).optional(),
+      projectIds: z.array(z.string()).optional(),
+      userIds: z.array(z.string()).optional(),
+      categories: z.array(z.string()).optional(),
+      statuses: z.array(z.string()).optional(),
+      priorities: z.array(z.string()).optional(),
+      departments: z.array(z.string()).optional(),
+    }).optional(),
+    groupBy: z.array(z.enum([
+      'client',
+      'project',
+      'user',
+      'category',
+      'status',
+      'priority',
+      'department',
+      'date',
+      'week',
+      'month',
+      'quarter',
+      'year'
+    ])).optional(),
+    metrics: z.array(z.enum([
+      'revenue',
+      'expenses',
+      'profit',
+      'hours',
+      'tasks_completed',
+      'budget_utilization',
+      'client_satisfaction',
+      'team_efficiency',
+      'project_progress',
+      'cost_per_hour'
+    ])).optional(),
+    aggregations: z.array(z.enum(['sum', 'avg', 'count', 'min', 'max'])).optional(),
+    sortBy: z.string().optional(),
+    sortOrder: z.enum(['asc', 'desc']).default('desc'),
+    limit: z.number().min(1).max(1000).optional(),
+    includeSubtotals: z.boolean().default(false),
+    includeCharts: z.boolean().default(true),
+    customQuery: z.object({
+      tables: z.array(z.string()),
+      fields: z.array(z.string()),
+      joins: z.array(z.object({
+        table: z.string(),
+        on: z.string(),
+        type: z.enum(['INNER', 'LEFT', 'RIGHT', 'FULL']).default('LEFT'),
+      })).optional(),
+      conditions: z.record(z.any()),
+      having: z.record(z.any()).optional(),
+    }).optional(),
+  }),
+  format: z.enum(['json', 'csv', 'pdf', 'excel']).default('json'),
+  isPublic: z.boolean().default(false),
+  scheduleConfig: z.object({
+    enabled: z.boolean().default(false),
+    frequency: z.enum(['daily', 'weekly', 'monthly', 'quarterly']).optional(),
+    recipients: z.array(z.string().email()).optional(),
+    nextRun: z.string().datetime().optional(),
+  }).refine(
+    (schedule) => !schedule.enabled || (!!schedule.frequency && !!schedule.recipients?.length),
+    { message: 'Scheduled reports need a frequency and at least one recipient' }
+  ).optional(),
+})
+
+export const reportQuerySchema = z.object({
+  reportId: z.string().optional(),
+  reportType: z.string().optional(),
+  parameters: z.record(z.any()).optional(),
+  format: z.enum(['json', 'csv', 'pdf', 'excel']).default('json'),
+})
+
+export type CustomReportDefinition = z.infer<typeof customReportSchema>
+export type CustomReportFormat = CustomReportDefinition['format']
+
+interface ReportViewer {
+  id: string
+  role: UserRole
+}
+
+// Owners and admins manage a saved report; anyone else may only view and run it when it is public
+export function canEditSavedReport(report: Pick<SavedReport, 'createdBy'>, user: ReportViewer) {
+  return report.createdBy === user.id || user.role === 'ADMIN'
+}
+
+export function canViewSavedReport(report: Pick<SavedReport, 'createdBy' | 'isPublic'>, user: ReportViewer) {
+  return report.isPublic || canEditSavedReport(report, user)
+}
+
+// Columns duplicated out of the definition so saved reports can be filtered without parsing JSON
+export function savedReportColumns(definition: CustomReportDefinition) {
+  return {
+    name: definition.name,
+    description: definition.description ?? null,
+    reportType: definition.reportType,
+    format: definition.format,
+    isPublic: definition.isPublic,
+    definition: definition as Prisma.InputJsonValue,
+  }
+}
+
+// Apply a partial update on top of a stored definition and validate the result as a whole
+export function mergeReportDefinition(stored: Prisma.JsonValue, update: Partial<CustomReportDefinition>) {
+  const current = (stored ?? {}) as Record<string, unknown>
+  const merged = Object.fromEntries(
+    Object.entries({ ...current, ...update }).filter(([, value]) => value !== undefined)
+  )
+  return customReportSchema.parse(merged)
+}
+
+function countReportRows(reportData: any): number | null {
+  try {
+    return buildReportTable(reportData).rows.length
+  } catch {
+    return null
+  }
+}
+
+// Generate a saved report and record the run, including failures, in its history
+export async function runSavedReport(
+  report: SavedReport,
+  userId: string | null,
+  options: { format?: CustomReportFormat; dateRange?: { from: string; to: string } } = {},
+  db: Db = prisma
+) {
+  const definition = customReportSchema.parse(report.definition)
+  const runFormat = options.format || definition.format
+  const startedAt = Date.now()
+
+  try {
+    const reportData = await generateCustomReport(
+      {
+        reportType: definition.reportType,
+        parameters: {
+          ...definition.parameters,
+          ...(options.dateRange && { dateRange: options.dateRange }),
+          name: definition.name,
+        },
+        format: runFormat,
+      },
+      userId ?? report.createdBy
+    )
+
+    const run = await db.savedReportRun.create({
+      data: {
+        reportId: report.id,
+        runBy: userId,
+        format: runFormat,
+        status: 'SUCCESS',
+        rowCount: countReportRows(reportData),
+        durationMs: Date.now() - startedAt,
+      },
+    })
+    await db.savedReport.update({
+      where: { id: report.id },
+      data: { lastRunAt: run.createdAt, runCount: { increment: 1 } },
+    })
+
+    return { reportData, run, format: runFormat as ReportExportFormat | 'json' }
+  } catch (error) {
+    await db.savedReportRun.create({
+      data: {
+        reportId: report.id,
+        runBy: userId,
+        format: runFormat,
+        status: 'FAILED',
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    })
+    throw error
+  }
+}
+
+const EXPORT_BATCH_SIZE = 500
+
+// Keyset pagination over a report's records, in id order
+function exportBatch(after?: string) {
+  return {
+    orderBy: { id: 'asc' as const },
+    take: EXPORT_BATCH_SIZE,
+    ...(after && { cursor: { id: after }, skip: 1 }),
+  }
+}
+
+// Row-level reports whose export rows can be read a batch at a time. Each batch is a
+// slice of the report data holding only the report's rows.
+const BATCHED_REPORTS: Record<string, (
+  startDate: Date,
+  endDate: Date,
+  filters: any,
+  converter: CurrencyConverter,
+  after?: string
+) => Promise<{ data: any; ids: string[] }>> = {
+  time_tracking: async (startDate, endDate, filters, converter, after) => {
+    const entries = await prisma.timeEntry.findMany({
+      where: timeEntryWhere(startDate, endDate, filters),
+      include: timeEntryInclude,
+      ...exportBatch(after),
+    })
+    return { data: { timeEntries: entries.map(timeEntryRow) }, ids: entries.map((entry) => entry.id) }
+  },
+  expense_breakdown: async (startDate, endDate, filters, converter, after) => {
+    const expenses = inReportCurrency(await prisma.expense.findMany({
+      where: expenseWhere(startDate, endDate, filters),
+      include: expenseInclude,
+      ...exportBatch(after),
+    }), converter)
+    return { data: { expenses: expenses.map(expenseRow) }, ids: expenses.map((expense) => expense.id) }
+  },
+  task_completion: async (startDate, endDate, filters, converter, after) => {
+    const tasks = await prisma.task.findMany({
+      where: taskWhere(startDate, endDate, filters),
+      include: taskInclude,
+      ...exportBatch(after),
+    })
+    return { data: { tasks: tasks.map(taskRow) }, ids: tasks.map((task) => task.id) }
+  },
+}
+
+// Reads the rows of a CSV export straight from the database a batch at a time, for
+// streamReportCsvBatches. Returns null when the report has to be generated in full:
+// it is not row-level, or its rows are sorted or grouped.
+export function reportExportBatches(query: any): (() => Promise<any | null>) | null {
+  const { reportType, parameters } = query
+  const load = BATCHED_REPORTS[reportType]
+  if (!load || parameters.sortBy || applicableGroupings(reportType, parameters.groupBy).length > 0) {
+    return null
+  }
+
+  const { startDate, endDate } = reportDates(parameters)
+  let converter: CurrencyConverter | undefined
+  let after: string | undefined
+  let done = false
+
+  return async () => {
+    if (done) {
+      return null
+    }
+
+    converter = converter ?? await loadReportConverter()
+    const { data, ids } = await load(startDate, endDate, parameters.filters, converter, after)
+    done = ids.length < EXPORT_BATCH_SIZE
+    after = ids[ids.length - 1]
+    return ids.length > 0 ? data : null
+  }
+}
+
+function reportDates(parameters: any) {
+  return {
+    startDate: new Date(parameters.dateRange?.from || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)),
+    endDate: new Date(parameters.dateRange?.to || new Date()),
+  }
+}
+
+// Money in reports is in the agency's base currency, converted at the rate on each
+// record's date
+async function loadReportConverter() {
+  return loadCurrencyConverter((await getCurrencyConfig(prisma)).baseCurrency, prisma)
+}
+
+// Restate money records in the report currency at the rate on each record's date
+function inReportCurrency<T extends { amount: number; taxAmount: number; currency: string; date: Date }>(
+  records: T[],
+  converter: CurrencyConverter
+): T[] {
+  return records.map((record) => ({
+    ...record,
+    amount: converter.convert(record.amount, record.currency, record.date),
+    taxAmount: converter.convert(record.taxAmount, record.currency, record.date),
+    currency: converter.currency,
+  }))
+}
+
+// Budgets are restated at the rate on their start date
+function budgetsInReportCurrency<T extends { totalAmount: number; currency: string; startDate: Date }>(
+  budgets: T[],
+  converter: CurrencyConverter
+): T[] {
+  return budgets.map((budget) => ({
+    ...budget,
+    totalAmount: converter.convert(budget.totalAmount, budget.currency, budget.startDate),
+    currency: converter.currency,
+  }))
+}
+
+// Everything about a generated report except its data. Money is shown in the agency's
+// base currency.
+export async function reportHeader(query: any, userId: string) {
+  const { startDate, endDate } = reportDates(query.parameters)
+  return {
+    reportType: query.reportType,
+    generatedAt: new Date().toISOString(),
+    generatedBy: userId,
+    dateRange: { from: startDate.toISOString(), to: endDate.toISOString() },
+    parameters: query.parameters,
+    currency: (await getCurrencyConfig(prisma)).baseCurrency,
+  }
+}
+
+// Helper function to generate custom reports
+export async function generateCustomReport(query: any, userId: string) {
+  const { reportType, parameters, format } = query
+  const { filters, groupBy, metrics, aggregations, sortBy, sortOrder, limit } = parameters
+
+  const { startDate, endDate } = reportDates(parameters)
+
+  let reportData: any = await reportHeader(query, userId)
+  const converter = await loadCurrencyConverter(reportData.currency, prisma)
+
+  switch (reportType) {
+    case 'financial_summary':
+      reportData.data = await generateFinancialSummaryReport(startDate, endDate, filters, groupBy, converter)
+      break
+
+    case 'project_performance':
+      reportData.data = await generateProjectPerformanceReport(startDate, endDate, filters, groupBy, converter)
+      break
+
+    case 'team_productivity':
+      reportData.data = await generateTeamProductivityReport(startDate, endDate, filters, groupBy, converter)
+      break
+
+    case 'client_analysis':
+      reportData.data = await generateClientAnalysisReport(startDate, endDate, filters, groupBy, converter)
+      break
+
+    case 'time_tracking':
+      reportData.data = await generateTimeTrackingReport(startDate, endDate, filters, groupBy)
+      break
+
+    case 'budget_analysis':
+      reportData.data = await generateBudgetAnalysisReport(startDate, endDate, filters, groupBy, converter)
+      break
+
+    case 'revenue_forecast':
+      reportData.data = await generateRevenueForecastReport(startDate, endDate, filters, groupBy, converter)
+      break
+
+    case 'expense_breakdown':
+      reportData.data = await generateExpenseBreakdownReport(startDate, endDate, filters, groupBy, converter)
+      break
+
+    case 'task_completion':
+      reportData.data = await generateTaskCompletionReport(startDate, endDate, filters, groupBy)
+      break
+
+    case 'custom_query':
+      if (parameters.customQuery) {
+        reportData.data = await generateCustomQueryReport(parameters.customQuery, startDate, endDate)
+      } else {
+        throw new Error('Custom query parameters required')
+      }
+      break
+
+    default:
+      throw new Error('Invalid report type')
+  }
+
+  // Apply sorting and limiting
+  if (reportData.data?.rows && Array.isArray(reportData.data.rows)) {
+    if (sortBy) {
+      reportData.data.rows.sort((a: any, b: any) => {
+        const aVal = a[sortBy]
+        const bVal = b[sortBy]
+        const comparison = aVal < bVal ? -1 : aVal > bVal ? 1 : 0
+        return sortOrder === 'desc' ? -comparison : comparison
+      })
+    }
+
+    if (limit) {
+      reportData.data.rows = reportData.data.rows.slice(0, limit)
+    }
+  }
+
+  return reportData
+}
+
+// Financial Summary Report
+async function generateFinancialSummaryReport(startDate: Date, endDate: Date, filters: any, groupBy: string[], converter: CurrencyConverter) {
+  const [revenueRecords, expenseRecords, budgetRecords] = await Promise.all([
+    prisma.revenue.findMany({
+      where: {
+        date: { gte: startDate, lte: endDate },
+        ...(filters?.clientIds?.length && { clientId: { in: filters.clientIds } }),
+        ...(filters?.projectIds?.length && { projectId: { in: filters.projectIds } }),
+      },
+      include: {
+        client: { select: { id: true, name: true } },
+        project: { select: { id: true, name: true } },
+      },
+    }),
+    prisma.expense.findMany({
+      where: {
+        date: { gte: startDate, lte: endDate },
+        ...(filters?.userIds?.length && { userId: { in: filters.userIds } }),
+        ...(filters?.categories?.length && { category: { in: filters.categories } }),
+      },
+      include: {
+        user: { select: { id: true, name: true } },
+        project: { select: { id: true, name: true } },
+        client: { select: { id: true, name: true } },
+      },
+    }),
+    prisma.budget.findMany({
+      where: {
+        OR: [
+          { startDate: { lte: endDate }, endDate: { gte: startDate } },
+        ],
+        ...(filters?.clientIds?.length && { clientId: { in: filters.clientIds } }),
+        ...(filters?.projectIds?.length && { projectId: { in: filters.projectIds } }),
+      },
+      include: {
+        project: { select: { id: true, name: true } },
+        client: { select: { id: true, name: true } },
+      },
+    }),
+  ])
+  const revenues = inReportCurrency(revenueRecords, converter)
+  const expenses = inReportCurrency(expenseRecords, converter)
+  const budgets = budgetsInReportCurrency(budgetRecords, converter)
+
+  const totalRevenue = revenues.reduce((sum, r) => sum + r.amount + r.taxAmount, 0)
+  const totalExpenses = expenses.reduce((sum, e) => sum + e.amount + e.taxAmount, 0)
+  const totalBudget = budgets.reduce((sum, b) => sum + b.totalAmount, 0)
+  const profit = totalRevenue - totalExpenses
+  const profitMargin = totalRevenue > 0 ? (profit / totalRevenue) * 100 : 0
+
+  return {
+    summary: {
+      totalRevenue,
+      totalExpenses,
+      profit,
+      profitMargin,
+      totalBudget,
+      budgetUtilization: totalBudget > 0 ? (totalExpenses / totalBudget) * 100 : 0,
+    },
+    revenueByClient: groupDataByField(revenues, 'client.name', 'amount'),
+    expensesByCategory: groupDataByField(expenses, 'category', 'amount'),
+    monthlyTrends: groupDataByMonth(revenues, expenses, startDate, endDate),
+  }
+}
+
+// Project Performance Report
+async function generateProjectPerformanceReport(startDate: Date, endDate: Date, filters: any, groupBy: string[], converter: CurrencyConverter) {
+  const projects = await prisma.project.findMany({
+    where: {
+      createdAt: { gte: startDate, lte: endDate },
+      ...(filters?.clientIds?.length && { clientId: { in: filters.clientIds } }),
+      ...(filters?.statuses?.length && { status: { in: filters.statuses } }),
+    },
+    include: {
+      client: { select: { id: true, name: true } },
+      tasks: {
+        include: {
+          timeEntries: { select: { hours: true } },
+        },
+      },
+      revenues: {
+        where: { date: { gte: startDate, lte: endDate } },
+      },
+      expenses: {
+        where: { date: { gte: startDate, lte: endDate } },
+      },
+      budgets: true,
+    },
+  })
+
+  const projectMetrics = projects.map(record => {
+    const project = {
+      ...record,
+      revenues: inReportCurrency(record.revenues, converter),
+      expenses: inReportCurrency(record.expenses, converter),
+      budgets: budgetsInReportCurrency(record.budgets, converter),
+    }
+    const totalHours = project.tasks.reduce((sum, task) => 
+      sum + task.timeEntries.reduce((taskSum, entry) => taskSum + entry.hours, 0), 0
+    )
+    const totalRevenue = project.revenues.reduce((sum, r) => sum + r.amount + r.taxAmount, 0)
+    const totalExpenses = project.expenses.reduce((sum, e) => sum + e.amount + e.taxAmount, 0)
+    const totalBudget = project.budgets.reduce((sum, b) => sum + b.totalAmount, 0)
+    const completedTasks = project.tasks.filter(task => task.status === 'DONE').length
+    const totalTasks = project.tasks.length
+    const completionRate = totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0
+
+    return {
+      id: project.id,
+      name: project.name,
+      client: project.client?.name,
+      status: project.status,
+      totalHours,
+      totalRevenue,
+      totalExpenses,
+      profit: totalRevenue - totalExpenses,
+      totalBudget,
+      budgetUtilization: totalBudget > 0 ? (totalExpenses / totalBudget) * 100 : 0,
+      completionRate,
+      totalTasks,
+      completedTasks,
+      efficiency: totalHours > 0 ? totalRevenue / totalHours : 0,
+    }
+  })
+
+  return {
+    projects: projectMetrics,
+    summary: {
+      totalProjects: projects.length,
+      averageCompletionRate: projectMetrics.reduce((sum, p) => sum + p.completionRate, 0) / projects.length,
+      totalRevenue: projectMetrics.reduce((sum, p) => sum + p.totalRevenue, 0),
+      totalExpenses: projectMetrics.reduce((sum, p) => sum + p.totalExpenses, 0),
+      totalHours: projectMetrics.reduce((sum, p) => sum + p.totalHours, 0),
+    },
+  }
+}
+
+// Team Productivity Report
+async function generateTeamProductivityReport(startDate: Date, endDate: Date, filters: any, groupBy: string[], converter: CurrencyConverter) {
+  const users = await prisma.user.findMany({
+    where: {
+      role: { not: 'CLIENT' },
+      isActive: true,
+      ...(filters?.userIds?.length && { id: { in: filters.userIds } }),
+    },
+    include: {
+      assignedTasks: {
+        where: {
+          createdAt: { gte: startDate, lte: endDate },
+        },
+        include: {
+          timeEntries: {
+            where: {
+              date: { gte: startDate, lte: endDate },
+            },
+          },
+        },
+      },
+      timeEntries: {
+        where: {
+          date: { gte: startDate, lte: endDate },
+        },
+      },
+      expenses: {
+        where: {
+          date: { gte: startDate, lte: endDate },
+        },
+      },
+    },
+  })
+
+  const teamMetrics = users.map(user => {
+    const totalHours = user.timeEntries.reduce((sum, entry) => sum + entry.hours, 0)
+    const completedTasks = user.assignedTasks.filter(task => task.status === 'DONE').length
+    const totalTasks = user.assignedTasks.length
+    const completionRate = totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0
+    const totalExpenses = inReportCurrency(user.expenses, converter).reduce((sum, e) => sum + e.amount + e.taxAmount, 0)
+    const averageTaskTime = completedTasks > 0 ? totalHours / completedTasks : 0
+
+    return {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      department: user.department,
+      totalHours,
+      totalTasks,
+      completedTasks,
+      completionRate,
+      totalExpenses,
+      averageTaskTime,
+      productivity: totalHours > 0 ? completedTasks / totalHours : 0,
+    }
+  })
+
+  return {
+    teamMembers: teamMetrics,
+    summary: {
+      totalMembers: users.length,
+      totalHours: teamMetrics.reduce((sum, m) => sum + m.totalHours, 0),
+      totalTasks: teamMetrics.reduce((sum, m) => sum + m.totalTasks, 0),
+      totalCompletedTasks: teamMetrics.reduce((sum, m) => sum + m.completedTasks, 0),
+      averageCompletionRate: teamMetrics.reduce((sum, m) => sum + m.completionRate, 0) / users.length,
+      totalExpenses: teamMetrics.reduce((sum, m) => sum + m.totalExpenses, 0),
+    },
+  }
+}
+
+// Client Analysis Report
+async function generateClientAnalysisReport(startDate: Date, endDate: Date, filters: any, groupBy: string[], converter: CurrencyConverter) {
+  const clients = await prisma.client.findMany({
+    where: {
+      ...(filters?.clientIds?.length && { id: { in: filters.clientIds } }),
+      ...(filters?.statuses?.length && { status: { in: filters.statuses } }),
+    },
+    include: {
+      projects: {
+        include: {
+          tasks: {
+            include: {
+              timeEntries: {
+                where: { date: { gte: startDate, lte: endDate } },
+              },
+            },
+          },
+        },
+      },
+      revenues: {
+        where: { date: { gte: startDate, lte: endDate } },
+      },
+      expenses: {
+        where: { date: { gte: startDate, lte: endDate } },
+      },
+      budgets: true,
+    },
+  })
+
+  const clientMetrics = clients.map(client => {
+    const totalRevenue = inReportCurrency(client.revenues, converter).reduce((sum, r) => sum + r.amount + r.taxAmount, 0)
+    const totalExpenses = inReportCurrency(client.expenses, converter).reduce((sum, e) => sum + e.amount + e.taxAmount, 0)
+    const totalBudget = budgetsInReportCurrency(client.budgets, converter).reduce((sum, b) => sum + b.totalAmount, 0)
+    const totalProjects = client.projects.length
+    const activeProjects = client.projects.filter(p => p.status === 'ACTIVE').length
+    const completedProjects = client.projects.filter(p => p.status === 'COMPLETED').length
+    const totalHours = client.projects.reduce((sum, project) => 
+      sum + project.tasks.reduce((taskSum, task) => 
+        taskSum + task.timeEntries.reduce((entrySum, entry) => entrySum + entry.hours, 0), 0
+      ), 0
+    )
+
+    return {
+      id: client.id,
+      name: client.name,
+      email: client.email,
+      totalRevenue,
+      totalExpenses,
+      profit: totalRevenue - totalExpenses,
+      totalBudget,
+      totalProjects,
+      activeProjects,
+      completedProjects,
+      totalHours,
+      revenuePerHour: totalHours > 0 ? totalRevenue / totalHours : 0,
+      profitMargin: totalRevenue > 0 ? ((totalRevenue - totalExpenses) / totalRevenue) * 100 : 0,
+    }
+  })
+
+  return {
+    clients: clientMetrics,
+    summary: {
+      totalClients: clients.length,
+      totalRevenue: clientMetrics.reduce((sum, c) => sum + c.totalRevenue, 0),
+      totalExpenses: clientMetrics.reduce((sum, c) => sum + c.totalExpenses, 0),
+      totalProjects: clientMetrics.reduce((sum, c) => sum + c.totalProjects, 0),
+      averageProfitMargin: clientMetrics.reduce((sum, c) => sum + c.profitMargin, 0) / clients.length,
+    },
+  }
+}
+
+// Time Tracking Report
+function timeEntryWhere(startDate: Date, endDate: Date, filters: any): Prisma.TimeEntryWhereInput {
+  return {
+    date: { gte: startDate, lte: endDate },
+    ...(filters?.userIds?.length && { userId: { in: filters.userIds } }),
+    ...(filters?.projectIds?.length && { task: { projectId: { in: filters.projectIds } } }),
+  }
+}
+
+const timeEntryInclude = {
+  user: { select: { id: true, name: true, role: true } },
+  task: {
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      priority: true,
+      project: { select: { id: true, name: true } },
+    },
+  },
+}
+
+function timeEntryRow(entry: Prisma.TimeEntryGetPayload<{ include: typeof timeEntryInclude }>) {
+  return {
+    id: entry.id,
+    date: entry.date,
+    hours: entry.hours,
+    description: entry.description,
+    user: entry.user?.name,
+    task: entry.task?.title,
+    project: entry.task?.project?.name,
+  }
+}
+
+async function generateTimeTrackingReport(startDate: Date, endDate: Date, filters: any, groupBy: string[]) {
+  const timeEntries = await prisma.timeEntry.findMany({
+    where: timeEntryWhere(startDate, endDate, filters),
+    include: timeEntryInclude,
+  })
+
+  const dailyHours = groupDataByDate(timeEntries, 'date', 'hours')
+  const userHours = groupDataByField(timeEntries, 'user.name', 'hours')
+  const projectHours = groupDataByField(timeEntries, 'task.project.name', 'hours')
+
+  return {
+    timeEntries: timeEntries.map(timeEntryRow),
+    summary: {
+      totalHours: timeEntries.reduce((sum, entry) => sum + entry.hours, 0),
+      totalEntries: timeEntries.length,
+      averageHoursPerDay: Object.values(dailyHours).reduce((sum: number, hours: any) => sum + hours, 0) / Object.keys(dailyHours).length,
+      topUser: Object.entries(userHours).sort(([,a], [,b]) => (b as number) - (a as number))[0],
+      topProject: Object.entries(projectHours).sort(([,a], [,b]) => (b as number) - (a as number))[0],
+    },
+    charts: {
+      dailyHours,
+      userHours,
+      projectHours,
+    },
+  }
+}
+
+// Budget Analysis Report
+async function generateBudgetAnalysisReport(startDate: Date, endDate: Date, filters: any, groupBy: string[], converter: CurrencyConverter) {
+  const budgets = budgetsInReportCurrency(await prisma.budget.findMany({
+    where: {
+      OR: [
+        { startDate: { lte: endDate }, endDate: { gte: startDate } },
+      ],
+      ...(filters?.clientIds?.length && { clientId: { in: filters.clientIds } }),
+      ...(filters?.projectIds?.length && { projectId: { in: filters.projectIds } }),
+    },
+    include: {
+      project: { select: { id: true, name: true } },
+      client: { select: { id: true, name: true } },
+    },
+  }), converter)
+
+  const budgetAnalysis = await Promise.all(
+    budgets.map(async (budget) => {
+      const expenses = inReportCurrency(await prisma.expense.findMany({
+        where: {
+          date: { gte: budget.startDate, lte: budget.endDate },
+          ...(budget.projectId && { projectId: budget.projectId }),
+          ...(budget.clientId && { clientId: budget.clientId }),
+        },
+        select: { amount: true, taxAmount: true, currency: true, date: true },
+      }), converter)
+
+      const totalSpent = expenses.reduce((sum, e) => sum + e.amount + e.taxAmount, 0)
+      const utilization = budget.totalAmount > 0 ? (totalSpent / budget.totalAmount) * 100 : 0
+      const remaining = budget.totalAmount - totalSpent
+      const daysRemaining = Math.max(0, Math.ceil((budget.endDate.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)))
+      const dailyBurnRate = totalSpent > 0 ? totalSpent / Math.max(1, Math.ceil((new Date().getTime() - budget.startDate.getTime()) / (1000 * 60 * 60 * 24))) : 0
+      const projectedSpend = dailyBurnRate * daysRemaining
+      const projectedOverrun = Math.max(0, (totalSpent + projectedSpend) - budget.totalAmount)
+
+      return {
+        id: budget.id,
+        name: budget.name,
+        project: budget.project?.name,
+        client: budget.client?.name,
+        totalAmount: budget.totalAmount,
+        spent: totalSpent,
+        remaining,
+        utilization,
+        status: utilization > 100 ? 'OVER_BUDGET' : utilization > 80 ? 'AT_RISK' : 'ON_TRACK',
+        daysRemaining,
+        dailyBurnRate,
+        projectedSpend,
+        projectedOverrun,
+        categories: budget.categories,
+      }
+    })
+  )
+
+  return {
+    budgets: budgetAnalysis,
+    summary: {
+      totalBudgets: budgets.length,
+      totalAllocated: budgetAnalysis.reduce((sum, b) => sum + b.totalAmount, 0),
+      totalSpent: budgetAnalysis.reduce((sum, b) => sum + b.spent, 0),
+      averageUtilization: budgetAnalysis.reduce((sum, b) => sum + b.utilization, 0) / budgets.length,
+      overBudgetCount: budgetAnalysis.filter(b => b.status === 'OVER_BUDGET').length,
+      atRiskCount: budgetAnalysis.filter(b => b.status === 'AT_RISK').length,
+    },
+  }
+}
+
+// Revenue Forecast Report
+async function generateRevenueForecastReport(startDate: Date, endDate: Date, filters: any, groupBy: string[], converter: CurrencyConverter) {
+  // This is a simplified forecast based on historical data
+  const historicalRevenues = inReportCurrency(await prisma.revenue.findMany({
+    where: {
+      date: { gte: new Date(startDate.getTime() - 365 * 24 * 60 * 60 * 1000), lte: startDate },
+      ...(filters?.clientIds?.length && { clientId: { in: filters.clientIds } }),
+      ...(filters?.projectIds?.length && { projectId: { in: filters.projectIds } }),
+    },
+    include: {
+      client: { select: { id: true, name: true } },
+      project: { select: { id: true, name: true } },
+    },
+  }), converter)
+
+  const currentRevenues = inReportCurrency(await prisma.revenue.findMany({
+    where: {
+      date: { gte: startDate, lte: endDate },
+      ...(filters?.clientIds?.length && { clientId: { in: filters.clientIds } }),
+      ...(filters?.projectIds?.length && { projectId: { in: filters.projectIds } }),
+    },
+  }), converter)
+
+  const monthlyHistorical = groupDataByMonth(historicalRevenues, [], new Date(startDate.getTime() - 365 * 24 * 60 * 60 * 1000), startDate)
+  const monthlyCurrent = groupDataByMonth(currentRevenues, [], startDate, endDate)
+
+  // Simple linear regression for forecast
+  const historicalValues = Object.values(monthlyHistorical.revenues || {})
+  const averageGrowth = historicalValues.length > 1 ? 
+    (historicalValues[historicalValues.length - 1] - historicalValues[0]) / (historicalValues.length - 1) : 0
+
+  const forecastMonths = 6
+  const forecast = []
+  let lastValue = Object.values(monthlyCurrent.revenues || {})[0] || 0
+
+  for (let i = 1; i <= forecastMonths; i++) {
+    const forecastDate = new Date(endDate)
+    forecastDate.setMonth(forecastDate.getMonth() + i)
+    const forecastValue = Math.max(0, lastValue + (averageGrowth * i))
+    
+    forecast.push({
+      month: forecastDate.toISOString().substring(0, 7),
+      projected: forecastValue,
+      confidence: Math.max(0.3, 1 - (i * 0.1)), // Decreasing confidence over time
+    })
+  }
+
+  return {
+    historical: monthlyHistorical,
+    current: monthlyCurrent,
+    forecast,
+    summary: {
+      averageMonthlyGrowth: averageGrowth,
+      projectedTotal: forecast.reduce((sum, f) => sum + f.projected, 0),
+      confidenceLevel: forecast.reduce((sum, f) => sum + f.confidence, 0) / forecast.length,
+    },
+  }
+}
+
+// Expense Breakdown Report
+function expenseWhere(startDate: Date, endDate: Date, filters: any): Prisma.ExpenseWhereInput {
+  return {
+    date: { gte: startDate, lte: endDate },
+    ...(filters?.userIds?.length && { userId: { in: filters.userIds } }),
+    ...(filters?.categories?.length && { category: { in: filters.categories } }),
+    ...(filters?.statuses?.length && { status: { in: filters.statuses } }),
+  }
+}
+
+const expenseInclude = {
+  user: { select: { id: true, name: true } },
+  project: { select: { id: true, name: true } },
+  client: { select: { id: true, name: true } },
+}
+
+function expenseRow(expense: Prisma.ExpenseGetPayload<{ include: typeof expenseInclude }>) {
+  return {
+    id: expense.id,
+    date: expense.date,
+    amount: expense.amount + expense.taxAmount,
+    category: expense.category,
+    description: expense.description,
+    user: expense.user?.name,
+    project: expense.project?.name,
+    client: expense.client?.name,
+    status: expense.status,
+  }
+}
+
+async function generateExpenseBreakdownReport(startDate: Date, endDate: Date, filters: any, groupBy: string[], converter: CurrencyConverter) {
+  const expenses = inReportCurrency(await prisma.expense.findMany({
+    where: expenseWhere(startDate, endDate, filters),
+    include: expenseInclude,
+  }), converter)
+
+  const categoryBreakdown = groupDataByField(expenses, 'category', 'amount')
+  const userBreakdown = groupDataByField(expenses, 'user.name', 'amount')
+  const projectBreakdown = groupDataByField(expenses, 'project.name', 'amount')
+  const statusBreakdown = groupDataByField(expenses, 'status', 'amount')
+  const monthlyBreakdown = groupDataByMonth([], expenses, startDate, endDate)
+
+  return {
+    expenses: expenses.map(expenseRow),
+    breakdown: {
+      byCategory: categoryBreakdown,
+      byUser: userBreakdown,
+      byProject: projectBreakdown,
+      byStatus: statusBreakdown,
+      byMonth: monthlyBreakdown.expenses,
+    },
+    summary: {
+      totalExpenses: expenses.reduce((sum, e) => sum + e.amount + e.taxAmount, 0),
+      totalEntries: expenses.length,
+      averageExpense: expenses.length > 0 ? expenses.reduce((sum, e) => sum + e.amount + e.taxAmount, 0) / expenses.length : 0,
+      topCategory: Object.entries(categoryBreakdown).sort(([,a], [,b]) => (b as number) - (a as number))[0],
+      topUser: Object.entries(userBreakdown).sort(([,a], [,b]) => (b as number) - (a as number))[0],
+    },
+  }
+}
+
+// Task Completion Report
+function taskWhere(startDate: Date, endDate: Date, filters: any): Prisma.TaskWhereInput {
+  return {
+    createdAt: { gte: startDate, lte: endDate },
+    ...(filters?.userIds?.length && { assigneeId: { in: filters.userIds } }),
+    ...(filters?.projectIds?.length && { projectId: { in: filters.projectIds } }),
+    ...(filters?.statuses?.length && { status: { in: filters.statuses } }),
+    ...(filters?.priorities?.length && { priority: { in: filters.priorities } }),
+  }
+}
+
+const taskInclude = {
+  assignee: { select: { id: true, name: true } },
+  project: { select: { id: true, name: true } },
+  timeEntries: { select: { hours: true } },
+}
+
+function taskRow(task: Prisma.TaskGetPayload<{ include: typeof taskInclude }>) {
+  return {
+    id: task.id,
+    title: task.title,
+    status: task.status,
+    priority: task.priority,
+    assignedTo: task.assignee?.name,
+    project: task.project?.name,
+    createdAt: task.createdAt,
+    dueDate: task.dueDate,
+    completedAt: task.updatedAt,
+    totalHours: task.timeEntries.reduce((sum, entry) => sum + entry.hours, 0),
+    isOverdue: task.dueDate && new Date(task.dueDate) < new Date() && task.status !== 'DONE',
+  }
+}
+
+async function generateTaskCompletionReport(startDate: Date, endDate: Date, filters: any, groupBy: string[]) {
+  const tasks = await prisma.task.findMany({
+    where: taskWhere(startDate, endDate, filters),
+    include: taskInclude,
+  })
+
+  const statusBreakdown = groupDataByField(tasks, 'status', 'id')
+  const priorityBreakdown = groupDataByField(tasks, 'priority', 'id')
+  const userBreakdown = groupDataByField(tasks, 'assignee.name', 'id')
+  const projectBreakdown = groupDataByField(tasks, 'project.name', 'id')
+
+  const completedTasks = tasks.filter(task => task.status === 'DONE')
+  const overdueTasks = tasks.filter(task => task.dueDate && new Date(task.dueDate) < new Date() && task.status !== 'DONE')
+
+  return {
+    tasks: tasks.map(taskRow),
+    breakdown: {
+      byStatus: statusBreakdown,
+      byPriority: priorityBreakdown,
+      byUser: userBreakdown,
+      byProject: projectBreakdown,
+    },
+    summary: {
+      totalTasks: tasks.length,
+      completedTasks: completedTasks.length,
+      completionRate: tasks.length > 0 ? (completedTasks.length / tasks.length) * 100 : 0,
+      overdueTasks: overdueTasks.length,
+      averageCompletionTime: completedTasks.length > 0 ?
+      completedTasks.reduce((sum, task) => {
+        if (task.updatedAt && task.createdAt) {
+          return sum + (new Date(task.updatedAt).getTime() - new Date(task.createdAt).getTime())
+        }
+        return sum
+      }, 0) / completedTasks.length / (1000 * 60 * 60 * 24) : 0, // in days
+    },
+  }
+}
+
+// Custom Query Report
+async function generateCustomQueryReport(customQuery: any, startDate: Date, endDate: Date) {
+  // This is a simplified implementation
+  // In a real application, you'd implement proper query building with security measures
+  return {
+    message: 'Custom query execution is not fully implemented in this demo',
+    query: customQuery,
+    data: [],
+  }
+}
+
+// Helper functions
+function groupDataByField(data: any[], fieldPath: string, valueField: string) {
+  return data.reduce((acc, item) => {
+    const fieldValue = getNestedValue(item, fieldPath) || 'Unknown'
+    const value = valueField === 'id' ? 1 : (getNestedValue(item, valueField) || 0)
+    acc[fieldValue] = (acc[fieldValue] || 0) + value
+    return acc
+  }, {} as Record<string, number>)
+}
+
+function groupDataByDate(data: any[], dateField: string, valueField: string) {
+  return data.reduce((acc, item) => {
+    const date = new Date(item[dateField]).toISOString().split('T')[0]
+    const value = item[valueField] || 0
+    acc[date] = (acc[date] || 0) + value
+    return acc
+  }, {} as Record<string, number>)
+}
+
+function groupDataByMonth(revenues: any[], expenses: any[], startDate: Date, endDate: Date) {
+  const months: Record<string, { revenues: number; expenses: number }> = {}
+  
+  // Initialize months
+  const current = new Date(startDate)
+  while (current <= endDate) {
+    const monthKey = current.toISOString().substring(0, 7)
+    months[monthKey] = { revenues: 0, expenses: 0 }
+    current.setMonth(current.getMonth() + 1)
+  }
+
+  // Group revenues
+  revenues.forEach(revenue => {
+    const monthKey = new Date(revenue.date).toISOString().substring(0, 7)
+    if (months[monthKey]) {
+      months[monthKey].revenues += revenue.amount + revenue.taxAmount
+    }
+  })
+
+  // Group expenses
+  expenses.forEach(expense => {
+    const monthKey = new Date(expense.date).toISOString().substring(0, 7)
+    if (months[monthKey]) {
+      months[monthKey].expenses += expense.amount + expense.taxAmount
+    }
+  })
+
+  return {
+    revenues: Object.fromEntries(Object.entries(months).map(([key, value]) => [key, value.revenues])),
+    expenses: Object.fromEntries(Object.entries(months).map(([key, value]) => [key, value.expenses])),
+    profit: Object.fromEntries(Object.entries(months).map(([key, value]) => [key, value.revenues - value.expenses])),
+  }
+}
+
+function getNestedValue(obj: any, path: string) {
+  return path.split('.').reduce((current, key) => current?.[key], obj)
+}
\ No newline at end of file
@@ -0,0 +1,228 @@
+// Languages invoices and proposals can be rendered in, with the labels printed on them
+export const DOCUMENT_LANGUAGES = ['en', 'de', 'fr', 'es', 'nl'] as const
+
+export type DocumentLanguage = typeof DOCUMENT_LANGUAGES[number]
+
+export interface DocumentLabels {
+  locale: string
+  invoice: string
+  draftInvoice: string
+  creditNote: string
+  proposal: string
+  number: string
+  issueDate: string
+  dueDate: string
+  validUntil: string
+  billTo: string
+  preparedFor: string
+  attention: string
+  project: string
+  creditFor: string
+  description: string
+  quantity: string
+  unitPrice: string
+  amount: string
+  subtotal: string
+  discount: string
+  tax: string
+  total: string
+  paid: string
+  refunded: string
+  credited: string
+  balanceDue: string
+  payments: string
+  refund: string
+  notes: string
+  terms: string
+  taxId: string
+  bankDetails: string
+  page: string
+  of: string
+}
+
+export const DOCUMENT_LABELS: Record<DocumentLanguage, DocumentLabels> = {
+  en: {
+    locale: 'en-US',
+    invoice: 'Invoice',
+    draftInvoice: 'Draft invoice',
+    creditNote: 'Credit note',
+    proposal: 'Proposal',
+    number: 'Number',
+    issueDate: 'Issue date',
+    dueDate: 'Due date',
+    validUntil: 'Valid until',
+    billTo: 'Bill to',
+    preparedFor: 'Prepared for',
+    attention: 'Attn.',
+    project: 'Project',
+    creditFor: 'Credit for invoice',
+    description: 'Description',
+    quantity: 'Qty',
+    unitPrice: 'Unit price',
+    amount: 'Amount',
+    subtotal: 'Subtotal',
+    discount: 'Discount',
+    tax: 'Tax',
+    total: 'Total',
+    paid: 'Paid',
+    refunded: 'Refunded',
+    credited: 'Credited',
+    balanceDue: 'Balance due',
+    payments: 'Payments',
+    refund: 'Refund',
+    notes: 'Notes',
+    terms: 'Terms',
+    taxId: 'Tax ID',
+    bankDetails: 'Bank details',
+    page: 'Page',
+    of: 'of',
+  },
+  de: {
+    locale: 'de-DE',
+    invoice: 'Rechnung',
+    draftInvoice: 'Rechnungsentwurf',
+    creditNote: 'Gutschrift',
+    proposal: 'Angebot',
+    number: 'Nummer',
+    issueDate: 'Rechnungsdatum',
+    dueDate: 'Fällig am',
+    validUntil: 'Gültig bis',
+    billTo: 'Rechnungsempfänger',
+    preparedFor: 'Erstellt für',
+    attention: 'z. Hd.',
+    project: 'Projekt',
+    creditFor: 'Gutschrift zu Rechnung',
+    description: 'Beschreibung',
+    quantity: 'Menge',
+    unitPrice: 'Einzelpreis',
+    amount: 'Betrag',
+    subtotal: 'Zwischensumme',
+    discount: 'Rabatt',
+    tax: 'MwSt.',
+    total: 'Gesamt',
+    paid: 'Bezahlt',
+    refunded: 'Erstattet',
+    credited: 'Gutgeschrieben',
+    balanceDue: 'Offener Betrag',
+    payments: 'Zahlungen',
+    refund: 'Erstattung',
+    notes: 'Hinweise',
+    terms: 'Bedingungen',
+    taxId: 'USt-IdNr.',
+    bankDetails: 'Bankverbindung',
+    page: 'Seite',
+    of: 'von',
+  },
+  fr: {
+    locale: 'fr-FR',
+    invoice: 'Facture',
+    draftInvoice: 'Projet de facture',
+    creditNote: 'Avoir',
+    proposal: 'Proposition',
+    number: 'Numéro',
+    issueDate: "Date d'émission",
+    dueDate: "Date d'échéance",
+    validUntil: "Valable jusqu'au",
+    billTo: 'Facturer à',
+    preparedFor: 'Préparé pour',
+    attention: "À l'att. de",
+    project: 'Projet',
+    creditFor: 'Avoir sur la facture',
+    description: 'Description',
+    quantity: 'Qté',
+    unitPrice: 'Prix unitaire',
+    amount: 'Montant',
+    subtotal: 'Sous-total',
+    discount: 'Remise',
+    tax: 'TVA',
+    total: 'Total',
+    paid: 'Payé',
+    refunded: 'Remboursé',
+    credited: 'Crédité',
+    balanceDue: 'Solde dû',
+    payments: 'Paiements',
+    refund: 'Remboursement',
+    notes: 'Remarques',
+    terms: 'Conditions',
+    taxId: 'N° TVA',
+    bankDetails: 'Coordonnées bancaires',
+    page: 'Page',
+    of: 'sur',
+  },
+  es: {
+    locale: 'es-ES',
+    invoice: 'Factura',
+    draftInvoice: 'Borrador de factura',
+    creditNote: 'Nota de crédito',
+    proposal: 'Propuesta',
+    number: 'Número',
+    issueDate: 'Fecha de emisión',
+    dueDate: 'Fecha de vencimiento',
+    validUntil: 'Válida hasta',
+    billTo: 'Facturar a',
+    preparedFor: 'Preparada para',
+    attention: 'A la att. de',
+    project: 'Proyecto',
+    creditFor: 'Abono de la factura',
+    description: 'Descripción',
+    quantity: 'Cant.',
+    unitPrice: 'Precio unitario',
+    amount: 'Importe',
+    subtotal: 'Subtotal',
+    discount: 'Descuento',
+    tax: 'IVA',
+    total: 'Total',
+    paid: 'Pagado',
+    refunded: 'Reembolsado',
+    credited: 'Abonado',
+    balanceDue: 'Saldo pendiente',
+    payments: 'Pagos',
+    refund: 'Reembolso',
+    notes: 'Notas',
+    terms: 'Condiciones',
+    taxId: 'NIF',
+    bankDetails: 'Datos bancarios',
+    page: 'Página',
+    of: 'de',
+  },
+  nl: {
+    locale: 'nl-NL',
+    invoice: 'Factuur',
+    draftInvoice: 'Conceptfactuur',
+    creditNote: 'Creditnota',
+    proposal: 'Offerte',
+    number: 'Nummer',
+    issueDate: 'Factuurdatum',
+    dueDate: 'Vervaldatum',
+    validUntil: 'Geldig tot',
+    billTo: 'Factuur aan',
+    preparedFor: 'Opgesteld voor',
+    attention: 't.a.v.',
+    project: 'Project',
+    creditFor: 'Creditering van factuur',
+    description: 'Omschrijving',
+    quantity: 'Aantal',
+    unitPrice: 'Stukprijs',
+    amount: 'Bedrag',
+    subtotal: 'Subtotaal',
+    discount: 'Korting',
+    tax: 'Btw',
+    total: 'Totaal',
+    paid: 'Betaald',
+    refunded: 'Terugbetaald',
+    credited: 'Gecrediteerd',
+    balanceDue: 'Openstaand bedrag',
+    payments: 'Betalingen',
+    refund: 'Terugbetaling',
+    notes: 'Opmerkingen',
+    terms: 'Voorwaarden',
+    taxId: 'Btw-nummer',
+    bankDetails: 'Bankgegevens',
+    page: 'Pagina',
+    of: 'van',
+  },
+}
+
+export function isDocumentLanguage(value: string | null | undefined): value is DocumentLanguage {
+  return !!value && (DOCUMENT_LANGUAGES as readonly string[]).includes(value)
+}
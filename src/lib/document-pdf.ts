@@ -0,0 +1,501 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from 'pdf-lib'
+import { prisma } from './prisma'
+import { BrandingConfig, getBrandingConfig } from './branding'
+import { DOCUMENT_LABELS, DocumentLabels, DocumentLanguage, isDocumentLanguage } from './document-labels'
+import { summarizeInvoiceBalance } from './invoice-payments'
+import { proposalItemOrderBy } from './proposals'
+import { fitText, pdfText } from './report-export'
+import { getAgencyTimeZone } from './timezone'
+import { roundMoney } from './utils'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+export interface RenderedDocument {
+  body: Uint8Array
+  contentType: 'application/pdf'
+  fileName: string
+}
+
+interface DocumentLine {
+  description: string
+  quantity: number
+  unitPrice: number
+  totalPrice: number
+}
+
+interface DocumentTotal {
+  label: string
+  value: number
+  emphasis?: boolean
+}
+
+// Everything printed on a client document, already translated and in display order
+interface DocumentModel {
+  title: string
+  subtitle: string | null
+  currency: string
+  meta: [string, string][]
+  recipientLabel: string
+  recipient: string[]
+  items: DocumentLine[]
+  totals: DocumentTotal[]
+  payments: [string, string, number][]
+  sections: { title: string; body: string }[]
+}
+
+// A4 portrait
+const PAGE_WIDTH = 595
+const PAGE_HEIGHT = 842
+const MARGIN = 50
+const FOOTER_HEIGHT = 64
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN
+const GREY = rgb(0.4, 0.4, 0.4)
+const LIGHT_GREY = rgb(0.85, 0.85, 0.85)
+
+// Language for a client's documents: the one asked for, else the client's, else English
+export function resolveDocumentLanguage(requested: string | null | undefined, clientLanguage: string | null | undefined): DocumentLanguage {
+  if (isDocumentLanguage(requested)) return requested
+  if (isDocumentLanguage(clientLanguage)) return clientLanguage
+  return 'en'
+}
+
+function hexColor(hex: string) {
+  const value = parseInt(hex.slice(1), 16)
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255)
+}
+
+// Amounts are printed as plain numbers; the currency code is shown on the grand total
+function formatMoney(amount: number, labels: DocumentLabels, currency?: string) {
+  return new Intl.NumberFormat(labels.locale, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+    ...(currency && { style: 'currency', currency, currencyDisplay: 'code' }),
+  }).format(amount)
+}
+
+function formatQuantity(quantity: number, labels: DocumentLabels) {
+  return new Intl.NumberFormat(labels.locale, { maximumFractionDigits: 2 }).format(quantity)
+}
+
+function formatDate(date: Date, labels: DocumentLabels, timeZone: string) {
+  return new Intl.DateTimeFormat(labels.locale, { dateStyle: 'medium', timeZone }).format(date)
+}
+
+function safeFileName(name: string) {
+  return `${name.replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'document'}.pdf`
+}
+
+// Break text into lines that fit the width, keeping the author's line breaks
+function wrapText(text: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = []
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = ''
+    for (const word of pdfText(paragraph).split(' ')) {
+      const candidate = line ? `${line} ${word}` : word
+      if (line && font.widthOfTextAtSize(candidate, size) > width) {
+        lines.push(fitText(line, font, size, width))
+        line = word
+      } else {
+        line = candidate
+      }
+    }
+    lines.push(fitText(line, font, size, width))
+  }
+
+  return lines
+}
+
+async function embedLogo(doc: PDFDocument, logo: string | null): Promise<PDFImage | null> {
+  if (!logo) return null
+
+  try {
+    const [header, data] = logo.split(',', 2)
+    const bytes = Uint8Array.from(Buffer.from(data, 'base64'))
+    return header.includes('image/png') ? await doc.embedPng(bytes) : await doc.embedJpg(bytes)
+  } catch (error) {
+    console.error('Could not embed the branding logo:', error)
+    return null
+  }
+}
+
+// Lay a document out on A4 pages: letterhead, recipient and details, line items with a
+// header repeated on each page, totals, payments and free-text sections, then the footer
+// (bank details, tax ID, terms and page numbers) on every page
+async function renderDocumentPdf(model: DocumentModel, branding: BrandingConfig, labels: DocumentLabels): Promise<Uint8Array> {
+  const doc = await PDFDocument.create()
+  doc.setTitle(pdfText(model.subtitle ? `${model.title} ${model.subtitle}` : model.title))
+  doc.setAuthor(pdfText(branding.agencyName))
+  doc.setCreator('AgencyCRM')
+
+  const fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+  }
+  const accent = hexColor(branding.accentColor)
+  const logo = await embedLogo(doc, branding.logo)
+
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let y = PAGE_HEIGHT - MARGIN
+
+  const newPage = () => {
+    page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    y = PAGE_HEIGHT - MARGIN
+  }
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN + FOOTER_HEIGHT) {
+      newPage()
+      return true
+    }
+    return false
+  }
+
+  const drawRight = (text: string, right: number, top: number, size: number, font: PDFFont, color = rgb(0, 0, 0)) => {
+    const value = pdfText(text)
+    page.drawText(value, { x: right - font.widthOfTextAtSize(value, size), y: top, size, font, color })
+  }
+
+  // Letterhead: logo on the left, agency details on the right
+  let letterheadBottom = y
+  if (logo) {
+    const scaled = logo.scaleToFit(160, 50)
+    page.drawImage(logo, { x: MARGIN, y: y - scaled.height, width: scaled.width, height: scaled.height })
+    letterheadBottom = y - scaled.height
+  } else {
+    page.drawText(fitText(branding.agencyName, fonts.bold, 16, 260), { x: MARGIN, y: y - 16, size: 16, font: fonts.bold, color: accent })
+    letterheadBottom = y - 16
+  }
+
+  const agencyLines = [
+    ...(branding.address ? branding.address.split(/\r?\n/) : []),
+    ...[branding.email, branding.phone, branding.website].filter((value): value is string => !!value),
+  ]
+  let agencyY = y - 9
+  drawRight(branding.agencyName, PAGE_WIDTH - MARGIN, agencyY, 9, fonts.bold)
+  for (const line of agencyLines) {
+    agencyY -= 12
+    drawRight(fitText(line, fonts.regular, 8, 220), PAGE_WIDTH - MARGIN, agencyY, 8, fonts.regular, GREY)
+  }
+  y = Math.min(letterheadBottom, agencyY) - 36
+
+  // Title
+  page.drawText(pdfText(model.title), { x: MARGIN, y, size: 22, font: fonts.bold, color: accent })
+  y -= 18
+  if (model.subtitle) {
+    for (const line of wrapText(model.subtitle, fonts.regular, 11, CONTENT_WIDTH)) {
+      page.drawText(line, { x: MARGIN, y, size: 11, font: fonts.regular })
+      y -= 14
+    }
+  }
+  y -= 14
+
+  // Recipient on the left, document details on the right
+  const blockTop = y
+  page.drawText(pdfText(model.recipientLabel).toUpperCase(), { x: MARGIN, y, size: 8, font: fonts.bold, color: GREY })
+  let recipientY = y - 14
+  model.recipient.forEach((line, index) => {
+    const font = index === 0 ? fonts.bold : fonts.regular
+    for (const wrapped of wrapText(line, font, 10, 250)) {
+      page.drawText(wrapped, { x: MARGIN, y: recipientY, size: 10, font })
+      recipientY -= 13
+    }
+  })
+
+  let metaY = blockTop
+  const metaLabelX = PAGE_WIDTH - MARGIN - 220
+  for (const [label, value] of model.meta) {
+    page.drawText(fitText(label, fonts.regular, 9, 100), { x: metaLabelX, y: metaY, size: 9, font: fonts.regular, color: GREY })
+    drawRight(fitText(value, fonts.bold, 9, 115), PAGE_WIDTH - MARGIN, metaY, 9, fonts.bold)
+    metaY -= 14
+  }
+  y = Math.min(recipientY, metaY) - 20
+
+  // Line items
+  const columns = [
+    { label: labels.description, width: CONTENT_WIDTH - 240, align: 'left' as const },
+    { label: labels.quantity, width: 50, align: 'right' as const },
+    { label: labels.unitPrice, width: 95, align: 'right' as const },
+    { label: labels.amount, width: 95, align: 'right' as const },
+  ]
+
+  const drawItemHeader = () => {
+    page.drawRectangle({ x: MARGIN, y: y - 6, width: CONTENT_WIDTH, height: 20, color: accent, opacity: 0.12 })
+    let x = MARGIN
+    columns.forEach((column) => {
+      if (column.align === 'right') {
+        drawRight(column.label, x + column.width - 6, y, 9, fonts.bold)
+      } else {
+        page.drawText(pdfText(column.label), { x: x + 6, y, size: 9, font: fonts.bold })
+      }
+      x += column.width
+    })
+    y -= 22
+  }
+
+  ensureSpace(60)
+  drawItemHeader()
+
+  for (const item of model.items) {
+    const descriptionLines = wrapText(item.description, fonts.regular, 9, columns[0].width - 12)
+    const rowHeight = descriptionLines.length * 12 + 6
+    if (ensureSpace(rowHeight)) {
+      drawItemHeader()
+    }
+
+    descriptionLines.forEach((line, index) => {
+      page.drawText(line, { x: MARGIN + 6, y: y - index * 12, size: 9, font: fonts.regular })
+    })
+    const values = [formatQuantity(item.quantity, labels), formatMoney(item.unitPrice, labels), formatMoney(item.totalPrice, labels)]
+    let x = MARGIN + columns[0].width
+    values.forEach((value, index) => {
+      const column = columns[index + 1]
+      drawRight(value, x + column.width - 6, y, 9, fonts.regular)
+      x += column.width
+    })
+
+    y -= rowHeight
+    page.drawLine({ start: { x: MARGIN, y: y + 8 }, end: { x: PAGE_WIDTH - MARGIN, y: y + 8 }, thickness: 0.5, color: LIGHT_GREY })
+  }
+
+  // Totals, right-aligned under the amount column
+  y -= 8
+  ensureSpace(model.totals.length * 16 + 10)
+  const totalsLabelX = PAGE_WIDTH - MARGIN - 230
+  for (const total of model.totals) {
+    const font = total.emphasis ? fonts.bold : fonts.regular
+    const size = total.emphasis ? 11 : 9
+    if (total.emphasis) {
+      page.drawLine({ start: { x: totalsLabelX, y: y + 13 }, end: { x: PAGE_WIDTH - MARGIN, y: y + 13 }, thickness: 0.75, color: accent })
+    }
+    page.drawText(pdfText(total.label), { x: totalsLabelX, y, size, font })
+    drawRight(formatMoney(total.value, labels, total.emphasis ? model.currency : undefined), PAGE_WIDTH - MARGIN - 6, y, size, font, total.emphasis ? accent : rgb(0, 0, 0))
+    y -= total.emphasis ? 20 : 15
+  }
+
+  // Payments received so far
+  if (model.payments.length > 0) {
+    y -= 10
+    ensureSpace(30)
+    page.drawText(pdfText(labels.payments), { x: MARGIN, y, size: 10, font: fonts.bold })
+    y -= 15
+    for (const [date, description, amount] of model.payments) {
+      ensureSpace(14)
+      page.drawText(pdfText(date), { x: MARGIN, y, size: 9, font: fonts.regular, color: GREY })
+      page.drawText(fitText(description, fonts.regular, 9, 250), { x: MARGIN + 110, y, size: 9, font: fonts.regular })
+      drawRight(formatMoney(amount, labels), PAGE_WIDTH - MARGIN - 6, y, 9, fonts.regular)
+      y -= 13
+    }
+  }
+
+  // Free-text sections (proposal body, notes, terms)
+  for (const section of model.sections) {
+    y -= 14
+    ensureSpace(40)
+    page.drawText(pdfText(section.title), { x: MARGIN, y, size: 10, font: fonts.bold })
+    y -= 15
+    for (const line of wrapText(section.body, fonts.regular, 9, CONTENT_WIDTH)) {
+      ensureSpace(12)
+      page.drawText(line, { x: MARGIN, y, size: 9, font: fonts.regular })
+      y -= 12
+    }
+  }
+
+  // Footer on every page
+  const footerLines = [
+    [
+      branding.bankDetails ? `${labels.bankDetails}: ${branding.bankDetails.replace(/\r?\n/g, ' | ')}` : null,
+      branding.taxId ? `${labels.taxId}: ${branding.taxId}` : null,
+    ].filter(Boolean).join('   '),
+    ...(branding.footerTerms ? wrapText(branding.footerTerms, fonts.regular, 7, CONTENT_WIDTH).slice(0, 2) : []),
+  ].filter((line) => line.length > 0)
+
+  const pages = doc.getPages()
+  pages.forEach((current, index) => {
+    current.drawLine({
+      start: { x: MARGIN, y: MARGIN + FOOTER_HEIGHT - 20 },
+      end: { x: PAGE_WIDTH - MARGIN, y: MARGIN + FOOTER_HEIGHT - 20 },
+      thickness: 0.5,
+      color: LIGHT_GREY,
+    })
+    footerLines.forEach((line, lineIndex) => {
+      current.drawText(fitText(line, fonts.regular, 7, CONTENT_WIDTH), {
+        x: MARGIN,
+        y: MARGIN + FOOTER_HEIGHT - 32 - lineIndex * 10,
+        size: 7,
+        font: fonts.regular,
+        color: GREY,
+      })
+    })
+    const label = pdfText(`${labels.page} ${index + 1} ${labels.of} ${pages.length}`)
+    current.drawText(label, {
+      x: PAGE_WIDTH - MARGIN - fonts.regular.widthOfTextAtSize(label, 7),
+      y: MARGIN / 2,
+      size: 7,
+      font: fonts.regular,
+      color: GREY,
+    })
+  })
+
+  return doc.save()
+}
+
+function recipientLines(
+  client: { name: string; company: string; email: string; address: string | null },
+  contact: { name: string } | null,
+  labels: DocumentLabels
+) {
+  return [
+    client.company || client.name,
+    ...(contact ? [`${labels.attention} ${contact.name}`] : []),
+    ...(client.address ? client.address.split(/\r?\n/) : []),
+    client.email,
+  ]
+}
+
+const documentClientSelect = {
+  select: { name: true, company: true, email: true, address: true, language: true },
+}
+
+// Render an invoice or credit note as a PDF, or return null when it does not exist (or
+// falls outside `where`, which callers use to limit portal users to their own invoices)
+export async function renderInvoicePdf(
+  invoiceId: string,
+  options: { language?: string | null; where?: Prisma.InvoiceWhereInput } = {},
+  db: Db = prisma
+): Promise<RenderedDocument | null> {
+  const invoice = await db.invoice.findFirst({
+    where: { ...options.where, id: invoiceId },
+    include: {
+      client: documentClientSelect,
+      recipientContact: { select: { name: true } },
+      project: { select: { name: true } },
+      creditedInvoice: { select: { invoiceNumber: true } },
+      items: { orderBy: { createdAt: 'asc' } },
+      payments: { orderBy: { paymentDate: 'asc' } },
+      creditNotes: { select: { totalAmount: true } },
+    },
+  })
+
+  if (!invoice) {
+    return null
+  }
+
+  const [branding, timeZone] = await Promise.all([getBrandingConfig(db), getAgencyTimeZone(db)])
+  const labels = DOCUMENT_LABELS[resolveDocumentLanguage(options.language, invoice.client.language)]
+  const isCreditNote = invoice.type === 'CREDIT_NOTE'
+  const date = (value: Date) => formatDate(value, labels, timeZone)
+
+  const meta: [string, string][] = [
+    [labels.number, invoice.invoiceNumber ?? '-'],
+    [labels.issueDate, date(invoice.issueDate)],
+  ]
+  if (!isCreditNote) meta.push([labels.dueDate, date(invoice.dueDate)])
+  if (invoice.creditedInvoice?.invoiceNumber) meta.push([labels.creditFor, invoice.creditedInvoice.invoiceNumber])
+  if (invoice.project) meta.push([labels.project, invoice.project.name])
+
+  const totals: DocumentTotal[] = [
+    { label: labels.subtotal, value: invoice.amount },
+    { label: labels.tax, value: invoice.taxAmount },
+    { label: labels.total, value: invoice.totalAmount, emphasis: isCreditNote },
+  ]
+
+  if (!isCreditNote) {
+    const balance = summarizeInvoiceBalance(invoice)
+    if (balance.amountPaid !== 0) totals.push({ label: labels.paid, value: -balance.amountPaid })
+    if (balance.amountCredited > 0) totals.push({ label: labels.credited, value: -balance.amountCredited })
+    totals.push({ label: labels.balanceDue, value: balance.balanceDue, emphasis: true })
+  }
+
+  const model: DocumentModel = {
+    title: isCreditNote ? labels.creditNote : invoice.invoiceNumber ? labels.invoice : labels.draftInvoice,
+    subtitle: invoice.invoiceNumber,
+    currency: invoice.currency,
+    meta,
+    recipientLabel: labels.billTo,
+    recipient: recipientLines(invoice.client, invoice.recipientContact, labels),
+    items: invoice.items,
+    totals,
+    payments: invoice.payments.map((payment) => [
+      date(payment.paymentDate),
+      [payment.type === 'REFUND' ? labels.refund : null, payment.paymentMethod, payment.transactionId]
+        .filter(Boolean)
+        .join(' - ') || labels.paid,
+      payment.type === 'REFUND' ? -payment.amount : payment.amount,
+    ]),
+    sections: invoice.notes ? [{ title: labels.notes, body: invoice.notes }] : [],
+  }
+
+  return {
+    body: await renderDocumentPdf(model, branding, labels),
+    contentType: 'application/pdf',
+    fileName: safeFileName(invoice.invoiceNumber ?? `draft-invoice-${invoice.id}`),
+  }
+}
+
+// Render a proposal as a PDF, or return null when it does not exist (or falls outside `where`)
+export async function renderProposalPdf(
+  proposalId: string,
+  options: { language?: string | null; where?: Prisma.ProposalWhereInput } = {},
+  db: Db = prisma
+): Promise<RenderedDocument | null> {
+  const proposal = await db.proposal.findFirst({
+    where: { ...options.where, id: proposalId },
+    include: {
+      client: documentClientSelect,
+      recipientContact: { select: { name: true } },
+      project: { select: { name: true } },
+      items: { orderBy: proposalItemOrderBy },
+    },
+  })
+
+  if (!proposal) {
+    return null
+  }
+
+  const [branding, timeZone] = await Promise.all([getBrandingConfig(db), getAgencyTimeZone(db)])
+  const labels = DOCUMENT_LABELS[resolveDocumentLanguage(options.language, proposal.client.language)]
+  const date = (value: Date) => formatDate(value, labels, timeZone)
+
+  const meta: [string, string][] = [[labels.issueDate, date(proposal.sentAt ?? proposal.createdAt)]]
+  if (proposal.validUntil) meta.push([labels.validUntil, date(proposal.validUntil)])
+  if (proposal.project) meta.push([labels.project, proposal.project.name])
+
+  const totals: DocumentTotal[] = [{ label: labels.subtotal, value: proposal.subtotal }]
+  if (proposal.discountAmount > 0) {
+    totals.push({ label: `${labels.discount} (${roundMoney(proposal.discountRate * 100)}%)`, value: -proposal.discountAmount })
+  }
+  totals.push(
+    // The proposal's own rate is only shown when every item is taxed at it
+    {
+      label: proposal.items.some((item) => item.taxRate !== null)
+        ? labels.tax
+        : `${labels.tax} (${roundMoney(proposal.taxRate * 100)}%)`,
+      value: proposal.taxAmount,
+    },
+    { label: labels.total, value: proposal.totalAmount, emphasis: true }
+  )
+
+  const model: DocumentModel = {
+    title: labels.proposal,
+    subtitle: proposal.title,
+    currency: proposal.currency,
+    meta,
+    recipientLabel: labels.preparedFor,
+    recipient: recipientLines(proposal.client, proposal.recipientContact, labels),
+    items: proposal.items,
+    totals,
+    payments: [],
+    sections: [
+      ...(proposal.content ? [{ title: labels.description, body: proposal.content }] : []),
+      ...(proposal.terms ? [{ title: labels.terms, body: proposal.terms }] : []),
+    ],
+  }
+
+  return {
+    body: await renderDocumentPdf(model, branding, labels),
+    contentType: 'application/pdf',
+    fileName: safeFileName(`proposal-${proposal.title}`),
+  }
+}
@@ -0,0 +1,547 @@
+import { Prisma, PrismaClient, LeadInteraction } from '@prisma/client'
+import { prisma } from './prisma'
+import { normalizeEmail } from './lead-capture'
+import { isFreeEmailDomain, markLeadStatusChange } from './lead-scoring'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+export type DuplicateRecordKind = 'LEAD' | 'CLIENT'
+export type DuplicateReasonType = 'EMAIL' | 'EMAIL_DOMAIN' | 'PHONE' | 'COMPANY'
+
+export interface DuplicateCandidate {
+  kind: DuplicateRecordKind
+  id: string
+  name: string
+  email: string
+  phone: string | null
+  company: string | null
+  createdAt: Date
+  // Set on converted leads so they are not reported against their own client
+  convertedToClientId?: string | null
+}
+
+export interface DuplicateReason {
+  type: DuplicateReasonType
+  value: string
+  similarity: number
+}
+
+export interface DuplicateMatch {
+  a: DuplicateCandidate
+  b: DuplicateCandidate
+  score: number
+  reasons: DuplicateReason[]
+}
+
+export interface DuplicateGroup {
+  score: number
+  records: DuplicateCandidate[]
+  matches: {
+    a: string
+    b: string
+    score: number
+    reasons: DuplicateReason[]
+  }[]
+}
+
+// Weight of each signal when ranking how likely two records are the same company
+const REASON_WEIGHTS: Record<DuplicateReasonType, number> = {
+  EMAIL: 1,
+  PHONE: 0.8,
+  COMPANY: 0.8,
+  EMAIL_DOMAIN: 0.6,
+}
+
+export const COMPANY_SIMILARITY_THRESHOLD = 0.85
+const MIN_PHONE_DIGITS = 7
+
+const COMPANY_SUFFIXES = [
+  'inc', 'incorporated', 'llc', 'ltd', 'limited', 'co', 'corp', 'corporation',
+  'company', 'gmbh', 'plc', 'pvt', 'pte', 'sa', 'ag', 'bv', 'group', 'the',
+]
+
+// Activity types used when copying lead interactions into a client's history
+export const INTERACTION_ACTIVITY_TYPES: Record<string, string> = {
+  CALL: 'CALL_LOGGED',
+  EMAIL: 'EMAIL_SENT',
+  MEETING: 'MEETING_SCHEDULED',
+  NOTE: 'NOTE_ADDED',
+}
+
+export function emailDomain(email: string): string | null {
+  const domain = normalizeEmail(email).split('@')[1]
+  return domain && !isFreeEmailDomain(email) ? domain : null
+}
+
+// Compare phone numbers on their trailing digits so country prefixes and formatting don't matter
+export function phoneDigits(phone?: string | null): string | null {
+  const digits = (phone || '').replace(/\D/g, '')
+  return digits.length >= MIN_PHONE_DIGITS ? digits.slice(-10) : null
+}
+
+export function normalizeCompanyName(company?: string | null): string {
+  return (company || '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !COMPANY_SUFFIXES.includes(word))
+    .join(' ')
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0]
+    previous[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j]
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+      diagonal = above
+    }
+  }
+
+  return previous[b.length]
+}
+
+// 0-1 similarity of two company names after stripping legal suffixes and punctuation
+export function companySimilarity(a?: string | null, b?: string | null): number {
+  const left = normalizeCompanyName(a)
+  const right = normalizeCompanyName(b)
+
+  if (!left || !right) return 0
+  if (left === right) return 1
+  if (left.replace(/\s/g, '') === right.replace(/\s/g, '')) return 1
+
+  const distance = levenshtein(left, right)
+  return 1 - distance / Math.max(left.length, right.length)
+}
+
+export function compareCandidates(a: DuplicateCandidate, b: DuplicateCandidate): DuplicateMatch | null {
+  if (a.kind === b.kind && a.id === b.id) return null
+  if (a.kind === 'LEAD' && b.kind === 'CLIENT' && a.convertedToClientId === b.id) return null
+  if (b.kind === 'LEAD' && a.kind === 'CLIENT' && b.convertedToClientId === a.id) return null
+
+  const reasons: DuplicateReason[] = []
+
+  if (normalizeEmail(a.email) === normalizeEmail(b.email)) {
+    reasons.push({ type: 'EMAIL', value: normalizeEmail(a.email), similarity: 1 })
+  } else {
+    const domain = emailDomain(a.email)
+    if (domain && domain === emailDomain(b.email)) {
+      reasons.push({ type: 'EMAIL_DOMAIN', value: domain, similarity: 1 })
+    }
+  }
+
+  const phone = phoneDigits(a.phone)
+  if (phone && phone === phoneDigits(b.phone)) {
+    reasons.push({ type: 'PHONE', value: phone, similarity: 1 })
+  }
+
+  const similarity = companySimilarity(a.company, b.company)
+  if (similarity >= COMPANY_SIMILARITY_THRESHOLD) {
+    reasons.push({
+      type: 'COMPANY',
+      value: `${a.company} / ${b.company}`,
+      similarity: Math.round(similarity * 100) / 100,
+    })
+  }
+
+  if (reasons.length === 0) return null
+
+  const score = Math.max(...reasons.map((r) => REASON_WEIGHTS[r.type] * r.similarity))
+
+  return { a, b, score: Math.round(score * 100) / 100, reasons }
+}
+
+const candidateKey = (c: DuplicateCandidate) => `${c.kind}:${c.id}`
+
+// Pair up likely duplicates and merge overlapping pairs into groups
+export function findDuplicateGroups(
+  records: DuplicateCandidate[],
+  options: { against?: DuplicateCandidate[]; minScore?: number } = {}
+): DuplicateGroup[] {
+  const minScore = options.minScore ?? 0
+  const matches: DuplicateMatch[] = []
+
+  for (let i = 0; i < records.length; i++) {
+    for (let j = i + 1; j < records.length; j++) {
+      const match = compareCandidates(records[i], records[j])
+      if (match && match.score >= minScore) matches.push(match)
+    }
+    for (const other of options.against || []) {
+      const match = compareCandidates(records[i], other)
+      if (match && match.score >= minScore) matches.push(match)
+    }
+  }
+
+  // Union-find over matched pairs
+  const parent = new Map<string, string>()
+  const find = (key: string): string => {
+    const p = parent.get(key) ?? key
+    if (p === key) return key
+    const root = find(p)
+    parent.set(key, root)
+    return root
+  }
+
+  for (const match of matches) {
+    parent.set(find(candidateKey(match.a)), find(candidateKey(match.b)))
+  }
+
+  const groups = new Map<string, DuplicateGroup>()
+  for (const match of matches) {
+    const root = find(candidateKey(match.a))
+    const group = groups.get(root) || { score: 0, records: [], matches: [] }
+
+    for (const record of [match.a, match.b]) {
+      if (!group.records.some((r) => candidateKey(r) === candidateKey(record))) {
+        group.records.push(record)
+      }
+    }
+
+    group.matches.push({
+      a: candidateKey(match.a),
+      b: candidateKey(match.b),
+      score: match.score,
+      reasons: match.reasons,
+    })
+    group.score = Math.max(group.score, match.score)
+    groups.set(root, group)
+  }
+
+  return Array.from(groups.values())
+    .map((group) => ({
+      ...group,
+      records: group.records.sort((x, y) => x.createdAt.getTime() - y.createdAt.getTime()),
+    }))
+    .sort((x, y) => y.score - x.score)
+}
+
+export async function loadLeadCandidates(db: Db = prisma): Promise<DuplicateCandidate[]> {
+  const leads = await db.lead.findMany({
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      phone: true,
+      company: true,
+      createdAt: true,
+      convertedToClientId: true,
+    },
+  })
+
+  return leads.map((lead) => ({ kind: 'LEAD', ...lead }))
+}
+
+export async function loadClientCandidates(db: Db = prisma): Promise<DuplicateCandidate[]> {
+  const clients = await db.client.findMany({
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      phone: true,
+      company: true,
+      createdAt: true,
+    },
+  })
+
+  return clients.map((client) => ({ kind: 'CLIENT', ...client }))
+}
+
+// Copy a lead's communication log into a client's Activity history
+export async function copyLeadInteractionsToClient(
+  lead: { id: string; name: string },
+  interactions: LeadInteraction[],
+  clientId: string,
+  db: Db = prisma
+) {
+  for (const interaction of interactions) {
+    await db.activity.create({
+      data: {
+        userId: interaction.userId,
+        type: INTERACTION_ACTIVITY_TYPES[interaction.interactionType] || 'OTHER',
+        description: interaction.subject || `${interaction.interactionType.toLowerCase()} with ${lead.name}`,
+        entityType: 'CLIENT',
+        entityId: clientId,
+        metadata: {
+          leadId: lead.id,
+          leadInteractionId: interaction.id,
+          interactionType: interaction.interactionType,
+          content: interaction.content,
+          scheduledAt: interaction.scheduledAt?.toISOString() ?? null,
+          completedAt: interaction.completedAt?.toISOString() ?? null,
+        },
+        createdAt: interaction.createdAt,
+      },
+    })
+  }
+}
+
+// Fields left empty on the survivor are filled from the duplicates, oldest first
+function fillMissing<T extends Record<string, unknown>>(survivor: T, duplicates: T[], fields: (keyof T)[]) {
+  const data: Partial<T> = {}
+  for (const field of fields) {
+    if (survivor[field] !== null && survivor[field] !== undefined && survivor[field] !== '') continue
+    const donor = duplicates.find((d) => d[field] !== null && d[field] !== undefined && d[field] !== '')
+    if (donor) data[field] = donor[field]
+  }
+  return data
+}
+
+function mergeNotes(notes: (string | null)[]): string | null {
+  const parts = notes.filter((note): note is string => !!note?.trim())
+  return parts.length > 0 ? Array.from(new Set(parts)).join('\n\n') : null
+}
+
+// Fold duplicate leads into the survivor and delete them
+export async function mergeLeads(
+  survivorId: string,
+  duplicateIds: string[],
+  userId: string,
+  db: Prisma.TransactionClient
+) {
+  const survivor = await db.lead.findUniqueOrThrow({ where: { id: survivorId } })
+  const duplicates = await db.lead.findMany({
+    where: { id: { in: duplicateIds } },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  const data: Prisma.LeadUncheckedUpdateInput = {
+    ...fillMissing(survivor, duplicates, [
+      'company', 'phone', 'industry', 'companySize', 'assignedTo', 'formId',
+      'utmSource', 'utmMedium', 'utmCampaign', 'utmTerm', 'utmContent',
+    ]),
+    notes: mergeNotes([survivor.notes, ...duplicates.map((d) => d.notes)]),
+  }
+
+  // A conversion recorded on a duplicate moves to the survivor if it has none of its own
+  const convertedDuplicate = duplicates.find((d) => d.convertedToClientId)
+  if (!survivor.convertedToClientId && convertedDuplicate) {
+    await db.lead.update({
+      where: { id: convertedDuplicate.id },
+      data: { convertedToClientId: null },
+    })
+    await db.client.update({
+      where: { id: convertedDuplicate.convertedToClientId! },
+      data: { leadId: survivor.id },
+    })
+    data.convertedToClientId = convertedDuplicate.convertedToClientId
+    data.status = 'CONVERTED'
+  }
+
+  const interactions = await db.leadInteraction.updateMany({
+    where: { leadId: { in: duplicateIds } },
+    data: { leadId: survivorId },
+  })
+  const submissions = await db.leadFormSubmission.updateMany({
+    where: { leadId: { in: duplicateIds } },
+    data: { leadId: survivorId },
+  })
+  const activities = await db.activity.updateMany({
+    where: { entityType: 'LEAD', entityId: { in: duplicateIds } },
+    data: { entityId: survivorId },
+  })
+
+  // Clear any remaining client links before deleting so unique lead ids are released
+  await db.client.updateMany({
+    where: { leadId: { in: duplicateIds } },
+    data: { leadId: null },
+  })
+  await db.lead.deleteMany({ where: { id: { in: duplicateIds } } })
+
+  if (data.status) {
+    await markLeadStatusChange({ id: survivorId }, 'CONVERTED', db)
+  }
+  const lead = await db.lead.update({ where: { id: survivorId }, data })
+
+  await db.activity.create({
+    data: {
+      userId,
+      type: 'LEAD_MERGED',
+      description: `Merged ${duplicates.length} duplicate lead(s) into ${survivor.name}`,
+      entityType: 'LEAD',
+      entityId: survivorId,
+      metadata: {
+        mergedLeads: duplicates.map((d) => ({ id: d.id, name: d.name, email: d.email })),
+        interactionsMoved: interactions.count,
+        submissionsMoved: submissions.count,
+        activitiesMoved: activities.count,
+      },
+    },
+  })
+
+  return {
+    lead,
+    merged: duplicates.length,
+    moved: {
+      interactions: interactions.count,
+      submissions: submissions.count,
+      activities: activities.count,
+    },
+  }
+}
+
+// Health history is kept for the days the survivor has no snapshot of its own, taking
+// the oldest duplicate first; the other snapshots go with the duplicate clients
+async function moveHealthSnapshots(survivorId: string, duplicateIds: string[], db: Prisma.TransactionClient) {
+  const survivorSnapshots = await db.clientHealthSnapshot.findMany({
+    where: { clientId: survivorId },
+    select: { date: true },
+  })
+  const snapshots = await db.clientHealthSnapshot.findMany({
+    where: { clientId: { in: duplicateIds } },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, date: true },
+  })
+
+  const taken = survivorSnapshots.map((snapshot) => snapshot.date.getTime())
+  const ids: string[] = []
+  for (const snapshot of snapshots) {
+    if (!taken.includes(snapshot.date.getTime())) {
+      taken.push(snapshot.date.getTime())
+      ids.push(snapshot.id)
+    }
+  }
+
+  const moved = await db.clientHealthSnapshot.updateMany({
+    where: { id: { in: ids } },
+    data: { clientId: survivorId },
+  })
+  return moved.count
+}
+
+// Fold duplicate clients, and leads for the same company, into the surviving client.
+// Everything that belongs to a duplicate is moved over before it is deleted, since
+// recurring profiles and health snapshots would otherwise be deleted with it and
+// portal users would lose their client.
+export async function mergeClients(
+  survivorId: string,
+  duplicateIds: string[],
+  leadIds: string[],
+  userId: string,
+  db: Prisma.TransactionClient
+) {
+  const survivor = await db.client.findUniqueOrThrow({ where: { id: survivorId } })
+  const duplicates = await db.client.findMany({
+    where: { id: { in: duplicateIds } },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  const data: Prisma.ClientUncheckedUpdateInput = fillMissing(survivor, duplicates, [
+    'phone', 'industry', 'address', 'website', 'accountManagerId',
+  ])
+
+  // The survivor keeps its primary contact; contacts brought over become secondary
+  const survivorHasPrimary = await db.clientContact.count({
+    where: { clientId: survivorId, isPrimary: true },
+  }) > 0
+  if (survivorHasPrimary) {
+    await db.clientContact.updateMany({
+      where: { clientId: { in: duplicateIds } },
+      data: { isPrimary: false },
+    })
+  }
+
+  const reparent = { where: { clientId: { in: duplicateIds } }, data: { clientId: survivorId } }
+  const moved = {
+    contacts: (await db.clientContact.updateMany(reparent)).count,
+    projects: (await db.project.updateMany(reparent)).count,
+    proposals: (await db.proposal.updateMany(reparent)).count,
+    invoices: (await db.invoice.updateMany(reparent)).count,
+    recurringInvoices: (await db.recurringInvoice.updateMany(reparent)).count,
+    budgets: (await db.budget.updateMany(reparent)).count,
+    revenues: (await db.revenue.updateMany(reparent)).count,
+    expenses: (await db.expense.updateMany(reparent)).count,
+    portalUsers: (await db.user.updateMany(reparent)).count,
+    healthSnapshots: await moveHealthSnapshots(survivorId, duplicateIds, db),
+    activities: (await db.activity.updateMany({
+      where: { entityType: 'CLIENT', entityId: { in: duplicateIds } },
+      data: { entityId: survivorId },
+    })).count,
+    leads: 0,
+  }
+
+  if (!survivorHasPrimary) {
+    const primaries = await db.clientContact.findMany({
+      where: { clientId: survivorId, isPrimary: true },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    })
+    await db.clientContact.updateMany({
+      where: { id: { in: primaries.slice(1).map((c) => c.id) } },
+      data: { isPrimary: false },
+    })
+  }
+
+  // Keep the originating lead link when the survivor has none
+  const sourceLeadId = survivor.leadId || duplicates.find((d) => d.leadId)?.leadId || null
+  await db.client.updateMany({
+    where: { id: { in: duplicateIds } },
+    data: { leadId: null },
+  })
+  await db.lead.updateMany({
+    where: { convertedToClientId: { in: duplicateIds } },
+    data: { convertedToClientId: null },
+  })
+  await db.client.deleteMany({ where: { id: { in: duplicateIds } } })
+
+  if (sourceLeadId && !survivor.leadId) {
+    data.leadId = sourceLeadId
+    await markLeadStatusChange({ id: sourceLeadId }, 'CONVERTED', db)
+    await db.lead.update({
+      where: { id: sourceLeadId },
+      data: { convertedToClientId: survivorId, status: 'CONVERTED' },
+    })
+  }
+
+  // Leads for a company that is already a client are closed out as converted
+  const leads = await db.lead.findMany({
+    where: { id: { in: leadIds } },
+    include: { interactions: { orderBy: { createdAt: 'asc' } } },
+  })
+  for (const lead of leads) {
+    await copyLeadInteractionsToClient(lead, lead.interactions, survivorId, db)
+    const linkLead = !survivor.leadId && !data.leadId
+    if (linkLead) {
+      data.leadId = lead.id
+    }
+    await markLeadStatusChange({ id: lead.id }, 'CONVERTED', db)
+    await db.lead.update({
+      where: { id: lead.id },
+      data: {
+        status: 'CONVERTED',
+        ...(linkLead && { convertedToClientId: survivorId }),
+      },
+    })
+    moved.leads++
+  }
+
+  const client = await db.client.update({ where: { id: survivorId }, data })
+
+  await db.activity.create({
+    data: {
+      userId,
+      type: 'CLIENT_MERGED',
+      description: `Merged ${duplicates.length} duplicate client(s) and ${leads.length} lead(s) into ${survivor.company}`,
+      entityType: 'CLIENT',
+      entityId: survivorId,
+      metadata: {
+        mergedClients: duplicates.map((d) => ({ id: d.id, company: d.company, email: d.email })),
+        mergedLeads: leads.map((l) => ({ id: l.id, name: l.name, email: l.email })),
+        moved,
+      },
+    },
+  })
+
+  return {
+    client,
+    merged: duplicates.length + leads.length,
+    moved,
+  }
+}
@@ -0,0 +1,285 @@
+import { Prisma, PrismaClient, TaxRateType } from '@prisma/client'
+import { prisma } from './prisma'
+import { getCurrencyConfig, loadCurrencyConverter } from './currency'
+import { roundMoney } from './utils'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+export interface ProfitLossOptions {
+  // Report currency; defaults to the agency's base currency
+  currency?: string
+  clientId?: string
+  projectId?: string
+}
+
+function addTo(totals: Record<string, number>, key: string, amount: number) {
+  totals[key] = (totals[key] || 0) + amount
+}
+
+function roundTotals(totals: Record<string, number>) {
+  return Object.fromEntries(Object.entries(totals).map(([key, value]) => [key, roundMoney(value)]))
+}
+
+// Profit and loss for a period in a single currency. Every revenue and expense is
+// converted at the rate on its own date. Revenue booked from an invoice payment is
+// therefore worth what was received, and `fx` splits out how much of it came from the
+// rate moving between the invoice's issue date and the payment (or refund) date.
+// Throws ExchangeRateError when a needed rate has not been imported.
+export async function getProfitLossReport(
+  from: Date,
+  to: Date,
+  options: ProfitLossOptions = {},
+  db: Db = prisma
+) {
+  const currency = options.currency ?? (await getCurrencyConfig(db)).baseCurrency
+  const converter = await loadCurrencyConverter(currency, db)
+  const scope = {
+    ...(options.clientId && { clientId: options.clientId }),
+    ...(options.projectId && { projectId: options.projectId }),
+  }
+
+  const [revenues, expenses, payments] = await Promise.all([
+    db.revenue.findMany({
+      where: { ...scope, date: { gte: from, lte: to }, status: { in: ['PENDING', 'RECEIVED'] } },
+      select: { amount: true, currency: true, category: true, date: true },
+    }),
+    db.expense.findMany({
+      where: { ...scope, date: { gte: from, lte: to }, status: { not: 'REJECTED' } },
+      select: { amount: true, currency: true, category: true, date: true },
+    }),
+    db.payment.findMany({
+      where: {
+        paymentDate: { gte: from, lte: to },
+        invoice: { ...scope, currency: { not: currency } },
+      },
+      select: {
+        id: true,
+        type: true,
+        amount: true,
+        paymentDate: true,
+        invoice: { select: { id: true, invoiceNumber: true, currency: true, issueDate: true } },
+      },
+      orderBy: { paymentDate: 'asc' },
+    }),
+  ])
+
+  const incomeByCategory: Record<string, number> = {}
+  const expensesByCategory: Record<string, number> = {}
+  const months: Record<string, { income: number; expenses: number }> = {}
+  const month = (date: Date) => {
+    const key = date.toISOString().substring(0, 7)
+    return months[key] ?? (months[key] = { income: 0, expenses: 0 })
+  }
+
+  for (const revenue of revenues) {
+    const amount = converter.convert(revenue.amount, revenue.currency, revenue.date)
+    addTo(incomeByCategory, revenue.category, amount)
+    month(revenue.date).income += amount
+  }
+
+  for (const expense of expenses) {
+    const amount = converter.convert(expense.amount, expense.currency, expense.date)
+    addTo(expensesByCategory, expense.category, amount)
+    month(expense.date).expenses += amount
+  }
+
+  const fxPayments = payments.map((payment) => {
+    const bookedRate = converter.rateOn(payment.invoice.currency, payment.invoice.issueDate)
+    const settledRate = converter.rateOn(payment.invoice.currency, payment.paymentDate)
+    const signedAmount = payment.type === 'REFUND' ? -payment.amount : payment.amount
+
+    return {
+      paymentId: payment.id,
+      type: payment.type,
+      invoiceId: payment.invoice.id,
+      invoiceNumber: payment.invoice.invoiceNumber,
+      currency: payment.invoice.currency,
+      amount: payment.amount,
+      paymentDate: payment.paymentDate,
+      bookedRate,
+      settledRate,
+      difference: roundMoney(signedAmount * (settledRate - bookedRate)),
+    }
+  })
+
+  const totalIncome = roundMoney(Object.values(incomeByCategory).reduce((sum, value) => sum + value, 0))
+  const totalExpenses = roundMoney(Object.values(expensesByCategory).reduce((sum, value) => sum + value, 0))
+  const netProfit = roundMoney(totalIncome - totalExpenses)
+  const realizedFx = roundMoney(fxPayments.reduce((sum, payment) => sum + payment.difference, 0))
+
+  return {
+    currency,
+    period: { from, to },
+    income: { total: totalIncome, byCategory: roundTotals(incomeByCategory) },
+    expenses: { total: totalExpenses, byCategory: roundTotals(expensesByCategory) },
+    netProfit,
+    profitMargin: totalIncome > 0 ? (netProfit / totalIncome) * 100 : 0,
+    fx: {
+      realizedGain: realizedFx,
+      incomeAtInvoiceRates: roundMoney(totalIncome - realizedFx),
+      payments: fxPayments,
+    },
+    byMonth: Object.keys(months).sort().map((key) => ({
+      month: key,
+      income: roundMoney(months[key].income),
+      expenses: roundMoney(months[key].expenses),
+      profit: roundMoney(months[key].income - months[key].expenses),
+    })),
+  }
+}
+
+export interface TaxReportOptions {
+  // Report currency; defaults to the agency's base currency
+  currency?: string
+  // Filing period the totals are broken down by
+  period?: 'month' | 'quarter' | 'year'
+}
+
+interface TaxRateTotal {
+  taxRateId: string | null
+  name: string | null
+  type: TaxRateType | null
+  rate: number | null
+  net: number
+  tax: number
+}
+
+function periodKey(date: Date, period: TaxReportOptions['period']) {
+  const iso = date.toISOString()
+  if (period === 'year') return iso.substring(0, 4)
+  if (period === 'quarter') return `${iso.substring(0, 4)}-Q${Math.floor(date.getUTCMonth() / 3) + 1}`
+  return iso.substring(0, 7)
+}
+
+// Output tax charged on invoices and input tax paid on expenses, for a tax return.
+// Invoices count on their issue date once issued (drafts and cancelled invoices are
+// left out) and credit notes count against them. Output tax is broken down by the
+// rate on each line; tax that cannot be traced to a line's rate, such as the
+// free-form tax on older invoices, is reported on a row without a rate.
+export async function getTaxReport(
+  from: Date,
+  to: Date,
+  options: TaxReportOptions = {},
+  db: Db = prisma
+) {
+  const currency = options.currency ?? (await getCurrencyConfig(db)).baseCurrency
+  const converter = await loadCurrencyConverter(currency, db)
+
+  const [invoices, expenses, taxRates] = await Promise.all([
+    db.invoice.findMany({
+      where: { issueDate: { gte: from, lte: to }, status: { notIn: ['DRAFT', 'CANCELLED'] } },
+      select: {
+        type: true,
+        currency: true,
+        issueDate: true,
+        amount: true,
+        taxAmount: true,
+        items: { select: { totalPrice: true, taxRateId: true, taxRate: true } },
+      },
+    }),
+    db.expense.findMany({
+      where: { date: { gte: from, lte: to }, status: { not: 'REJECTED' } },
+      select: { amount: true, taxAmount: true, currency: true, date: true },
+    }),
+    db.taxRate.findMany({
+      select: { id: true, name: true, type: true },
+    }),
+  ])
+
+  const rows: Record<string, TaxRateTotal> = {}
+  const row = (taxRateId: string | null, rate: number | null) => {
+    const key = taxRateId ?? (rate === null ? 'unassigned' : `rate:${rate}`)
+    const named = taxRates.find((taxRate) => taxRate.id === taxRateId)
+    return rows[key] ?? (rows[key] = {
+      taxRateId,
+      name: named?.name ?? null,
+      type: named?.type ?? null,
+      rate,
+      net: 0,
+      tax: 0,
+    })
+  }
+
+  const periods: Record<string, { outputTax: number; inputTax: number }> = {}
+  const periodFor = (date: Date) => {
+    const key = periodKey(date, options.period)
+    return periods[key] ?? (periods[key] = { outputTax: 0, inputTax: 0 })
+  }
+
+  let netSales = 0
+  for (const invoice of invoices) {
+    const sign = invoice.type === 'CREDIT_NOTE' ? -1 : 1
+    const convert = (amount: number) => sign * converter.convert(amount, invoice.currency, invoice.issueDate)
+
+    // Tax is worked out once per rate on the invoice, so the lines are grouped first
+    const lines: { taxRateId: string | null; taxRate: number; net: number; tax: number }[] = []
+    for (const item of invoice.items) {
+      const line = lines.find((candidate) => candidate.taxRateId === item.taxRateId && candidate.taxRate === item.taxRate)
+      if (line) {
+        line.net += item.totalPrice
+      } else {
+        lines.push({ taxRateId: item.taxRateId, taxRate: item.taxRate, net: item.totalPrice, tax: 0 })
+      }
+    }
+    lines.forEach((line) => {
+      line.tax = roundMoney(line.net * line.taxRate)
+    })
+
+    // Rounding left over from splitting tax across installments goes to the largest
+    // taxed line; anything else has no rate to report under
+    const unexplained = roundMoney(invoice.taxAmount - lines.reduce((sum, line) => sum + line.tax, 0))
+    const largest = lines.reduce<typeof lines[number] | null>(
+      (best, line) => (line.tax > 0 && (!best || line.tax > best.tax) ? line : best),
+      null
+    )
+    if (unexplained !== 0 && largest && Math.abs(unexplained) < 1) {
+      largest.tax += unexplained
+    } else if (unexplained !== 0) {
+      row(null, null).tax += convert(unexplained)
+    }
+
+    for (const line of lines) {
+      const total = row(line.taxRateId, line.taxRate)
+      total.net += convert(line.net)
+      total.tax += convert(line.tax)
+    }
+
+    netSales += convert(invoice.amount)
+    periodFor(invoice.issueDate).outputTax += convert(invoice.taxAmount)
+  }
+
+  let netPurchases = 0
+  let inputTax = 0
+  for (const expense of expenses) {
+    const amount = converter.convert(expense.amount, expense.currency, expense.date)
+    const tax = converter.convert(expense.taxAmount, expense.currency, expense.date)
+    netPurchases += amount
+    inputTax += tax
+    periodFor(expense.date).inputTax += tax
+  }
+
+  const outputTax = roundMoney(Object.values(rows).reduce((sum, total) => sum + total.tax, 0))
+
+  return {
+    currency,
+    period: { from, to },
+    outputTax: {
+      netSales: roundMoney(netSales),
+      total: outputTax,
+      byRate: Object.values(rows)
+        .map((total) => ({ ...total, net: roundMoney(total.net), tax: roundMoney(total.tax) }))
+        .sort((a, b) => (b.rate ?? -1) - (a.rate ?? -1)),
+    },
+    inputTax: {
+      netPurchases: roundMoney(netPurchases),
+      total: roundMoney(inputTax),
+    },
+    netTaxDue: roundMoney(outputTax - inputTax),
+    byPeriod: Object.keys(periods).sort().map((key) => ({
+      period: key,
+      outputTax: roundMoney(periods[key].outputTax),
+      inputTax: roundMoney(periods[key].inputTax),
+      netTaxDue: roundMoney(periods[key].outputTax - periods[key].inputTax),
+    })),
+  }
+}
@@ -0,0 +1,603 @@
+import { NextRequest } from 'next/server'
+import { Prisma, PrismaClient, DuplicatePolicy, ImportEntity } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { parseCsv, ParsedCsv } from './csv'
+import { normalizeEmail, parseCompanySize } from './lead-capture'
+import { clientContactSchema, clientSchema, leadSchema } from './schemas'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+export const MAX_IMPORT_ROWS = 5000
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024
+
+type FieldType = 'string' | 'email' | 'number' | 'boolean' | 'enum'
+
+export interface ImportField {
+  field: string
+  label: string
+  type: FieldType
+  required?: boolean
+  values?: readonly string[]
+  aliases: string[]
+}
+
+const LEAD_STATUSES = ['NEW', 'CONTACTED', 'QUALIFIED', 'PROPOSAL_SENT', 'NEGOTIATION', 'CONVERTED', 'LOST'] as const
+const LEAD_SOURCES = ['WEBSITE', 'SOCIAL', 'REFERRAL', 'EMAIL', 'COLD_CALL'] as const
+
+// Target fields per importable model, with the spreadsheet headers they are usually found under
+export const IMPORT_FIELDS: Record<ImportEntity, ImportField[]> = {
+  LEAD: [
+    { field: 'name', label: 'Name', type: 'string', required: true, aliases: ['full name', 'contact name', 'lead name', 'contact'] },
+    { field: 'email', label: 'Email', type: 'email', required: true, aliases: ['email address', 'e-mail', 'mail'] },
+    { field: 'phone', label: 'Phone', type: 'string', aliases: ['phone number', 'telephone', 'tel', 'mobile'] },
+    { field: 'company', label: 'Company', type: 'string', aliases: ['company name', 'organization', 'organisation', 'account'] },
+    { field: 'industry', label: 'Industry', type: 'string', aliases: ['sector', 'vertical'] },
+    { field: 'companySize', label: 'Company size', type: 'number', aliases: ['employees', 'headcount', 'team size'] },
+    { field: 'status', label: 'Status', type: 'enum', values: LEAD_STATUSES, aliases: ['lead status', 'stage', 'pipeline stage'] },
+    { field: 'source', label: 'Source', type: 'enum', values: LEAD_SOURCES, aliases: ['lead source', 'channel', 'origin'] },
+    { field: 'notes', label: 'Notes', type: 'string', aliases: ['note', 'comments', 'description'] },
+    { field: 'assignedToEmail', label: 'Assigned to (user email)', type: 'email', aliases: ['owner', 'assigned to', 'owner email', 'sales rep'] },
+  ],
+  CLIENT: [
+    { field: 'name', label: 'Name', type: 'string', required: true, aliases: ['client name', 'contact name', 'full name'] },
+    { field: 'email', label: 'Email', type: 'email', required: true, aliases: ['email address', 'e-mail', 'mail'] },
+    { field: 'company', label: 'Company', type: 'string', required: true, aliases: ['company name', 'organization', 'organisation', 'account'] },
+    { field: 'phone', label: 'Phone', type: 'string', aliases: ['phone number', 'telephone', 'tel', 'mobile'] },
+    { field: 'industry', label: 'Industry', type: 'string', aliases: ['sector', 'vertical'] },
+    { field: 'address', label: 'Address', type: 'string', aliases: ['street', 'billing address', 'location'] },
+    { field: 'website', label: 'Website', type: 'string', aliases: ['url', 'web', 'site', 'homepage'] },
+    { field: 'accountManagerEmail', label: 'Account manager (user email)', type: 'email', aliases: ['account manager', 'owner', 'owner email'] },
+  ],
+  CLIENT_CONTACT: [
+    { field: 'clientEmail', label: 'Client email', type: 'email', aliases: ['client', 'account email', 'company email'] },
+    { field: 'clientCompany', label: 'Client company', type: 'string', aliases: ['company', 'company name', 'account', 'organization'] },
+    { field: 'name', label: 'Name', type: 'string', required: true, aliases: ['contact name', 'full name'] },
+    { field: 'email', label: 'Email', type: 'email', aliases: ['email address', 'e-mail', 'contact email'] },
+    { field: 'phone', label: 'Phone', type: 'string', aliases: ['phone number', 'telephone', 'tel', 'mobile'] },
+    { field: 'position', label: 'Position', type: 'string', aliases: ['title', 'job title', 'role'] },
+    { field: 'isPrimary', label: 'Primary contact', type: 'boolean', aliases: ['primary', 'main contact', 'is primary'] },
+  ],
+}
+
+// Common spreadsheet spellings of enum values that don't normalise to the enum name
+const ENUM_SYNONYMS: Record<string, Record<string, string>> = {
+  source: {
+    WEB: 'WEBSITE',
+    WEB_FORM: 'WEBSITE',
+    CONTACT_FORM: 'WEBSITE',
+    SOCIAL_MEDIA: 'SOCIAL',
+    LINKEDIN: 'SOCIAL',
+    FACEBOOK: 'SOCIAL',
+    TWITTER: 'SOCIAL',
+    INSTAGRAM: 'SOCIAL',
+    REFERRED: 'REFERRAL',
+    WORD_OF_MOUTH: 'REFERRAL',
+    E_MAIL: 'EMAIL',
+    NEWSLETTER: 'EMAIL',
+    COLD: 'COLD_CALL',
+    CALL: 'COLD_CALL',
+    PHONE: 'COLD_CALL',
+    OUTBOUND: 'COLD_CALL',
+  },
+  status: {
+    OPEN: 'NEW',
+    IN_PROGRESS: 'CONTACTED',
+    WORKING: 'CONTACTED',
+    PROPOSAL: 'PROPOSAL_SENT',
+    NEGOTIATING: 'NEGOTIATION',
+    WON: 'CONVERTED',
+    CLOSED_WON: 'CONVERTED',
+    CUSTOMER: 'CONVERTED',
+    CLOSED_LOST: 'LOST',
+    DEAD: 'LOST',
+    DISQUALIFIED: 'LOST',
+  },
+}
+
+// Row schemas built from the same zod schemas the create endpoints use
+const ROW_SCHEMAS = {
+  LEAD: leadSchema
+    .pick({ name: true, email: true, phone: true, company: true, industry: true, companySize: true, status: true, source: true, notes: true })
+    .extend({ assignedToEmail: z.string().email('Invalid email format').optional() }),
+  CLIENT: clientSchema
+    .pick({ name: true, email: true, phone: true })
+    .extend({
+      company: z.string().min(1, 'Company is required'),
+      industry: z.string().optional(),
+      address: z.string().optional(),
+      website: z.string().optional(),
+      accountManagerEmail: z.string().email('Invalid email format').optional(),
+    }),
+  CLIENT_CONTACT: clientContactSchema
+    .extend({
+      clientEmail: z.string().email('Invalid email format').optional(),
+      clientCompany: z.string().optional(),
+    })
+    .refine((row) => row.clientEmail || row.clientCompany, {
+      message: 'Client email or client company is required',
+      path: ['clientEmail'],
+    }),
+}
+
+export type ImportMapping = Record<string, string | null>
+export type ImportValueMapping = Record<string, Record<string, string>>
+
+export type ImportRowError = {
+  field: string
+  message: string
+}
+
+export type ImportRowAction = 'CREATE' | 'UPDATE' | 'SKIP' | 'ERROR'
+
+export interface ImportRowResult {
+  rowNumber: number
+  action: ImportRowAction
+  data?: Record<string, unknown>
+  existingId?: string
+  clientId?: string
+  errors: ImportRowError[]
+  message?: string
+}
+
+export interface ImportValidation {
+  rows: ImportRowResult[]
+  summary: {
+    total: number
+    create: number
+    update: number
+    skip: number
+    errors: number
+  }
+}
+
+export interface ImportOptions {
+  entityType: ImportEntity
+  mapping: ImportMapping
+  valueMapping?: ImportValueMapping
+  duplicatePolicy: DuplicatePolicy
+}
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '')
+const normalizeEnumValue = (value: string) => value.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '')
+const normalizeCompany = (value: string) => value.trim().toLowerCase()
+
+export function suggestEnumValue(field: ImportField, raw: string): string | null {
+  if (!field.values) return null
+  const normalized = normalizeEnumValue(raw)
+  if (field.values.includes(normalized)) return normalized
+  return ENUM_SYNONYMS[field.field]?.[normalized] ?? null
+}
+
+// Match CSV headers to model fields by name, label and known aliases
+export function suggestMapping(headers: string[], entityType: ImportEntity): ImportMapping {
+  const fields = IMPORT_FIELDS[entityType]
+  const used = new Set<string>()
+  const mapping: ImportMapping = {}
+
+  for (const header of headers) {
+    const key = normalizeHeader(header)
+    const match = fields.find((f) =>
+      !used.has(f.field) &&
+      [f.field, f.label, ...f.aliases].some((candidate) => normalizeHeader(candidate) === key)
+    )
+    mapping[header] = match ? match.field : null
+    if (match) used.add(match.field)
+  }
+
+  return mapping
+}
+
+// Distinct values found in enum columns, each with the enum value we would map it to
+export function suggestValueMapping(parsed: ParsedCsv, mapping: ImportMapping, entityType: ImportEntity) {
+  const suggestions: Record<string, Record<string, string | null>> = {}
+
+  for (const [header, fieldName] of Object.entries(mapping)) {
+    const field = IMPORT_FIELDS[entityType].find((f) => f.field === fieldName)
+    if (!field || field.type !== 'enum') continue
+
+    const index = parsed.headers.indexOf(header)
+    const values = new Set(parsed.rows.map((row) => (row[index] || '').trim()).filter(Boolean))
+    suggestions[field.field] = Object.fromEntries(
+      Array.from(values).map((value) => [value, suggestEnumValue(field, value)])
+    )
+  }
+
+  return suggestions
+}
+
+function coerceValue(field: ImportField, raw: string, valueMapping?: ImportValueMapping): unknown {
+  const value = raw.trim()
+  if (value === '') return undefined
+
+  switch (field.type) {
+    case 'email':
+      return normalizeEmail(value)
+    case 'number':
+      return parseCompanySize(value) ?? value
+    case 'boolean':
+      return ['true', 'yes', 'y', '1', 'x', 'primary'].includes(value.toLowerCase())
+    case 'enum':
+      // Unknown values are passed through so zod reports them against the allowed list
+      return valueMapping?.[field.field]?.[value] ?? suggestEnumValue(field, value) ?? value
+    default:
+      return value
+  }
+}
+
+function mapRow(row: string[], parsed: ParsedCsv, options: ImportOptions): Record<string, unknown> {
+  const fields = IMPORT_FIELDS[options.entityType]
+  const data: Record<string, unknown> = {}
+
+  parsed.headers.forEach((header, index) => {
+    const field = fields.find((f) => f.field === options.mapping[header])
+    if (!field) return
+    const value = coerceValue(field, row[index] || '', options.valueMapping)
+    if (value !== undefined) data[field.field] = value
+  })
+
+  return data
+}
+
+async function loadUsersByEmail(db: Db) {
+  const users = await db.user.findMany({
+    where: { isActive: true },
+    select: { id: true, email: true },
+  })
+  return new Map(users.map((u) => [normalizeEmail(u.email), u.id]))
+}
+
+async function loadLookups(entityType: ImportEntity, db: Db) {
+  const userByEmail = await loadUsersByEmail(db)
+
+  if (entityType === 'LEAD') {
+    const leads = await db.lead.findMany({ select: { id: true, email: true } })
+    return { userByEmail, existing: new Map(leads.map((l) => [normalizeEmail(l.email), l.id])) }
+  }
+
+  const clients = await db.client.findMany({ select: { id: true, email: true, company: true } })
+  const clientByEmail = new Map(clients.map((c) => [normalizeEmail(c.email), c.id]))
+
+  if (entityType === 'CLIENT') {
+    return { userByEmail, existing: clientByEmail }
+  }
+
+  const contacts = await db.clientContact.findMany({
+    select: { id: true, clientId: true, name: true, email: true },
+  })
+
+  return {
+    userByEmail,
+    clientByEmail,
+    clientByCompany: new Map(clients.map((c) => [normalizeCompany(c.company), c.id])),
+    existing: new Map(contacts.map((c) => [contactKey(c.clientId, c.email, c.name), c.id])),
+  }
+}
+
+// Contacts are matched within their client by email, or by name when no email is given
+function contactKey(clientId: string, email: string | null | undefined, name: string) {
+  return `${clientId}:${email ? normalizeEmail(email) : `name:${name.trim().toLowerCase()}`}`
+}
+
+// Dry run: map, coerce and validate every row and decide what the import would do with it
+export async function validateImport(
+  parsed: ParsedCsv,
+  options: ImportOptions,
+  db: Db = prisma
+): Promise<ImportValidation> {
+  const schema = ROW_SCHEMAS[options.entityType]
+  const lookups = await loadLookups(options.entityType, db)
+  const seen = new Set<string>()
+  const rows: ImportRowResult[] = []
+
+  parsed.rows.forEach((row, index) => {
+    // Row numbers match the spreadsheet, counting the header as row 1
+    const rowNumber = index + 2
+    const result = schema.safeParse(mapRow(row, parsed, options))
+
+    if (!result.success) {
+      rows.push({
+        rowNumber,
+        action: 'ERROR',
+        errors: result.error.errors.map((e) => ({ field: e.path.join('.') || 'row', message: e.message })),
+      })
+      return
+    }
+
+    const data: Record<string, unknown> = { ...result.data }
+    const errors: ImportRowError[] = []
+    let clientId: string | undefined
+
+    for (const userField of ['assignedToEmail', 'accountManagerEmail']) {
+      const email = data[userField] as string | undefined
+      if (email && !lookups.userByEmail.has(email)) {
+        errors.push({ field: userField, message: `No active user with email ${email}` })
+      }
+    }
+
+    let key: string
+    if (options.entityType === 'CLIENT_CONTACT') {
+      const clientEmail = data.clientEmail as string | undefined
+      const clientCompany = data.clientCompany as string | undefined
+      clientId = (clientEmail && lookups.clientByEmail?.get(clientEmail)) ||
+        (clientCompany && lookups.clientByCompany?.get(normalizeCompany(clientCompany))) ||
+        undefined
+      if (!clientId) {
+        errors.push({ field: 'clientEmail', message: 'No matching client found' })
+      }
+      key = contactKey(clientId || '', data.email as string | undefined, data.name as string)
+    } else {
+      key = data.email as string
+    }
+
+    if (errors.length > 0) {
+      rows.push({ rowNumber, action: 'ERROR', data, errors })
+      return
+    }
+
+    const existingId = lookups.existing.get(key)
+    const duplicateInFile = seen.has(key)
+    seen.add(key)
+
+    if (duplicateInFile && options.duplicatePolicy !== 'CREATE') {
+      rows.push({ rowNumber, action: 'SKIP', data, clientId, errors, message: 'Duplicate of an earlier row in this file' })
+    } else if (existingId && options.duplicatePolicy === 'SKIP') {
+      rows.push({ rowNumber, action: 'SKIP', data, clientId, existingId, errors, message: 'Record already exists' })
+    } else if (existingId && options.duplicatePolicy === 'UPDATE') {
+      rows.push({ rowNumber, action: 'UPDATE', data, clientId, existingId, errors })
+    } else {
+      rows.push({ rowNumber, action: 'CREATE', data, clientId, existingId, errors })
+    }
+  })
+
+  return {
+    rows,
+    summary: {
+      total: rows.length,
+      create: rows.filter((r) => r.action === 'CREATE').length,
+      update: rows.filter((r) => r.action === 'UPDATE').length,
+      skip: rows.filter((r) => r.action === 'SKIP').length,
+      errors: rows.filter((r) => r.action === 'ERROR').length,
+    },
+  }
+}
+
+// Turn validated row data into columns of the target model
+function toModelData(entityType: ImportEntity, row: ImportRowResult, userByEmail: Map<string, string>) {
+  const { assignedToEmail, accountManagerEmail, clientEmail, clientCompany, ...data } = row.data as Record<string, any>
+
+  if (entityType === 'LEAD' && assignedToEmail) {
+    data.assignedTo = userByEmail.get(assignedToEmail)
+  }
+  if (entityType === 'CLIENT' && accountManagerEmail) {
+    data.accountManagerId = userByEmail.get(accountManagerEmail)
+  }
+  if (entityType === 'CLIENT_CONTACT') {
+    data.clientId = row.clientId
+  }
+
+  return data
+}
+
+// Snapshot the columns an update is about to overwrite so the import can be undone
+function pickPrevious(existing: Record<string, unknown>, data: Record<string, unknown>) {
+  return Object.fromEntries(Object.keys(data).map((key) => [key, existing[key] ?? null]))
+}
+
+// Apply an import inside a transaction and record every touched row on the job
+export async function runImport(
+  parsed: ParsedCsv,
+  options: ImportOptions & { fileName?: string },
+  userId: string,
+  tx: Prisma.TransactionClient
+) {
+  const validation = await validateImport(parsed, options, tx)
+  const userByEmail = await loadUsersByEmail(tx)
+
+  const job = await tx.importJob.create({
+    data: {
+      entityType: options.entityType,
+      fileName: options.fileName,
+      duplicatePolicy: options.duplicatePolicy,
+      mapping: { columns: options.mapping, values: options.valueMapping ?? {} },
+      totalRows: validation.summary.total,
+      createdCount: validation.summary.create,
+      updatedCount: validation.summary.update,
+      skippedCount: validation.summary.skip,
+      errorCount: validation.summary.errors,
+      errors: validation.rows
+        .filter((r) => r.action === 'ERROR')
+        .map((r) => ({ rowNumber: r.rowNumber, errors: r.errors })),
+      createdBy: userId,
+    },
+  })
+
+  const records: Prisma.ImportJobRecordCreateManyInput[] = []
+  const touchedLeadIds: string[] = []
+
+  for (const row of validation.rows) {
+    if (row.action !== 'CREATE' && row.action !== 'UPDATE') continue
+    const data = toModelData(options.entityType, row, userByEmail)
+
+    if (options.entityType === 'LEAD') {
+      if (row.action === 'CREATE') {
+        const lead = await tx.lead.create({ data: data as Prisma.LeadUncheckedCreateInput })
+        records.push({ jobId: job.id, rowNumber: row.rowNumber, entityId: lead.id, action: 'CREATED' })
+        touchedLeadIds.push(lead.id)
+      } else {
+        const existing = await tx.lead.findUniqueOrThrow({ where: { id: row.existingId } })
+        // The status age restarts only on a real change; undo restores the old date with it
+        if (data.status && data.status !== existing.status) {
+          data.statusChangedAt = new Date()
+        }
+        await tx.lead.update({ where: { id: existing.id }, data })
+        records.push({ jobId: job.id, rowNumber: row.rowNumber, entityId: existing.id, action: 'UPDATED', previousData: pickPrevious(existing, data) })
+        touchedLeadIds.push(existing.id)
+      }
+    } else if (options.entityType === 'CLIENT') {
+      if (row.action === 'CREATE') {
+        const client = await tx.client.create({
+          data: { ...data, accountManagerId: data.accountManagerId || userId } as Prisma.ClientUncheckedCreateInput,
+        })
+        records.push({ jobId: job.id, rowNumber: row.rowNumber, entityId: client.id, action: 'CREATED' })
+      } else {
+        const existing = await tx.client.findUniqueOrThrow({ where: { id: row.existingId } })
+        await tx.client.update({ where: { id: existing.id }, data })
+        records.push({ jobId: job.id, rowNumber: row.rowNumber, entityId: existing.id, action: 'UPDATED', previousData: pickPrevious(existing, data) })
+      }
+    } else {
+      const currentPrimary = await tx.clientContact.findFirst({
+        where: { clientId: row.clientId, isPrimary: true },
+      })
+
+      // Keep exactly one primary contact per client: the first contact becomes primary,
+      // and an imported primary demotes the current one (recorded so undo restores it)
+      if (!currentPrimary) {
+        data.isPrimary = true
+      } else if (data.isPrimary && currentPrimary.id !== row.existingId) {
+        await tx.clientContact.update({ where: { id: currentPrimary.id }, data: { isPrimary: false } })
+        records.push({ jobId: job.id, rowNumber: row.rowNumber, entityId: currentPrimary.id, action: 'UPDATED', previousData: { isPrimary: true } })
+      } else if (currentPrimary.id === row.existingId) {
+        data.isPrimary = true
+      }
+
+      if (row.action === 'CREATE') {
+        const contact = await tx.clientContact.create({ data: data as Prisma.ClientContactUncheckedCreateInput })
+        records.push({ jobId: job.id, rowNumber: row.rowNumber, entityId: contact.id, action: 'CREATED' })
+      } else {
+        const existing = await tx.clientContact.findUniqueOrThrow({ where: { id: row.existingId } })
+        await tx.clientContact.update({ where: { id: existing.id }, data })
+        records.push({ jobId: job.id, rowNumber: row.rowNumber, entityId: existing.id, action: 'UPDATED', previousData: pickPrevious(existing, data) })
+      }
+    }
+  }
+
+  if (records.length > 0) {
+    await tx.importJobRecord.createMany({ data: records })
+  }
+
+  return { job, validation, touchedLeadIds }
+}
+
+// Reverse an import: delete what it created and restore what it overwrote
+export async function undoImport(jobId: string, userId: string, tx: Prisma.TransactionClient) {
+  const job = await tx.importJob.findUniqueOrThrow({
+    where: { id: jobId },
+    include: { records: { orderBy: { rowNumber: 'desc' } } },
+  })
+
+  const skipped: { entityId: string; reason: string }[] = []
+  let removed = 0
+  let restored = 0
+
+  for (const record of job.records) {
+    if (record.action === 'UPDATED') {
+      const data = (record.previousData ?? {}) as Record<string, any>
+      const result = job.entityType === 'LEAD'
+        ? await tx.lead.updateMany({ where: { id: record.entityId }, data })
+        : job.entityType === 'CLIENT'
+          ? await tx.client.updateMany({ where: { id: record.entityId }, data })
+          : await tx.clientContact.updateMany({ where: { id: record.entityId }, data })
+      if (result.count > 0) restored++
+      continue
+    }
+
+    if (job.entityType === 'LEAD') {
+      const lead = await tx.lead.findUnique({ where: { id: record.entityId }, select: { convertedToClientId: true } })
+      if (lead?.convertedToClientId) {
+        skipped.push({ entityId: record.entityId, reason: 'Lead has been converted to a client' })
+        continue
+      }
+      removed += (await tx.lead.deleteMany({ where: { id: record.entityId } })).count
+    } else if (job.entityType === 'CLIENT') {
+      const client = await tx.client.findUnique({
+        where: { id: record.entityId },
+        select: { _count: { select: { projects: true, proposals: true, invoices: true } } },
+      })
+      if (client && client._count.projects + client._count.proposals + client._count.invoices > 0) {
+        skipped.push({ entityId: record.entityId, reason: 'Client has projects, proposals or invoices' })
+        continue
+      }
+      removed += (await tx.client.deleteMany({ where: { id: record.entityId } })).count
+    } else {
+      removed += (await tx.clientContact.deleteMany({ where: { id: record.entityId } })).count
+    }
+  }
+
+  const updatedJob = await tx.importJob.update({
+    where: { id: jobId },
+    data: {
+      status: 'UNDONE',
+      undoneAt: new Date(),
+      undoneBy: userId,
+    },
+  })
+
+  return { job: updatedJob, removed, restored, skipped }
+}
+
+const importRequestSchema = z.object({
+  entityType: z.enum(['LEAD', 'CLIENT', 'CLIENT_CONTACT']),
+  csv: z.string().min(1, 'CSV content is required'),
+  fileName: z.string().optional(),
+  mapping: z.record(z.string().nullable()).optional(),
+  valueMapping: z.record(z.record(z.string())).optional(),
+  duplicatePolicy: z.enum(['SKIP', 'UPDATE', 'CREATE']).default('SKIP'),
+  dryRun: z.boolean().default(true),
+  skipInvalidRows: z.boolean().default(false),
+})
+
+export type ImportRequest = z.infer<typeof importRequestSchema>
+
+// Accept either a multipart upload (file plus form fields) or a JSON body with the CSV text
+export async function readImportRequest(request: NextRequest): Promise<ImportRequest> {
+  const contentType = request.headers.get('content-type') || ''
+
+  if (contentType.includes('multipart/form-data')) {
+    const form = await request.formData()
+    const file = form.get('file')
+    const readJson = (key: string) => {
+      const value = form.get(key)
+      if (typeof value !== 'string' || !value) return undefined
+      try {
+        return JSON.parse(value)
+      } catch {
+        throw new z.ZodError([{ code: 'custom', path: [key], message: 'Invalid JSON' }])
+      }
+    }
+    const readBoolean = (key: string) => {
+      const value = form.get(key)
+      return typeof value === 'string' ? value === 'true' : undefined
+    }
+
+    if (file instanceof File && file.size > MAX_IMPORT_BYTES) {
+      throw new z.ZodError([{ code: 'custom', path: ['file'], message: 'File is larger than 5 MB' }])
+    }
+
+    return importRequestSchema.parse({
+      entityType: form.get('entityType'),
+      csv: file instanceof File ? await file.text() : form.get('csv'),
+      fileName: file instanceof File ? file.name : form.get('fileName') || undefined,
+      mapping: readJson('mapping'),
+      valueMapping: readJson('valueMapping'),
+      duplicatePolicy: form.get('duplicatePolicy') || undefined,
+      dryRun: readBoolean('dryRun'),
+      skipInvalidRows: readBoolean('skipInvalidRows'),
+    })
+  }
+
+  return importRequestSchema.parse(await request.json())
+}
+
+export function parseImportCsv(csv: string): ParsedCsv {
+  const parsed = parseCsv(csv)
+
+  if (parsed.headers.length === 0) {
+    throw new z.ZodError([{ code: 'custom', path: ['csv'], message: 'CSV file has no header row' }])
+  }
+  if (parsed.rows.length > MAX_IMPORT_ROWS) {
+    throw new z.ZodError([{ code: 'custom', path: ['csv'], message: `CSV files are limited to ${MAX_IMPORT_ROWS} rows` }])
+  }
+
+  return parsed
+}
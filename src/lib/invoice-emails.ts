@@ -0,0 +1,96 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import { prisma } from './prisma'
+import { resolveRecipient } from './client-contacts'
+import { renderInvoicePdf } from './document-pdf'
+import { sendMail } from './mailer'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+// Email an issued invoice to its recipient contact (or the client's primary contact),
+// with the invoice PDF attached
+export async function emailInvoice(
+  invoice: {
+    id: string
+    clientId: string
+    recipientContactId: string | null
+    invoiceNumber: string | null
+    totalAmount: number
+    issueDate: Date
+    dueDate: Date
+    notes: string | null
+  },
+  db: Db = prisma
+) {
+  const recipient = await resolveRecipient(invoice, db)
+  if (!recipient.email) {
+    throw new Error('The client has no email address on file')
+  }
+
+  const pdf = await renderInvoicePdf(invoice.id, {}, db)
+
+  const { messageId } = await sendMail({
+    to: [recipient.email],
+    subject: `Invoice ${invoice.invoiceNumber}`,
+    text: [
+      `Hello ${recipient.name},`,
+      '',
+      `Please find attached invoice ${invoice.invoiceNumber}, issued on ${invoice.issueDate.toDateString()}.`,
+      '',
+      `Amount due: ${invoice.totalAmount.toFixed(2)}`,
+      `Due date: ${invoice.dueDate.toDateString()}`,
+      ...(invoice.notes ? ['', invoice.notes] : []),
+    ].join('\n'),
+    attachments: pdf ? [{ filename: pdf.fileName, content: pdf.body, contentType: pdf.contentType }] : undefined,
+  })
+
+  return { recipient, messageId }
+}
+
+function describeDueDate(dueDate: Date, daysOverdue: number) {
+  if (daysOverdue < 0) {
+    return `is due on ${dueDate.toDateString()}`
+  }
+  if (daysOverdue === 0) {
+    return 'is due today'
+  }
+  return `was due on ${dueDate.toDateString()} and is now ${daysOverdue} day${daysOverdue === 1 ? '' : 's'} overdue`
+}
+
+// Payment reminder for an invoice that still has a balance. `daysOverdue` is negative
+// while the invoice is not due yet.
+export async function emailInvoiceReminder(
+  invoice: {
+    clientId: string
+    recipientContactId: string | null
+    invoiceNumber: string | null
+    totalAmount: number
+    dueDate: Date
+  },
+  balanceDue: number,
+  daysOverdue: number,
+  db: Db = prisma
+) {
+  const recipient = await resolveRecipient(invoice, db)
+  if (!recipient.email) {
+    throw new Error('The client has no email address on file')
+  }
+
+  const { messageId } = await sendMail({
+    to: [recipient.email],
+    subject: daysOverdue > 0
+      ? `Overdue: invoice ${invoice.invoiceNumber}`
+      : `Payment reminder: invoice ${invoice.invoiceNumber}`,
+    text: [
+      `Hello ${recipient.name},`,
+      '',
+      `This is a friendly reminder that invoice ${invoice.invoiceNumber} ${describeDueDate(invoice.dueDate, daysOverdue)}.`,
+      '',
+      `Invoice total: ${invoice.totalAmount.toFixed(2)}`,
+      `Balance due: ${balanceDue.toFixed(2)}`,
+      '',
+      'If you have already paid, please disregard this message.',
+    ].join('\n'),
+  })
+
+  return { recipient, messageId }
+}
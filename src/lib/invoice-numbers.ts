@@ -0,0 +1,157 @@
+import { InvoiceStatus, InvoiceType, Prisma, PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { getAgencyTimeZone, getZonedParts } from './timezone'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+export const INVOICE_NUMBERING_SETTING_KEY = 'invoice_numbering'
+const COUNTER_KEY_PREFIX = 'invoice_numbering_counter'
+
+// Tokens: {PREFIX}, {YYYY}, {YY}, {MM} and {SEQ} (the zero-padded counter)
+const numberSeriesSchema = z.object({
+  prefix: z.string().max(20).regex(/^[A-Za-z0-9_/-]*$/, 'Prefix may only contain letters, digits, -, _ and /'),
+  format: z.string().min(1).max(60).refine((format) => format.includes('{SEQ}'), {
+    message: 'Format must contain {SEQ}',
+  }),
+  padding: z.number().int().min(1).max(10),
+  // Restart the counter at 1 every calendar year (in the agency timezone)
+  resetYearly: z.boolean(),
+})
+
+// Numbering settings stored as JSON in the invoice_numbering system setting
+export const invoiceNumberingConfigSchema = z.object({
+  // CREATE numbers every invoice when it is saved; SEND leaves drafts unnumbered until
+  // they are issued, so deleting a draft never leaves a gap in the series
+  assignOn: z.enum(['CREATE', 'SEND']),
+  invoice: numberSeriesSchema,
+  creditNote: numberSeriesSchema,
+})
+
+export type InvoiceNumberingConfig = z.infer<typeof invoiceNumberingConfigSchema>
+export type NumberSeries = z.infer<typeof numberSeriesSchema>
+
+export const defaultInvoiceNumberingConfig: InvoiceNumberingConfig = {
+  assignOn: 'SEND',
+  invoice: { prefix: 'INV', format: '{PREFIX}-{YYYY}-{SEQ}', padding: 4, resetYearly: true },
+  creditNote: { prefix: 'CN', format: '{PREFIX}-{YYYY}-{SEQ}', padding: 4, resetYearly: true },
+}
+
+export async function getInvoiceNumberingConfig(db: Db = prisma): Promise<InvoiceNumberingConfig> {
+  const setting = await db.systemSetting.findUnique({
+    where: { key: INVOICE_NUMBERING_SETTING_KEY },
+  })
+
+  if (!setting?.value) {
+    return defaultInvoiceNumberingConfig
+  }
+
+  try {
+    return invoiceNumberingConfigSchema.parse({
+      ...defaultInvoiceNumberingConfig,
+      ...JSON.parse(setting.value),
+    })
+  } catch (error) {
+    console.error('Invalid invoice numbering configuration, using defaults:', error)
+    return defaultInvoiceNumberingConfig
+  }
+}
+
+export function formatDocumentNumber(series: NumberSeries, sequence: number, year: number, month: number) {
+  return series.format
+    .replace(/\{PREFIX\}/g, series.prefix)
+    .replace(/\{YYYY\}/g, String(year))
+    .replace(/\{YY\}/g, String(year % 100).padStart(2, '0'))
+    .replace(/\{MM\}/g, String(month).padStart(2, '0'))
+    .replace(/\{SEQ\}/g, String(sequence).padStart(series.padding, '0'))
+}
+
+function seriesFor(config: InvoiceNumberingConfig, type: InvoiceType) {
+  return type === 'CREDIT_NOTE' ? config.creditNote : config.invoice
+}
+
+// Whether a new invoice in this status gets its number when it is created
+export function numbersOnCreate(config: InvoiceNumberingConfig, status: InvoiceStatus) {
+  return config.assignOn === 'CREATE' || status !== 'DRAFT'
+}
+
+// Take the next number of a series. The counter lives in a system setting and is
+// advanced with a compare-and-set, so concurrent callers never get the same value.
+// Call this inside the transaction that saves the invoice: if the save fails the
+// counter rolls back with it and the series keeps no gaps.
+export async function allocateDocumentNumber(
+  type: InvoiceType,
+  db: Db = prisma,
+  issueDate: Date = new Date()
+) {
+  const [config, timeZone] = await Promise.all([
+    getInvoiceNumberingConfig(db),
+    getAgencyTimeZone(db),
+  ])
+  const series = seriesFor(config, type)
+  const { year, month } = getZonedParts(issueDate, timeZone)
+  const key = `${COUNTER_KEY_PREFIX}:${type}:${series.resetYearly ? year : 'all'}`
+
+  await db.systemSetting.upsert({
+    where: { key },
+    update: {},
+    create: {
+      key,
+      value: '0',
+      description: `Last ${type === 'CREDIT_NOTE' ? 'credit note' : 'invoice'} number issued${series.resetYearly ? ` in ${year}` : ''}`,
+    },
+  })
+
+  for (;;) {
+    const counter = await db.systemSetting.findUniqueOrThrow({ where: { key } })
+    let sequence = Number(counter.value) + 1
+    let invoiceNumber = formatDocumentNumber(series, sequence, year, month)
+
+    // Numbers typed in by hand before the series existed are skipped over
+    while (await db.invoice.findUnique({ where: { invoiceNumber }, select: { id: true } })) {
+      sequence++
+      invoiceNumber = formatDocumentNumber(series, sequence, year, month)
+    }
+
+    const claimed = await db.systemSetting.updateMany({
+      where: { key, value: counter.value },
+      data: { value: String(sequence) },
+    })
+
+    if (claimed.count === 1) {
+      return invoiceNumber
+    }
+  }
+}
+
+// Number for an invoice that is about to be created, or null for a draft that is
+// numbered later by assignInvoiceNumber
+export async function numberForNewInvoice(
+  type: InvoiceType,
+  status: InvoiceStatus,
+  db: Db = prisma,
+  issueDate: Date = new Date()
+) {
+  const config = await getInvoiceNumberingConfig(db)
+  return numbersOnCreate(config, status) ? allocateDocumentNumber(type, db, issueDate) : null
+}
+
+// Give an invoice that is being issued its number, if it does not have one yet
+export async function assignInvoiceNumber(invoiceId: string, db: Db = prisma) {
+  const invoice = await db.invoice.findUniqueOrThrow({
+    where: { id: invoiceId },
+    select: { invoiceNumber: true, type: true, issueDate: true },
+  })
+
+  if (invoice.invoiceNumber) {
+    return invoice.invoiceNumber
+  }
+
+  const invoiceNumber = await allocateDocumentNumber(invoice.type, db, invoice.issueDate)
+  await db.invoice.update({
+    where: { id: invoiceId },
+    data: { invoiceNumber },
+  })
+
+  return invoiceNumber
+}
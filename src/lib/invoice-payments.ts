@@ -0,0 +1,304 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { roundMoney } from './utils'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+// Validation schema for recording a payment against an invoice
+export const paymentSchema = z.object({
+  amount: z.number().gt(0, 'Payment amount must be positive'),
+  paymentMethod: z.string().min(1).max(50).optional(),
+  transactionId: z.string().max(200).optional(),
+  paymentDate: z.string().datetime().optional(),
+  notes: z.string().max(2000).optional(),
+})
+
+// Validation schema for refunding (part of) a payment. Without an amount the rest of
+// the payment is refunded.
+export const refundSchema = z.object({
+  paymentId: z.string().min(1, 'Payment ID is required'),
+  amount: z.number().gt(0, 'Refund amount must be positive').optional(),
+  transactionId: z.string().max(200).optional(),
+  paymentDate: z.string().datetime().optional(),
+  notes: z.string().max(2000).optional(),
+})
+
+export type PaymentInput = z.infer<typeof paymentSchema>
+export type RefundInput = z.infer<typeof refundSchema>
+
+export class InvoicePaymentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvoicePaymentError'
+  }
+}
+
+export interface InvoiceBalance {
+  amountPaid: number
+  amountRefunded: number
+  amountCredited: number
+  balanceDue: number
+}
+
+// What the client has paid net of refunds, and what is still owed after payments and
+// credit notes. Cancelled invoices owe nothing.
+export function summarizeInvoiceBalance(invoice: {
+  status: string
+  totalAmount: number
+  payments: { type: string; amount: number }[]
+  creditNotes?: { totalAmount: number }[]
+}): InvoiceBalance {
+  const received = invoice.payments
+    .filter((payment) => payment.type === 'PAYMENT')
+    .reduce((sum, payment) => sum + payment.amount, 0)
+  const amountRefunded = roundMoney(invoice.payments
+    .filter((payment) => payment.type === 'REFUND')
+    .reduce((sum, payment) => sum + payment.amount, 0))
+  const amountCredited = roundMoney((invoice.creditNotes ?? []).reduce((sum, note) => sum + note.totalAmount, 0))
+  const amountPaid = roundMoney(received - amountRefunded)
+
+  return {
+    amountPaid,
+    amountRefunded,
+    amountCredited,
+    balanceDue: invoice.status === 'CANCELLED'
+      ? 0
+      : Math.max(roundMoney(invoice.totalAmount - amountPaid - amountCredited), 0),
+  }
+}
+
+export const invoiceBalanceInclude = {
+  payments: { select: { type: true, amount: true, paymentDate: true } },
+  creditNotes: { select: { totalAmount: true } },
+}
+
+// Bring an invoice's status in line with its balance: PAID (with the date of the
+// settling payment) once nothing is owed, CANCELLED when credit notes cover it without
+// any payment, and back to SENT or OVERDUE when a refund reopens it. A zero-total
+// invoice is PAID from its issue date, since there is nothing to pay.
+export async function syncInvoicePaymentStatus(invoiceId: string, db: Db = prisma, now: Date = new Date()) {
+  const invoice = await db.invoice.findUniqueOrThrow({
+    where: { id: invoiceId },
+    include: invoiceBalanceInclude,
+  })
+  const balance = summarizeInvoiceBalance(invoice)
+
+  if (invoice.status === 'CANCELLED' || invoice.status === 'DRAFT') {
+    return { ...balance, status: invoice.status }
+  }
+
+  if (invoice.totalAmount === 0) {
+    if (invoice.status !== 'PAID') {
+      await db.invoice.update({
+        where: { id: invoiceId },
+        data: { status: 'PAID', paidDate: invoice.issueDate },
+      })
+    }
+    return { ...balance, status: 'PAID' as const }
+  }
+
+  if (balance.balanceDue === 0 && balance.amountPaid > 0 && invoice.status !== 'PAID') {
+    const settledAt = invoice.payments
+      .filter((payment) => payment.type === 'PAYMENT')
+      .reduce((latest, payment) => (payment.paymentDate > latest ? payment.paymentDate : latest), new Date(0))
+
+    await db.invoice.update({
+      where: { id: invoiceId },
+      data: { status: 'PAID', paidDate: settledAt },
+    })
+    return { ...balance, status: 'PAID' as const }
+  }
+
+  if (balance.balanceDue === 0 && balance.amountPaid <= 0 && balance.amountCredited > 0) {
+    await db.invoice.update({
+      where: { id: invoiceId },
+      data: { status: 'CANCELLED', paidDate: null },
+    })
+    return { ...balance, status: 'CANCELLED' as const }
+  }
+
+  if (balance.balanceDue > 0 && invoice.status === 'PAID') {
+    const status = invoice.dueDate < now ? 'OVERDUE' as const : 'SENT' as const
+    await db.invoice.update({
+      where: { id: invoiceId },
+      data: { status, paidDate: null },
+    })
+    return { ...balance, status }
+  }
+
+  return { ...balance, status: invoice.status }
+}
+
+// Record a payment, book the matching revenue and settle the invoice when the balance
+// reaches zero. Overpayments are rejected.
+export async function recordInvoicePayment(
+  invoiceId: string,
+  input: PaymentInput,
+  userId: string,
+  db: PrismaClient = prisma,
+  now: Date = new Date()
+) {
+  return db.$transaction(async (tx) => {
+    const invoice = await tx.invoice.findUnique({
+      where: { id: invoiceId },
+      include: invoiceBalanceInclude,
+    })
+
+    if (!invoice) {
+      return null
+    }
+
+    if (invoice.type !== 'INVOICE') {
+      throw new InvoicePaymentError('Payments can only be recorded against invoices')
+    }
+
+    if (invoice.status === 'DRAFT' || invoice.status === 'CANCELLED') {
+      throw new InvoicePaymentError(`Cannot record a payment on a ${invoice.status.toLowerCase()} invoice`)
+    }
+
+    const amount = roundMoney(input.amount)
+    const { balanceDue } = summarizeInvoiceBalance(invoice)
+    if (amount > balanceDue) {
+      throw new InvoicePaymentError(`Payment exceeds the balance due of ${balanceDue}`)
+    }
+
+    const paymentDate = input.paymentDate ? new Date(input.paymentDate) : now
+    const payment = await tx.payment.create({
+      data: {
+        invoiceId,
+        type: 'PAYMENT',
+        amount,
+        paymentMethod: input.paymentMethod,
+        transactionId: input.transactionId,
+        paymentDate,
+        notes: input.notes,
+        recordedBy: userId,
+      },
+    })
+
+    // Revenue amounts are net of tax like every other revenue row: the cash received is
+    // split into amount and taxAmount by the invoice's tax share
+    const taxShare = invoice.totalAmount > 0 ? invoice.taxAmount / invoice.totalAmount : 0
+    const tax = roundMoney(amount * taxShare)
+    await tx.revenue.create({
+      data: {
+        title: `Payment for invoice ${invoice.invoiceNumber}`,
+        amount: roundMoney(amount - tax),
+        taxAmount: tax,
+        currency: invoice.currency,
+        category: invoice.recurringInvoiceId ? 'SUBSCRIPTION' : 'PROJECT_PAYMENT',
+        date: paymentDate,
+        status: 'RECEIVED',
+        projectId: invoice.projectId,
+        clientId: invoice.clientId,
+        invoiceId,
+        paymentId: payment.id,
+        notes: input.transactionId ? `Transaction ${input.transactionId}` : undefined,
+        userId,
+      },
+    })
+
+    const result = await syncInvoicePaymentStatus(invoiceId, tx, now)
+
+    await tx.activity.create({
+      data: {
+        userId,
+        type: 'PAYMENT_RECEIVED',
+        description: `Payment of ${amount} recorded for invoice ${invoice.invoiceNumber}`,
+        entityType: 'INVOICE',
+        entityId: invoiceId,
+        metadata: {
+          paymentId: payment.id,
+          amount,
+          balanceDue: result.balanceDue,
+        },
+      },
+    })
+
+    return { payment, ...result }
+  })
+}
+
+// Refund (part of) a payment. The payment's revenue is reduced by the refund and marked
+// REFUNDED once nothing of it is left; the invoice reopens if it was paid.
+export async function refundInvoicePayment(
+  invoiceId: string,
+  input: RefundInput,
+  userId: string,
+  db: PrismaClient = prisma,
+  now: Date = new Date()
+) {
+  return db.$transaction(async (tx) => {
+    const original = await tx.payment.findFirst({
+      where: { id: input.paymentId, invoiceId },
+      include: {
+        invoice: { select: { invoiceNumber: true } },
+        refunds: { select: { amount: true } },
+      },
+    })
+
+    if (!original) {
+      return null
+    }
+
+    if (original.type !== 'PAYMENT') {
+      throw new InvoicePaymentError('Only payments can be refunded')
+    }
+
+    const refundable = roundMoney(original.amount - original.refunds.reduce((sum, refund) => sum + refund.amount, 0))
+    const amount = input.amount === undefined ? refundable : roundMoney(input.amount)
+
+    if (amount <= 0 || amount > refundable) {
+      throw new InvoicePaymentError(`At most ${refundable} of this payment can still be refunded`)
+    }
+
+    const refund = await tx.payment.create({
+      data: {
+        invoiceId,
+        type: 'REFUND',
+        refundedPaymentId: original.id,
+        amount,
+        paymentMethod: original.paymentMethod,
+        transactionId: input.transactionId,
+        paymentDate: input.paymentDate ? new Date(input.paymentDate) : now,
+        notes: input.notes,
+        recordedBy: userId,
+      },
+    })
+
+    const remaining = roundMoney(refundable - amount)
+    const revenue = await tx.revenue.findUnique({ where: { paymentId: original.id } })
+    if (revenue) {
+      // Keep the revenue's net/tax split while shrinking its gross to what is left
+      const gross = revenue.amount + revenue.taxAmount
+      const tax = gross > 0 ? roundMoney(revenue.taxAmount * remaining / gross) : 0
+      await tx.revenue.update({
+        where: { id: revenue.id },
+        data: remaining > 0
+          ? { amount: roundMoney(remaining - tax), taxAmount: tax }
+          : { status: 'REFUNDED' },
+      })
+    }
+
+    const result = await syncInvoicePaymentStatus(invoiceId, tx, now)
+
+    await tx.activity.create({
+      data: {
+        userId,
+        type: 'PAYMENT_REFUNDED',
+        description: `Refund of ${amount} recorded for invoice ${original.invoice.invoiceNumber}`,
+        entityType: 'INVOICE',
+        entityId: invoiceId,
+        metadata: {
+          paymentId: original.id,
+          refundId: refund.id,
+          amount,
+          balanceDue: result.balanceDue,
+        },
+      },
+    })
+
+    return { refund, ...result }
+  })
+}
@@ -0,0 +1,250 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { emailInvoiceReminder } from './invoice-emails'
+import { invoiceBalanceInclude, summarizeInvoiceBalance } from './invoice-payments'
+import { getAgencyTimeZone, startOfZonedDay } from './timezone'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+export const INVOICE_REMINDERS_SETTING_KEY = 'invoice_reminders'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_REMINDER_ATTEMPTS = 3
+
+// Reminder settings stored as JSON in the invoice_reminders system setting. Each step is a
+// number of days relative to the due date: negative before it, 0 on the day, positive after.
+export const invoiceReminderConfigSchema = z.object({
+  enabled: z.boolean(),
+  steps: z.array(z.number().int().min(-90).max(365))
+    .max(10)
+    .refine((steps) => new Set(steps).size === steps.length, { message: 'Reminder steps must be unique' })
+    .transform((steps) => [...steps].sort((a, b) => a - b)),
+})
+
+export type InvoiceReminderConfig = z.infer<typeof invoiceReminderConfigSchema>
+
+export const defaultInvoiceReminderConfig: InvoiceReminderConfig = {
+  enabled: true,
+  steps: [-3, 0, 7, 30],
+}
+
+export async function getInvoiceReminderConfig(db: Db = prisma): Promise<InvoiceReminderConfig> {
+  const setting = await db.systemSetting.findUnique({
+    where: { key: INVOICE_REMINDERS_SETTING_KEY },
+  })
+
+  if (!setting?.value) {
+    return defaultInvoiceReminderConfig
+  }
+
+  try {
+    return invoiceReminderConfigSchema.parse({
+      ...defaultInvoiceReminderConfig,
+      ...JSON.parse(setting.value),
+    })
+  } catch (error) {
+    console.error('Invalid invoice reminder configuration, using defaults:', error)
+    return defaultInvoiceReminderConfig
+  }
+}
+
+// Whole days between the due date and today in the agency timezone; negative before the due date
+export function daysPastDue(dueDate: Date, now: Date, timeZone: string) {
+  const elapsed = startOfZonedDay(now, timeZone).getTime() - startOfZonedDay(dueDate, timeZone).getTime()
+  return Math.round(elapsed / DAY_MS)
+}
+
+// Move issued invoices whose due date has passed to OVERDUE. An invoice due today is not
+// overdue until the agency's day is over, and one with nothing left to pay never is.
+export async function markOverdueInvoices(db: PrismaClient = prisma, now: Date = new Date()) {
+  const startOfToday = startOfZonedDay(now, await getAgencyTimeZone(db))
+  const due = await db.invoice.findMany({
+    where: { type: 'INVOICE', status: 'SENT', dueDate: { lt: startOfToday } },
+    select: {
+      id: true,
+      invoiceNumber: true,
+      dueDate: true,
+      createdBy: true,
+      status: true,
+      totalAmount: true,
+      client: { select: { accountManagerId: true } },
+      ...invoiceBalanceInclude,
+    },
+  })
+
+  let marked = 0
+  for (const invoice of due) {
+    if (summarizeInvoiceBalance(invoice).balanceDue <= 0) {
+      continue
+    }
+
+    const changed = await db.$transaction(async (tx) => {
+      const updated = await tx.invoice.updateMany({
+        where: { id: invoice.id, status: 'SENT' },
+        data: { status: 'OVERDUE' },
+      })
+      if (updated.count === 0) {
+        return false
+      }
+
+      await tx.activity.create({
+        data: {
+          userId: invoice.client.accountManagerId ?? invoice.createdBy,
+          type: 'INVOICE_OVERDUE',
+          description: `Invoice ${invoice.invoiceNumber} is overdue`,
+          entityType: 'INVOICE',
+          entityId: invoice.id,
+          metadata: { dueDate: invoice.dueDate.toISOString() },
+        },
+      })
+      return true
+    })
+
+    if (changed) {
+      marked++
+    }
+  }
+
+  return marked
+}
+
+// Claim a reminder step for sending. The row is created on first use and its attempt
+// counter advanced with a compare-and-set, so overlapping job runs never send it twice.
+async function claimReminder(invoiceId: string, offsetDays: number, db: PrismaClient) {
+  const reminder = await db.invoiceReminder.upsert({
+    where: { invoiceId_offsetDays: { invoiceId, offsetDays } },
+    update: {},
+    create: { invoiceId, offsetDays },
+  })
+
+  if (reminder.status === 'SENT' || reminder.attempts >= MAX_REMINDER_ATTEMPTS) {
+    return null
+  }
+
+  const claimed = await db.invoiceReminder.updateMany({
+    where: { id: reminder.id, attempts: reminder.attempts, status: { not: 'SENT' } },
+    data: { attempts: { increment: 1 }, status: 'PENDING', error: null },
+  })
+
+  return claimed.count === 1 ? reminder.id : null
+}
+
+// Send the payment reminders that are due. Each invoice gets at most one reminder per
+// run: the latest step it has reached, so an invoice issued late does not receive the
+// earlier steps all at once. Every attempt is logged on the invoice and the client's
+// account manager (or the invoice creator) is notified.
+export async function sendDueInvoiceReminders(db: PrismaClient = prisma, now: Date = new Date()) {
+  const config = await getInvoiceReminderConfig(db)
+  if (!config.enabled || config.steps.length === 0) {
+    return { checked: 0, sent: 0, failed: [] }
+  }
+
+  const timeZone = await getAgencyTimeZone(db)
+  const firstStep = config.steps[0]
+  const lastStep = config.steps[config.steps.length - 1]
+
+  const invoices = await db.invoice.findMany({
+    where: {
+      type: 'INVOICE',
+      status: { in: ['SENT', 'OVERDUE'] },
+      invoiceNumber: { not: null },
+      dueDate: {
+        gte: new Date(now.getTime() - (lastStep + 2) * DAY_MS),
+        lte: new Date(now.getTime() + (Math.max(-firstStep, 0) + 1) * DAY_MS),
+      },
+    },
+    include: {
+      ...invoiceBalanceInclude,
+      reminders: { select: { offsetDays: true, status: true } },
+      client: { select: { name: true, accountManagerId: true } },
+    },
+  })
+
+  let sent = 0
+  const failed = []
+
+  for (const invoice of invoices) {
+    const { balanceDue } = summarizeInvoiceBalance(invoice)
+    if (balanceDue <= 0) {
+      continue
+    }
+
+    const daysOverdue = daysPastDue(invoice.dueDate, now, timeZone)
+    const step = config.steps.filter((offset) => offset <= daysOverdue).pop()
+    const laterStepSent = invoice.reminders.some((reminder) =>
+      reminder.status === 'SENT' && step !== undefined && reminder.offsetDays >= step
+    )
+    if (step === undefined || laterStepSent) {
+      continue
+    }
+
+    const reminderId = await claimReminder(invoice.id, step, db)
+    if (!reminderId) {
+      continue
+    }
+
+    const managerId = invoice.client.accountManagerId ?? invoice.createdBy
+
+    try {
+      const { recipient, messageId } = await emailInvoiceReminder(invoice, balanceDue, daysOverdue, db)
+
+      await db.$transaction([
+        db.invoiceReminder.update({
+          where: { id: reminderId },
+          data: { status: 'SENT', recipient: recipient.email, messageId, sentAt: now },
+        }),
+        db.activity.create({
+          data: {
+            userId: managerId,
+            type: 'INVOICE_REMINDER_SENT',
+            description: `Payment reminder for invoice ${invoice.invoiceNumber} sent to ${recipient.name}`,
+            entityType: 'INVOICE',
+            entityId: invoice.id,
+            metadata: { reminderId, offsetDays: step, balanceDue, recipient: recipient.email },
+          },
+        }),
+        db.notification.create({
+          data: {
+            userId: managerId,
+            title: 'Payment reminder sent',
+            message: `Invoice ${invoice.invoiceNumber} for ${invoice.client.name}: reminder sent to ${recipient.email} (balance due ${balanceDue.toFixed(2)})`,
+            type: daysOverdue > 0 ? 'WARNING' : 'INFO',
+            actionUrl: '/invoices',
+          },
+        }),
+      ])
+      sent++
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.error(`Reminder for invoice ${invoice.id} failed:`, error)
+
+      await db.$transaction([
+        db.invoiceReminder.update({
+          where: { id: reminderId },
+          data: { status: 'FAILED', error: message },
+        }),
+        db.notification.create({
+          data: {
+            userId: managerId,
+            title: 'Payment reminder failed',
+            message: `The reminder for invoice ${invoice.invoiceNumber} (${invoice.client.name}) could not be sent: ${message}`,
+            type: 'ERROR',
+            actionUrl: '/invoices',
+          },
+        }),
+      ])
+      failed.push({ invoiceId: invoice.id, offsetDays: step, error: message })
+    }
+  }
+
+  return { checked: invoices.length, sent, failed }
+}
+
+// The daily dunning run: flag overdue invoices, then send the reminders that are due
+export async function runInvoiceDunning(db: PrismaClient = prisma, now: Date = new Date()) {
+  const markedOverdue = await markOverdueInvoices(db, now)
+  const reminders = await sendDueInvoiceReminders(db, now)
+
+  return { markedOverdue, ...reminders }
+}
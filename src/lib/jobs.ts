@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { timingSafeEqual } from 'crypto'
+import { authOptions } from './auth'
+import { prisma } from './prisma'
+
+// Background jobs under /api/jobs are triggered by an external scheduler (cron, a platform
+// cron service, ...) sending `Authorization: Bearer $CRON_SECRET`, or run by hand by an admin.
+export async function authorizeJobRequest(request: NextRequest): Promise<boolean> {
+  const secret = process.env.CRON_SECRET
+  const header = request.headers.get('authorization') || ''
+
+  if (secret && header.startsWith('Bearer ')) {
+    const provided = Buffer.from(header.slice('Bearer '.length))
+    const expected = Buffer.from(secret)
+    return provided.length === expected.length && timingSafeEqual(provided, expected)
+  }
+
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return false
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true },
+  })
+  return user?.role === 'ADMIN'
+}
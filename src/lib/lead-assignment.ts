@@ -0,0 +1,318 @@
+import { Prisma, PrismaClient, LeadSource } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+export const LEAD_ASSIGNMENT_SETTING_KEY = 'lead_assignment'
+export const LEAD_ASSIGNMENT_STATE_KEY = 'lead_assignment_state'
+
+// Only these roles take part in automatic lead distribution
+export const ASSIGNABLE_ROLES = ['MEMBER', 'MANAGER'] as const
+
+const assignmentRuleSchema = z.object({
+  name: z.string().min(1, 'Rule name is required'),
+  sources: z.array(z.enum(['WEBSITE', 'SOCIAL', 'REFERRAL', 'EMAIL', 'COLD_CALL'])).optional(),
+  industries: z.array(z.string().min(1)).optional(),
+  minCompanySize: z.number().int().min(0).optional(),
+  maxCompanySize: z.number().int().min(0).optional(),
+  userIds: z.array(z.string()).min(1, 'A rule needs at least one user'),
+})
+
+// Assignment settings stored as JSON in the lead_assignment system setting
+export const leadAssignmentConfigSchema = z.object({
+  enabled: z.boolean(),
+  strategy: z.enum(['ROUND_ROBIN', 'WEIGHTED']),
+  // Per-user weight for the WEIGHTED strategy; users without an entry weigh 1
+  weights: z.record(z.number().min(0)),
+  // Upper bound of open leads per user; users at capacity are skipped
+  maxOpenLeads: z.number().int().min(1).nullable(),
+  excludedUserIds: z.array(z.string()),
+  // Evaluated in order; the first matching rule narrows the candidate pool
+  rules: z.array(assignmentRuleSchema),
+})
+
+export type LeadAssignmentConfig = z.infer<typeof leadAssignmentConfigSchema>
+export type LeadAssignmentRule = z.infer<typeof assignmentRuleSchema>
+
+export const defaultLeadAssignmentConfig: LeadAssignmentConfig = {
+  enabled: true,
+  strategy: 'ROUND_ROBIN',
+  weights: {},
+  maxOpenLeads: null,
+  excludedUserIds: [],
+  rules: [],
+}
+
+interface AssignableLead {
+  id: string
+  name: string
+  source: LeadSource
+  industry: string | null
+  companySize: number | null
+}
+
+export interface AssignmentCandidate {
+  id: string
+  name: string
+  email: string
+  role: string
+  openLeads: number
+  weight: number
+}
+
+export interface AssignmentDecision {
+  userId: string
+  strategy: LeadAssignmentConfig['strategy']
+  rule: string | null
+}
+
+// Round-robin pointers, keyed by rule name ('default' for the full pool)
+type AssignmentState = Record<string, string>
+
+const DEFAULT_POOL = 'default'
+
+export function matchesRule(lead: AssignableLead, rule: LeadAssignmentRule): boolean {
+  if (rule.sources?.length && !rule.sources.includes(lead.source)) {
+    return false
+  }
+
+  if (rule.industries?.length) {
+    const industry = lead.industry?.trim().toLowerCase()
+    if (!industry || !rule.industries.some((i) => i.trim().toLowerCase() === industry)) {
+      return false
+    }
+  }
+
+  if (rule.minCompanySize !== undefined || rule.maxCompanySize !== undefined) {
+    if (lead.companySize === null) {
+      return false
+    }
+    if (rule.minCompanySize !== undefined && lead.companySize < rule.minCompanySize) {
+      return false
+    }
+    if (rule.maxCompanySize !== undefined && lead.companySize > rule.maxCompanySize) {
+      return false
+    }
+  }
+
+  return true
+}
+
+// Pick the next user after the last one assigned in this pool
+export function pickRoundRobin(candidates: AssignmentCandidate[], lastUserId?: string): AssignmentCandidate {
+  const ordered = [...candidates].sort((a, b) => a.id.localeCompare(b.id))
+  const next = ordered.find((c) => lastUserId !== undefined && c.id > lastUserId)
+  return next || ordered[0]
+}
+
+// Pick the user with the lowest open-lead load relative to their weight
+export function pickWeighted(candidates: AssignmentCandidate[]): AssignmentCandidate | undefined {
+  return [...candidates]
+    .filter((c) => c.weight > 0)
+    .sort((a, b) => a.openLeads / a.weight - b.openLeads / b.weight || a.id.localeCompare(b.id))[0]
+}
+
+export async function getLeadAssignmentConfig(db: Db = prisma): Promise<LeadAssignmentConfig> {
+  const setting = await db.systemSetting.findUnique({
+    where: { key: LEAD_ASSIGNMENT_SETTING_KEY },
+  })
+
+  if (!setting?.value) {
+    return defaultLeadAssignmentConfig
+  }
+
+  try {
+    return leadAssignmentConfigSchema.parse({
+      ...defaultLeadAssignmentConfig,
+      ...JSON.parse(setting.value),
+    })
+  } catch (error) {
+    console.error('Invalid lead assignment configuration, using defaults:', error)
+    return defaultLeadAssignmentConfig
+  }
+}
+
+async function getAssignmentState(db: Db): Promise<AssignmentState> {
+  const setting = await db.systemSetting.findUnique({
+    where: { key: LEAD_ASSIGNMENT_STATE_KEY },
+  })
+
+  try {
+    return setting?.value ? JSON.parse(setting.value) : {}
+  } catch {
+    return {}
+  }
+}
+
+async function saveAssignmentState(state: AssignmentState, db: Db) {
+  await db.systemSetting.upsert({
+    where: { key: LEAD_ASSIGNMENT_STATE_KEY },
+    update: { value: JSON.stringify(state) },
+    create: {
+      key: LEAD_ASSIGNMENT_STATE_KEY,
+      value: JSON.stringify(state),
+      description: 'Round-robin position for automatic lead assignment',
+    },
+  })
+}
+
+// Active MEMBER/MANAGER users with their current open-lead load
+export async function getAssignmentCandidates(
+  config: LeadAssignmentConfig,
+  db: Db = prisma
+): Promise<AssignmentCandidate[]> {
+  const users = await db.user.findMany({
+    where: {
+      isActive: true,
+      role: { in: [...ASSIGNABLE_ROLES] },
+      id: { notIn: config.excludedUserIds },
+    },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      role: true,
+      _count: {
+        select: {
+          assignedLeads: {
+            where: { status: { notIn: ['CONVERTED', 'LOST'] } },
+          },
+        },
+      },
+    },
+  })
+
+  return users.map((user) => ({
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    openLeads: user._count.assignedLeads,
+    weight: config.weights[user.id] ?? 1,
+  }))
+}
+
+// Decide who should own a lead, advancing the round-robin position of the chosen pool
+export async function chooseAssignee(
+  lead: AssignableLead,
+  db: Db = prisma,
+  config?: LeadAssignmentConfig
+): Promise<AssignmentDecision | null> {
+  const activeConfig = config ?? await getLeadAssignmentConfig(db)
+  if (!activeConfig.enabled) {
+    return null
+  }
+
+  const candidates = (await getAssignmentCandidates(activeConfig, db)).filter(
+    (c) => activeConfig.maxOpenLeads === null || c.openLeads < activeConfig.maxOpenLeads
+  )
+
+  const rule = activeConfig.rules.find((r) => matchesRule(lead, r)) || null
+  const pool = rule
+    ? candidates.filter((c) => rule.userIds.includes(c.id))
+    : candidates
+
+  // A matching rule whose users are all unavailable falls back to the full pool
+  const effectivePool = pool.length > 0 ? pool : candidates
+  const poolKey = pool.length > 0 && rule ? rule.name : DEFAULT_POOL
+
+  if (effectivePool.length === 0) {
+    return null
+  }
+
+  let chosen: AssignmentCandidate | undefined
+  if (activeConfig.strategy === 'WEIGHTED') {
+    chosen = pickWeighted(effectivePool)
+  } else {
+    const state = await getAssignmentState(db)
+    chosen = pickRoundRobin(effectivePool, state[poolKey])
+    await saveAssignmentState({ ...state, [poolKey]: chosen.id }, db)
+  }
+
+  if (!chosen) {
+    return null
+  }
+
+  return {
+    userId: chosen.id,
+    strategy: activeConfig.strategy,
+    rule: pool.length > 0 ? rule?.name ?? null : null,
+  }
+}
+
+// Persist an assignment and let the new owner know about it
+export async function recordLeadAssignment(
+  lead: Pick<AssignableLead, 'id' | 'name'>,
+  assigneeId: string,
+  actorId: string,
+  db: Db = prisma,
+  details: { strategy?: string; rule?: string | null; notify?: boolean } = {}
+) {
+  await db.lead.update({
+    where: { id: lead.id },
+    data: { assignedTo: assigneeId },
+  })
+
+  await db.activity.create({
+    data: {
+      userId: actorId,
+      type: 'LEAD_ASSIGNED',
+      description: `Lead ${lead.name} assigned`,
+      entityType: 'LEAD',
+      entityId: lead.id,
+      metadata: {
+        assigneeId,
+        strategy: details.strategy ?? 'MANUAL',
+        rule: details.rule ?? null,
+      },
+    },
+  })
+
+  if (details.notify === false) {
+    return
+  }
+
+  await db.notification.create({
+    data: {
+      userId: assigneeId,
+      title: 'New lead assigned',
+      message: `You have been assigned the lead ${lead.name}`,
+      type: 'INFO',
+      actionUrl: '/leads',
+    },
+  })
+}
+
+// Run the assignment engine for an unassigned lead; returns the assignee id if one was chosen
+export async function autoAssignLead(
+  leadId: string,
+  actorId: string,
+  db: Db = prisma,
+  config?: LeadAssignmentConfig
+): Promise<string | null> {
+  const lead = await db.lead.findUnique({
+    where: { id: leadId },
+    select: {
+      id: true,
+      name: true,
+      source: true,
+      industry: true,
+      companySize: true,
+      assignedTo: true,
+    },
+  })
+
+  if (!lead || lead.assignedTo) {
+    return lead?.assignedTo ?? null
+  }
+
+  const decision = await chooseAssignee(lead, db, config)
+  if (!decision) {
+    return null
+  }
+
+  await recordLeadAssignment(lead, decision.userId, actorId, db, decision)
+
+  return decision.userId
+}
@@ -0,0 +1,192 @@
+import { NextRequest } from 'next/server'
+import { randomBytes } from 'crypto'
+
+// Lead fields a web form can populate
+export const CAPTURE_FIELDS = ['name', 'firstName', 'lastName', 'email', 'company', 'phone', 'industry', 'companySize', 'notes'] as const
+export type CaptureField = (typeof CAPTURE_FIELDS)[number]
+
+export const UTM_FIELDS = {
+  utm_source: 'utmSource',
+  utm_medium: 'utmMedium',
+  utm_campaign: 'utmCampaign',
+  utm_term: 'utmTerm',
+  utm_content: 'utmContent',
+} as const
+
+// Common form field names, used when a form has no explicit mapping for a field
+const DEFAULT_FIELD_ALIASES: Record<CaptureField, string[]> = {
+  name: ['name', 'full_name', 'fullname', 'your-name', 'your_name'],
+  firstName: ['first_name', 'firstname', 'fname'],
+  lastName: ['last_name', 'lastname', 'lname'],
+  email: ['email', 'email_address', 'your-email', 'your_email'],
+  company: ['company', 'company_name', 'organization', 'organisation'],
+  phone: ['phone', 'phone_number', 'tel', 'telephone', 'mobile'],
+  industry: ['industry', 'sector'],
+  companySize: ['company_size', 'employees', 'team_size'],
+  notes: ['message', 'notes', 'comments', 'your-message', 'enquiry', 'inquiry'],
+}
+
+export interface CapturedLead {
+  name?: string
+  email?: string
+  company?: string
+  phone?: string
+  industry?: string
+  companySize?: number
+  notes?: string
+  utmSource?: string
+  utmMedium?: string
+  utmCampaign?: string
+  utmTerm?: string
+  utmContent?: string
+}
+
+export class SubmissionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SubmissionError'
+  }
+}
+
+export function generateFormToken(): string {
+  return randomBytes(24).toString('hex')
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+// Read a submission body sent as JSON or application/x-www-form-urlencoded
+export async function readSubmission(request: NextRequest): Promise<Record<string, string>> {
+  const contentType = request.headers.get('content-type') || ''
+
+  if (contentType.includes('application/json')) {
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      throw new SubmissionError('Invalid JSON body')
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return {}
+    }
+    return Object.fromEntries(
+      Object.entries(body)
+        .filter(([, value]) => value !== null && value !== undefined)
+        .map(([key, value]) => [key, String(value)])
+    )
+  }
+
+  const text = await request.text()
+  const params = new URLSearchParams(text)
+  const fields: Record<string, string> = {}
+  params.forEach((value, key) => {
+    fields[key] = value
+  })
+  return fields
+}
+
+export function isUrlEncodedSubmission(request: NextRequest): boolean {
+  return (request.headers.get('content-type') || '').includes('application/x-www-form-urlencoded')
+}
+
+// The visitor's address as recorded by our own proxies. Each proxy appends the address
+// it received the request from to X-Forwarded-For, so only the last TRUSTED_PROXY_HOPS
+// entries (one by default) can be trusted; anything to their left was sent by the
+// visitor. Without a trusted proxy there is no address to go on.
+export function getClientIp(
+  request: NextRequest,
+  trustedHops = parseInt(process.env.TRUSTED_PROXY_HOPS ?? '1', 10)
+): string | null {
+  if (!(trustedHops > 0)) {
+    return null
+  }
+
+  const forwardedFor = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+  if (forwardedFor.length >= trustedHops) {
+    return forwardedFor[forwardedFor.length - trustedHops]
+  }
+  return request.headers.get('x-real-ip')
+}
+
+// Company size fields are often ranges such as "11-50" or "500+"; keep the lower bound
+export function parseCompanySize(value?: string): number | undefined {
+  const match = value?.replace(/,/g, '').match(/\d+/)
+  return match ? parseInt(match[0], 10) : undefined
+}
+
+// Map raw submission fields onto lead fields using the form's mapping plus default aliases
+export function mapSubmission(
+  fields: Record<string, string>,
+  fieldMapping?: Record<string, string> | null,
+  searchParams?: URLSearchParams
+): CapturedLead {
+  const mapped: Partial<Record<CaptureField, string>> = {}
+
+  if (fieldMapping) {
+    for (const [formField, leadField] of Object.entries(fieldMapping)) {
+      const value = fields[formField]?.trim()
+      if (value && (CAPTURE_FIELDS as readonly string[]).includes(leadField)) {
+        mapped[leadField as CaptureField] = value
+      }
+    }
+  }
+
+  for (const field of CAPTURE_FIELDS) {
+    if (mapped[field]) continue
+    const alias = DEFAULT_FIELD_ALIASES[field].find((key) => fields[key]?.trim())
+    if (alias) {
+      mapped[field] = fields[alias].trim()
+    }
+  }
+
+  const name = mapped.name ||
+    [mapped.firstName, mapped.lastName].filter(Boolean).join(' ') ||
+    undefined
+
+  const lead: CapturedLead = {
+    name,
+    email: mapped.email ? normalizeEmail(mapped.email) : undefined,
+    company: mapped.company,
+    phone: mapped.phone,
+    industry: mapped.industry,
+    companySize: parseCompanySize(mapped.companySize),
+    notes: mapped.notes,
+  }
+
+  // UTM values may come from hidden form fields or from the form action's query string
+  for (const [param, field] of Object.entries(UTM_FIELDS)) {
+    const value = fields[param]?.trim() || searchParams?.get(param)?.trim()
+    if (value) {
+      lead[field] = value
+    }
+  }
+
+  return lead
+}
+
+export function parseAllowedOrigins(allowedOrigins?: string | null): string[] {
+  return (allowedOrigins || '')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean)
+}
+
+export function corsHeaders(origin: string | null, allowedOrigins?: string | null): Record<string, string> {
+  const origins = parseAllowedOrigins(allowedOrigins)
+  const allowOrigin = origins.length === 0 ? '*' : origin && origins.includes(origin) ? origin : null
+
+  if (!allowOrigin) {
+    return {}
+  }
+
+  return {
+    'Access-Control-Allow-Origin': allowOrigin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Vary': 'Origin',
+  }
+}
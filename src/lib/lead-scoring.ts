@@ -0,0 +1,298 @@
+import { Prisma, PrismaClient, LeadScore, LeadSource, LeadStatus } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+export const LEAD_SCORING_SETTING_KEY = 'lead_scoring'
+
+// Scoring rules stored as JSON in the lead_scoring system setting
+export const leadScoringConfigSchema = z.object({
+  thresholds: z.object({
+    hot: z.number().min(0).max(100),
+    warm: z.number().min(0).max(100),
+  }).refine((t) => t.hot > t.warm, 'Hot threshold must be above warm threshold'),
+  sourcePoints: z.record(z.enum(['WEBSITE', 'SOCIAL', 'REFERRAL', 'EMAIL', 'COLD_CALL']), z.number()),
+  statusPoints: z.record(z.enum(['NEW', 'CONTACTED', 'QUALIFIED', 'PROPOSAL_SENT', 'NEGOTIATION', 'CONVERTED', 'LOST']), z.number()),
+  pointsPerInteraction: z.number().min(0),
+  maxInteractionPoints: z.number().min(0),
+  recency: z.array(z.object({
+    withinDays: z.number().min(1),
+    points: z.number(),
+  })),
+  companyPoints: z.number(),
+  businessEmailPoints: z.number(),
+  scheduledFollowUpPoints: z.number(),
+  staleness: z.array(z.object({
+    afterDays: z.number().min(1),
+    points: z.number(),
+  })),
+})
+
+export type LeadScoringConfig = z.infer<typeof leadScoringConfigSchema>
+
+export const defaultLeadScoringConfig: LeadScoringConfig = {
+  thresholds: { hot: 70, warm: 40 },
+  sourcePoints: {
+    REFERRAL: 25,
+    WEBSITE: 15,
+    EMAIL: 10,
+    SOCIAL: 10,
+    COLD_CALL: 5,
+  },
+  statusPoints: {
+    NEW: 0,
+    CONTACTED: 5,
+    QUALIFIED: 10,
+    PROPOSAL_SENT: 15,
+    NEGOTIATION: 20,
+    CONVERTED: 0,
+    LOST: 0,
+  },
+  pointsPerInteraction: 5,
+  maxInteractionPoints: 25,
+  recency: [
+    { withinDays: 7, points: 20 },
+    { withinDays: 30, points: 10 },
+    { withinDays: 90, points: 5 },
+  ],
+  companyPoints: 5,
+  businessEmailPoints: 10,
+  scheduledFollowUpPoints: 5,
+  staleness: [
+    { afterDays: 60, points: -20 },
+    { afterDays: 30, points: -10 },
+  ],
+}
+
+const FREE_EMAIL_DOMAINS = [
+  'gmail.com',
+  'googlemail.com',
+  'yahoo.com',
+  'hotmail.com',
+  'outlook.com',
+  'live.com',
+  'icloud.com',
+  'me.com',
+  'aol.com',
+  'protonmail.com',
+  'proton.me',
+  'gmx.com',
+  'mail.com',
+]
+
+export interface LeadScoreFactor {
+  factor: string
+  label: string
+  points: number
+}
+
+export interface LeadScoreResult {
+  points: number
+  score: LeadScore
+  breakdown: LeadScoreFactor[]
+  thresholds: LeadScoringConfig['thresholds']
+}
+
+interface ScorableLead {
+  email: string
+  company: string | null
+  source: LeadSource
+  status: LeadStatus
+  statusChangedAt: Date
+  interactions: {
+    createdAt: Date
+    scheduledAt: Date | null
+    completedAt: Date | null
+  }[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function isFreeEmailDomain(email: string): boolean {
+  const domain = email.split('@')[1]?.toLowerCase()
+  return !domain || FREE_EMAIL_DOMAINS.includes(domain)
+}
+
+export function mapPointsToScore(points: number, thresholds: LeadScoringConfig['thresholds']): LeadScore {
+  if (points >= thresholds.hot) return 'HOT'
+  if (points >= thresholds.warm) return 'WARM'
+  return 'COLD'
+}
+
+// Compute a 0-100 score and the per-factor explanation for a lead
+export function computeLeadScore(
+  lead: ScorableLead,
+  config: LeadScoringConfig = defaultLeadScoringConfig,
+  now: Date = new Date()
+): LeadScoreResult {
+  const breakdown: LeadScoreFactor[] = []
+
+  breakdown.push({
+    factor: 'source',
+    label: `Source: ${lead.source}`,
+    points: config.sourcePoints[lead.source] ?? 0,
+  })
+
+  const statusPoints = config.statusPoints[lead.status] ?? 0
+  if (statusPoints !== 0) {
+    breakdown.push({
+      factor: 'status',
+      label: `Status: ${lead.status}`,
+      points: statusPoints,
+    })
+  }
+
+  const completed = lead.interactions.filter((i) => i.completedAt)
+  if (completed.length > 0) {
+    breakdown.push({
+      factor: 'interactionCount',
+      label: `${completed.length} completed interaction(s)`,
+      points: Math.min(completed.length * config.pointsPerInteraction, config.maxInteractionPoints),
+    })
+  }
+
+  const lastContact = completed.reduce<Date | null>((latest, i) => {
+    const date = i.completedAt!
+    return !latest || date > latest ? date : latest
+  }, null)
+
+  if (lastContact) {
+    const daysSince = Math.floor((now.getTime() - lastContact.getTime()) / DAY_MS)
+    const tier = [...config.recency]
+      .sort((a, b) => a.withinDays - b.withinDays)
+      .find((r) => daysSince <= r.withinDays)
+    if (tier) {
+      breakdown.push({
+        factor: 'recency',
+        label: `Last contact ${daysSince} day(s) ago`,
+        points: tier.points,
+      })
+    }
+  }
+
+  if (lead.interactions.some((i) => i.scheduledAt && !i.completedAt && i.scheduledAt >= now)) {
+    breakdown.push({
+      factor: 'scheduledFollowUp',
+      label: 'Upcoming follow-up scheduled',
+      points: config.scheduledFollowUpPoints,
+    })
+  }
+
+  if (lead.company) {
+    breakdown.push({
+      factor: 'company',
+      label: 'Company provided',
+      points: config.companyPoints,
+    })
+  }
+
+  if (!isFreeEmailDomain(lead.email)) {
+    breakdown.push({
+      factor: 'emailDomain',
+      label: `Business email domain (${lead.email.split('@')[1]})`,
+      points: config.businessEmailPoints,
+    })
+  }
+
+  // Leads that have sat in their current status for too long lose points
+  const statusDays = Math.floor((now.getTime() - lead.statusChangedAt.getTime()) / DAY_MS)
+  const staleTier = [...config.staleness]
+    .sort((a, b) => b.afterDays - a.afterDays)
+    .find((s) => statusDays > s.afterDays)
+  if (staleTier) {
+    breakdown.push({
+      factor: 'statusAge',
+      label: `${lead.status} for ${statusDays} day(s)`,
+      points: staleTier.points,
+    })
+  }
+
+  const rawPoints = breakdown.reduce((sum, f) => sum + f.points, 0)
+  const points = Math.max(0, Math.min(100, rawPoints))
+
+  return {
+    points,
+    score: mapPointsToScore(points, config.thresholds),
+    breakdown,
+    thresholds: config.thresholds,
+  }
+}
+
+export async function getLeadScoringConfig(db: Db = prisma): Promise<LeadScoringConfig> {
+  const setting = await db.systemSetting.findUnique({
+    where: { key: LEAD_SCORING_SETTING_KEY },
+  })
+
+  if (!setting?.value) {
+    return defaultLeadScoringConfig
+  }
+
+  try {
+    return leadScoringConfigSchema.parse({
+      ...defaultLeadScoringConfig,
+      ...JSON.parse(setting.value),
+    })
+  } catch (error) {
+    console.error('Invalid lead scoring configuration, using defaults:', error)
+    return defaultLeadScoringConfig
+  }
+}
+
+// Restart the status age of the matching leads that are not already in `status`. Call it
+// before the update that sets the new status.
+export async function markLeadStatusChange(where: Prisma.LeadWhereInput, status: LeadStatus, db: Db = prisma) {
+  await db.lead.updateMany({
+    where: { ...where, status: { not: status } },
+    data: { statusChangedAt: new Date() },
+  })
+}
+
+// Recompute a lead's score and persist the resulting HOT/WARM/COLD band
+export async function rescoreLead(
+  leadId: string,
+  db: Db = prisma,
+  config?: LeadScoringConfig
+): Promise<(LeadScoreResult & { changed: boolean }) | null> {
+  const lead = await db.lead.findUnique({
+    where: { id: leadId },
+    include: {
+      interactions: {
+        select: {
+          createdAt: true,
+          scheduledAt: true,
+          completedAt: true,
+        },
+      },
+    },
+  })
+
+  if (!lead) {
+    return null
+  }
+
+  const result = computeLeadScore(lead, config ?? await getLeadScoringConfig(db))
+
+  if (result.score !== lead.score) {
+    await db.lead.update({
+      where: { id: leadId },
+      data: { score: result.score },
+    })
+  }
+
+  return { ...result, changed: result.score !== lead.score }
+}
+
+export async function rescoreLeads(leadIds: string[], db: Db = prisma): Promise<number> {
+  const config = await getLeadScoringConfig(db)
+  let changed = 0
+
+  for (const leadId of leadIds) {
+    const result = await rescoreLead(leadId, db, config)
+    if (result?.changed) {
+      changed++
+    }
+  }
+
+  return changed
+}
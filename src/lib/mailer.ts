@@ -0,0 +1,84 @@
+import nodemailer from 'nodemailer'
+
+export interface MailAttachment {
+  filename: string
+  content: Uint8Array | string
+  contentType?: string
+}
+
+export interface MailMessage {
+  to: string[]
+  cc?: string[]
+  subject: string
+  text: string
+  html?: string
+  attachments?: MailAttachment[]
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<{ messageId: string }>
+}
+
+export class MailNotConfiguredError extends Error {
+  constructor() {
+    super('Mail transport is not configured: set SMTP_HOST')
+    this.name = 'MailNotConfiguredError'
+  }
+}
+
+export function getDefaultSender(): string {
+  return process.env.MAIL_FROM || 'AgencyCRM <no-reply@localhost>'
+}
+
+// SMTP transport configured from the environment:
+//   SMTP_HOST, SMTP_PORT (default 587), SMTP_SECURE ('true' for implicit TLS),
+//   SMTP_USER / SMTP_PASS (optional), MAIL_FROM.
+// Point SMTP_HOST/SMTP_PORT at a local sink such as Mailpit (localhost:1025) to test delivery.
+export function createSmtpTransport(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  if (!env.SMTP_HOST) {
+    throw new MailNotConfiguredError()
+  }
+
+  const transporter = nodemailer.createTransport({
+    host: env.SMTP_HOST,
+    port: parseInt(env.SMTP_PORT || '587'),
+    secure: env.SMTP_SECURE === 'true',
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS || '' } : undefined,
+  })
+  const from = env.MAIL_FROM || getDefaultSender()
+
+  return {
+    async send(message) {
+      const info = await transporter.sendMail({
+        from,
+        to: message.to,
+        cc: message.cc,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        attachments: message.attachments?.map((attachment) => ({
+          filename: attachment.filename,
+          content: typeof attachment.content === 'string' ? attachment.content : Buffer.from(attachment.content),
+          contentType: attachment.contentType,
+        })),
+      })
+      return { messageId: info.messageId }
+    },
+  }
+}
+
+let transportOverride: MailTransport | null = null
+
+// Swap the transport used by getMailTransport, e.g. for an in-memory transport in scripts.
+// Pass null to go back to SMTP.
+export function setMailTransport(transport: MailTransport | null) {
+  transportOverride = transport
+}
+
+export function getMailTransport(): MailTransport {
+  return transportOverride ?? createSmtpTransport()
+}
+
+export async function sendMail(message: MailMessage) {
+  return getMailTransport().send(message)
+}
@@ -0,0 +1,56 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// A task blueprint. `offsetDays` is counted from the project start date and the task
+// is due `durationDays` later.
+export const templateTaskSchema = z.object({
+  title: z.string().min(1, 'Task title is required').max(200),
+  description: z.string().max(5000).optional(),
+  offsetDays: z.number().int().min(0).max(3650).default(0),
+  durationDays: z.number().int().min(0).max(3650).default(7),
+  estimatedHours: z.number().min(0).optional(),
+  priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).default('MEDIUM'),
+  clientVisible: z.boolean().default(false),
+})
+
+export type TemplateTask = z.infer<typeof templateTaskSchema>
+
+export const templateTasksSchema = z.array(templateTaskSchema).max(200)
+
+// Tasks as stored on the template; rows written before a field existed get its default
+export function parseTemplateTasks(tasks: Prisma.JsonValue): TemplateTask[] {
+  return templateTasksSchema.parse(tasks ?? [])
+}
+
+// Create the template's tasks on a project, scheduled from `startDate`
+export async function createTasksFromTemplate(
+  template: { tasks: Prisma.JsonValue },
+  project: { id: string },
+  startDate: Date,
+  userId: string,
+  db: Db = prisma
+) {
+  const tasks = parseTemplateTasks(template.tasks)
+
+  for (const task of tasks) {
+    await db.task.create({
+      data: {
+        projectId: project.id,
+        title: task.title,
+        description: task.description,
+        priority: task.priority,
+        estimatedHours: task.estimatedHours,
+        clientVisible: task.clientVisible,
+        dueDate: new Date(startDate.getTime() + (task.offsetDays + task.durationDays) * DAY_MS),
+        createdBy: userId,
+      },
+    })
+  }
+
+  return tasks.length
+}
@@ -0,0 +1,342 @@
+import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { numberForNewInvoice } from './invoice-numbers'
+import { createTasksFromTemplate } from './project-templates'
+import { proposalItemOrderBy } from './proposals'
+import { summarizeTaxByRate } from './tax-rates'
+import { roundMoney } from './utils'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const installmentSchema = z.object({
+  label: z.string().min(1, 'Installment label is required').max(200),
+  percentage: z.number().gt(0, 'Percentage must be positive').max(100),
+  issueDate: z.string().datetime().optional(),
+  dueInDays: z.number().int().min(0).max(365).default(30),
+})
+
+// Validation schema for converting an accepted proposal. Billing is either one invoice
+// for the full amount or a schedule (deposit, milestones, ...) adding up to 100%.
+export const proposalConversionSchema = z.object({
+  templateId: z.string().optional(),
+  projectName: z.string().min(1).max(200).optional(),
+  managerId: z.string().optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  billing: z.discriminatedUnion('mode', [
+    z.object({
+      mode: z.literal('single'),
+      dueInDays: z.number().int().min(0).max(365).default(30),
+    }),
+    z.object({
+      mode: z.literal('schedule'),
+      installments: z.array(installmentSchema).min(2, 'A schedule needs at least two invoices').max(12),
+    }),
+  ]).default({ mode: 'single', dueInDays: 30 }),
+}).superRefine((data, ctx) => {
+  if (data.billing.mode === 'schedule') {
+    const total = data.billing.installments.reduce((sum, installment) => sum + installment.percentage, 0)
+    if (Math.abs(total - 100) > 0.001) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['billing', 'installments'],
+        message: `Installment percentages must add up to 100 (got ${roundMoney(total)})`,
+      })
+    }
+  }
+
+  if (data.startDate && data.endDate && data.endDate <= data.startDate) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['endDate'],
+      message: 'End date must be after start date',
+    })
+  }
+})
+
+export type ProposalConversionInput = z.infer<typeof proposalConversionSchema>
+
+export class ProposalConversionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProposalConversionError'
+  }
+}
+
+interface InvoiceLine {
+  description: string
+  quantity: number
+  unitPrice: number
+  totalPrice: number
+  taxRateId: string | null
+  taxRate: number
+}
+
+export interface ScheduledInvoice {
+  issueDate: Date
+  dueDate: Date
+  notes: string
+  amount: number
+  taxAmount: number
+  totalAmount: number
+  items: InvoiceLine[]
+}
+
+interface ConvertibleProposal {
+  title: string
+  items: {
+    description: string
+    quantity: number
+    unitPrice: number
+    totalPrice: number
+    taxRateId: string | null
+    taxRate: number | null
+  }[]
+  taxRate: number
+  discountRate: number
+  discountAmount: number
+  taxAmount: number
+}
+
+// The proposal's line items as invoice lines; a discount becomes a negative line so
+// the lines add up to the invoice amount. Items keep their tax rate, and a discount
+// over items at different rates is split into one line per rate the same way the
+// proposal's tax was worked out.
+function proposalLines(proposal: ConvertibleProposal): InvoiceLine[] {
+  const lines: InvoiceLine[] = proposal.items.map((item) => ({
+    description: item.description,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    totalPrice: item.totalPrice,
+    taxRateId: item.taxRateId,
+    taxRate: item.taxRate ?? proposal.taxRate,
+  }))
+
+  if (proposal.discountAmount > 0) {
+    const description = `Discount (${roundMoney(proposal.discountRate * 100)}%)`
+    const gross = summarizeTaxByRate(lines)
+    const discounted = summarizeTaxByRate(lines, proposal.discountAmount)
+
+    gross.forEach((group, index) => {
+      const discount = roundMoney(group.net - discounted[index].net)
+      if (discount === 0) return
+      const line = lines.find((candidate) => candidate.taxRate === group.taxRate)
+      lines.push({
+        description,
+        quantity: 1,
+        unitPrice: -discount,
+        totalPrice: -discount,
+        taxRateId: line?.taxRateId ?? null,
+        taxRate: group.taxRate,
+      })
+    })
+  }
+
+  return lines
+}
+
+function sumLines(lines: InvoiceLine[]) {
+  return roundMoney(lines.reduce((sum, line) => sum + line.totalPrice, 0))
+}
+
+// Split the proposal into the invoices to create. Each installment bills its share of
+// every line; the last one takes the rounding remainder so the schedule adds up to
+// the proposal total exactly.
+export function buildInvoiceSchedule(
+  proposal: ConvertibleProposal,
+  billing: ProposalConversionInput['billing'],
+  now: Date = new Date()
+): ScheduledInvoice[] {
+  const lines = proposalLines(proposal)
+
+  if (billing.mode === 'single') {
+    const amount = sumLines(lines)
+    return [{
+      issueDate: now,
+      dueDate: new Date(now.getTime() + billing.dueInDays * DAY_MS),
+      notes: `Invoice for accepted proposal "${proposal.title}"`,
+      amount,
+      taxAmount: proposal.taxAmount,
+      totalAmount: roundMoney(amount + proposal.taxAmount),
+      items: lines,
+    }]
+  }
+
+  const billedLines = lines.map(() => 0)
+  let billedTax = 0
+  const last = billing.installments.length - 1
+
+  return billing.installments.map((installment, index) => {
+    const share = installment.percentage / 100
+    const items = lines.map((line, lineIndex) => {
+      const amount = index === last
+        ? roundMoney(line.totalPrice - billedLines[lineIndex])
+        : roundMoney(line.totalPrice * share)
+      billedLines[lineIndex] += amount
+
+      return {
+        description: `${line.description} - ${installment.label} (${installment.percentage}%)`,
+        quantity: 1,
+        unitPrice: amount,
+        totalPrice: amount,
+        taxRateId: line.taxRateId,
+        taxRate: line.taxRate,
+      }
+    })
+
+    const taxAmount = index === last
+      ? roundMoney(proposal.taxAmount - billedTax)
+      : roundMoney(proposal.taxAmount * share)
+    billedTax += taxAmount
+
+    const issueDate = installment.issueDate ? new Date(installment.issueDate) : now
+    const amount = sumLines(items)
+
+    return {
+      issueDate,
+      dueDate: new Date(issueDate.getTime() + installment.dueInDays * DAY_MS),
+      notes: `${installment.label}: ${installment.percentage}% of proposal "${proposal.title}"`,
+      amount,
+      taxAmount,
+      totalAmount: roundMoney(amount + taxAmount),
+      items,
+    }
+  })
+}
+
+// Turn an accepted proposal into a project (optionally from a template), a budget for
+// the proposal total and its invoices, all in one transaction. A proposal that is
+// already linked to a project gets the budget and invoices on that project instead.
+export async function convertProposal(
+  proposalId: string,
+  input: ProposalConversionInput,
+  userId: string,
+  db: PrismaClient = prisma,
+  now: Date = new Date()
+) {
+  return db.$transaction(async (tx) => {
+    const proposal = await tx.proposal.findUnique({
+      where: { id: proposalId },
+      include: { items: { orderBy: proposalItemOrderBy } },
+    })
+
+    if (!proposal) {
+      return null
+    }
+
+    if (proposal.status !== 'ACCEPTED') {
+      throw new ProposalConversionError('Only accepted proposals can be converted')
+    }
+
+    if (proposal.projectId && input.templateId) {
+      throw new ProposalConversionError('Proposal is already linked to a project; a template cannot be applied')
+    }
+
+    // Claim the proposal first so two concurrent conversions cannot both go through
+    const claimed = await tx.proposal.updateMany({
+      where: { id: proposalId, convertedAt: null },
+      data: { convertedAt: now },
+    })
+
+    if (claimed.count === 0 || (await tx.invoice.count({ where: { proposalId } })) > 0) {
+      throw new ProposalConversionError('Proposal has already been converted')
+    }
+
+    const template = input.templateId
+      ? await tx.projectTemplate.findFirst({ where: { id: input.templateId, isActive: true } })
+      : null
+
+    if (input.templateId && !template) {
+      throw new ProposalConversionError('Project template not found')
+    }
+
+    const startDate = input.startDate ? new Date(input.startDate) : now
+    const endDate = input.endDate
+      ? new Date(input.endDate)
+      : new Date(startDate.getTime() + (template?.durationDays ?? 30) * DAY_MS)
+
+    let tasksCreated = 0
+    const project = proposal.projectId
+      ? await tx.project.findUniqueOrThrow({ where: { id: proposal.projectId } })
+      : await tx.project.create({
+          data: {
+            name: input.projectName ?? proposal.title,
+            description: proposal.content,
+            clientId: proposal.clientId,
+            managerId: input.managerId ?? userId,
+            status: 'PLANNING',
+            priority: template?.priority ?? 'MEDIUM',
+            budget: proposal.totalAmount,
+            currency: proposal.currency,
+            startDate,
+            endDate,
+            templateId: template?.id,
+          },
+        })
+
+    if (!proposal.projectId) {
+      if (template) {
+        tasksCreated = await createTasksFromTemplate(template, project, startDate, userId, tx)
+      }
+
+      await tx.proposal.update({
+        where: { id: proposalId },
+        data: { projectId: project.id },
+      })
+    }
+
+    const budget = await tx.budget.create({
+      data: {
+        name: `${project.name} budget`,
+        description: `From accepted proposal "${proposal.title}"`,
+        totalAmount: proposal.totalAmount,
+        currency: proposal.currency,
+        period: 'CUSTOM',
+        startDate: project.startDate ?? startDate,
+        endDate: project.endDate ?? endDate,
+        projectId: project.id,
+        clientId: proposal.clientId,
+        createdBy: userId,
+      },
+    })
+
+    const invoices = []
+    for (const scheduled of buildInvoiceSchedule(proposal, input.billing, now)) {
+      const { items, ...invoiceData } = scheduled
+      invoices.push(await tx.invoice.create({
+        data: {
+          ...invoiceData,
+          invoiceNumber: await numberForNewInvoice('INVOICE', 'DRAFT', tx, scheduled.issueDate),
+          currency: proposal.currency,
+          clientId: proposal.clientId,
+          projectId: project.id,
+          proposalId,
+          status: 'DRAFT',
+          recipientContactId: proposal.recipientContactId,
+          createdBy: userId,
+          items: { create: items },
+        },
+        include: { items: true },
+      }))
+    }
+
+    await tx.activity.create({
+      data: {
+        userId,
+        type: 'PROPOSAL_CONVERTED',
+        description: `Proposal "${proposal.title}" converted to project "${project.name}" with ${invoices.length} invoice(s)`,
+        entityType: 'PROPOSAL',
+        entityId: proposalId,
+        metadata: {
+          projectId: project.id,
+          budgetId: budget.id,
+          invoiceIds: invoices.map((invoice) => invoice.id),
+          templateId: template?.id ?? null,
+        },
+      },
+    })
+
+    return { project, budget, invoices, tasksCreated }
+  })
+}
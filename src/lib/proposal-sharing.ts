@@ -0,0 +1,301 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import { randomBytes } from 'crypto'
+import { prisma } from './prisma'
+import { resolveRecipient } from './client-contacts'
+import { renderProposalPdf } from './document-pdf'
+import { sendMail } from './mailer'
+import { ProposalResponseError } from './proposals'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+export interface ViewerInfo {
+  ipAddress: string | null
+  userAgent: string | null
+}
+
+// Reloads from the same browser within this window count as one view
+export const VIEW_DEDUPE_WINDOW_MS = 30 * 60 * 1000
+
+const OPEN_STATUSES = ['SENT', 'VIEWED'] as const
+
+export function generateShareToken() {
+  return randomBytes(24).toString('hex')
+}
+
+export function proposalShareUrl(token: string, origin: string) {
+  return `${origin.replace(/\/$/, '')}/shared/proposals/${token}`
+}
+
+export function isProposalOpen(proposal: { status: string }) {
+  return OPEN_STATUSES.some((status) => status === proposal.status)
+}
+
+export function isPastValidUntil(proposal: { validUntil: Date | null }, now: Date = new Date()) {
+  return !!proposal.validUntil && proposal.validUntil < now
+}
+
+async function notifyProposalOwner(
+  proposal: { createdBy: string },
+  notification: { title: string; message: string; type: 'INFO' | 'SUCCESS' | 'WARNING' },
+  db: Db
+) {
+  await db.notification.create({
+    data: {
+      userId: proposal.createdBy,
+      ...notification,
+      actionUrl: '/proposals',
+    },
+  })
+}
+
+// Move an open proposal past its validUntil date to EXPIRED and tell the owner.
+// Returns true when this call expired it.
+export async function expireProposalIfDue(
+  proposal: { id: string; title: string; status: string; validUntil: Date | null; createdBy: string },
+  db: Db = prisma,
+  now: Date = new Date()
+) {
+  if (!isProposalOpen(proposal) || !isPastValidUntil(proposal, now)) {
+    return false
+  }
+
+  // Guard on the status so concurrent requests only expire it once
+  const result = await db.proposal.updateMany({
+    where: { id: proposal.id, status: { in: ['SENT', 'VIEWED'] } },
+    data: { status: 'EXPIRED' },
+  })
+
+  if (result.count === 0) {
+    return false
+  }
+
+  await db.activity.create({
+    data: {
+      userId: proposal.createdBy,
+      type: 'PROPOSAL_EXPIRED',
+      description: `Proposal "${proposal.title}" expired without a response`,
+      entityType: 'PROPOSAL',
+      entityId: proposal.id,
+    },
+  })
+
+  await notifyProposalOwner(proposal, {
+    title: 'Proposal expired',
+    message: `"${proposal.title}" passed its valid-until date without a response`,
+    type: 'WARNING',
+  }, db)
+
+  return true
+}
+
+// Expire every open proposal whose validUntil has passed (run daily)
+export async function expireDueProposals(db: PrismaClient = prisma, now: Date = new Date()) {
+  const due = await db.proposal.findMany({
+    where: { status: { in: ['SENT', 'VIEWED'] }, validUntil: { lt: now } },
+    select: { id: true, title: true, status: true, validUntil: true, createdBy: true },
+  })
+
+  let expired = 0
+  for (const proposal of due) {
+    const changed = await db.$transaction((tx) => expireProposalIfDue(proposal, tx, now))
+    if (changed) {
+      expired++
+    }
+  }
+
+  return { checked: due.length, expired }
+}
+
+// Mark an outgoing proposal as sent, creating its share token on the first send
+export async function markProposalSent(proposalId: string, db: Db = prisma, now: Date = new Date()) {
+  const proposal = await db.proposal.findUniqueOrThrow({
+    where: { id: proposalId },
+    select: { shareToken: true, status: true },
+  })
+
+  return db.proposal.update({
+    where: { id: proposalId },
+    data: {
+      status: proposal.status === 'DRAFT' ? 'SENT' : undefined,
+      shareToken: proposal.shareToken ?? generateShareToken(),
+      sentAt: now,
+    },
+  })
+}
+
+// Email the share link to the proposal's recipient contact (or the client's primary
+// contact), with the proposal PDF attached
+export async function emailProposalLink(
+  proposal: { id: string; clientId: string; recipientContactId: string | null; title: string; validUntil: Date | null },
+  shareUrl: string,
+  senderName: string,
+  db: Db = prisma
+) {
+  const recipient = await resolveRecipient(proposal, db)
+  if (!recipient.email) {
+    throw new Error('The client has no email address on file')
+  }
+
+  const pdf = await renderProposalPdf(proposal.id, {}, db)
+
+  const { messageId } = await sendMail({
+    to: [recipient.email],
+    subject: `Proposal: ${proposal.title}`,
+    text: [
+      `Hello ${recipient.name},`,
+      '',
+      `${senderName} has sent you the proposal "${proposal.title}".`,
+      '',
+      `You can review, accept or decline it here: ${shareUrl}`,
+      ...(proposal.validUntil ? ['', `This proposal is valid until ${proposal.validUntil.toDateString()}.`] : []),
+    ].join('\n'),
+    attachments: pdf ? [{ filename: pdf.fileName, content: pdf.body, contentType: pdf.contentType }] : undefined,
+  })
+
+  return { recipient, messageId }
+}
+
+// Record a visit to the share link. The first view moves SENT to VIEWED; every
+// counted view notifies the owner.
+export async function recordProposalView(
+  proposalId: string,
+  viewer: ViewerInfo,
+  db: PrismaClient = prisma,
+  now: Date = new Date()
+) {
+  return db.$transaction(async (tx) => {
+    const recent = await tx.proposalView.findFirst({
+      where: {
+        proposalId,
+        ipAddress: viewer.ipAddress,
+        userAgent: viewer.userAgent,
+        viewedAt: { gte: new Date(now.getTime() - VIEW_DEDUPE_WINDOW_MS) },
+      },
+      select: { id: true },
+    })
+
+    if (recent) {
+      return false
+    }
+
+    const proposal = await tx.proposal.findUniqueOrThrow({
+      where: { id: proposalId },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        firstViewedAt: true,
+        createdBy: true,
+        client: { select: { name: true, company: true } },
+      },
+    })
+
+    await tx.proposalView.create({
+      data: { proposalId, ...viewer, viewedAt: now },
+    })
+
+    const updated = await tx.proposal.update({
+      where: { id: proposalId },
+      data: {
+        status: proposal.status === 'SENT' ? 'VIEWED' : undefined,
+        firstViewedAt: proposal.firstViewedAt ?? now,
+        lastViewedAt: now,
+        viewCount: { increment: 1 },
+      },
+      select: { viewCount: true },
+    })
+
+    const clientName = proposal.client.company || proposal.client.name
+    if (!proposal.firstViewedAt) {
+      await tx.activity.create({
+        data: {
+          userId: proposal.createdBy,
+          type: 'PROPOSAL_VIEWED',
+          description: `${clientName} opened proposal "${proposal.title}"`,
+          entityType: 'PROPOSAL',
+          entityId: proposal.id,
+          metadata: { ipAddress: viewer.ipAddress },
+        },
+      })
+    }
+
+    await notifyProposalOwner(proposal, {
+      title: proposal.firstViewedAt ? 'Proposal viewed again' : 'Proposal viewed',
+      message: proposal.firstViewedAt
+        ? `${clientName} opened "${proposal.title}" again (${updated.viewCount} views)`
+        : `${clientName} opened "${proposal.title}" for the first time`,
+      type: 'INFO',
+    }, tx)
+
+    return true
+  })
+}
+
+export type SharedProposalResponse =
+  | { action: 'accept'; signatureName: string }
+  | { action: 'reject'; reason: string }
+
+// Accept (with a typed-name signature) or reject a proposal through its share link.
+// Callers expire overdue proposals first, since a throw here rolls the expiry back.
+export async function respondToSharedProposal(
+  token: string,
+  response: SharedProposalResponse,
+  viewer: ViewerInfo,
+  db: PrismaClient = prisma,
+  now: Date = new Date()
+) {
+  return db.$transaction(async (tx) => {
+    const proposal = await tx.proposal.findUnique({
+      where: { shareToken: token },
+      include: { client: { select: { name: true, company: true } } },
+    })
+
+    if (!proposal) {
+      return null
+    }
+
+    if (proposal.status === 'EXPIRED' || (isProposalOpen(proposal) && isPastValidUntil(proposal, now))) {
+      throw new ProposalResponseError('Proposal has expired')
+    }
+
+    if (!isProposalOpen(proposal)) {
+      throw new ProposalResponseError(`Proposal has already been ${proposal.status.toLowerCase()}`)
+    }
+
+    const accepted = response.action === 'accept'
+    const updated = await tx.proposal.update({
+      where: { id: proposal.id },
+      data: accepted
+        ? { status: 'ACCEPTED', respondedAt: now, signatureName: response.signatureName, signatureIp: viewer.ipAddress }
+        : { status: 'REJECTED', respondedAt: now, rejectionReason: response.reason },
+    })
+
+    const responder = proposal.client.company || proposal.client.name
+    const verb = accepted ? 'accepted' : 'rejected'
+
+    await tx.activity.create({
+      data: {
+        userId: proposal.createdBy,
+        type: accepted ? 'PROPOSAL_ACCEPTED' : 'PROPOSAL_REJECTED',
+        description: accepted
+          ? `${responder} accepted proposal "${proposal.title}", signed by ${response.signatureName}`
+          : `${responder} rejected proposal "${proposal.title}"`,
+        entityType: 'PROPOSAL',
+        entityId: proposal.id,
+        metadata: accepted
+          ? { signatureName: response.signatureName, ...viewer, version: proposal.currentVersion }
+          : { reason: response.reason, ...viewer, version: proposal.currentVersion },
+      },
+    })
+
+    await notifyProposalOwner(proposal, {
+      title: `Proposal ${verb}`,
+      message: accepted
+        ? `${response.signatureName} (${responder}) accepted "${proposal.title}"`
+        : `${responder} rejected "${proposal.title}": ${response.reason}`,
+      type: accepted ? 'SUCCESS' : 'WARNING',
+    }, tx)
+
+    return updated
+  })
+}
@@ -0,0 +1,318 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { assertClientContact, resolveRecipient } from './client-contacts'
+import { ProposalItemInput } from './proposals'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Merge fields available in section bodies, template titles and item descriptions
+export const MERGE_FIELDS = [
+  'client.name',
+  'client.company',
+  'client.email',
+  'client.phone',
+  'client.industry',
+  'client.address',
+  'contact.name',
+  'contact.email',
+  'project.name',
+  'user.name',
+  'user.email',
+  'proposal.validUntil',
+  'today',
+] as const
+
+export type MergeField = typeof MERGE_FIELDS[number]
+
+const MERGE_FIELD_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g
+
+export function findUnknownMergeFields(text: string) {
+  const unknown: string[] = []
+  const fields = MERGE_FIELDS as readonly string[]
+  let match: RegExpExecArray | null
+
+  MERGE_FIELD_PATTERN.lastIndex = 0
+  while ((match = MERGE_FIELD_PATTERN.exec(text)) !== null) {
+    if (!fields.includes(match[1]) && !unknown.includes(match[1])) {
+      unknown.push(match[1])
+    }
+  }
+
+  return unknown
+}
+
+// A string that may only use the supported merge fields, so typos surface when the
+// template is saved rather than as blanks in a client's proposal
+export function mergeText() {
+  return z.string().superRefine((text, ctx) => {
+    const unknown = findUnknownMergeFields(text)
+    if (unknown.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Unknown merge field(s): ${unknown.map((field) => `{{${field}}}`).join(', ')}`,
+      })
+    }
+  })
+}
+
+// Fields without a value (e.g. {{project.name}} when no project is chosen) render empty
+export function renderMergeFields(text: string, values: Partial<Record<MergeField, string>>) {
+  return text.replace(MERGE_FIELD_PATTERN, (placeholder, field: string) =>
+    (MERGE_FIELDS as readonly string[]).includes(field) ? values[field as MergeField] ?? '' : placeholder
+  )
+}
+
+export class TemplateReferenceError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TemplateReferenceError'
+  }
+}
+
+export const templateSectionsInclude = {
+  sections: {
+    orderBy: { sortOrder: 'asc' as const },
+    include: { section: true },
+  },
+  items: {
+    orderBy: { sortOrder: 'asc' as const },
+    include: {
+      priceListItem: {
+        select: { id: true, name: true, unit: true, unitPrice: true, priceListId: true },
+      },
+    },
+  },
+}
+
+export interface RenderedProposal {
+  templateId: string
+  clientId: string
+  projectId: string | null
+  recipientContactId: string | null
+  title: string
+  description: string
+  terms: string | null
+  items: ProposalItemInput[]
+  taxRate: number
+  discountRate: number
+  validUntil: string
+}
+
+// Fill a template in for a client. TERMS sections go to the proposal terms, every other
+// section becomes part of the proposal body in template order. Returns null when the
+// template or client does not exist.
+export async function renderProposalTemplate(
+  templateId: string,
+  target: { clientId: string; projectId?: string | null; recipientContactId?: string | null },
+  userId: string,
+  db: Db = prisma,
+  now: Date = new Date()
+): Promise<RenderedProposal | null> {
+  const [template, client, project, user] = await Promise.all([
+    db.proposalTemplate.findFirst({
+      where: { id: templateId, isActive: true },
+      include: templateSectionsInclude,
+    }),
+    db.client.findUnique({ where: { id: target.clientId } }),
+    target.projectId
+      ? db.project.findUnique({ where: { id: target.projectId }, select: { name: true, clientId: true } })
+      : null,
+    db.user.findUnique({ where: { id: userId }, select: { name: true, email: true } }),
+  ])
+
+  if (!template || !client) {
+    return null
+  }
+
+  if (target.projectId && project?.clientId !== client.id) {
+    throw new TemplateReferenceError('Project does not belong to the specified client')
+  }
+
+  await assertClientContact(client.id, target.recipientContactId, db)
+
+  const contact = await resolveRecipient(
+    { clientId: client.id, recipientContactId: target.recipientContactId ?? null },
+    db
+  )
+  const validUntil = new Date(now.getTime() + template.validDays * DAY_MS)
+
+  const values: Partial<Record<MergeField, string>> = {
+    'client.name': client.name,
+    'client.company': client.company || client.name,
+    'client.email': client.email,
+    'client.phone': client.phone ?? undefined,
+    'client.industry': client.industry ?? undefined,
+    'client.address': client.address ?? undefined,
+    'contact.name': contact.name,
+    'contact.email': contact.email ?? undefined,
+    'project.name': project?.name,
+    'user.name': user?.name,
+    'user.email': user?.email,
+    'proposal.validUntil': validUntil.toDateString(),
+    'today': now.toDateString(),
+  }
+
+  const render = (text: string) => renderMergeFields(text, values).trim()
+  const sections = template.sections.filter(({ section }) => section.isActive)
+
+  const body = sections
+    .filter(({ section }) => section.type !== 'TERMS')
+    .map(({ section }) => `${section.name}\n\n${render(section.body)}`)
+  const terms = sections
+    .filter(({ section }) => section.type === 'TERMS')
+    .map(({ section }) => render(section.body))
+
+  return {
+    templateId: template.id,
+    clientId: client.id,
+    projectId: target.projectId ?? null,
+    recipientContactId: target.recipientContactId ?? null,
+    title: render(template.title),
+    description: body.join('\n\n'),
+    terms: terms.length > 0 ? terms.join('\n\n') : null,
+    items: template.items.map((item) => ({
+      description: render(item.description),
+      quantity: item.quantity,
+      unitPrice: item.unitPrice ?? item.priceListItem?.unitPrice ?? 0,
+    })),
+    taxRate: template.taxRate,
+    discountRate: template.discountRate,
+    validUntil: validUntil.toISOString(),
+  }
+}
+
+export const priceListItemSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1, 'Service name is required').max(200),
+  description: z.string().max(2000).nullable().optional(),
+  unit: z.string().max(50).nullable().optional(),
+  unitPrice: z.number().min(0, 'Unit price must be positive'),
+})
+
+export type PriceListItemInput = z.infer<typeof priceListItemSchema>
+
+export class PriceListItemNotFoundError extends Error {
+  constructor(itemId: string) {
+    super(`Price list item ${itemId} not found`)
+    this.name = 'PriceListItemNotFoundError'
+  }
+}
+
+// Template items that follow a service's current price get that price fixed on them
+// before the service is deleted, so templates do not silently drop to zero
+export async function pinTemplateItemPrices(where: Prisma.PriceListItemWhereInput, db: Db = prisma) {
+  const services = await db.priceListItem.findMany({
+    where,
+    select: { id: true, unitPrice: true },
+  })
+
+  for (const service of services) {
+    await db.proposalTemplateItem.updateMany({
+      where: { priceListItemId: service.id, unitPrice: null },
+      data: { unitPrice: service.unitPrice },
+    })
+  }
+}
+
+// Save a price list's services in the given order. Items with an id are updated in place
+// so templates that point at them keep their link; items left out are deleted.
+export async function syncPriceListItems(priceListId: string, items: PriceListItemInput[], db: Db = prisma) {
+  const existing = await db.priceListItem.findMany({
+    where: { priceListId },
+    select: { id: true },
+  })
+  const existingIds = existing.map((item) => item.id)
+
+  const unknown = items.find((item) => item.id && !existingIds.includes(item.id))
+  if (unknown?.id) {
+    throw new PriceListItemNotFoundError(unknown.id)
+  }
+
+  const keptIds = items.map((item) => item.id).filter((id): id is string => Boolean(id))
+  const removed = { priceListId, id: { notIn: keptIds } }
+  await pinTemplateItemPrices(removed, db)
+  await db.priceListItem.deleteMany({ where: removed })
+
+  for (let index = 0; index < items.length; index++) {
+    const { id, ...data } = items[index]
+    if (id) {
+      await db.priceListItem.update({
+        where: { id },
+        data: { ...data, sortOrder: index },
+      })
+    } else {
+      await db.priceListItem.create({
+        data: { ...data, priceListId, sortOrder: index },
+      })
+    }
+  }
+}
+
+// A pre-filled line. Lines picked from a price list may leave out the description (the
+// service name is used) and the unit price (the service's current price is used).
+export const templateItemSchema = z.object({
+  priceListItemId: z.string().nullable().optional(),
+  description: mergeText().pipe(z.string().min(1).max(2000)).optional(),
+  quantity: z.number().min(0, 'Quantity must be positive').default(1),
+  unitPrice: z.number().min(0, 'Unit price must be positive').nullable().optional(),
+}).refine((item) => item.description || item.priceListItemId, {
+  message: 'Item description is required',
+  path: ['description'],
+}).refine((item) => item.unitPrice != null || item.priceListItemId, {
+  message: 'Unit price is required for items not taken from a price list',
+  path: ['unitPrice'],
+})
+
+export type TemplateItemInput = z.infer<typeof templateItemSchema>
+
+// Replace a template's sections (in the given order) and pre-filled items
+export async function replaceTemplateContent(
+  templateId: string,
+  content: { sectionIds?: string[]; items?: TemplateItemInput[] },
+  db: Db = prisma
+) {
+  if (content.sectionIds) {
+    const sectionIds = content.sectionIds.filter((id, index) => content.sectionIds!.indexOf(id) === index)
+    const found = await db.proposalSection.count({ where: { id: { in: sectionIds } } })
+    if (found !== sectionIds.length) {
+      throw new TemplateReferenceError('One or more sections were not found')
+    }
+
+    await db.proposalTemplateSection.deleteMany({ where: { templateId } })
+    await db.proposalTemplateSection.createMany({
+      data: sectionIds.map((sectionId, index) => ({ templateId, sectionId, sortOrder: index })),
+    })
+  }
+
+  if (content.items) {
+    const serviceIds = content.items
+      .map((item) => item.priceListItemId)
+      .filter((id): id is string => Boolean(id))
+    const services = await db.priceListItem.findMany({
+      where: { id: { in: serviceIds } },
+      select: { id: true, name: true },
+    })
+
+    const data = content.items.map((item, index) => {
+      const service = services.find((candidate) => candidate.id === item.priceListItemId)
+      if (item.priceListItemId && !service) {
+        throw new TemplateReferenceError(`Price list item ${item.priceListItemId} not found`)
+      }
+
+      return {
+        templateId,
+        priceListItemId: item.priceListItemId ?? null,
+        description: item.description ?? service!.name,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice ?? null,
+        sortOrder: index,
+      }
+    })
+
+    await db.proposalTemplateItem.deleteMany({ where: { templateId } })
+    await db.proposalTemplateItem.createMany({ data })
+  }
+}
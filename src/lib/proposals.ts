@@ -0,0 +1,284 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import { prisma } from './prisma'
+import { loadTaxRates, summarizeTaxByRate, sumTax } from './tax-rates'
+import { roundMoney } from './utils'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+export interface ProposalItemInput {
+  description: string
+  quantity: number
+  unitPrice: number
+  taxRateId?: string | null
+}
+
+export interface ProposalTotals {
+  subtotal: number
+  discountAmount: number
+  taxAmount: number
+  totalAmount: number
+}
+
+export interface ProposalSnapshot {
+  title: string
+  content: string | null
+  validUntil: string | null
+  items: { description: string; quantity: number; unitPrice: number; totalPrice: number; taxRate?: number | null }[]
+  subtotal: number
+  taxRate: number
+  taxAmount: number
+  discountRate: number
+  discountAmount: number
+  totalAmount: number
+  notes: string | null
+  terms: string | null
+}
+
+export interface FieldChange {
+  field: string
+  from: unknown
+  to: unknown
+}
+
+export interface ProposalDiff {
+  fromVersion: number
+  toVersion: number
+  fields: FieldChange[]
+  items: {
+    added: ProposalSnapshot['items']
+    removed: ProposalSnapshot['items']
+    changed: { description: string; changes: FieldChange[] }[]
+  }
+}
+
+// Fields whose change after sending produces a new version. Status changes alone
+// (viewed, accepted, ...) do not alter what the client was offered.
+export const PROPOSAL_CONTENT_FIELDS = [
+  'title',
+  'description',
+  'validUntil',
+  'items',
+  'taxRate',
+  'discountRate',
+  'notes',
+  'terms',
+] as const
+
+export class ProposalResponseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProposalResponseError'
+  }
+}
+
+export const proposalItemOrderBy: Prisma.ProposalItemOrderByWithRelationInput[] = [
+  { sortOrder: 'asc' },
+  { createdAt: 'asc' },
+]
+
+export function lineTotal(item: ProposalItemInput) {
+  return roundMoney(item.quantity * item.unitPrice)
+}
+
+// Totals are always derived here and never taken from the request. The discount
+// applies to the subtotal and tax is charged on the discounted amount, at each item's
+// named rate or else the proposal's own rate.
+export function computeProposalTotals(
+  items: { totalPrice: number; taxRate?: number | null }[],
+  rates: { taxRate: number; discountRate: number }
+): ProposalTotals {
+  const subtotal = roundMoney(items.reduce((sum, item) => sum + item.totalPrice, 0))
+  const discountAmount = roundMoney(subtotal * rates.discountRate)
+  const taxAmount = sumTax(summarizeTaxByRate(
+    items.map((item) => ({ totalPrice: item.totalPrice, taxRate: item.taxRate ?? rates.taxRate })),
+    discountAmount
+  ))
+
+  return {
+    subtotal,
+    discountAmount,
+    taxAmount,
+    totalAmount: roundMoney(subtotal - discountAmount + taxAmount),
+  }
+}
+
+// `taxRates` maps the items' tax rate ids to their rates as fractions, e.g. 0.2 for 20% (see loadTaxRates)
+export function buildProposalItems(items: ProposalItemInput[], taxRates: Record<string, number> = {}) {
+  return items.map((item, index) => ({
+    description: item.description,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    totalPrice: lineTotal(item),
+    taxRateId: item.taxRateId || null,
+    taxRate: item.taxRateId ? taxRates[item.taxRateId] : null,
+    sortOrder: index,
+  }))
+}
+
+export async function replaceProposalItems(proposalId: string, items: ProposalItemInput[], db: Db = prisma) {
+  const taxRates = await loadTaxRates(items.map((item) => item.taxRateId), db)
+  await db.proposalItem.deleteMany({ where: { proposalId } })
+  await db.proposalItem.createMany({
+    data: buildProposalItems(items, taxRates).map((item) => ({ ...item, proposalId })),
+  })
+}
+
+// Recompute and store the totals from the proposal's current items and rates
+export async function recalculateProposalTotals(proposalId: string, db: Db = prisma) {
+  const proposal = await db.proposal.findUniqueOrThrow({
+    where: { id: proposalId },
+    select: {
+      taxRate: true,
+      discountRate: true,
+      items: { select: { totalPrice: true, taxRate: true } },
+    },
+  })
+
+  const totals = computeProposalTotals(proposal.items, proposal)
+  await db.proposal.update({
+    where: { id: proposalId },
+    data: totals,
+  })
+
+  return totals
+}
+
+export function hasContentChanges(data: Record<string, unknown>) {
+  return PROPOSAL_CONTENT_FIELDS.some((field) => data[field] !== undefined)
+}
+
+// Drafts are edited in place. The first save outside DRAFT records version 1 and
+// every content edit after that records the next version.
+export function shouldRecordVersion(
+  proposal: { status: string; currentVersion: number },
+  data: { status?: string } & Record<string, unknown>
+) {
+  const status = data.status ?? proposal.status
+  if (status === 'DRAFT') {
+    return false
+  }
+
+  return proposal.currentVersion === 0 || hasContentChanges(data)
+}
+
+export function snapshotProposal(proposal: {
+  title: string
+  content: string | null
+  validUntil: Date | null
+  items: { description: string; quantity: number; unitPrice: number; totalPrice: number; taxRate: number | null }[]
+  subtotal: number
+  taxRate: number
+  taxAmount: number
+  discountRate: number
+  discountAmount: number
+  totalAmount: number
+  notes: string | null
+  terms: string | null
+}): ProposalSnapshot {
+  return {
+    title: proposal.title,
+    content: proposal.content,
+    validUntil: proposal.validUntil ? proposal.validUntil.toISOString() : null,
+    items: proposal.items.map((item) => ({
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      totalPrice: item.totalPrice,
+      taxRate: item.taxRate,
+    })),
+    subtotal: proposal.subtotal,
+    taxRate: proposal.taxRate,
+    taxAmount: proposal.taxAmount,
+    discountRate: proposal.discountRate,
+    discountAmount: proposal.discountAmount,
+    totalAmount: proposal.totalAmount,
+    notes: proposal.notes,
+    terms: proposal.terms,
+  }
+}
+
+// Freeze the proposal as it is now and bump its version number
+export async function recordProposalVersion(
+  proposalId: string,
+  userId: string,
+  db: Db = prisma,
+  changeSummary?: string
+) {
+  const proposal = await db.proposal.findUniqueOrThrow({
+    where: { id: proposalId },
+    include: { items: { orderBy: proposalItemOrderBy } },
+  })
+
+  const version = proposal.currentVersion + 1
+
+  await db.proposal.update({
+    where: { id: proposalId },
+    data: { currentVersion: version },
+  })
+
+  return db.proposalVersion.create({
+    data: {
+      proposalId,
+      version,
+      snapshot: snapshotProposal(proposal) as unknown as Prisma.InputJsonValue,
+      changeSummary,
+      createdBy: userId,
+    },
+  })
+}
+
+const SNAPSHOT_FIELDS: (keyof ProposalSnapshot)[] = [
+  'title',
+  'content',
+  'validUntil',
+  'subtotal',
+  'taxRate',
+  'taxAmount',
+  'discountRate',
+  'discountAmount',
+  'totalAmount',
+  'notes',
+  'terms',
+]
+
+const ITEM_FIELDS = ['quantity', 'unitPrice', 'totalPrice', 'taxRate'] as const
+
+// Compare two snapshots field by field. Line items are matched on their description,
+// so a renamed line shows up as one removed and one added item.
+export function diffProposalSnapshots(
+  from: { version: number; snapshot: ProposalSnapshot },
+  to: { version: number; snapshot: ProposalSnapshot }
+): ProposalDiff {
+  const fields = SNAPSHOT_FIELDS
+    .filter((field) => from.snapshot[field] !== to.snapshot[field])
+    .map((field) => ({ field, from: from.snapshot[field], to: to.snapshot[field] }))
+
+  const unmatched = from.snapshot.items.slice()
+  const added: ProposalSnapshot['items'] = []
+  const changed: ProposalDiff['items']['changed'] = []
+
+  for (const item of to.snapshot.items) {
+    const index = unmatched.findIndex((candidate) => candidate.description === item.description)
+    if (index === -1) {
+      added.push(item)
+      continue
+    }
+
+    const previous = unmatched.splice(index, 1)[0]
+    // Snapshots taken before items had tax rates have no taxRate at all
+    const changes = ITEM_FIELDS
+      .filter((field) => (previous[field] ?? null) !== (item[field] ?? null))
+      .map((field) => ({ field, from: previous[field], to: item[field] }))
+
+    if (changes.length > 0) {
+      changed.push({ description: item.description, changes })
+    }
+  }
+
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    fields,
+    items: { added, removed: unmatched, changed },
+  }
+}
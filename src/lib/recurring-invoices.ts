@@ -0,0 +1,465 @@
+import { BudgetPeriod, Prisma, PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { assertClientContact } from './client-contacts'
+import { currencyCodeSchema } from './currency'
+import { emailInvoice } from './invoice-emails'
+import { numberForNewInvoice } from './invoice-numbers'
+import { buildInvoiceItems, loadTaxRates } from './tax-rates'
+import { getAgencyTimeZone, getZonedParts, zonedTimeToUtc } from './timezone'
+import { roundMoney } from './utils'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_DUE_PROFILES_PER_RUN = 100
+// Periods missed while the job was not running are billed one invoice each, up to this many per run
+const MAX_PERIODS_PER_PROFILE = 12
+const MAX_PREVIEW_PER_PROFILE = 12
+
+// CUSTOM budgets have no fixed length, so they cannot drive a billing schedule
+export const RECURRING_FREQUENCIES = ['MONTHLY', 'QUARTERLY', 'YEARLY'] as const
+
+const PERIOD_MONTHS: Record<typeof RECURRING_FREQUENCIES[number], number> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  YEARLY: 12,
+}
+
+export const recurringInvoiceItemSchema = z.object({
+  description: z.string().min(1, 'Item description is required').max(2000),
+  quantity: z.number().min(0, 'Quantity must be positive').default(1),
+  unitPrice: z.number().min(0, 'Unit price must be positive'),
+  taxRateId: z.string().nullable().optional(),
+})
+
+// Line items are given directly or copied from one of the client's existing invoices
+const recurringInvoiceFields = {
+  name: z.string().min(1, 'Name is required').max(200),
+  clientId: z.string().min(1, 'Client ID is required'),
+  projectId: z.string().nullable().optional(),
+  recipientContactId: z.string().nullable().optional(),
+  frequency: z.enum(RECURRING_FREQUENCIES),
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime().nullable().optional(),
+  dueInDays: z.number().int().min(0).max(365),
+  // Defaults to the client's billing currency
+  currency: currencyCodeSchema.optional(),
+  autoSend: z.boolean(),
+  isActive: z.boolean(),
+  notes: z.string().max(2000).nullable().optional(),
+  items: z.array(recurringInvoiceItemSchema).min(1, 'At least one line item is required').max(50).optional(),
+  fromInvoiceId: z.string().optional(),
+}
+
+function refineDates(data: { startDate?: string; endDate?: string | null }, ctx: z.RefinementCtx) {
+  if (data.startDate && data.endDate && data.endDate <= data.startDate) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['endDate'],
+      message: 'End date must be after start date',
+    })
+  }
+}
+
+// Validation schema for creating a recurring invoice profile
+export const recurringInvoiceSchema = z.object({
+  ...recurringInvoiceFields,
+  frequency: recurringInvoiceFields.frequency.default('MONTHLY'),
+  dueInDays: recurringInvoiceFields.dueInDays.default(30),
+  autoSend: recurringInvoiceFields.autoSend.default(false),
+  isActive: recurringInvoiceFields.isActive.default(true),
+}).superRefine((data, ctx) => {
+  refineDates(data, ctx)
+  if (!data.items && !data.fromInvoiceId) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['items'],
+      message: 'Provide line items or an invoice to copy them from',
+    })
+  }
+})
+
+// Validation schema for updating a recurring invoice profile
+export const updateRecurringInvoiceSchema = z.object(recurringInvoiceFields)
+  .omit({ clientId: true })
+  .partial()
+  .superRefine(refineDates)
+
+export type RecurringInvoiceInput = z.infer<typeof recurringInvoiceSchema>
+export type UpdateRecurringInvoiceInput = z.infer<typeof updateRecurringInvoiceSchema>
+export type RecurringInvoiceItemInput = z.infer<typeof recurringInvoiceItemSchema>
+
+export class RecurringInvoiceError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RecurringInvoiceError'
+  }
+}
+
+export const recurringInvoiceInclude = {
+  client: { select: { id: true, name: true, company: true } },
+  project: { select: { id: true, name: true } },
+  recipientContact: { select: { id: true, name: true, email: true } },
+  creator: { select: { id: true, name: true, email: true } },
+  items: { orderBy: { sortOrder: 'asc' as const } },
+}
+
+function periodMonths(frequency: BudgetPeriod) {
+  if (frequency === 'CUSTOM') {
+    throw new RecurringInvoiceError('Recurring invoices need a monthly, quarterly or yearly frequency')
+  }
+  return PERIOD_MONTHS[frequency]
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+// The issue date `periods` billing periods after the start, on the start's day of the
+// month and time of day in the agency timezone. Days past the end of a short month fall
+// on its last day without shifting the months after it.
+export function addBillingPeriods(startDate: Date, frequency: BudgetPeriod, periods: number, timeZone: string) {
+  const start = getZonedParts(startDate, timeZone)
+  const monthIndex = start.year * 12 + start.month - 1 + periods * periodMonths(frequency)
+  const year = Math.floor(monthIndex / 12)
+  const month = (monthIndex % 12) + 1
+
+  return zonedTimeToUtc({
+    year,
+    month,
+    day: Math.min(start.day, daysInMonth(year, month)),
+    hour: start.hour,
+    minute: start.minute,
+  }, timeZone)
+}
+
+// First issue date of the schedule at or after `from`
+export function firstIssueDateFrom(startDate: Date, frequency: BudgetPeriod, from: Date, timeZone: string) {
+  if (from <= startDate) {
+    return startDate
+  }
+
+  const start = getZonedParts(startDate, timeZone)
+  const local = getZonedParts(from, timeZone)
+  const elapsedMonths = (local.year - start.year) * 12 + local.month - start.month
+  let periods = Math.max(Math.floor(elapsedMonths / periodMonths(frequency)) - 1, 0)
+  let candidate = addBillingPeriods(startDate, frequency, periods, timeZone)
+
+  while (candidate < from) {
+    periods++
+    candidate = addBillingPeriods(startDate, frequency, periods, timeZone)
+  }
+
+  return candidate
+}
+
+// The issue date that follows `issueDate`, or null when it falls after the end date
+function followingIssueDate(
+  profile: { startDate: Date; endDate: Date | null; frequency: BudgetPeriod },
+  issueDate: Date,
+  timeZone: string
+) {
+  const next = firstIssueDateFrom(profile.startDate, profile.frequency, new Date(issueDate.getTime() + 1), timeZone)
+  return profile.endDate && next > profile.endDate ? null : next
+}
+
+// Where a profile's schedule continues after it is created or its schedule changes. Until
+// something has been billed it starts at the start date (past periods are billed by the
+// next job run); after that it continues from today, so periods skipped while paused are
+// not billed after the fact and no period is billed twice. Inactive profiles have none.
+export async function scheduleNextIssueDate(
+  profile: { id?: string; startDate: Date; endDate: Date | null; frequency: BudgetPeriod; isActive: boolean },
+  db: Db = prisma,
+  now: Date = new Date()
+) {
+  if (!profile.isActive) {
+    return null
+  }
+
+  const lastInvoice = profile.id
+    ? await db.invoice.findFirst({
+        where: { recurringInvoiceId: profile.id },
+        orderBy: { issueDate: 'desc' },
+        select: { issueDate: true },
+      })
+    : null
+
+  const from = lastInvoice
+    ? new Date(Math.max(now.getTime(), lastInvoice.issueDate.getTime() + 1))
+    : profile.startDate
+  const next = firstIssueDateFrom(profile.startDate, profile.frequency, from, await getAgencyTimeZone(db))
+
+  return profile.endDate && next > profile.endDate ? null : next
+}
+
+// The profile's project and recipient must belong to its client
+export async function assertProfileReferences(
+  clientId: string,
+  refs: { projectId?: string | null; recipientContactId?: string | null },
+  db: Db = prisma
+) {
+  if (refs.projectId) {
+    const project = await db.project.findUnique({
+      where: { id: refs.projectId },
+      select: { clientId: true },
+    })
+    if (project?.clientId !== clientId) {
+      throw new RecurringInvoiceError('Project does not belong to the specified client')
+    }
+  }
+
+  await assertClientContact(clientId, refs.recipientContactId, db)
+}
+
+// Line items to save on a profile: the given ones, or a copy of an invoice's items
+export async function resolveProfileItems(
+  clientId: string,
+  input: { items?: RecurringInvoiceItemInput[]; fromInvoiceId?: string },
+  db: Db = prisma
+) {
+  if (input.items) {
+    return input.items
+  }
+
+  if (!input.fromInvoiceId) {
+    return null
+  }
+
+  const invoice = await db.invoice.findFirst({
+    where: { id: input.fromInvoiceId, clientId, type: 'INVOICE' },
+    include: { items: { orderBy: { createdAt: 'asc' } } },
+  })
+
+  if (!invoice) {
+    throw new RecurringInvoiceError('Invoice to copy items from was not found for this client')
+  }
+
+  if (invoice.items.length === 0) {
+    throw new RecurringInvoiceError('Invoice to copy items from has no line items')
+  }
+
+  return invoice.items.map((item) => ({
+    description: item.description,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    taxRateId: item.taxRateId,
+  }))
+}
+
+// Lines can only be saved with rates that are still offered
+export async function replaceProfileItems(recurringInvoiceId: string, items: RecurringInvoiceItemInput[], db: Db = prisma) {
+  await loadTaxRates(items.map((item) => item.taxRateId), db)
+  await db.recurringInvoiceItem.deleteMany({ where: { recurringInvoiceId } })
+  await db.recurringInvoiceItem.createMany({
+    data: items.map((item, index) => ({
+      recurringInvoiceId,
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      taxRateId: item.taxRateId || null,
+      sortOrder: index,
+    })),
+  })
+}
+
+function servicePeriodNote(name: string, issueDate: Date, periodEnd: Date, notes: string | null) {
+  const period = `${issueDate.toDateString()} - ${new Date(periodEnd.getTime() - DAY_MS).toDateString()}`
+  return [`${name}: service period ${period}`, ...(notes ? [notes] : [])].join('\n\n')
+}
+
+// Create the invoice for a profile's next due period. The period is claimed by moving
+// nextIssueDate forward in the same transaction that creates the invoice, so overlapping
+// job runs never bill a period twice and a failed create leaves the period due.
+async function issueNextInvoice(recurringInvoiceId: string, timeZone: string, db: PrismaClient, now: Date) {
+  return db.$transaction(async (tx) => {
+    const profile = await tx.recurringInvoice.findUnique({
+      where: { id: recurringInvoiceId },
+      include: { items: { orderBy: { sortOrder: 'asc' } } },
+    })
+
+    if (!profile?.isActive || !profile.nextIssueDate || profile.nextIssueDate > now) {
+      return null
+    }
+
+    const issueDate = profile.nextIssueDate
+    const nextIssueDate = followingIssueDate(profile, issueDate, timeZone)
+
+    const claimed = await tx.recurringInvoice.updateMany({
+      where: { id: profile.id, nextIssueDate: issueDate },
+      data: {
+        nextIssueDate,
+        issuedCount: { increment: 1 },
+        lastIssuedAt: now,
+      },
+    })
+    if (claimed.count === 0) {
+      return null
+    }
+
+    const status = profile.autoSend ? 'SENT' as const : 'DRAFT' as const
+    const { lines, ...totals } = await buildInvoiceItems(profile.items, tx)
+    const periodEnd = nextIssueDate ?? addBillingPeriods(issueDate, profile.frequency, 1, timeZone)
+
+    const invoice = await tx.invoice.create({
+      data: {
+        ...totals,
+        invoiceNumber: await numberForNewInvoice('INVOICE', status, tx, issueDate),
+        clientId: profile.clientId,
+        currency: profile.currency,
+        projectId: profile.projectId,
+        recurringInvoiceId: profile.id,
+        recipientContactId: profile.recipientContactId,
+        status,
+        issueDate,
+        dueDate: new Date(issueDate.getTime() + profile.dueInDays * DAY_MS),
+        notes: servicePeriodNote(profile.name, issueDate, periodEnd, profile.notes),
+        createdBy: profile.createdBy,
+        items: { create: lines },
+      },
+    })
+
+    await tx.activity.create({
+      data: {
+        userId: profile.createdBy,
+        type: 'RECURRING_INVOICE_GENERATED',
+        description: `${invoice.invoiceNumber ? `Invoice ${invoice.invoiceNumber}` : 'Draft invoice'} generated from "${profile.name}"`,
+        entityType: 'INVOICE',
+        entityId: invoice.id,
+        metadata: {
+          recurringInvoiceId: profile.id,
+          issueDate: issueDate.toISOString(),
+          totalAmount: invoice.totalAmount,
+        },
+      },
+    })
+
+    return { invoice, profileName: profile.name }
+  })
+}
+
+// Generate every invoice that is due. Profiles with autoSend create SENT invoices that
+// are emailed to the client; the others create drafts for review. An email that fails
+// leaves the invoice issued and notifies the profile's owner.
+export async function generateDueRecurringInvoices(db: PrismaClient = prisma, now: Date = new Date()) {
+  const timeZone = await getAgencyTimeZone(db)
+  const due = await db.recurringInvoice.findMany({
+    where: { isActive: true, nextIssueDate: { lte: now } },
+    orderBy: { nextIssueDate: 'asc' },
+    take: MAX_DUE_PROFILES_PER_RUN,
+    select: { id: true },
+  })
+
+  const generated = []
+  const failed = []
+
+  for (const { id } of due) {
+    for (let period = 0; period < MAX_PERIODS_PER_PROFILE; period++) {
+      let issued
+      try {
+        issued = await issueNextInvoice(id, timeZone, db, now)
+      } catch (error) {
+        console.error(`Recurring invoice ${id} failed:`, error)
+        failed.push({ recurringInvoiceId: id, error: error instanceof Error ? error.message : String(error) })
+        break
+      }
+
+      if (!issued) {
+        break
+      }
+
+      const { invoice, profileName } = issued
+      let emailError: string | null = null
+
+      if (invoice.status === 'SENT') {
+        try {
+          await emailInvoice(invoice, db)
+        } catch (error) {
+          emailError = error instanceof Error ? error.message : String(error)
+          console.error(`Emailing invoice ${invoice.id} failed:`, error)
+
+          await db.notification.create({
+            data: {
+              userId: invoice.createdBy,
+              title: 'Recurring invoice not emailed',
+              message: `Invoice ${invoice.invoiceNumber} from "${profileName}" was issued but could not be emailed: ${emailError}`,
+              type: 'ERROR',
+              actionUrl: '/invoices',
+            },
+          })
+        }
+      }
+
+      generated.push({
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        recurringInvoiceId: id,
+        status: invoice.status,
+        issueDate: invoice.issueDate,
+        totalAmount: invoice.totalAmount,
+        emailError,
+      })
+    }
+  }
+
+  return {
+    profiles: due.length,
+    generated: generated.length,
+    sent: generated.filter((invoice) => invoice.status === 'SENT' && !invoice.emailError).length,
+    failed,
+    invoices: generated,
+  }
+}
+
+// Invoices the active profiles will generate in the next `days` days. Profiles bill in
+// their own currencies, so totals are kept per currency.
+export async function previewUpcomingInvoices(days: number = 30, db: Db = prisma, now: Date = new Date()) {
+  const timeZone = await getAgencyTimeZone(db)
+  const until = new Date(now.getTime() + days * DAY_MS)
+  const profiles = await db.recurringInvoice.findMany({
+    where: { isActive: true, nextIssueDate: { lte: until } },
+    include: {
+      client: { select: { id: true, name: true, company: true } },
+      project: { select: { id: true, name: true } },
+      items: { orderBy: { sortOrder: 'asc' } },
+    },
+  })
+
+  const invoices = []
+
+  for (const profile of profiles) {
+    const totals = await buildInvoiceItems(profile.items, db)
+    let issueDate = profile.nextIssueDate
+
+    for (let count = 0; issueDate && issueDate <= until && count < MAX_PREVIEW_PER_PROFILE; count++) {
+      invoices.push({
+        recurringInvoiceId: profile.id,
+        name: profile.name,
+        client: profile.client,
+        project: profile.project,
+        issueDate,
+        dueDate: new Date(issueDate.getTime() + profile.dueInDays * DAY_MS),
+        status: profile.autoSend ? 'SENT' as const : 'DRAFT' as const,
+        currency: profile.currency,
+        amount: totals.amount,
+        taxAmount: totals.taxAmount,
+        totalAmount: totals.totalAmount,
+      })
+      issueDate = followingIssueDate(profile, issueDate, timeZone)
+    }
+  }
+
+  invoices.sort((a, b) => a.issueDate.getTime() - b.issueDate.getTime())
+
+  const byCurrency: Record<string, number> = {}
+  for (const invoice of invoices) {
+    byCurrency[invoice.currency] = roundMoney((byCurrency[invoice.currency] ?? 0) + invoice.totalAmount)
+  }
+
+  return {
+    from: now,
+    until,
+    byCurrency,
+    invoices,
+  }
+}
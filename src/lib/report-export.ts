@@ -0,0 +1,788 @@
+import * as XLSX from 'xlsx'
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib'
+import { toCsvRow } from './csv'
+
+export type ReportExportFormat = 'csv' | 'excel' | 'pdf'
+
+type ColumnType = 'text' | 'number' | 'currency' | 'percent' | 'date'
+type Row = Record<string, any>
+
+export interface ReportColumn {
+  key: string
+  label: string
+  type: ColumnType
+}
+
+export interface ReportChart {
+  title: string
+  data: Record<string, number>
+  type?: ColumnType
+}
+
+export interface ReportTable {
+  title: string
+  subtitle: string
+  // ISO code money columns are shown in
+  currency: string
+  columns: ReportColumn[]
+  rows: Row[]
+  summary: [string, string][]
+  charts: ReportChart[]
+}
+
+export interface ReportSection {
+  // Group values from the outermost grouping inwards; empty when the report is not grouped
+  path: string[]
+  rows: Row[]
+  subtotal?: Row
+}
+
+export interface RenderedReport {
+  body: Uint8Array
+  contentType: string
+  fileName: string
+}
+
+const DATE_GROUPINGS = ['date', 'week', 'month', 'quarter', 'year']
+
+interface ReportLayout {
+  title: string
+  rows: (data: any) => Row[]
+  columns: ReportColumn[]
+  charts: (data: any) => ReportChart[]
+  // Row key holding each non-date grouping, and the key dates are derived from
+  groupFields: Record<string, string>
+  dateKey?: string
+}
+
+const text = (key: string, label: string): ReportColumn => ({ key, label, type: 'text' })
+const num = (key: string, label: string): ReportColumn => ({ key, label, type: 'number' })
+const money = (key: string, label: string): ReportColumn => ({ key, label, type: 'currency' })
+const pct = (key: string, label: string): ReportColumn => ({ key, label, type: 'percent' })
+const date = (key: string, label: string): ReportColumn => ({ key, label, type: 'date' })
+
+// Monthly series keyed by YYYY-MM, as produced by groupDataByMonth in the report generators
+function monthRows(series: Record<string, number> | undefined, extra: Row = {}, valueKey = 'revenue') {
+  return Object.entries(series || {}).map(([month, value]) => ({ month, [valueKey]: value, ...extra }))
+}
+
+// How each custom report type is laid out as a flat table
+const REPORT_LAYOUTS: Record<string, ReportLayout> = {
+  financial_summary: {
+    title: 'Financial Summary',
+    rows: (data) => Object.keys(data.monthlyTrends?.revenues || {}).map((month) => ({
+      month,
+      revenue: data.monthlyTrends.revenues[month] || 0,
+      expenses: data.monthlyTrends.expenses[month] || 0,
+      profit: data.monthlyTrends.profit[month] || 0,
+    })),
+    columns: [text('month', 'Month'), money('revenue', 'Revenue'), money('expenses', 'Expenses'), money('profit', 'Profit')],
+    charts: (data) => [
+      { title: 'Revenue by client', data: data.revenueByClient, type: 'currency' },
+      { title: 'Expenses by category', data: data.expensesByCategory, type: 'currency' },
+      { title: 'Monthly profit', data: data.monthlyTrends?.profit, type: 'currency' },
+    ],
+    groupFields: {},
+    dateKey: 'month',
+  },
+  project_performance: {
+    title: 'Project Performance',
+    rows: (data) => data.projects,
+    columns: [
+      text('name', 'Project'), text('client', 'Client'), text('status', 'Status'), num('totalHours', 'Hours'),
+      money('totalRevenue', 'Revenue'), money('totalExpenses', 'Expenses'), money('profit', 'Profit'),
+      money('totalBudget', 'Budget'), pct('budgetUtilization', 'Budget used'), pct('completionRate', 'Completion'),
+      num('completedTasks', 'Done tasks'), num('totalTasks', 'Tasks'),
+    ],
+    charts: (data) => [
+      { title: 'Revenue by project', data: chartFrom(data.projects, 'name', 'totalRevenue'), type: 'currency' },
+      { title: 'Completion rate by project', data: chartFrom(data.projects, 'name', 'completionRate'), type: 'percent' },
+    ],
+    groupFields: { client: 'client', project: 'name', status: 'status' },
+  },
+  team_productivity: {
+    title: 'Team Productivity',
+    rows: (data) => data.teamMembers,
+    columns: [
+      text('name', 'Member'), text('department', 'Department'), text('role', 'Role'), num('totalHours', 'Hours'),
+      num('totalTasks', 'Tasks'), num('completedTasks', 'Done tasks'), pct('completionRate', 'Completion'),
+      money('totalExpenses', 'Expenses'), num('averageTaskTime', 'Hours per task'),
+    ],
+    charts: (data) => [
+      { title: 'Hours by team member', data: chartFrom(data.teamMembers, 'name', 'totalHours'), type: 'number' },
+      { title: 'Completed tasks by team member', data: chartFrom(data.teamMembers, 'name', 'completedTasks'), type: 'number' },
+    ],
+    groupFields: { user: 'name', department: 'department', status: 'role' },
+  },
+  client_analysis: {
+    title: 'Client Analysis',
+    rows: (data) => data.clients,
+    columns: [
+      text('name', 'Client'), text('email', 'Email'), money('totalRevenue', 'Revenue'), money('totalExpenses', 'Expenses'),
+      money('profit', 'Profit'), money('totalBudget', 'Budget'), num('totalProjects', 'Projects'),
+      num('activeProjects', 'Active'), num('completedProjects', 'Completed'), num('totalHours', 'Hours'),
+      pct('profitMargin', 'Margin'),
+    ],
+    charts: (data) => [
+      { title: 'Revenue by client', data: chartFrom(data.clients, 'name', 'totalRevenue'), type: 'currency' },
+      { title: 'Profit margin by client', data: chartFrom(data.clients, 'name', 'profitMargin'), type: 'percent' },
+    ],
+    groupFields: { client: 'name' },
+  },
+  time_tracking: {
+    title: 'Time Tracking',
+    rows: (data) => data.timeEntries,
+    columns: [date('date', 'Date'), text('user', 'User'), text('project', 'Project'), text('task', 'Task'), text('description', 'Description'), num('hours', 'Hours')],
+    charts: (data) => [
+      { title: 'Hours by user', data: data.charts?.userHours, type: 'number' },
+      { title: 'Hours by project', data: data.charts?.projectHours, type: 'number' },
+      { title: 'Hours by day', data: data.charts?.dailyHours, type: 'number' },
+    ],
+    groupFields: { user: 'user', project: 'project' },
+    dateKey: 'date',
+  },
+  budget_analysis: {
+    title: 'Budget Analysis',
+    rows: (data) => data.budgets,
+    columns: [
+      text('name', 'Budget'), text('project', 'Project'), text('client', 'Client'), text('status', 'Status'),
+      money('totalAmount', 'Allocated'), money('spent', 'Spent'), money('remaining', 'Remaining'),
+      pct('utilization', 'Utilization'), num('daysRemaining', 'Days left'), money('projectedOverrun', 'Projected overrun'),
+    ],
+    charts: (data) => [
+      { title: 'Budget utilization', data: chartFrom(data.budgets, 'name', 'utilization'), type: 'percent' },
+      { title: 'Spend by budget', data: chartFrom(data.budgets, 'name', 'spent'), type: 'currency' },
+    ],
+    groupFields: { client: 'client', project: 'project', status: 'status' },
+  },
+  revenue_forecast: {
+    title: 'Revenue Forecast',
+    rows: (data) => [
+      ...monthRows(data.historical?.revenues, { period: 'Historical' }),
+      ...monthRows(data.current?.revenues, { period: 'Actual' }),
+      ...(data.forecast || []).map((f: Row) => ({ month: f.month, period: 'Forecast', revenue: f.projected, confidence: f.confidence * 100 })),
+    ],
+    columns: [text('month', 'Month'), text('period', 'Period'), money('revenue', 'Revenue'), pct('confidence', 'Confidence')],
+    charts: (data) => [
+      { title: 'Actual revenue by month', data: { ...data.historical?.revenues, ...data.current?.revenues }, type: 'currency' },
+      { title: 'Forecast revenue by month', data: Object.fromEntries((data.forecast || []).map((f: Row) => [f.month, f.projected])), type: 'currency' },
+    ],
+    groupFields: { status: 'period' },
+    dateKey: 'month',
+  },
+  expense_breakdown: {
+    title: 'Expense Breakdown',
+    rows: (data) => data.expenses,
+    columns: [
+      date('date', 'Date'), text('category', 'Category'), text('description', 'Description'), text('user', 'User'),
+      text('project', 'Project'), text('client', 'Client'), text('status', 'Status'), money('amount', 'Amount'),
+    ],
+    charts: (data) => [
+      { title: 'Expenses by category', data: data.breakdown?.byCategory, type: 'currency' },
+      { title: 'Expenses by month', data: data.breakdown?.byMonth, type: 'currency' },
+      { title: 'Expenses by user', data: data.breakdown?.byUser, type: 'currency' },
+    ],
+    groupFields: { category: 'category', user: 'user', project: 'project', client: 'client', status: 'status' },
+    dateKey: 'date',
+  },
+  task_completion: {
+    title: 'Task Completion',
+    rows: (data) => (data.tasks || []).map((task: Row) => ({ ...task, isOverdue: task.isOverdue ? 'Yes' : 'No' })),
+    columns: [
+      text('title', 'Task'), text('project', 'Project'), text('assignedTo', 'Assignee'), text('status', 'Status'),
+      text('priority', 'Priority'), date('createdAt', 'Created'), date('dueDate', 'Due'), num('totalHours', 'Hours'),
+      text('isOverdue', 'Overdue'),
+    ],
+    charts: (data) => [
+      { title: 'Tasks by status', data: data.breakdown?.byStatus, type: 'number' },
+      { title: 'Tasks by priority', data: data.breakdown?.byPriority, type: 'number' },
+      { title: 'Tasks by assignee', data: data.breakdown?.byUser, type: 'number' },
+    ],
+    groupFields: { user: 'assignedTo', project: 'project', status: 'status', priority: 'priority' },
+    dateKey: 'createdAt',
+  },
+  custom_query: {
+    title: 'Custom Query',
+    rows: (data) => (Array.isArray(data.data) ? data.data : []),
+    columns: [],
+    charts: () => [],
+    groupFields: {},
+  },
+}
+
+function chartFrom(rows: Row[] | undefined, labelKey: string, valueKey: string): Record<string, number> {
+  return Object.fromEntries((rows || []).map((row) => [row[labelKey] || 'Unknown', Number(row[valueKey]) || 0]))
+}
+
+function humanize(key: string): string {
+  return key
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/_/g, ' ')
+    .replace(/^./, (c) => c.toUpperCase())
+}
+
+// Reports generated before they carried a currency were always in US dollars
+const DEFAULT_REPORT_CURRENCY = 'USD'
+
+const currencyFormats: Record<string, Intl.NumberFormat> = {}
+function currencyFormat(currency: string) {
+  return currencyFormats[currency] ?? (currencyFormats[currency] = new Intl.NumberFormat('en-US', { style: 'currency', currency }))
+}
+const numberFormat = new Intl.NumberFormat('en-US', { maximumFractionDigits: 2 })
+
+function toDate(value: unknown): Date | null {
+  if (value === null || value === undefined || value === '') return null
+  const parsed = value instanceof Date ? value : new Date(value as string)
+  return isNaN(parsed.getTime()) ? null : parsed
+}
+
+export function formatValue(value: unknown, type: ColumnType, currency = DEFAULT_REPORT_CURRENCY): string {
+  if (value === null || value === undefined || value === '') return ''
+  switch (type) {
+    case 'currency':
+      return currencyFormat(currency).format(Number(value) || 0)
+    case 'percent':
+      return `${numberFormat.format(Number(value) || 0)}%`
+    case 'number':
+      return numberFormat.format(Number(value) || 0)
+    case 'date':
+      return toDate(value)?.toISOString().split('T')[0] ?? String(value)
+    default:
+      return String(value)
+  }
+}
+
+function isoWeek(d: Date): string {
+  const day = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()))
+  const weekday = day.getUTCDay() || 7
+  day.setUTCDate(day.getUTCDate() + 4 - weekday)
+  const yearStart = new Date(Date.UTC(day.getUTCFullYear(), 0, 1))
+  const week = Math.ceil(((day.getTime() - yearStart.getTime()) / 86400000 + 1) / 7)
+  return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`
+}
+
+function groupValue(row: Row, grouping: string, layout: ReportLayout): string {
+  if (DATE_GROUPINGS.includes(grouping)) {
+    const d = toDate(layout.dateKey ? row[layout.dateKey] : null)
+    if (!d) return 'No date'
+    const iso = d.toISOString()
+    switch (grouping) {
+      case 'date': return iso.split('T')[0]
+      case 'week': return isoWeek(d)
+      case 'month': return iso.substring(0, 7)
+      case 'quarter': return `${d.getUTCFullYear()}-Q${Math.floor(d.getUTCMonth() / 3) + 1}`
+      default: return String(d.getUTCFullYear())
+    }
+  }
+  const value = row[layout.groupFields[grouping]]
+  return value === null || value === undefined || value === '' ? 'Unassigned' : String(value)
+}
+
+// Groupings requested for the report that its rows can actually be grouped by
+export function applicableGroupings(reportType: string, groupBy: string[] = []): string[] {
+  const layout = REPORT_LAYOUTS[reportType]
+  if (!layout) return []
+  return groupBy.filter((g) => (DATE_GROUPINGS.includes(g) ? !!layout.dateKey : !!layout.groupFields[g]))
+}
+
+function flattenSummary(summary: Row | undefined, currency: string): [string, string][] {
+  return Object.entries(summary || {}).map(([key, value]) => {
+    const isMoney = /revenue|expense|profit|budget|spent|allocated|total$/i.test(key) && !/count|tasks|hours|entries|members|clients|projects|budgets/i.test(key)
+    const isPercent = /rate|margin|utilization|confidence/i.test(key)
+    let formatted: string
+    if (Array.isArray(value)) {
+      formatted = `${value[0]} (${numberFormat.format(Number(value[1]) || 0)})`
+    } else if (typeof value === 'number') {
+      formatted = key === 'confidenceLevel'
+        ? formatValue(value * 100, 'percent')
+        : formatValue(value, isPercent ? 'percent' : isMoney ? 'currency' : 'number', currency)
+    } else {
+      formatted = value === null || value === undefined ? '' : String(value)
+    }
+    return [humanize(key), formatted]
+  })
+}
+
+// Normalise a generated custom report into columns, rows, summary and chart series
+export function buildReportTable(report: Row): ReportTable {
+  const layout = REPORT_LAYOUTS[report.reportType]
+  if (!layout) {
+    throw new Error(`No export layout for report type ${report.reportType}`)
+  }
+
+  const data = report.data || {}
+  let rows = [...(layout.rows(data) || [])]
+  let columns = layout.columns
+  if (columns.length === 0 && rows.length > 0) {
+    columns = Object.keys(rows[0]).map((key) => text(key, humanize(key)))
+  }
+
+  const { sortBy, sortOrder = 'desc', limit } = report.parameters || {}
+  if (sortBy) {
+    rows.sort((a, b) => {
+      const comparison = a[sortBy] < b[sortBy] ? -1 : a[sortBy] > b[sortBy] ? 1 : 0
+      return sortOrder === 'desc' ? -comparison : comparison
+    })
+  }
+  if (limit) {
+    rows = rows.slice(0, limit)
+  }
+
+  const from = formatValue(report.dateRange?.from, 'date')
+  const to = formatValue(report.dateRange?.to, 'date')
+  const currency = report.currency || DEFAULT_REPORT_CURRENCY
+
+  return {
+    title: report.parameters?.name || layout.title,
+    subtitle: `${from} to ${to} · generated ${formatValue(report.generatedAt, 'date')}`,
+    currency,
+    columns,
+    rows,
+    summary: flattenSummary(data.summary, currency),
+    charts: layout.charts(data)
+      .filter((chart) => chart.data && Object.keys(chart.data).length > 0),
+  }
+}
+
+// Sums money and count columns; percentages don't add up, so those show the average
+function subtotalRow(rows: Row[], columns: ReportColumn[]): Row {
+  const subtotal: Row = {}
+  for (const column of columns) {
+    const values = rows.map((row) => Number(row[column.key])).filter((v) => !isNaN(v))
+    if (column.type === 'currency' || column.type === 'number') {
+      subtotal[column.key] = values.reduce((sum, v) => sum + v, 0)
+    } else if (column.type === 'percent') {
+      subtotal[column.key] = values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null
+    }
+  }
+  return subtotal
+}
+
+// Split rows into nested groups, optionally closing each group with a subtotal row
+export function buildSections(
+  reportType: string,
+  table: ReportTable,
+  groupings: string[],
+  includeSubtotals: boolean
+): ReportSection[] {
+  const layout = REPORT_LAYOUTS[reportType]
+
+  if (groupings.length === 0) {
+    return [{ path: [], rows: table.rows }]
+  }
+
+  const buckets = new Map<string, { path: string[]; rows: Row[] }>()
+  for (const row of table.rows) {
+    const path = groupings.map((g) => groupValue(row, g, layout))
+    const key = JSON.stringify(path)
+    const bucket = buckets.get(key) || { path, rows: [] }
+    bucket.rows.push(row)
+    buckets.set(key, bucket)
+  }
+
+  return Array.from(buckets.values())
+    .sort((a, b) => a.path.join('\u0000').localeCompare(b.path.join('\u0000')))
+    .map((bucket) => ({
+      ...bucket,
+      subtotal: includeSubtotals ? subtotalRow(bucket.rows, table.columns) : undefined,
+    }))
+}
+
+function fileNameFor(report: Row, extension: string): string {
+  const day = formatValue(report.generatedAt || new Date(), 'date')
+  return `${report.reportType}-${day}.${extension}`
+}
+
+function csvValue(value: unknown, type: ColumnType): unknown {
+  if (type === 'date') return formatValue(value, 'date')
+  if (typeof value === 'number') return Math.round(value * 100) / 100
+  return value
+}
+
+function* csvLines(reportType: string, table: ReportTable, groupings: string[], includeSubtotals: boolean) {
+  const groupLabels = groupings.map(humanize)
+  yield toCsvRow([...groupLabels, ...table.columns.map((c) => c.label)])
+
+  for (const section of buildSections(reportType, table, groupings, includeSubtotals)) {
+    for (const row of section.rows) {
+      yield toCsvRow([...section.path, ...table.columns.map((c) => csvValue(row[c.key], c.type))])
+    }
+    if (section.subtotal) {
+      const subtotal = section.subtotal
+      yield toCsvRow([
+        ...section.path,
+        ...table.columns.map((c, i) => (i === 0 ? 'Subtotal' : csvValue(subtotal[c.key], c.type))),
+      ])
+    }
+  }
+}
+
+// Stream generated report data as CSV, encoding rows as the response is read rather
+// than building the whole file first
+export function streamReportCsv(report: Row): ReadableStream<Uint8Array> {
+  const table = buildReportTable(report)
+  const groupings = applicableGroupings(report.reportType, report.parameters?.groupBy)
+  const lines = csvLines(report.reportType, table, groupings, !!report.parameters?.includeSubtotals)
+  const encoder = new TextEncoder()
+
+  return new ReadableStream({
+    pull(controller) {
+      let chunk = ''
+      for (let i = 0; i < 500; i++) {
+        const next = lines.next()
+        if (next.done) {
+          if (chunk) controller.enqueue(encoder.encode(chunk))
+          controller.close()
+          return
+        }
+        chunk += `${next.value}\r\n`
+      }
+      controller.enqueue(encoder.encode(chunk))
+    },
+  })
+}
+
+// Stream a report whose rows are read a batch at a time, each batch a slice of the
+// report data holding only its rows, so no more than one batch is held in memory.
+// Batches are written in the order they come, so the report must not be sorted or grouped.
+export function streamReportCsvBatches(report: Row, nextBatch: () => Promise<Row | null>): ReadableStream<Uint8Array> {
+  const layout = REPORT_LAYOUTS[report.reportType]
+  if (!layout || layout.columns.length === 0) {
+    throw new Error(`No export layout for report type ${report.reportType}`)
+  }
+
+  const limit: number | undefined = report.parameters?.limit
+  const encoder = new TextEncoder()
+  let written = 0
+
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(encoder.encode(`${toCsvRow(layout.columns.map((c) => c.label))}\r\n`))
+    },
+    async pull(controller) {
+      const data = limit && written >= limit ? null : await nextBatch()
+      if (!data) {
+        controller.close()
+        return
+      }
+
+      let rows = layout.rows(data) || []
+      if (limit) {
+        rows = rows.slice(0, limit - written)
+      }
+      written += rows.length
+      controller.enqueue(encoder.encode(rows
+        .map((row) => `${toCsvRow(layout.columns.map((c) => csvValue(row[c.key], c.type)))}\r\n`)
+        .join('')))
+    },
+  })
+}
+
+function renderCsv(report: Row): Uint8Array {
+  const table = buildReportTable(report)
+  const groupings = applicableGroupings(report.reportType, report.parameters?.groupBy)
+  const lines = Array.from(csvLines(report.reportType, table, groupings, !!report.parameters?.includeSubtotals))
+  return new TextEncoder().encode(`${lines.join('\r\n')}\r\n`)
+}
+
+const XLSX_FORMATS: Partial<Record<ColumnType, string>> = {
+  number: '#,##0.##',
+  percent: '0.0"%"',
+  date: 'yyyy-mm-dd',
+}
+
+// Excel number format for amounts, with the currency's symbol as formatValue shows it
+function xlsxCurrencyFormat(currency: string) {
+  const symbol = currencyFormat(currency).formatToParts(0).find((part) => part.type === 'currency')?.value ?? currency
+  return `"${symbol.replace(/"/g, '')}"#,##0.00`
+}
+
+function xlsxCell(value: unknown, type: ColumnType, currency: string): XLSX.CellObject {
+  if (value === null || value === undefined || value === '') return { t: 'z' }
+  if (type === 'date') {
+    const d = toDate(value)
+    return d ? { t: 'd', v: d, z: XLSX_FORMATS.date } : { t: 's', v: String(value) }
+  }
+  if (type !== 'text' && typeof value === 'number') {
+    return { t: 'n', v: value, z: type === 'currency' ? xlsxCurrencyFormat(currency) : XLSX_FORMATS[type] }
+  }
+  return { t: 's', v: String(value) }
+}
+
+function sheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[\\/?*[\]:]/g, ' ').trim().substring(0, 28) || 'Sheet'
+  let candidate = base
+  let suffix = 2
+  while (used.has(candidate.toLowerCase())) {
+    candidate = `${base} ${suffix++}`
+  }
+  used.add(candidate.toLowerCase())
+  return candidate
+}
+
+function buildSheet(table: ReportTable, sections: ReportSection[], innerDepth: number, grandTotal?: Row): XLSX.WorkSheet {
+  const aoa: XLSX.CellObject[][] = [table.columns.map((c) => ({ t: 's', v: c.label }))]
+
+  for (const section of sections) {
+    const innerPath = section.path.slice(section.path.length - innerDepth)
+    if (innerDepth > 0) {
+      aoa.push([{ t: 's', v: innerPath.join(' / ') }])
+    }
+    for (const row of section.rows) {
+      aoa.push(table.columns.map((c) => xlsxCell(row[c.key], c.type, table.currency)))
+    }
+    const subtotal = section.subtotal
+    if (subtotal && innerDepth > 0) {
+      aoa.push(table.columns.map((c, i) => (i === 0
+        ? { t: 's', v: `Subtotal: ${innerPath.join(' / ')}` }
+        : xlsxCell(subtotal[c.key], c.type, table.currency))))
+    }
+  }
+
+  if (grandTotal) {
+    aoa.push(table.columns.map((c, i) => (i === 0 ? { t: 's', v: 'Total' } : xlsxCell(grandTotal[c.key], c.type, table.currency))))
+  }
+
+  const sheet = XLSX.utils.aoa_to_sheet(aoa, { cellDates: true })
+  sheet['!cols'] = table.columns.map((c) => ({ wch: Math.max(c.label.length + 2, c.type === 'text' ? 24 : 14) }))
+  return sheet
+}
+
+// One worksheet per value of the first grouping; deeper groupings become subtotalled sections
+function renderXlsx(report: Row): Uint8Array {
+  const table = buildReportTable(report)
+  const groupings = applicableGroupings(report.reportType, report.parameters?.groupBy)
+  const includeSubtotals = !!report.parameters?.includeSubtotals
+  const sections = buildSections(report.reportType, table, groupings, includeSubtotals)
+  const workbook = XLSX.utils.book_new()
+  const used = new Set<string>()
+
+  const summarySheet = XLSX.utils.aoa_to_sheet([
+    [table.title],
+    [table.subtitle],
+    [],
+    ...table.summary,
+  ])
+  summarySheet['!cols'] = [{ wch: 32 }, { wch: 24 }]
+  XLSX.utils.book_append_sheet(workbook, summarySheet, sheetName('Summary', used))
+
+  if (groupings.length === 0) {
+    const total = includeSubtotals ? subtotalRow(table.rows, table.columns) : undefined
+    XLSX.utils.book_append_sheet(workbook, buildSheet(table, sections, 0, total), sheetName('Report', used))
+  } else {
+    const sheets = new Map<string, ReportSection[]>()
+    for (const section of sections) {
+      const key = section.path[0]
+      sheets.set(key, [...(sheets.get(key) || []), section])
+    }
+    sheets.forEach((sheetSections, key) => {
+      const rows = sheetSections.flatMap((s) => s.rows)
+      const total = includeSubtotals ? subtotalRow(rows, table.columns) : undefined
+      XLSX.utils.book_append_sheet(
+        workbook,
+        buildSheet(table, sheetSections, groupings.length - 1, total),
+        sheetName(key, used)
+      )
+    })
+  }
+
+  return new Uint8Array(XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }))
+}
+
+// The standard PDF fonts only cover WinAnsi, so anything else is replaced. Locales that
+// group digits with thin or narrow spaces get plain ones.
+export function pdfText(value: string): string {
+  return value
+    .replace(/[\u2000-\u200A\u202F]/g, ' ')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, (char) => (char === '·' ? '-' : '?'))
+}
+
+export function fitText(value: string, font: PDFFont, size: number, width: number): string {
+  let result = pdfText(value)
+  if (font.widthOfTextAtSize(result, size) <= width) return result
+  while (result.length > 1 && font.widthOfTextAtSize(`${result}...`, size) > width) {
+    result = result.slice(0, -1)
+  }
+  return `${result}...`
+}
+
+const PAGE_WIDTH = 842
+const PAGE_HEIGHT = 595
+const MARGIN = 40
+const CHART_COLORS = [rgb(0.15, 0.39, 0.92), rgb(0.06, 0.6, 0.45), rgb(0.92, 0.55, 0.1), rgb(0.55, 0.3, 0.85)]
+
+function drawBarChart(page: PDFPage, fonts: { regular: PDFFont; bold: PDFFont }, chart: ReportChart, currency: string, x: number, top: number, width: number, color: ReturnType<typeof rgb>) {
+  const entries = Object.entries(chart.data)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 10)
+  const max = Math.max(...entries.map(([, v]) => Math.abs(v)), 1)
+  const labelWidth = 120
+  const valueWidth = 70
+  const barArea = width - labelWidth - valueWidth
+  const barHeight = 12
+
+  page.drawText(pdfText(chart.title), { x, y: top, size: 11, font: fonts.bold })
+  entries.forEach(([label, value], index) => {
+    const y = top - 22 - index * (barHeight + 6)
+    page.drawText(fitText(label, fonts.regular, 8, labelWidth - 6), { x, y: y + 3, size: 8, font: fonts.regular })
+    page.drawRectangle({
+      x: x + labelWidth,
+      y,
+      width: Math.max(1, (Math.abs(value) / max) * barArea),
+      height: barHeight,
+      color,
+    })
+    page.drawText(pdfText(formatValue(value, chart.type || 'number', currency)), {
+      x: x + labelWidth + barArea + 4,
+      y: y + 3,
+      size: 8,
+      font: fonts.regular,
+    })
+  })
+
+  return 22 + entries.length * (barHeight + 6)
+}
+
+// Paginated landscape PDF: title and summary, bar charts, then the table with repeated headers
+async function renderPdf(report: Row): Promise<Uint8Array> {
+  const table = buildReportTable(report)
+  const groupings = applicableGroupings(report.reportType, report.parameters?.groupBy)
+  const sections = buildSections(report.reportType, table, groupings, !!report.parameters?.includeSubtotals)
+  const includeCharts = report.parameters?.includeCharts !== false
+
+  const doc = await PDFDocument.create()
+  doc.setTitle(table.title)
+  doc.setCreator('AgencyCRM')
+  const fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+  }
+
+  let page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let y = PAGE_HEIGHT - MARGIN
+
+  page.drawText(pdfText(table.title), { x: MARGIN, y, size: 18, font: fonts.bold })
+  y -= 18
+  page.drawText(pdfText(table.subtitle), { x: MARGIN, y, size: 9, font: fonts.regular, color: rgb(0.4, 0.4, 0.4) })
+  y -= 24
+
+  // Summary as a two-column key/value grid
+  table.summary.forEach(([label, value], index) => {
+    const column = index % 2
+    const x = MARGIN + column * ((PAGE_WIDTH - 2 * MARGIN) / 2)
+    page.drawText(fitText(label, fonts.regular, 9, 180), { x, y, size: 9, font: fonts.regular, color: rgb(0.4, 0.4, 0.4) })
+    page.drawText(fitText(value, fonts.bold, 9, 180), { x: x + 190, y, size: 9, font: fonts.bold })
+    if (column === 1 || index === table.summary.length - 1) y -= 14
+  })
+  y -= 16
+
+  if (includeCharts && table.charts.length > 0) {
+    const chartWidth = (PAGE_WIDTH - 2 * MARGIN - 30) / 2
+    for (let i = 0; i < table.charts.length; i += 2) {
+      const pair = table.charts.slice(i, i + 2)
+      const height = 22 + Math.min(10, Math.max(...pair.map((c) => Object.keys(c.data).length))) * 18
+      if (y - height < MARGIN + 20) {
+        page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+        y = PAGE_HEIGHT - MARGIN
+      }
+      pair.forEach((chart, j) => {
+        drawBarChart(page, fonts, chart, table.currency, MARGIN + j * (chartWidth + 30), y, chartWidth, CHART_COLORS[(i + j) % CHART_COLORS.length])
+      })
+      y -= height + 20
+    }
+  }
+
+  // Table
+  const tableWidth = PAGE_WIDTH - 2 * MARGIN
+  const weights = table.columns.map((c) => (c.type === 'text' ? 2 : 1))
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0) || 1
+  const widths = weights.map((w) => (w / totalWeight) * tableWidth)
+  const rowHeight = 14
+
+  const drawRow = (values: string[], options: { bold?: boolean; fill?: ReturnType<typeof rgb> } = {}) => {
+    if (y - rowHeight < MARGIN + 20) {
+      page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+      y = PAGE_HEIGHT - MARGIN
+      drawHeader()
+    }
+    if (options.fill) {
+      page.drawRectangle({ x: MARGIN, y: y - 4, width: tableWidth, height: rowHeight, color: options.fill })
+    }
+    let x = MARGIN
+    values.forEach((value, index) => {
+      const font = options.bold ? fonts.bold : fonts.regular
+      const fitted = fitText(value, font, 8, widths[index] - 4)
+      const alignRight = table.columns[index] && table.columns[index].type !== 'text' && table.columns[index].type !== 'date'
+      const textX = alignRight ? x + widths[index] - 4 - font.widthOfTextAtSize(fitted, 8) : x + 2
+      page.drawText(fitted, { x: textX, y, size: 8, font })
+      x += widths[index]
+    })
+    y -= rowHeight
+  }
+
+  const drawHeader = () => {
+    drawRow(table.columns.map((c) => c.label), { bold: true, fill: rgb(0.92, 0.94, 0.97) })
+  }
+
+  if (y - rowHeight * 3 < MARGIN + 20) {
+    page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    y = PAGE_HEIGHT - MARGIN
+  }
+
+  if (table.rows.length === 0) {
+    page.drawText('No data for the selected period.', { x: MARGIN, y, size: 10, font: fonts.regular })
+  } else {
+    drawHeader()
+    for (const section of sections) {
+      if (section.path.length > 0) {
+        y -= 4
+        drawRow([section.path.join(' / ')], { bold: true })
+      }
+      for (const row of section.rows) {
+        drawRow(table.columns.map((c) => formatValue(row[c.key], c.type, table.currency)))
+      }
+      const subtotal = section.subtotal
+      if (subtotal) {
+        drawRow(
+          table.columns.map((c, i) => (i === 0 ? 'Subtotal' : formatValue(subtotal[c.key], c.type, table.currency))),
+          { bold: true, fill: rgb(0.96, 0.96, 0.96) }
+        )
+      }
+    }
+  }
+
+  const pages = doc.getPages()
+  pages.forEach((p, index) => {
+    const label = `Page ${index + 1} of ${pages.length}`
+    p.drawText(label, {
+      x: PAGE_WIDTH - MARGIN - fonts.regular.widthOfTextAtSize(label, 8),
+      y: MARGIN / 2,
+      size: 8,
+      font: fonts.regular,
+      color: rgb(0.5, 0.5, 0.5),
+    })
+    p.drawText(fitText(table.title, fonts.regular, 8, 400), { x: MARGIN, y: MARGIN / 2, size: 8, font: fonts.regular, color: rgb(0.5, 0.5, 0.5) })
+  })
+
+  return doc.save()
+}
+
+// Render a generated custom report into a downloadable file
+export async function renderReport(report: Row, format: ReportExportFormat): Promise<RenderedReport> {
+  switch (format) {
+    case 'csv':
+      return { body: renderCsv(report), contentType: 'text/csv; charset=utf-8', fileName: fileNameFor(report, 'csv') }
+    case 'excel':
+      return {
+        body: renderXlsx(report),
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        fileName: fileNameFor(report, 'xlsx'),
+      }
+    case 'pdf':
+      return { body: await renderPdf(report), contentType: 'application/pdf', fileName: fileNameFor(report, 'pdf') }
+  }
+}
+
+export function reportFileName(report: Row, format: ReportExportFormat): string {
+  return fileNameFor(report, format === 'excel' ? 'xlsx' : format)
+}
@@ -0,0 +1,220 @@
+import { PrismaClient, Prisma, SavedReport } from '@prisma/client'
+import { prisma } from './prisma'
+import { customReportSchema, CustomReportDefinition, runSavedReport } from './custom-reports'
+import { renderReport, formatValue } from './report-export'
+import { MailAttachment, sendMail } from './mailer'
+import { getAgencyTimeZone, getZonedParts, zonedTimeToUtc } from './timezone'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+export type ReportFrequency = 'daily' | 'weekly' | 'monthly' | 'quarterly'
+
+// Without an explicit first run, reports go out at 08:00 on Mondays / the 1st of the month / quarter
+const DEFAULT_SEND_HOUR = 8
+const DEFAULT_WEEKDAY = 1
+const MAX_DUE_REPORTS_PER_RUN = 50
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+// First scheduled time strictly after `after`, following the wall-clock pattern of `anchor`
+// (time of day, weekday, day of month, month within the quarter) in the agency timezone.
+// Days past the end of a short month fall on its last day.
+export function computeNextRun(frequency: ReportFrequency, after: Date, timeZone: string, anchor?: Date | null): Date {
+  const local = getZonedParts(after, timeZone)
+  const anchorParts = anchor ? getZonedParts(anchor, timeZone) : null
+  const hour = anchorParts?.hour ?? DEFAULT_SEND_HOUR
+  const minute = anchorParts?.minute ?? 0
+
+  const at = (year: number, month: number, day: number) =>
+    zonedTimeToUtc({ year, month, day, hour, minute }, timeZone)
+
+  if (frequency === 'daily' || frequency === 'weekly') {
+    const weekday = anchorParts?.weekday ?? DEFAULT_WEEKDAY
+    let offset = frequency === 'weekly' ? (weekday - local.weekday + 7) % 7 : 0
+    let candidate = at(local.year, local.month, local.day + offset)
+    while (candidate <= after) {
+      offset += frequency === 'weekly' ? 7 : 1
+      candidate = at(local.year, local.month, local.day + offset)
+    }
+    return candidate
+  }
+
+  const anchorDay = anchorParts?.day ?? 1
+  const step = frequency === 'quarterly' ? 3 : 1
+  // Months are counted from year 0 so quarter alignment follows the anchor's month
+  const anchorMonth = anchorParts ? anchorParts.month - 1 : 0
+  let monthIndex = local.year * 12 + local.month - 1
+  if (step === 3) {
+    monthIndex -= (((monthIndex - anchorMonth) % 3) + 3) % 3
+  }
+
+  for (;;) {
+    const year = Math.floor(monthIndex / 12)
+    const month = (monthIndex % 12) + 1
+    const candidate = at(year, month, Math.min(anchorDay, daysInMonth(year, month)))
+    if (candidate > after) {
+      return candidate
+    }
+    monthIndex += step
+  }
+}
+
+function activeSchedule(definition: CustomReportDefinition) {
+  const schedule = definition.scheduleConfig
+  if (!schedule?.enabled || !schedule.frequency || !schedule.recipients?.length) {
+    return null
+  }
+  return { ...schedule, frequency: schedule.frequency, recipients: schedule.recipients }
+}
+
+// When a saved report should next be delivered, or null when it isn't scheduled.
+// A future `nextRun` in the schedule is used as-is and anchors the following runs.
+export async function nextRunForDefinition(definition: CustomReportDefinition, now: Date = new Date(), db: Db = prisma) {
+  const schedule = activeSchedule(definition)
+  if (!schedule) return null
+
+  const anchor = schedule.nextRun ? new Date(schedule.nextRun) : null
+  if (anchor && anchor > now) return anchor
+
+  return computeNextRun(schedule.frequency, now, await getAgencyTimeZone(db), anchor)
+}
+
+// Scheduled runs cover a rolling window: the saved date range's length, ending at the run time
+function rollingDateRange(definition: CustomReportDefinition, runAt: Date) {
+  const from = new Date(definition.parameters.dateRange.from)
+  const to = new Date(definition.parameters.dateRange.to)
+  const length = Math.max(to.getTime() - from.getTime(), 24 * 60 * 60 * 1000)
+  return {
+    from: new Date(runAt.getTime() - length).toISOString(),
+    to: runAt.toISOString(),
+  }
+}
+
+async function buildAttachment(reportData: any, format: CustomReportDefinition['format']): Promise<MailAttachment> {
+  if (format === 'json') {
+    return {
+      filename: `${reportData.reportType}-${formatValue(reportData.generatedAt, 'date')}.json`,
+      content: JSON.stringify(reportData, null, 2),
+      contentType: 'application/json',
+    }
+  }
+
+  const file = await renderReport(reportData, format)
+  return { filename: file.fileName, content: file.body, contentType: file.contentType }
+}
+
+// Run one scheduled report and email it; the outcome is stored as a ReportDelivery either way
+export async function deliverScheduledReport(report: SavedReport, scheduledFor: Date, db: Db = prisma) {
+  const definition = customReportSchema.parse(report.definition)
+  const schedule = activeSchedule(definition)
+  const recipients = schedule?.recipients || []
+  let runId: string | null = null
+  let fileName: string | null = null
+
+  try {
+    if (!schedule) {
+      throw new Error('Report is not scheduled')
+    }
+
+    const dateRange = rollingDateRange(definition, scheduledFor)
+    const { reportData, run } = await runSavedReport(report, null, { dateRange }, db)
+    runId = run.id
+
+    const attachment = await buildAttachment(reportData, definition.format)
+    fileName = attachment.filename
+
+    const period = `${formatValue(dateRange.from, 'date')} to ${formatValue(dateRange.to, 'date')}`
+    const { messageId } = await sendMail({
+      to: recipients,
+      subject: `${definition.name} - ${schedule.frequency} report`,
+      text: [
+        'Hello,',
+        '',
+        `Attached is the ${schedule.frequency} "${definition.name}" report for ${period}.`,
+        ...(definition.description ? ['', definition.description] : []),
+        '',
+        'You receive this email because you are on the recipient list of a scheduled report in AgencyCRM.',
+      ].join('\n'),
+      attachments: [attachment],
+    })
+
+    return await db.reportDelivery.create({
+      data: {
+        reportId: report.id,
+        runId,
+        scheduledFor,
+        recipients: recipients.join(', '),
+        format: definition.format,
+        fileName,
+        status: 'SENT',
+        messageId,
+      },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    console.error(`Scheduled report ${report.id} failed:`, error)
+
+    await db.notification.create({
+      data: {
+        userId: report.createdBy,
+        title: 'Scheduled report failed',
+        message: `"${definition.name}" could not be delivered: ${message}`,
+        type: 'ERROR',
+        actionUrl: '/reports',
+      },
+    })
+
+    return db.reportDelivery.create({
+      data: {
+        reportId: report.id,
+        runId,
+        scheduledFor,
+        recipients: recipients.join(', '),
+        format: definition.format,
+        fileName,
+        status: 'FAILED',
+        error: message,
+      },
+    })
+  }
+}
+
+// Deliver every report whose next run is due. Each report is claimed by moving its
+// nextRunAt forward first, so overlapping invocations never send the same run twice.
+// Missed runs are not replayed: a report that was due several times is sent once.
+export async function runDueReports(now: Date = new Date(), db: PrismaClient = prisma) {
+  const timeZone = await getAgencyTimeZone(db)
+  const dueReports = await db.savedReport.findMany({
+    where: { nextRunAt: { lte: now } },
+    orderBy: { nextRunAt: 'asc' },
+    take: MAX_DUE_REPORTS_PER_RUN,
+  })
+
+  const deliveries = []
+
+  for (const report of dueReports) {
+    const parsed = customReportSchema.safeParse(report.definition)
+    const schedule = parsed.success ? activeSchedule(parsed.data) : null
+    const anchor = schedule?.nextRun ? new Date(schedule.nextRun) : null
+    const nextRunAt = schedule ? computeNextRun(schedule.frequency, now, timeZone, anchor) : null
+
+    const claimed = await db.savedReport.updateMany({
+      where: { id: report.id, nextRunAt: report.nextRunAt },
+      data: { nextRunAt },
+    })
+    if (claimed.count === 0 || !schedule) {
+      continue
+    }
+
+    deliveries.push(await deliverScheduledReport(report, report.nextRunAt!, db))
+  }
+
+  return {
+    processed: deliveries.length,
+    sent: deliveries.filter((delivery) => delivery.status === 'SENT').length,
+    failed: deliveries.filter((delivery) => delivery.status === 'FAILED').length,
+    deliveries,
+  }
+}
@@ -0,0 +1,44 @@
+import { z } from 'zod'
+import { DOCUMENT_LANGUAGES } from './document-labels'
+import { currencyCodeSchema } from './currency'
+
+// Validation schema for lead data
+export const leadSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  email: z.string().email('Invalid email format'),
+  phone: z.string().optional(),
+  company: z.string().optional(),
+  industry: z.string().optional(),
+  companySize: z.number().int().min(0).optional(),
+  status: z.enum(['NEW', 'CONTACTED', 'QUALIFIED', 'PROPOSAL_SENT', 'NEGOTIATION', 'CONVERTED', 'LOST']).default('NEW'),
+  source: z.enum(['WEBSITE', 'SOCIAL', 'REFERRAL', 'EMAIL', 'COLD_CALL']).default('WEBSITE'),
+  value: z.number().min(0).optional(),
+  priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).default('MEDIUM'),
+  notes: z.string().optional(),
+  assignedToId: z.string().optional(),
+})
+
+// Validation schema for client data
+export const clientSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  email: z.string().email('Invalid email format'),
+  phone: z.string().optional(),
+  company: z.string().optional(),
+  status: z.enum(['ACTIVE', 'INACTIVE', 'PENDING', 'SUSPENDED']).default('ACTIVE'),
+  contractValue: z.number().min(0).optional(),
+  startDate: z.string().transform((str) => new Date(str)).optional(),
+  endDate: z.string().transform((str) => new Date(str)).optional(),
+  notes: z.string().optional(),
+  assignedToId: z.string().optional(),
+  language: z.enum(DOCUMENT_LANGUAGES).nullable().optional(),
+  currency: currencyCodeSchema.nullable().optional(),
+})
+
+// Validation schema for client contact data
+export const clientContactSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  email: z.string().email('Invalid email format').optional(),
+  phone: z.string().optional(),
+  position: z.string().optional(),
+  isPrimary: z.boolean().default(false),
+})
@@ -0,0 +1,147 @@
+import { Prisma, PrismaClient, TaxRateType } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { roundMoney } from './utils'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+// Types that never charge tax; reverse charge lines are accounted for by the customer
+const UNTAXED_TYPES: TaxRateType[] = ['ZERO_RATED', 'EXEMPT', 'REVERSE_CHARGE']
+
+const taxRateFields = {
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  rate: z.number().min(0).max(1, 'Tax rate must be between 0 and 1'),
+  type: z.nativeEnum(TaxRateType),
+  description: z.string().max(500).nullable().optional(),
+  isActive: z.boolean(),
+}
+
+function refineRate(data: { rate?: number; type?: TaxRateType }, ctx: z.RefinementCtx) {
+  if (data.type && UNTAXED_TYPES.includes(data.type) && data.rate !== undefined && data.rate !== 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['rate'],
+      message: 'Zero-rated, exempt and reverse charge rates must be 0',
+    })
+  }
+}
+
+// Validation schema for creating a tax rate
+export const taxRateSchema = z.object({
+  ...taxRateFields,
+  type: taxRateFields.type.default('STANDARD'),
+  isActive: taxRateFields.isActive.default(true),
+}).superRefine(refineRate)
+
+// Validation schema for updating a tax rate
+export const updateTaxRateSchema = z.object(taxRateFields).partial().superRefine(refineRate)
+
+export class TaxRateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TaxRateError'
+  }
+}
+
+export interface TaxedLine {
+  totalPrice: number
+  taxRate: number
+}
+
+export interface TaxGroup {
+  taxRate: number
+  net: number
+  tax: number
+}
+
+// Group lines by rate and round the tax once per rate, as it is shown on the invoice.
+// A discount is shared between the rates in proportion to their net amounts, in whole
+// cents, with the last rate taking the remainder.
+export function summarizeTaxByRate(lines: TaxedLine[], discountAmount = 0): TaxGroup[] {
+  const groups: TaxGroup[] = []
+  for (const line of lines) {
+    const group = groups.find((candidate) => candidate.taxRate === line.taxRate)
+    if (group) {
+      group.net += line.totalPrice
+    } else {
+      groups.push({ taxRate: line.taxRate, net: line.totalPrice, tax: 0 })
+    }
+  }
+
+  const subtotal = groups.reduce((sum, group) => sum + group.net, 0)
+  let discountLeft = discountAmount
+  groups.forEach((group, index) => {
+    const discount = index === groups.length - 1
+      ? discountLeft
+      : subtotal !== 0 ? roundMoney(discountAmount * group.net / subtotal) : 0
+    discountLeft = roundMoney(discountLeft - discount)
+    group.net = roundMoney(group.net - discount)
+    group.tax = roundMoney(group.net * group.taxRate)
+  })
+
+  return groups
+}
+
+export function sumTax(groups: TaxGroup[]) {
+  return roundMoney(groups.reduce((sum, group) => sum + group.tax, 0))
+}
+
+// Look up the named rates referenced by a set of line items. Unknown and inactive
+// rates are rejected so a line cannot pick up a rate that is no longer offered.
+export async function loadTaxRates(ids: (string | null | undefined)[], db: Db = prisma): Promise<Record<string, number>> {
+  const wanted = ids.filter((id, index): id is string => !!id && ids.indexOf(id) === index)
+  if (wanted.length === 0) {
+    return {}
+  }
+
+  const rates = await db.taxRate.findMany({
+    where: { id: { in: wanted } },
+    select: { id: true, name: true, rate: true, isActive: true },
+  })
+
+  const byId: Record<string, number> = {}
+  for (const rate of rates) {
+    if (!rate.isActive) {
+      throw new TaxRateError(`Tax rate "${rate.name}" is no longer active`)
+    }
+    byId[rate.id] = rate.rate
+  }
+
+  const missing = wanted.find((id) => byId[id] === undefined)
+  if (missing) {
+    throw new TaxRateError(`Tax rate ${missing} not found`)
+  }
+
+  return byId
+}
+
+export interface InvoiceItemInput {
+  description: string
+  quantity: number
+  unitPrice: number
+  taxRateId?: string | null
+}
+
+// Invoice lines and totals computed from the items; amounts in the request are never
+// used. Lines without a named rate are not taxed.
+export async function buildInvoiceItems(items: InvoiceItemInput[], db: Db = prisma) {
+  const rates = await loadTaxRates(items.map((item) => item.taxRateId), db)
+  const lines = items.map((item) => ({
+    description: item.description,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    totalPrice: roundMoney(item.quantity * item.unitPrice),
+    taxRateId: item.taxRateId || null,
+    taxRate: item.taxRateId ? rates[item.taxRateId] : 0,
+  }))
+
+  const amount = roundMoney(lines.reduce((sum, line) => sum + line.totalPrice, 0))
+  const taxAmount = sumTax(summarizeTaxByRate(lines))
+
+  return {
+    lines,
+    amount,
+    taxAmount,
+    totalAmount: roundMoney(amount + taxAmount),
+  }
+}
@@ -0,0 +1,86 @@
+import { PrismaClient, Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+export const TIMEZONE_SETTING_KEY = 'timezone'
+export const DEFAULT_TIMEZONE = 'UTC'
+
+export interface ZonedParts {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  second: number
+  weekday: number // 0 = Sunday
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// The agency's IANA timezone, used for anything that happens "at 8am" or "daily"
+export async function getAgencyTimeZone(db: Db = prisma): Promise<string> {
+  const setting = await db.systemSetting.findUnique({ where: { key: TIMEZONE_SETTING_KEY } })
+  const value = setting?.value?.trim()
+  return value && isValidTimeZone(value) ? value : DEFAULT_TIMEZONE
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// Wall-clock date and time of an instant in the given timezone
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    weekday: 'short',
+  }).formatToParts(date)
+  const get = (type: string) => parts.find((part) => part.type === type)?.value || '0'
+
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    second: Number(get('second')),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+  }
+}
+
+function offsetAt(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone)
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second)
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000
+}
+
+// Instant at which the clocks in `timeZone` show the given wall time. Out-of-range
+// values roll over (day 32 becomes the 1st of the next month), as with Date.UTC.
+// Times skipped by a DST change resolve to the moment just after the gap.
+export function zonedTimeToUtc(
+  parts: { year: number; month: number; day: number; hour?: number; minute?: number; second?: number },
+  timeZone: string
+): Date {
+  const wallTime = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour ?? 0, parts.minute ?? 0, parts.second ?? 0)
+  const firstGuess = wallTime - offsetAt(new Date(wallTime), timeZone)
+  const secondGuess = wallTime - offsetAt(new Date(firstGuess), timeZone)
+  return new Date(Math.max(firstGuess, secondGuess))
+}
+
+// Midnight at the start of the agency-local day containing `date`
+export function startOfZonedDay(date: Date, timeZone: string): Date {
+  const p = getZonedParts(date, timeZone)
+  return zonedTimeToUtc({ year: p.year, month: p.month, day: p.day }, timeZone)
+}
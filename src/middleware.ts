@@ -1,18 +1,45 @@
 import { withAuth } from 'next-auth/middleware'
+import type { NextRequestWithAuth } from 'next-auth/middleware'
 import { NextResponse } from 'next/server'
-import type { NextRequest } from 'next/server'
 
 // Check if authentication bypass is enabled
 const isAuthBypassEnabled = process.env.AUTH_BYPASS_ENABLED === 'true'
 
+// CLIENT users only get the portal. The /api/portal routes serve their data scoped to
+// their own client, notifications are per user and /api/public needs no session.
+const clientApiRoutes = ['/api/portal', '/api/notifications', '/api/public']
+// Agency API routes CLIENT users may also read. Each of them narrows its rows to the
+// caller's client through getClientScope (src/lib/client-portal.ts); every other agency
+// route, and every write, is refused. Add a route here only once it does the same.
+const clientReadableApiRoutes = [
+  /^\/api\/projects(\/[^/]+(\/resources)?)?$/,
+  /^\/api\/invoices(\/(?!(reminders|numbering)(\/|$))[^/]+(\/payments|\/pdf)?)?$/,
+  /^\/api\/proposals(\/[^/]+(\/pdf)?)?$/,
+  /^\/api\/tasks(\/[^/]+)?$/,
+]
+const clientPageRoutes = ['/portal', '/auth', '/shared']
+
 export default withAuth(
-  function middleware(req: NextRequest) {
+  function middleware(req: NextRequestWithAuth) {
     // If bypass is enabled, allow all requests
     if (isAuthBypassEnabled) {
       console.warn('🚨 AUTH BYPASS MODE ENABLED - DEVELOPMENT ONLY!')
       return NextResponse.next()
     }
 
+    const { pathname } = req.nextUrl
+
+    if (req.nextauth.token?.role === 'CLIENT') {
+      if (pathname.startsWith('/api/')) {
+        const readable = req.method === 'GET' && clientReadableApiRoutes.some(route => route.test(pathname))
+        if (!readable && !clientApiRoutes.some(route => pathname.startsWith(route))) {
+          return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+        }
+      } else if (!clientPageRoutes.some(route => pathname.startsWith(route))) {
+        return NextResponse.redirect(new URL('/portal', req.url))
+      }
+    }
+
     // Normal authentication flow
     return NextResponse.next()
   },
@@ -32,6 +59,9 @@ export default withAuth(
           '/auth/signin',
           '/auth/signup',
           '/api/auth',
+          '/api/public',
+          '/api/jobs',
+          '/shared',
           '/_next',
           '/favicon.ico',
         ]
@@ -136,7 +136,7 @@ export type ProposalWithRelations = Prisma.ProposalGetPayload<{
     client: true
     project: true
     creator: true
-    invoice: true
+    invoices: true
   }
 }>
 
@@ -247,6 +247,8 @@ export interface ClientFormData {
   phone?: string
   address?: string
   website?: string
+  language?: string | null
+  currency?: string | null
   healthScore?: number
   accountManagerId?: string
 }
@@ -317,7 +319,6 @@ export interface InvoiceFormData {
   clientId: string
   projectId?: string
   proposalId?: string
-  invoiceNumber: string
   amount: number
   taxAmount?: number
   issueDate: Date